@@ -0,0 +1,185 @@
+#!/usr/bin/env node
+// Local relay for testing the visualizer's control surface without hardware.
+//
+//   npm run relay -- [--ws 8080] [--udp 9000]
+//
+// The visualizer connects to ws://localhost:8080 from the "MIDI & OSC" panel.
+// Everything the relay receives is passed on to every connected page:
+//   - lines typed into this terminal, e.g. "/effects/connectionDistance 240"
+//   - binary OSC packets sent over UDP to the --udp port, e.g. from TouchOSC
+//   - messages from other WebSocket clients, so scripts can connect directly
+//
+// It has no dependencies and only implements as much of the WebSocket
+// protocol (RFC 6455) as a browser talking to it needs.
+
+import { createHash } from 'node:crypto';
+import { createSocket } from 'node:dgram';
+import { createServer } from 'node:http';
+import { createInterface } from 'node:readline';
+
+const readOption = (name, fallback) => {
+    const index = process.argv.indexOf(`--${name}`);
+    const value = index === -1 ? fallback : Number(process.argv[index + 1]);
+    if (!Number.isInteger(value) || value <= 0 || value > 65535) {
+        console.error(`--${name} must be a port number.`);
+        process.exit(1);
+    }
+    return value;
+};
+
+const WS_PORT = readOption('ws', 8080);
+const UDP_PORT = readOption('udp', 9000);
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Frames from the relay are never masked or fragmented
+const encodeFrame = (opcode, payload) => {
+    const length = payload.length;
+    const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    if (length < 126) {
+        header[1] = length;
+    } else if (length < 65536) {
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+/** Pull complete frames off the front of the buffer. Returns the frames and the unread rest. */
+const decodeFrames = (buffer) => {
+    const frames = [];
+    let offset = 0;
+    while (buffer.length - offset >= 2) {
+        const fin = (buffer[offset] & 0x80) !== 0;
+        const opcode = buffer[offset] & 0x0f;
+        const masked = (buffer[offset + 1] & 0x80) !== 0;
+        let length = buffer[offset + 1] & 0x7f;
+        let cursor = offset + 2;
+        if (length === 126) {
+            if (buffer.length < cursor + 2) break;
+            length = buffer.readUInt16BE(cursor);
+            cursor += 2;
+        } else if (length === 127) {
+            if (buffer.length < cursor + 8) break;
+            length = Number(buffer.readBigUInt64BE(cursor));
+            cursor += 8;
+        }
+        const maskLength = masked ? 4 : 0;
+        if (buffer.length < cursor + maskLength + length) break;
+        const mask = buffer.subarray(cursor, cursor + maskLength);
+        const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+        if (masked) {
+            for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+        }
+        frames.push({ fin, opcode, payload });
+        offset = cursor + maskLength + length;
+    }
+    return { frames, rest: buffer.subarray(offset) };
+};
+
+const clients = new Set();
+
+const broadcast = (opcode, payload, except = null) => {
+    const frame = encodeFrame(opcode, payload);
+    for (const client of clients) {
+        if (client !== except) client.write(frame);
+    }
+};
+
+const server = createServer((request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('This relay only accepts WebSocket connections.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write(
+        'HTTP/1.1 101 Switching Protocols\r\n' +
+        'Upgrade: websocket\r\n' +
+        'Connection: Upgrade\r\n' +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    clients.add(socket);
+    console.log(`Client connected (${clients.size} total)`);
+
+    let pending = Buffer.alloc(0);
+    let fragments = null; // { opcode, parts } while a fragmented message arrives
+    socket.on('data', (chunk) => {
+        const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+        pending = rest;
+        for (const { fin, opcode, payload } of frames) {
+            if (opcode === OPCODE_CLOSE) {
+                socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+                return;
+            }
+            if (opcode === OPCODE_PING) {
+                socket.write(encodeFrame(OPCODE_PONG, payload));
+                continue;
+            }
+            if (opcode === OPCODE_TEXT || opcode === OPCODE_BINARY) {
+                fragments = { opcode, parts: [payload] };
+            } else if (opcode === OPCODE_CONTINUATION && fragments) {
+                fragments.parts.push(payload);
+            } else {
+                continue;
+            }
+            if (fin) {
+                broadcast(fragments.opcode, Buffer.concat(fragments.parts), socket);
+                fragments = null;
+            }
+        }
+    });
+    const remove = () => {
+        if (clients.delete(socket)) console.log(`Client disconnected (${clients.size} total)`);
+    };
+    socket.on('close', remove);
+    socket.on('error', remove);
+});
+
+server.on('error', (error) => {
+    console.error(`WebSocket server: ${error.message}`);
+    process.exit(1);
+});
+
+server.listen(WS_PORT, () => {
+    console.log(`WebSocket relay on ws://localhost:${WS_PORT}`);
+});
+
+const udp = createSocket('udp4');
+udp.on('message', (packet) => broadcast(OPCODE_BINARY, packet));
+udp.on('error', (error) => {
+    console.error(`OSC over UDP: ${error.message}`);
+    udp.close();
+});
+udp.bind(UDP_PORT, () => {
+    console.log(`Forwarding OSC packets sent to udp://localhost:${UDP_PORT}`);
+    console.log('Type messages like "/effects/connectionDistance 240" or "/burst" and press Enter.');
+});
+
+const input = createInterface({ input: process.stdin });
+input.on('line', (line) => {
+    if (!line.trim()) return;
+    broadcast(OPCODE_TEXT, Buffer.from(line));
+    console.log(`→ ${clients.size} client${clients.size === 1 ? '' : 's'}`);
+});
+// Ctrl+D ends the relay as well as Ctrl+C
+input.on('close', () => {
+    for (const client of clients) client.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    udp.close();
+    server.close();
+});
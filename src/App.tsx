@@ -1,12 +1,12 @@
 import './App.css'
-import AudioVisualizer from './components/Visualizer'
+import ParticleVisualizer from './components/Visualizer'
 
 function App() {
 
 
     return (
         <div className="app">
-            <AudioVisualizer />
+            <ParticleVisualizer syncUrl />
         </div>
     )
 }
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { AudioInputError, toAudioInputError } from './audioEngine';
+
+describe('toAudioInputError', () => {
+    it.each([
+        ['NotAllowedError', 'permission-denied'],
+        ['SecurityError', 'permission-denied'],
+        ['NotFoundError', 'no-device'],
+        ['OverconstrainedError', 'no-device'],
+        ['NotReadableError', 'device-busy'],
+        ['AbortError', 'device-busy'],
+    ])('reads a %s as %s', (name, reason) => {
+        const error = toAudioInputError(new DOMException('Failed', name));
+
+        expect(error).toBeInstanceOf(AudioInputError);
+        expect(error.name).toBe('AudioInputError');
+        expect(error.reason).toBe(reason);
+    });
+
+    it('explains how to allow a denied microphone', () => {
+        expect(toAudioInputError(new DOMException('Denied', 'NotAllowedError')).message).toContain('site settings');
+    });
+
+    it('recognises the missing device error Tone.js throws itself', () => {
+        expect(toAudioInputError(new Error('No matching device abc')).reason).toBe('no-device');
+    });
+
+    it('keeps the message of anything else', () => {
+        const error = toAudioInputError(new Error('Something broke'));
+        expect(error.reason).toBe('unknown');
+        expect(error.message).toBe('Something broke');
+        expect(toAudioInputError('not an error').message).toBe('The audio input could not be opened.');
+    });
+});
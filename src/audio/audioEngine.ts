@@ -0,0 +1,229 @@
+import * as Tone from 'tone';
+import { computeBandEnergies, SILENT_BANDS, type BandEnergies } from './bands';
+
+export type AudioInputErrorReason = 'permission-denied' | 'no-device' | 'device-busy' | 'unsupported' | 'unknown';
+
+export class AudioInputError extends Error {
+    readonly reason: AudioInputErrorReason;
+
+    constructor(reason: AudioInputErrorReason, message: string) {
+        super(message);
+        this.name = 'AudioInputError';
+        this.reason = reason;
+    }
+}
+
+export interface AudioInputDevice {
+    deviceId: string;
+    label: string;
+}
+
+/** Turn a getUserMedia failure into an error with a message for the user. */
+export const toAudioInputError = (error: unknown): AudioInputError => {
+    const name = error instanceof Error ? error.name : '';
+    const message = error instanceof Error ? error.message : '';
+    if (name === 'NotAllowedError' || name === 'SecurityError') {
+        return new AudioInputError('permission-denied', 'Microphone access was denied. Allow it in your browser\'s site settings and try again.');
+    }
+    if (name === 'NotFoundError' || name === 'OverconstrainedError' || message.includes('No matching device')) {
+        return new AudioInputError('no-device', 'No audio input device was found.');
+    }
+    if (name === 'NotReadableError' || name === 'AbortError') {
+        return new AudioInputError('device-busy', 'The audio input is in use by another application or could not be opened.');
+    }
+    return new AudioInputError('unknown', message || 'The audio input could not be opened.');
+};
+
+/**
+ * Plays a decoded audio file or listens to a live input through Tone.js and
+ * exposes per-frame band energies. The analyser is tapped before the volume
+ * stage, so turning the volume down does not flatten the visuals, and live
+ * input only feeds the analyser so it never reaches the speakers.
+ */
+export class AudioEngine {
+    private readonly analysisBus: Tone.Gain;
+    private readonly analyser: Tone.Analyser;
+    private readonly waveform: Tone.Analyser;
+    private readonly output: Tone.Volume;
+    private readonly inputGain: Tone.Gain;
+    private readonly recordingBus: Tone.Gain;
+    private recordingDestination: MediaStreamAudioDestinationNode | null = null;
+    private player: Tone.Player | null = null;
+    private microphone: Tone.UserMedia | null = null;
+    private startedAt = 0;
+    private offset = 0;
+    private playing = false;
+
+    onEnded: (() => void) | null = null;
+
+    constructor() {
+        this.analyser = new Tone.Analyser('fft', 1024);
+        this.analyser.smoothing = 0.8;
+        this.waveform = new Tone.Analyser('waveform', 1024);
+        this.analysisBus = new Tone.Gain(1).fan(this.analyser, this.waveform);
+        this.output = new Tone.Volume(0).toDestination();
+        this.inputGain = new Tone.Gain(1).connect(this.analysisBus);
+        this.recordingBus = new Tone.Gain(1);
+    }
+
+    static async listInputDevices(): Promise<AudioInputDevice[]> {
+        if (!Tone.UserMedia.supported) return [];
+        const devices = await Tone.UserMedia.enumerateDevices();
+        return devices.map((device, index) => ({
+            deviceId: device.deviceId,
+            // Labels stay empty until permission has been granted
+            label: device.label || `Input ${index + 1}`,
+        }));
+    }
+
+    async openMicrophone(deviceId?: string) {
+        if (!Tone.UserMedia.supported) {
+            throw new AudioInputError('unsupported', 'This browser does not support live audio input.');
+        }
+        await Tone.start();
+        this.closeMicrophone();
+
+        const microphone = new Tone.UserMedia();
+        try {
+            await microphone.open(deviceId);
+        } catch (error) {
+            microphone.dispose();
+            throw toAudioInputError(error);
+        }
+        microphone.connect(this.inputGain);
+        this.microphone = microphone;
+        return microphone.deviceId;
+    }
+
+    closeMicrophone() {
+        if (!this.microphone) return;
+        this.microphone.dispose();
+        this.microphone = null;
+    }
+
+    get isMicrophoneOpen() {
+        return this.microphone !== null;
+    }
+
+    setInputGain(gain: number) {
+        this.inputGain.gain.value = gain;
+    }
+
+    async loadFile(file: File): Promise<number> {
+        // The context can only be resumed from a user gesture, which file selection is
+        await Tone.start();
+        const data = await file.arrayBuffer();
+        const buffer = await Tone.getContext().decodeAudioData(data);
+
+        this.unload();
+        const player = new Tone.Player(buffer);
+        player.connect(this.analysisBus);
+        player.connect(this.output);
+        player.connect(this.recordingBus);
+        player.onstop = () => {
+            // onstop also fires for pause and seek; only report natural ends
+            if (this.playing && this.getPosition() >= this.getDuration() - 0.05) {
+                this.playing = false;
+                this.offset = 0;
+                this.onEnded?.();
+            }
+        };
+        this.player = player;
+        return buffer.duration;
+    }
+
+    unload() {
+        if (!this.player) return;
+        this.playing = false;
+        this.player.dispose();
+        this.player = null;
+        this.offset = 0;
+    }
+
+    get isLoaded() {
+        return this.player !== null;
+    }
+
+    get isPlaying() {
+        return this.playing;
+    }
+
+    async play() {
+        if (!this.player || this.playing) return;
+        await Tone.start();
+        this.startedAt = Tone.now();
+        this.player.start(this.startedAt, this.offset);
+        this.playing = true;
+    }
+
+    pause() {
+        if (!this.player || !this.playing) return;
+        this.offset = this.getPosition();
+        this.playing = false;
+        this.player.stop();
+    }
+
+    seek(seconds: number) {
+        if (!this.player) return;
+        const position = Math.min(Math.max(0, seconds), this.getDuration());
+        if (this.playing) {
+            this.playing = false;
+            this.player.stop();
+            this.offset = position;
+            this.startedAt = Tone.now();
+            this.player.start(this.startedAt, position);
+            this.playing = true;
+        } else {
+            this.offset = position;
+        }
+    }
+
+    setVolume(gain: number) {
+        this.output.volume.value = gain <= 0 ? -Infinity : Tone.gainToDb(gain);
+    }
+
+    getDuration() {
+        return this.player?.buffer.duration ?? 0;
+    }
+
+    getPosition() {
+        if (!this.player) return 0;
+        if (!this.playing) return this.offset;
+        return Math.min(this.getDuration(), this.offset + Tone.now() - this.startedAt);
+    }
+
+    getBands(): BandEnergies {
+        if (!this.playing && !this.microphone) return SILENT_BANDS;
+        const spectrum = this.analyser.getValue() as Float32Array;
+        return computeBandEnergies(spectrum, Tone.getContext().sampleRate);
+    }
+
+    /** Raw time-domain samples for onset detection, or null when nothing is playing. */
+    getWaveform(): Float32Array | null {
+        if (!this.playing && !this.microphone) return null;
+        return this.waveform.getValue() as Float32Array;
+    }
+
+    /**
+     * Live stream of the loaded track for recording. It is tapped before the
+     * volume stage, so recordings keep full level even when muted.
+     */
+    getRecordingStream(): MediaStream {
+        if (!this.recordingDestination) {
+            this.recordingDestination = Tone.getContext().createMediaStreamDestination();
+            this.recordingBus.connect(this.recordingDestination);
+        }
+        return this.recordingDestination.stream;
+    }
+
+    dispose() {
+        this.unload();
+        this.closeMicrophone();
+        this.recordingBus.dispose();
+        this.inputGain.dispose();
+        this.analysisBus.dispose();
+        this.analyser.dispose();
+        this.waveform.dispose();
+        this.output.dispose();
+    }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { computeBandEnergies, rootMeanSquare, SILENT_BANDS } from './bands';
+
+const SAMPLE_RATE = 48000;
+const BIN_COUNT = 1024;
+const BIN_WIDTH = SAMPLE_RATE / (BIN_COUNT * 2);
+
+// An analyser frame in decibels, silent except for the given range
+const spectrumWith = (low: number, high: number, db: number) => {
+    const spectrum = new Float32Array(BIN_COUNT).fill(-Infinity);
+    for (let i = Math.floor(low / BIN_WIDTH); i < Math.ceil(high / BIN_WIDTH); i++) spectrum[i] = db;
+    return spectrum;
+};
+
+describe('computeBandEnergies', () => {
+    it('reads silence as zero', () => {
+        expect(computeBandEnergies(new Float32Array(BIN_COUNT).fill(-Infinity), SAMPLE_RATE)).toEqual(SILENT_BANDS);
+        expect(computeBandEnergies(new Float32Array(0), SAMPLE_RATE)).toEqual(SILENT_BANDS);
+    });
+
+    it('puts energy in the band it falls in', () => {
+        const bands = computeBandEnergies(spectrumWith(40, 200, -30), SAMPLE_RATE);
+
+        expect(bands.bass).toBeGreaterThan(0.5);
+        expect(bands.mid).toBe(0);
+        expect(bands.treble).toBe(0);
+        expect(bands.level).toBeGreaterThan(0);
+        expect(bands.level).toBeLessThan(0.1);
+    });
+
+    it('maps -100 to -30 dB onto 0-1 and clamps outside it', () => {
+        const level = (db: number) => computeBandEnergies(new Float32Array(BIN_COUNT).fill(db), SAMPLE_RATE);
+
+        expect(level(-65)).toEqual({ bass: 0.5, mid: 0.5, treble: 0.5, level: 0.5 });
+        expect(level(-120)).toEqual(SILENT_BANDS);
+        expect(level(0)).toEqual({ bass: 1, mid: 1, treble: 1, level: 1 });
+    });
+});
+
+describe('rootMeanSquare', () => {
+    it('measures the level of a waveform', () => {
+        expect(rootMeanSquare(new Float32Array(64).fill(-0.5))).toBe(0.5);
+        expect(rootMeanSquare(Float32Array.from({ length: 64 }, (_, i) => Math.sin((i / 64) * 2 * Math.PI)))).toBeCloseTo(Math.SQRT1_2);
+        expect(rootMeanSquare(new Float32Array(0))).toBe(0);
+    });
+});
@@ -0,0 +1,61 @@
+export interface BandEnergies {
+    bass: number;
+    mid: number;
+    treble: number;
+    level: number;
+}
+
+export const SILENT_BANDS: BandEnergies = { bass: 0, mid: 0, treble: 0, level: 0 };
+
+/** Root mean square of time-domain samples, 0 for a silent or empty frame. */
+export const rootMeanSquare = (samples: ArrayLike<number>) => {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    return samples.length ? Math.sqrt(sum / samples.length) : 0;
+};
+
+// Frequency ranges (Hz) for each band
+export const BAND_RANGES = {
+    bass: [20, 250],
+    mid: [250, 4000],
+    treble: [4000, 16000],
+} as const;
+
+// Decibel window mapped onto 0-1 energy
+const MIN_DB = -100;
+const MAX_DB = -30;
+
+const normalizeDb = (db: number) => {
+    if (!Number.isFinite(db)) return 0;
+    return Math.min(1, Math.max(0, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+};
+
+/**
+ * Average an FFT frame (in decibels, as returned by an analyser in 'fft' mode)
+ * into normalized 0-1 energies for the bass, mid and treble bands.
+ */
+export const computeBandEnergies = (spectrum: Float32Array, sampleRate: number): BandEnergies => {
+    if (!spectrum.length) return SILENT_BANDS;
+
+    // Each bin spans sampleRate / fftSize Hz, and fftSize is twice the bin count
+    const binWidth = sampleRate / (spectrum.length * 2);
+
+    const average = (low: number, high: number) => {
+        const start = Math.max(0, Math.floor(low / binWidth));
+        const end = Math.min(spectrum.length, Math.ceil(high / binWidth));
+        if (end <= start) return 0;
+
+        let sum = 0;
+        for (let i = start; i < end; i++) {
+            sum += normalizeDb(spectrum[i]);
+        }
+        return sum / (end - start);
+    };
+
+    return {
+        bass: average(BAND_RANGES.bass[0], BAND_RANGES.bass[1]),
+        mid: average(BAND_RANGES.mid[0], BAND_RANGES.mid[1]),
+        treble: average(BAND_RANGES.treble[0], BAND_RANGES.treble[1]),
+        level: average(0, sampleRate / 2),
+    };
+};
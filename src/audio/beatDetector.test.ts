@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { BeatDetector, estimateBpm, type BeatEvent } from './beatDetector';
+
+const SAMPLE_RATE = 44100;
+
+// Analyser-sized frames, about 43 per second
+const FRAME_SIZE = 1024;
+const FRAME_TIME = FRAME_SIZE / SAMPLE_RATE;
+
+// Deterministic noise in -1..1
+const createNoise = (seed = 1) => {
+    let state = seed;
+    return () => {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        return state / 1073741824 - 1;
+    };
+};
+
+// A 30 ms decaying noise click at each time, over quiet background noise
+const clickTrack = (clickTimes: number[], seconds: number, background = 0.01) => {
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    const noise = createNoise();
+    for (let i = 0; i < samples.length; i++) samples[i] = noise() * background;
+    const clickLength = Math.round(0.03 * SAMPLE_RATE);
+    for (const time of clickTimes) {
+        const start = Math.round(time * SAMPLE_RATE);
+        for (let i = 0; i < clickLength && start + i < samples.length; i++) {
+            samples[start + i] += noise() * 0.8 * (1 - i / clickLength);
+        }
+    }
+    return samples;
+};
+
+const beatTimes = (bpm: number, seconds: number) =>
+    Array.from({ length: Math.floor((seconds * bpm) / 60) }, (_, beat) => 0.5 + (beat * 60) / bpm).filter(time => time < seconds);
+
+// Each event carries the start time of its frame, and a click that starts
+// near the end of a frame may only cross the threshold in the next one
+const expectOnsets = (events: BeatEvent[], clickTimes: number[]) => {
+    expect(events).toHaveLength(clickTimes.length);
+    events.forEach((event, i) => expect(Math.abs(event.time - clickTimes[i])).toBeLessThan(FRAME_TIME));
+};
+
+// Feed the track frame by frame, as the live analyser does
+const detect = (samples: Float32Array, detector = new BeatDetector()) => {
+    const events: BeatEvent[] = [];
+    for (let start = 0; start + FRAME_SIZE <= samples.length; start += FRAME_SIZE) {
+        const event = detector.process(samples.subarray(start, start + FRAME_SIZE), start / SAMPLE_RATE);
+        if (event) events.push(event);
+    }
+    return events;
+};
+
+describe('BeatDetector', () => {
+    it.each([90, 120, 174])('finds every click and the tempo of a %i BPM click track', (bpm) => {
+        const clicks = beatTimes(bpm, 10);
+        const events = detect(clickTrack(clicks, 10));
+
+        expectOnsets(events, clicks);
+        events.forEach((event, i) => {
+            expect(event.index).toBe(i);
+            expect(event.isDownbeat).toBe(i % 4 === 0);
+        });
+        expect(Math.abs(events[events.length - 1].bpm! - bpm)).toBeLessThan(1);
+    });
+
+    it('does not trigger on silence', () => {
+        expect(detect(new Float32Array(5 * SAMPLE_RATE))).toEqual([]);
+    });
+
+    it('does not trigger on steady noise or a steady tone', () => {
+        const noise = createNoise(7);
+        const loudNoise = Float32Array.from({ length: 5 * SAMPLE_RATE }, () => noise() * 0.5);
+        expect(detect(loudNoise)).toEqual([]);
+
+        const tone = Float32Array.from({ length: 5 * SAMPLE_RATE }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 220 * i) / SAMPLE_RATE));
+        expect(detect(tone)).toEqual([]);
+    });
+
+    it('adapts its threshold to the level of the music', () => {
+        // The same clicks over background noise that is ten times louder
+        const clicks = beatTimes(120, 6);
+        expectOnsets(detect(clickTrack(clicks, 6, 0.1)), clicks);
+    });
+
+    it('ignores onsets inside the refractory period', () => {
+        // A flam: a second click 100 ms after each beat
+        const clicks = beatTimes(60, 6);
+        expectOnsets(detect(clickTrack(clicks.flatMap(time => [time, time + 0.1]), 6)), clicks);
+    });
+
+    it('starts over after a reset', () => {
+        const detector = new BeatDetector();
+        detect(clickTrack(beatTimes(120, 4), 4), detector);
+        expect(detector.bpm).not.toBeNull();
+
+        detector.reset();
+        expect(detector.bpm).toBeNull();
+        expect(detect(clickTrack(beatTimes(120, 4), 4), detector)[0]).toMatchObject({ index: 0, bpm: null });
+    });
+});
+
+describe('estimateBpm', () => {
+    it('needs two intervals', () => {
+        expect(estimateBpm([])).toBeNull();
+        expect(estimateBpm([0.5])).toBeNull();
+        expect(estimateBpm([0.5, 0.5])).toBe(120);
+    });
+
+    it('averages intervals quantized to frames', () => {
+        // 174 BPM lands on alternating frame counts
+        expect(estimateBpm([14 * FRAME_TIME, 15 * FRAME_TIME, 15 * FRAME_TIME, 14 * FRAME_TIME])).toBeCloseTo(60 / (14.5 * FRAME_TIME), 0);
+    });
+
+    it('ignores a missed beat', () => {
+        expect(estimateBpm([0.5, 0.5, 1, 0.5, 0.5])).toBe(120);
+    });
+
+    it('folds half and double time into the musical range', () => {
+        expect(estimateBpm([0.25, 0.25, 0.25])).toBe(120); // 240 BPM
+        expect(estimateBpm([1.2, 1.2, 1.2])).toBe(100); // 50 BPM
+    });
+});
@@ -0,0 +1,160 @@
+export interface BeatDetectorOptions {
+    sensitivity: number; // 0-1, higher detects quieter onsets
+    historySeconds: number; // Window used for the adaptive threshold
+    minInterval: number; // Seconds to ignore after a beat
+    beatsPerBar: number; // Used to flag downbeats
+    noiseFloor: number; // Mean-square energy below which nothing counts as a beat
+}
+
+export interface BeatEvent {
+    time: number;
+    strength: number; // How far the onset exceeded the threshold, 0-1
+    index: number; // Beats since the last reset
+    isDownbeat: boolean;
+    bpm: number | null;
+}
+
+const DEFAULT_OPTIONS: BeatDetectorOptions = {
+    sensitivity: 0.5,
+    historySeconds: 1,
+    minInterval: 0.25,
+    beatsPerBar: 4,
+    noiseFloor: 1e-4,
+};
+
+// Intervals kept for the tempo estimate
+const MAX_INTERVALS = 16;
+
+// Tempo estimates are folded into this range to avoid half/double-time readings
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+
+/**
+ * Energy-based onset detector. Feed it consecutive time-domain frames (e.g. an
+ * analyser in 'waveform' mode) with their timestamps; it compares each frame's
+ * energy against an adaptive threshold built from the recent history and
+ * reports beats with a running tempo estimate. It has no audio or DOM
+ * dependencies so it can run against synthetic buffers.
+ */
+export class BeatDetector {
+    private options: BeatDetectorOptions;
+    private history: { time: number; energy: number }[] = [];
+    private intervals: number[] = [];
+    private lastBeatTime = -Infinity;
+    private previousEnergy = 0;
+    private beatCount = 0;
+    private tempo: number | null = null;
+
+    constructor(options: Partial<BeatDetectorOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    get bpm() {
+        return this.tempo;
+    }
+
+    setOptions(options: Partial<BeatDetectorOptions>) {
+        this.options = { ...this.options, ...options };
+    }
+
+    reset() {
+        this.history = [];
+        this.intervals = [];
+        this.lastBeatTime = -Infinity;
+        this.previousEnergy = 0;
+        this.beatCount = 0;
+        this.tempo = null;
+    }
+
+    process(samples: ArrayLike<number>, time: number): BeatEvent | null {
+        const energy = meanSquare(samples);
+        const { historySeconds, sensitivity, minInterval, noiseFloor, beatsPerBar } = this.options;
+
+        // Drop frames that fell out of the history window
+        while (this.history.length && this.history[0].time < time - historySeconds) {
+            this.history.shift();
+        }
+
+        let event: BeatEvent | null = null;
+        const rising = energy > this.previousEnergy;
+
+        // Wait for a few frames of context before trusting the threshold
+        if (this.history.length >= 4 && rising && energy > noiseFloor && time - this.lastBeatTime >= minInterval) {
+            const { mean, deviation } = statistics(this.history);
+            // Sensitivity 0 needs 3 deviations above the mean, 1 needs half a deviation
+            const k = 3 - 2.5 * Math.min(1, Math.max(0, sensitivity));
+            const threshold = Math.max(mean + k * deviation, mean * 1.3);
+
+            if (energy > threshold) {
+                this.registerInterval(time);
+                event = {
+                    time,
+                    strength: Math.min(1, (energy - threshold) / (threshold || 1)),
+                    index: this.beatCount,
+                    isDownbeat: this.beatCount % beatsPerBar === 0,
+                    bpm: this.tempo,
+                };
+                this.beatCount++;
+                this.lastBeatTime = time;
+            }
+        }
+
+        this.history.push({ time, energy });
+        this.previousEnergy = energy;
+        return event;
+    }
+
+    private registerInterval(time: number) {
+        if (!Number.isFinite(this.lastBeatTime)) return;
+        const interval = time - this.lastBeatTime;
+        // Long gaps are breaks in the music, not beat intervals
+        if (interval > 60 / (MIN_BPM / 2)) return;
+
+        this.intervals.push(interval);
+        if (this.intervals.length > MAX_INTERVALS) this.intervals.shift();
+        this.tempo = estimateBpm(this.intervals);
+    }
+}
+
+const meanSquare = (samples: ArrayLike<number>) => {
+    if (!samples.length) return 0;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return sum / samples.length;
+};
+
+const statistics = (history: { energy: number }[]) => {
+    let mean = 0;
+    for (const entry of history) mean += entry.energy;
+    mean /= history.length;
+
+    let variance = 0;
+    for (const entry of history) variance += (entry.energy - mean) ** 2;
+    variance /= history.length;
+
+    return { mean, deviation: Math.sqrt(variance) };
+};
+
+/**
+ * Estimate tempo from beat intervals (seconds), folded into a musical range.
+ * Intervals near the median are averaged so frame quantization and the odd
+ * missed beat do not skew the result. Returns null until there are enough
+ * intervals.
+ */
+export const estimateBpm = (intervals: number[]): number | null => {
+    if (intervals.length < 2) return null;
+    const sorted = [...intervals].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    if (median <= 0) return null;
+
+    const typical = sorted.filter(interval => Math.abs(interval - median) <= median * 0.15);
+    const average = typical.reduce((sum, interval) => sum + interval, 0) / typical.length;
+
+    let bpm = 60 / average;
+    while (bpm < MIN_BPM) bpm *= 2;
+    while (bpm > MAX_BPM) bpm /= 2;
+    return Math.round(bpm * 10) / 10;
+};
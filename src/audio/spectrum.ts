@@ -0,0 +1,106 @@
+// Twiddle factors per transform size, cos and sin of -2πk/n for k < n/2
+const twiddleCache = new Map<number, { cos: Float64Array; sin: Float64Array }>();
+
+const getTwiddles = (n: number) => {
+    let twiddles = twiddleCache.get(n);
+    if (!twiddles) {
+        const cos = new Float64Array(n / 2);
+        const sin = new Float64Array(n / 2);
+        for (let k = 0; k < n / 2; k++) {
+            cos[k] = Math.cos((-2 * Math.PI * k) / n);
+            sin[k] = Math.sin((-2 * Math.PI * k) / n);
+        }
+        twiddles = { cos, sin };
+        twiddleCache.set(n, twiddles);
+    }
+    return twiddles;
+};
+
+/** In-place iterative radix-2 FFT. Both arrays must have the same power-of-two length. */
+export const fft = (real: Float32Array, imag: Float32Array) => {
+    const n = real.length;
+    const twiddles = getTwiddles(n);
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j], real[i]];
+            [imag[i], imag[j]] = [imag[j], imag[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const half = size >> 1;
+        // Stride through the table of the full size to get this stage's factors
+        const stride = n / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const cos = twiddles.cos[k * stride];
+                const sin = twiddles.sin[k * stride];
+                const a = start + k;
+                const b = a + half;
+                const tr = real[b] * cos - imag[b] * sin;
+                const ti = real[b] * sin + imag[b] * cos;
+                real[b] = real[a] - tr;
+                imag[b] = imag[a] - ti;
+                real[a] += tr;
+                imag[a] += ti;
+            }
+        }
+    }
+};
+
+/**
+ * Offline stand-in for a Web Audio AnalyserNode in frequency mode: Blackman
+ * window, magnitudes smoothed over successive calls, output in decibels. Used
+ * to analyse decoded tracks the same way the live analyser does.
+ */
+export class SpectrumAnalyser {
+    readonly fftSize: number;
+    private readonly smoothing: number;
+    private readonly window: Float32Array;
+    private readonly real: Float32Array;
+    private readonly imag: Float32Array;
+    private readonly magnitudes: Float32Array;
+
+    constructor(fftSize = 2048, smoothing = 0.8) {
+        if (fftSize < 2 || (fftSize & (fftSize - 1)) !== 0) {
+            throw new RangeError('fftSize must be a power of two');
+        }
+        this.fftSize = fftSize;
+        this.smoothing = smoothing;
+        this.window = new Float32Array(fftSize);
+        for (let i = 0; i < fftSize; i++) {
+            const phase = (2 * Math.PI * i) / fftSize;
+            this.window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        }
+        this.real = new Float32Array(fftSize);
+        this.imag = new Float32Array(fftSize);
+        this.magnitudes = new Float32Array(fftSize / 2);
+    }
+
+    /** Analyse the latest fftSize samples and return fftSize / 2 bins in decibels. */
+    analyze(samples: Float32Array): Float32Array {
+        const { fftSize, real, imag, magnitudes } = this;
+        for (let i = 0; i < fftSize; i++) {
+            real[i] = (samples[i] ?? 0) * this.window[i];
+            imag[i] = 0;
+        }
+        fft(real, imag);
+
+        const spectrum = new Float32Array(magnitudes.length);
+        for (let k = 0; k < magnitudes.length; k++) {
+            const magnitude = Math.hypot(real[k], imag[k]) / fftSize;
+            magnitudes[k] = this.smoothing * magnitudes[k] + (1 - this.smoothing) * magnitude;
+            spectrum[k] = 20 * Math.log10(magnitudes[k]);
+        }
+        return spectrum;
+    }
+
+    reset() {
+        this.magnitudes.fill(0);
+    }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { fft, SpectrumAnalyser } from './spectrum';
+import { analyzeTrack } from './trackAnalysis';
+
+const SAMPLE_RATE = 48000;
+
+const sine = (frequency: number, seconds: number, amplitude = 0.5) => {
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    return samples;
+};
+
+// Short noise bursts every interval seconds, on a deterministic generator
+const clickTrack = (interval: number, seconds: number) => {
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    let state = 1;
+    for (let start = 0; start < samples.length; start += Math.round(interval * SAMPLE_RATE)) {
+        for (let i = 0; i < 2400 && start + i < samples.length; i++) {
+            state = (state * 1103515245 + 12345) % 2147483648;
+            samples[start + i] = (state / 1073741824 - 1) * (1 - i / 2400);
+        }
+    }
+    return samples;
+};
+
+describe('fft', () => {
+    it('puts a pure tone in its bin', () => {
+        const n = 64;
+        const real = new Float32Array(n);
+        const imag = new Float32Array(n);
+        for (let i = 0; i < n; i++) real[i] = Math.cos((2 * Math.PI * 5 * i) / n);
+        fft(real, imag);
+
+        const magnitudes = Array.from(real, (value, k) => Math.hypot(value, imag[k]));
+        expect(magnitudes[5]).toBeCloseTo(n / 2, 3);
+        expect(magnitudes[n - 5]).toBeCloseTo(n / 2, 3);
+        expect(magnitudes[4]).toBeCloseTo(0, 3);
+    });
+});
+
+describe('SpectrumAnalyser', () => {
+    it('peaks at the frequency of a sine', () => {
+        const analyser = new SpectrumAnalyser(2048, 0);
+        const spectrum = analyser.analyze(sine(1500, 2048 / SAMPLE_RATE));
+        const peak = spectrum.indexOf(Math.max(...spectrum));
+        expect(peak).toBe(Math.round((1500 * 2048) / SAMPLE_RATE));
+    });
+
+    it('rejects sizes that are not a power of two', () => {
+        expect(() => new SpectrumAnalyser(1000)).toThrow(RangeError);
+    });
+});
+
+describe('analyzeTrack', () => {
+    it('produces one frame per video frame', () => {
+        const analysis = analyzeTrack(sine(440, 2), SAMPLE_RATE, 30);
+        expect(analysis.duration).toBe(2);
+        expect(analysis.frames).toHaveLength(60);
+        expect(analysis.frames[15].time).toBeCloseTo(0.5);
+    });
+
+    it('puts a low tone in the bass band', () => {
+        const { frames } = analyzeTrack(sine(80, 1), SAMPLE_RATE, 30);
+        const last = frames[frames.length - 1];
+        expect(last.bands.bass).toBeGreaterThan(last.bands.treble);
+        // The RMS window holds under two periods of 80 Hz, so it is only near the ideal value
+        expect(last.rms).toBeCloseTo(0.5 / Math.SQRT2, 1);
+    });
+
+    it('finds beats at the clicks and estimates the tempo', () => {
+        const { frames } = analyzeTrack(clickTrack(0.5, 8), SAMPLE_RATE, 60);
+        const beats = frames.flatMap(frame => (frame.beat ? [frame.beat] : []));
+
+        expect(beats.length).toBeGreaterThanOrEqual(12);
+        for (const beat of beats) {
+            // Each beat lands within a couple of frames after a click
+            expect(beat.time % 0.5).toBeLessThan(0.05);
+        }
+        expect(beats[beats.length - 1].bpm).toBeCloseTo(120, 0);
+    });
+
+    it('gives the same result on every run', () => {
+        const samples = clickTrack(0.4, 3);
+        expect(analyzeTrack(samples, SAMPLE_RATE, 30)).toEqual(analyzeTrack(samples, SAMPLE_RATE, 30));
+    });
+});
@@ -0,0 +1,81 @@
+import { computeBandEnergies, rootMeanSquare, type BandEnergies } from './bands';
+import { BeatDetector, type BeatDetectorOptions, type BeatEvent } from './beatDetector';
+import { SpectrumAnalyser } from './spectrum';
+
+// Same sizes and smoothing as the live analysers in AudioEngine
+const FFT_SIZE = 2048;
+const SMOOTHING = 0.8;
+const WAVEFORM_SIZE = 1024;
+
+// Opus, used for the audio track of rendered videos, needs 48 kHz
+export const OFFLINE_SAMPLE_RATE = 48000;
+
+export interface AnalysisFrame {
+    time: number;
+    bands: BandEnergies;
+    rms: number;
+    beat: BeatEvent | null;
+}
+
+export interface TrackAnalysis {
+    fps: number;
+    duration: number; // Seconds
+    frames: AnalysisFrame[];
+}
+
+/** Decode an audio file, resampled to the offline sample rate. */
+export const decodeAudioFile = async (file: File): Promise<AudioBuffer> => {
+    const context = new OfflineAudioContext(2, 1, OFFLINE_SAMPLE_RATE);
+    return context.decodeAudioData(await file.arrayBuffer());
+};
+
+export const mixToMono = (buffer: AudioBuffer) => {
+    const mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+    }
+    return mono;
+};
+
+/**
+ * Precompute one analysis frame per video frame for a whole track: band
+ * energies from the spectrum, RMS level and beats. Each frame looks at the
+ * samples just before its timestamp, as the live analyser would at that
+ * moment. Spectra are reduced to bands right away so long tracks stay small.
+ * The result only depends on the samples, so it is identical on every run.
+ */
+export const analyzeTrack = (
+    samples: Float32Array,
+    sampleRate: number,
+    fps: number,
+    beatOptions: Partial<BeatDetectorOptions> = {}
+): TrackAnalysis => {
+    const analyser = new SpectrumAnalyser(FFT_SIZE, SMOOTHING);
+    const detector = new BeatDetector(beatOptions);
+    const duration = samples.length / sampleRate;
+    const frameCount = Math.max(1, Math.ceil(duration * fps));
+    const window = new Float32Array(FFT_SIZE);
+    const frames: AnalysisFrame[] = [];
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        const time = frame / fps;
+        const end = Math.round(time * sampleRate);
+
+        // Samples before the start of the track are silence
+        window.fill(0);
+        const start = end - FFT_SIZE;
+        window.set(samples.subarray(Math.max(0, start), end), Math.max(0, -start));
+
+        const spectrum = analyser.analyze(window);
+        const recent = window.subarray(FFT_SIZE - WAVEFORM_SIZE);
+        frames.push({
+            time,
+            bands: computeBandEnergies(spectrum, sampleRate),
+            rms: rootMeanSquare(recent),
+            beat: detector.process(recent, time),
+        });
+    }
+
+    return { fps, duration, frames };
+};
@@ -0,0 +1,56 @@
+// Preferred containers and codecs, the first one the browser supports is used
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+// Hand recorded data over every second rather than holding it all in the encoder
+const TIMESLICE_MS = 1000;
+
+export const isRecordingSupported = () =>
+    typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+/**
+ * Records a canvas, optionally together with an audio stream, to WebM through
+ * MediaRecorder.
+ */
+export class CanvasRecorder {
+    private recorder: MediaRecorder | null = null;
+    private videoTracks: MediaStreamTrack[] = [];
+    private chunks: Blob[] = [];
+
+    get isRecording() {
+        return this.recorder !== null;
+    }
+
+    start(canvas: HTMLCanvasElement, audio: MediaStream | null, fps = 60) {
+        if (this.recorder) return;
+        const stream = canvas.captureStream(fps);
+        this.videoTracks = stream.getVideoTracks();
+        for (const track of audio?.getAudioTracks() ?? []) stream.addTrack(track);
+
+        const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        this.chunks = [];
+        recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) this.chunks.push(e.data);
+        };
+        recorder.start(TIMESLICE_MS);
+        this.recorder = recorder;
+    }
+
+    /** Finish the recording and resolve with the video file. */
+    stop(): Promise<Blob> {
+        const recorder = this.recorder;
+        if (!recorder) return Promise.reject(new Error('Not recording.'));
+        this.recorder = null;
+
+        return new Promise((resolve) => {
+            recorder.onstop = () => {
+                // Only the canvas tracks belong to the recording, the audio stream is reused
+                for (const track of this.videoTracks) track.stop();
+                this.videoTracks = [];
+                resolve(new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }));
+                this.chunks = [];
+            };
+            recorder.stop();
+        });
+    }
+}
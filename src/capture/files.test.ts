@@ -0,0 +1,15 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { timestampedFileName } from './files';
+
+describe('timestampedFileName', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('stamps the name with the time, safe for every file system', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-05-01T12:30:05.250Z'));
+
+        expect(timestampedFileName('particles', 'png')).toBe('particles-2024-05-01-12-30-05.png');
+    });
+});
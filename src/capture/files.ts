@@ -0,0 +1,23 @@
+/** Save a blob through a temporary download link. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the browser a moment to start the download before releasing the blob
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement | OffscreenCanvas, type = 'image/png') => {
+    if (!('toBlob' in canvas)) return canvas.convertToBlob({ type });
+    return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The canvas could not be encoded.'))), type);
+    });
+};
+
+/** File name such as particles-2024-05-01-12-30-05.png */
+export const timestampedFileName = (prefix: string, extension: string) => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+    return `${prefix}-${stamp}.${extension}`;
+};
@@ -0,0 +1,201 @@
+import { Zip, ZipPassThrough } from 'fflate';
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+
+/** Receives rendered frames one by one and packs them into a downloadable file. */
+export interface FrameSink {
+    readonly extension: string; // Of the finished file
+    addFrame(canvas: OffscreenCanvas, index: number): Promise<void>;
+    finish(): Promise<Blob>;
+    close(): void; // Release encoders after a cancel or failure
+}
+
+/** Numbered PNG frames in a zip, for tools that assemble image sequences. */
+export class PngZipSink implements FrameSink {
+    readonly extension = 'zip';
+    private readonly chunks: Uint8Array[] = [];
+    private readonly zip: Zip;
+    private error: Error | null = null;
+
+    constructor() {
+        this.zip = new Zip((error, chunk) => {
+            if (error) this.error = error;
+            else this.chunks.push(chunk);
+        });
+    }
+
+    async addFrame(canvas: OffscreenCanvas, index: number) {
+        const png = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/png' })).arrayBuffer());
+        // PNG data is already compressed, so store it as is
+        const entry = new ZipPassThrough(`frame-${String(index).padStart(5, '0')}.png`);
+        this.zip.add(entry);
+        entry.push(png, true);
+        if (this.error) throw this.error;
+    }
+
+    async finish() {
+        this.zip.end();
+        if (this.error) throw this.error;
+        return new Blob(this.chunks, { type: 'application/zip' });
+    }
+
+    close() {
+        this.zip.terminate();
+    }
+}
+
+// WebCodecs codec strings with their WebM codec ids, in order of preference
+const VIDEO_CODECS = [
+    { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' },
+];
+
+// Bits per pixel per frame, roughly 25 Mbit/s for 4K at 30 fps
+const BITS_PER_PIXEL = 0.1;
+const AUDIO_BITRATE = 192_000;
+const KEYFRAME_INTERVAL = 2; // Seconds
+
+// Frames allowed to wait in the encoder before rendering pauses
+const MAX_ENCODE_QUEUE = 8;
+
+// Audio is handed to the encoder in blocks of this many seconds
+const AUDIO_BLOCK_SECONDS = 1;
+
+export const isWebCodecsSupported = () => typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+/** Feed an AudioBuffer (up to duration seconds) through an encoder. */
+const encodeAudio = async (encoder: AudioEncoder, audio: AudioBuffer, duration: number) => {
+    const { sampleRate, numberOfChannels } = audio;
+    const length = Math.min(audio.length, Math.ceil(duration * sampleRate));
+    const blockSize = AUDIO_BLOCK_SECONDS * sampleRate;
+
+    for (let start = 0; start < length; start += blockSize) {
+        const frames = Math.min(blockSize, length - start);
+        // f32-planar expects every channel's samples one after another
+        const data = new Float32Array(frames * numberOfChannels);
+        for (let channel = 0; channel < numberOfChannels; channel++) {
+            data.set(audio.getChannelData(channel).subarray(start, start + frames), channel * frames);
+        }
+        const chunk = new AudioData({
+            format: 'f32-planar',
+            sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels,
+            timestamp: Math.round((start / sampleRate) * 1e6),
+            data,
+        });
+        encoder.encode(chunk);
+        chunk.close();
+    }
+    await encoder.flush();
+};
+
+/**
+ * Encodes frames with WebCodecs into a WebM file, with the track as Opus
+ * audio when the browser can encode it.
+ */
+export class WebCodecsSink implements FrameSink {
+    readonly extension = 'webm';
+    private readonly muxer: Muxer<ArrayBufferTarget>;
+    private readonly encoder: VideoEncoder;
+    private readonly fps: number;
+    private error: Error | null = null;
+
+    private constructor(muxer: Muxer<ArrayBufferTarget>, config: VideoEncoderConfig, fps: number) {
+        this.muxer = muxer;
+        this.fps = fps;
+        this.encoder = new VideoEncoder({
+            output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+            error: (error) => {
+                this.error = error;
+            },
+        });
+        this.encoder.configure(config);
+    }
+
+    /**
+     * Set up an encoder for the given size, or resolve with null when the
+     * browser cannot encode video at that size. The audio is encoded up front
+     * so the muxer can interleave it with the frames as they arrive.
+     */
+    static async create(width: number, height: number, fps: number, audio: AudioBuffer | null, duration: number) {
+        if (!isWebCodecsSupported()) return null;
+
+        let video: { config: VideoEncoderConfig; muxerCodec: string } | null = null;
+        for (const { codec, muxerCodec } of VIDEO_CODECS) {
+            const config: VideoEncoderConfig = {
+                codec,
+                width,
+                height,
+                framerate: fps,
+                bitrate: Math.round(width * height * fps * BITS_PER_PIXEL),
+            };
+            if ((await VideoEncoder.isConfigSupported(config)).supported) {
+                video = { config, muxerCodec };
+                break;
+            }
+        }
+        if (!video) return null;
+
+        let audioConfig: AudioEncoderConfig | null = null;
+        if (audio && typeof AudioEncoder !== 'undefined') {
+            const config: AudioEncoderConfig = {
+                codec: 'opus',
+                sampleRate: audio.sampleRate,
+                numberOfChannels: audio.numberOfChannels,
+                bitrate: AUDIO_BITRATE,
+            };
+            if ((await AudioEncoder.isConfigSupported(config)).supported) audioConfig = config;
+        }
+
+        const muxer = new Muxer({
+            target: new ArrayBufferTarget(),
+            video: { codec: video.muxerCodec, width, height, frameRate: fps },
+            audio: audioConfig
+                ? { codec: 'A_OPUS', sampleRate: audioConfig.sampleRate, numberOfChannels: audioConfig.numberOfChannels }
+                : undefined,
+        });
+
+        if (audio && audioConfig) {
+            let audioError: Error | null = null;
+            const encoder = new AudioEncoder({
+                output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+                error: (error) => {
+                    audioError = error;
+                },
+            });
+            encoder.configure(audioConfig);
+            await encodeAudio(encoder, audio, duration);
+            encoder.close();
+            if (audioError) throw audioError;
+        }
+
+        return new WebCodecsSink(muxer, video.config, fps);
+    }
+
+    async addFrame(canvas: OffscreenCanvas, index: number) {
+        // Let the encoder catch up instead of queueing every frame in memory
+        while (this.encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+            await new Promise(resolve => setTimeout(resolve, 1));
+        }
+        if (this.error) throw this.error;
+
+        const frame = new VideoFrame(canvas, {
+            timestamp: Math.round((index / this.fps) * 1e6),
+            duration: Math.round(1e6 / this.fps),
+        });
+        this.encoder.encode(frame, { keyFrame: index % Math.round(this.fps * KEYFRAME_INTERVAL) === 0 });
+        frame.close();
+    }
+
+    async finish() {
+        await this.encoder.flush();
+        if (this.error) throw this.error;
+        this.encoder.close();
+        this.muxer.finalize();
+        return new Blob([this.muxer.target.buffer], { type: 'video/webm' });
+    }
+
+    close() {
+        if (this.encoder.state !== 'closed') this.encoder.close();
+    }
+}
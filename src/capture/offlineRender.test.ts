@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { TrackAnalysis } from '../audio/trackAnalysis';
+import { DEFAULT_CONFIG } from '../config/visualizerConfig';
+import { DEFAULT_BEAT_REACTIONS } from '../engine/beatReactions';
+import { DEFAULT_BOUNDARY } from '../engine/boundary';
+import { DEFAULT_COMPOSITION } from '../engine/composition';
+import { createEmitter } from '../engine/emitters';
+import { createForce } from '../engine/forces';
+import { DEFAULT_BINDINGS } from '../modulation/modulation';
+import { OfflineSimulation, type OfflineSimulationOptions } from './offlineRender';
+
+const FPS = 30;
+
+const makeOptions = (seed: number): OfflineSimulationOptions => ({
+    width: 640,
+    height: 360,
+    sceneWidth: 640,
+    fps: FPS,
+    seed,
+    config: { ...DEFAULT_CONFIG, particleCount: 60 },
+    modulations: DEFAULT_BINDINGS.map(binding => ({ ...binding })),
+    beatSettings: DEFAULT_BEAT_REACTIONS,
+    forces: [createForce('vortex'), createForce('noise')],
+    emitters: [createEmitter('ring', { id: 'ring', rate: 40 })],
+    particleCap: 200,
+    boundary: { ...DEFAULT_BOUNDARY, mode: 'wrap' },
+    maskBitmap: null,
+    timeline: null,
+    composition: DEFAULT_COMPOSITION,
+    backgroundImage: null,
+});
+
+// Two seconds of a pulsing track with a beat every half second
+const analysis: TrackAnalysis = {
+    fps: FPS,
+    duration: 2,
+    frames: Array.from({ length: 2 * FPS }, (_, frame) => {
+        const time = frame / FPS;
+        const onBeat = frame % (FPS / 2) === 0;
+        const level = onBeat ? 0.9 : 0.3;
+        return {
+            time,
+            bands: { bass: level, mid: 0.4, treble: 0.2, level },
+            rms: level / 2,
+            beat: onBeat
+                ? { time, strength: 0.8, index: frame / (FPS / 2), isDownbeat: frame % (2 * FPS) === 0, bpm: 120 }
+                : null,
+        };
+    }),
+};
+
+const run = (seed: number, changes: Partial<OfflineSimulationOptions> = {}) => {
+    const simulation = new OfflineSimulation({ ...makeOptions(seed), ...changes });
+    const frames = analysis.frames.map(frame => {
+        const { alpha, style } = simulation.nextFrame(frame);
+        return { alpha, glow: style.glow };
+    });
+    return { frames, particles: simulation.system.particles.toArray() };
+};
+
+describe('OfflineSimulation', () => {
+    it('produces identical frames for the same seed and track', () => {
+        expect(run(7)).toEqual(run(7));
+    });
+
+    it('produces different particles for a different seed', () => {
+        expect(run(7).particles).not.toEqual(run(8).particles);
+    });
+
+    it('simulates at the on-screen scale and scales the drawing to the output', () => {
+        const simulation = new OfflineSimulation({ ...makeOptions(7), width: 1920, height: 1080 });
+        const frame = simulation.nextFrame(null);
+        expect(frame).toMatchObject({ width: 640, height: 360, pixelRatio: 3 });
+
+        // A larger export shows the same scene
+        expect(run(7, { width: 1920, height: 1080 }).particles).toEqual(run(7).particles);
+    });
+
+    it('reacts to beats in the analysis', () => {
+        const simulation = new OfflineSimulation(makeOptions(1));
+        simulation.nextFrame(analysis.frames[0]);
+        // Bursts spawn extra particles on the beat
+        expect(simulation.system.particles.count).toBeGreaterThan(60);
+    });
+});
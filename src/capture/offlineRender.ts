@@ -0,0 +1,150 @@
+import { SILENT_BANDS } from '../audio/bands';
+import type { AnalysisFrame, TrackAnalysis } from '../audio/trackAnalysis';
+import type { VisualizerConfig } from '../config/visualizerConfig';
+import { BeatReactions, type BeatReactionSettings } from '../engine/beatReactions';
+import type { BoundaryConfig, MaskBitmap } from '../engine/boundary';
+import type { Composition } from '../engine/composition';
+import { createRenderer, type RendererPreference } from '../engine/createRenderer';
+import { FixedTimestep } from '../engine/fixedTimestep';
+import type { Emitter } from '../engine/emitters';
+import type { Force } from '../engine/forces';
+import { ParticleSystem } from '../engine/particleSystem';
+import { getRenderStyle, type RenderFrame } from '../engine/renderer';
+import { applyModulation, ModulationMatrix, type ModulationBinding } from '../modulation/modulation';
+import { evaluateTimeline, type Timeline } from '../presets/timeline';
+import type { FrameSink } from './frameSinks';
+
+export interface FrameExportSettings {
+    width: number;
+    height: number;
+    fps: number;
+    seed: number;
+    duration: number; // Seconds
+}
+
+export interface OfflineSimulationOptions {
+    width: number; // Output pixels
+    height: number;
+    sceneWidth: number; // CSS width of the on-screen scene, which the output scales up or down
+    fps: number;
+    seed: number;
+    config: VisualizerConfig;
+    modulations: ModulationBinding[];
+    beatSettings: BeatReactionSettings;
+    forces: Force[];
+    emitters: Emitter[];
+    particleCap: number;
+    boundary: BoundaryConfig;
+    maskBitmap: MaskBitmap | null;
+    timeline: Timeline | null; // Drives the settings by the frame's time when given
+    composition: Composition;
+    backgroundImage: ImageBitmap | null;
+}
+
+/**
+ * Drives the simulation one output frame at a time with a fixed dt, feeding
+ * it precomputed analysis instead of a live analyser. It has no DOM
+ * dependencies; the same seed, settings and analysis always produce the same
+ * frames. The simulation runs at the on-screen scale and is drawn at the
+ * output's pixel ratio, so particle density, sizes and connection distances
+ * look the same at any export resolution.
+ */
+export class OfflineSimulation {
+    readonly system: ParticleSystem;
+    private readonly options: OfflineSimulationOptions;
+    private readonly clock = new FixedTimestep();
+    private readonly matrix = new ModulationMatrix();
+    private readonly reactions = new BeatReactions();
+    private readonly pixelRatio: number; // Output pixels per simulation pixel
+    private frameIndex = 0;
+
+    constructor(options: OfflineSimulationOptions) {
+        this.options = options;
+        const { width, height, sceneWidth, seed, config, forces, emitters, particleCap, boundary, maskBitmap } = options;
+        this.pixelRatio = width / sceneWidth;
+        this.system = new ParticleSystem({ width: sceneWidth, height: height / this.pixelRatio, seed, config });
+        this.system.setForces(forces);
+        this.system.setEmitters(emitters, particleCap);
+        this.system.setBoundary(boundary, maskBitmap);
+    }
+
+    /** Advance to the next output frame and return what to draw. Without analysis the track is silent. */
+    nextFrame(analysis: AnalysisFrame | null): RenderFrame {
+        const { fps, modulations, beatSettings, timeline, composition, backgroundImage } = this.options;
+        const system = this.system;
+        // The first frame shows the initial state
+        const dt = this.frameIndex === 0 ? 0 : 1 / fps;
+        const time = this.frameIndex / fps;
+        this.frameIndex++;
+        const config = timeline ? evaluateTimeline(timeline, this.options.config, time) : this.options.config;
+
+        this.reactions.update(system, analysis?.beat ?? null, beatSettings, dt);
+        const offsets = this.matrix.update(
+            modulations,
+            { bands: analysis?.bands ?? SILENT_BANDS, rms: analysis?.rms ?? 0, beat: this.reactions.envelope, time },
+            dt,
+            config.effects.audioReactivity
+        );
+        const effects = applyModulation(config.effects, offsets);
+        system.setConfig({ ...config, effects });
+        system.setAudioBands(analysis?.bands ?? SILENT_BANDS);
+        const alpha = this.clock.advance(dt, (stepSize) => system.step(stepSize));
+
+        return {
+            particles: system.particles,
+            connections: system.connections,
+            width: system.width,
+            height: system.height,
+            pixelRatio: this.pixelRatio,
+            alpha,
+            style: getRenderStyle(effects, config.lineWidth, this.reactions.getGlowBoost(beatSettings), this.reactions.shapeOffset),
+            composition,
+            backgroundImage,
+        };
+    }
+}
+
+export interface OfflineRenderOptions extends OfflineSimulationOptions {
+    frameCount: number;
+    analysis: TrackAnalysis | null;
+    renderer: RendererPreference;
+    sink: FrameSink;
+    signal?: AbortSignal;
+    onProgress?: (frame: number, total: number) => void;
+}
+
+/**
+ * Render frames into an OffscreenCanvas at the requested resolution,
+ * independent of the screen, and hand each one to the sink. Runs as fast as
+ * the machine allows. Rejects with the signal's reason when aborted.
+ */
+export const renderOffline = async ({
+    frameCount,
+    analysis,
+    renderer: preference,
+    sink,
+    signal,
+    onProgress,
+    ...simulationOptions
+}: OfflineRenderOptions): Promise<Blob> => {
+    const { width, height } = simulationOptions;
+    const canvas = new OffscreenCanvas(width, height);
+    const { renderer } = createRenderer(canvas, preference);
+    if (!renderer) throw new Error('No renderer is available for offline rendering.');
+    const simulation = new OfflineSimulation(simulationOptions);
+
+    try {
+        for (let frame = 0; frame < frameCount; frame++) {
+            signal?.throwIfAborted();
+            renderer.render(simulation.nextFrame(analysis?.frames[frame] ?? null));
+            await sink.addFrame(canvas, frame);
+            onProgress?.(frame + 1, frameCount);
+        }
+        return await sink.finish();
+    } catch (error) {
+        sink.close();
+        throw error;
+    } finally {
+        renderer.dispose();
+    }
+};
@@ -0,0 +1,191 @@
+import type { AudioInputDevice } from '../audio/audioEngine';
+import { AUDIO_REACTIVITY_RANGE } from '../config/ranges';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, errorStyle, fieldStyle, hintStyle, rangeStyle, selectStyle, smallButtonStyle } from './panelStyles';
+
+export type AudioInputSource = 'file' | 'microphone';
+
+interface AudioControlsProps {
+    inputSource: AudioInputSource;
+    fileName: string | null;
+    isPlaying: boolean;
+    position: number;
+    duration: number;
+    volume: number;
+    reactivity: number;
+    error: string | null;
+    isMicrophoneActive: boolean;
+    inputDevices: AudioInputDevice[];
+    inputDeviceId: string | null;
+    inputGain: number;
+    onInputSourceChange: (source: AudioInputSource) => void;
+    onFileSelected: (file: File) => void;
+    onTogglePlay: () => void;
+    onSeek: (seconds: number) => void;
+    onVolumeChange: (volume: number) => void;
+    onReactivityChange: (reactivity: number) => void;
+    onRemove: () => void;
+    onEnableMicrophone: () => void;
+    onInputDeviceChange: (deviceId: string) => void;
+    onInputGainChange: (gain: number) => void;
+}
+
+const formatTime = (seconds: number) => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const AudioControls: React.FC<AudioControlsProps> = ({
+    inputSource,
+    fileName,
+    isPlaying,
+    position,
+    duration,
+    volume,
+    reactivity,
+    error,
+    isMicrophoneActive,
+    inputDevices,
+    inputDeviceId,
+    inputGain,
+    onInputSourceChange,
+    onFileSelected,
+    onTogglePlay,
+    onSeek,
+    onVolumeChange,
+    onReactivityChange,
+    onRemove,
+    onEnableMicrophone,
+    onInputDeviceChange,
+    onInputGainChange,
+}) => (
+    <ControlGroup title="Audio">
+        <label style={fieldStyle}>
+            Input Source:
+            <select
+                value={inputSource}
+                onChange={(e) => onInputSourceChange(e.target.value as AudioInputSource)}
+                style={selectStyle}
+            >
+                <option value="file">Audio File</option>
+                <option value="microphone">Microphone / Line-In</option>
+            </select>
+        </label>
+        {inputSource === 'file' ? (
+            <>
+                <div style={buttonRowStyle}>
+                    <label className="upload-button-small" style={{ margin: 0 }}>
+                        {fileName ? 'Change File' : 'Load Audio'}
+                        <input
+                            type="file"
+                            accept="audio/*"
+                            className="file-input"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onFileSelected(file);
+                                // Allow re-selecting the same file
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                    {fileName && (
+                        <>
+                            <button className="play-button" onClick={onTogglePlay} title={isPlaying ? 'Pause' : 'Play'}>
+                                {isPlaying ? '❚❚' : '▶'}
+                            </button>
+                            <button className="remove-button" onClick={onRemove} title="Remove audio">
+                                ✕
+                            </button>
+                        </>
+                    )}
+                </div>
+                {error && <div style={errorStyle}>{error}</div>}
+                {fileName ? (
+                    <>
+                        <div style={hintStyle}>{fileName}</div>
+                        <label style={fieldStyle}>
+                            Position: {formatTime(position)} / {formatTime(duration)}
+                            <input
+                                type="range"
+                                min="0"
+                                max={duration}
+                                step="0.1"
+                                value={position}
+                                onChange={(e) => onSeek(Number(e.target.value))}
+                                style={rangeStyle}
+                            />
+                        </label>
+                        <label style={fieldStyle}>
+                            Volume:
+                            <input
+                                type="range"
+                                min="0"
+                                max="1"
+                                step="0.01"
+                                value={volume}
+                                onChange={(e) => onVolumeChange(Number(e.target.value))}
+                                style={rangeStyle}
+                            />
+                        </label>
+                    </>
+                ) : (
+                    <div style={hintStyle}>Pick an MP3/WAV file or drop one onto the canvas.</div>
+                )}
+            </>
+        ) : (
+            <>
+                {error && <div style={errorStyle}>{error}</div>}
+                {!isMicrophoneActive && (
+                    <div style={buttonRowStyle}>
+                        <button onClick={onEnableMicrophone} style={smallButtonStyle}>
+                            {error ? 'Try Again' : 'Enable Microphone'}
+                        </button>
+                    </div>
+                )}
+                {isMicrophoneActive && (
+                    <div style={hintStyle}>Listening. Live input is analysed only and not played back.</div>
+                )}
+                {inputDevices.length > 1 && (
+                    <label style={fieldStyle}>
+                        Input Device:
+                        <select
+                            value={inputDeviceId ?? ''}
+                            onChange={(e) => onInputDeviceChange(e.target.value)}
+                            style={selectStyle}
+                        >
+                            {inputDevices.map(device => (
+                                <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                <label style={fieldStyle}>
+                    Input Gain:
+                    <input
+                        type="range"
+                        min="0"
+                        max="4"
+                        step="0.1"
+                        value={inputGain}
+                        onChange={(e) => onInputGainChange(Number(e.target.value))}
+                        style={rangeStyle}
+                    />
+                </label>
+            </>
+        )}
+        <label data-control="/effects/audioReactivity" style={fieldStyle}>
+            Audio Reactivity:
+            <input
+                type="range"
+                min={AUDIO_REACTIVITY_RANGE.min}
+                max={AUDIO_REACTIVITY_RANGE.max}
+                step={AUDIO_REACTIVITY_RANGE.step}
+                value={reactivity}
+                onChange={(e) => onReactivityChange(Number(e.target.value))}
+                style={rangeStyle}
+            />
+        </label>
+    </ControlGroup>
+);
+
+export default AudioControls;
@@ -0,0 +1,95 @@
+import { BACKGROUND_KINDS, type BackgroundConfig, type BackgroundKind } from '../engine/composition';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, errorStyle, fieldStyle, hintStyle, rangeStyle, selectStyle } from './panelStyles';
+
+interface BackgroundControlsProps {
+    background: BackgroundConfig;
+    imageName: string | null;
+    imageError: string | null;
+    onChange: (background: BackgroundConfig) => void;
+    onImageSelected: (file: File) => void;
+}
+
+const colorInputStyle: React.CSSProperties = { width: '40px', height: '28px', padding: 0, border: 'none', background: 'none' };
+
+const BackgroundControls: React.FC<BackgroundControlsProps> = ({ background, imageName, imageError, onChange, onImageSelected }) => {
+    const update = (changes: Partial<BackgroundConfig>) => onChange({ ...background, ...changes });
+
+    return (
+        <ControlGroup title="Background">
+            <label style={fieldStyle}>
+                Type:
+                <select value={background.kind} onChange={(e) => update({ kind: e.target.value as BackgroundKind })} style={selectStyle}>
+                    {Object.entries(BACKGROUND_KINDS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+            </label>
+
+            {(background.kind === 'solid' || background.kind === 'gradient') && (
+                <div style={buttonRowStyle}>
+                    <input
+                        type="color"
+                        value={background.color}
+                        onChange={(e) => update({ color: e.target.value })}
+                        style={colorInputStyle}
+                        aria-label={background.kind === 'gradient' ? 'Gradient start color' : 'Background color'}
+                    />
+                    {background.kind === 'gradient' && (
+                        <input
+                            type="color"
+                            value={background.gradientEnd}
+                            onChange={(e) => update({ gradientEnd: e.target.value })}
+                            style={colorInputStyle}
+                            aria-label="Gradient end color"
+                        />
+                    )}
+                </div>
+            )}
+
+            {background.kind === 'gradient' && (
+                <label style={fieldStyle}>
+                    Angle: {background.gradientAngle}°
+                    <input
+                        type="range"
+                        min="0"
+                        max="360"
+                        step="5"
+                        value={background.gradientAngle}
+                        onChange={(e) => update({ gradientAngle: Number(e.target.value) })}
+                        style={rangeStyle}
+                    />
+                </label>
+            )}
+
+            {background.kind === 'image' && (
+                <>
+                    <label className="upload-button-small" style={{ margin: 0 }}>
+                        {imageName ? 'Change Image' : 'Load Image'}
+                        <input
+                            type="file"
+                            accept="image/*"
+                            className="file-input"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImageSelected(file);
+                                // Allow re-selecting the same file
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                    <div style={hintStyle}>{imageName ?? 'The image covers the canvas; the solid color shows until one is loaded.'}</div>
+                    {imageError && <div style={errorStyle}>{imageError}</div>}
+                </>
+            )}
+
+            {background.kind === 'transparent' && (
+                <div style={hintStyle}>
+                    Screenshots and PNG frame exports keep the transparency for compositing over other footage.
+                </div>
+            )}
+        </ControlGroup>
+    );
+};
+
+export default BackgroundControls;
@@ -0,0 +1,84 @@
+import type { BeatReactionSettings } from '../engine/beatReactions';
+import ControlGroup from './ControlGroup';
+import { checkboxFieldStyle, fieldStyle, hintStyle, rangeStyle } from './panelStyles';
+
+interface BeatControlsProps {
+    settings: BeatReactionSettings;
+    bpm: number | null;
+    onChange: (settings: BeatReactionSettings) => void;
+}
+
+const BeatControls: React.FC<BeatControlsProps> = ({ settings, bpm, onChange }) => {
+    const update = (changes: Partial<BeatReactionSettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <ControlGroup title="Beat Reactions">
+            <div style={hintStyle}>Tempo: {bpm !== null ? `${bpm.toFixed(1)} BPM` : 'listening…'}</div>
+            <label style={fieldStyle}>
+                Detection Sensitivity:
+                <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={settings.sensitivity}
+                    onChange={(e) => update({ sensitivity: Number(e.target.value) })}
+                    style={rangeStyle}
+                />
+            </label>
+            <label style={checkboxFieldStyle}>
+                <input
+                    type="checkbox"
+                    checked={settings.burst}
+                    onChange={(e) => update({ burst: e.target.checked })}
+                />
+                Particle Burst
+            </label>
+            {settings.burst && (
+                <label style={fieldStyle}>
+                    Burst Size:
+                    <input
+                        type="range"
+                        min="4"
+                        max="100"
+                        value={settings.burstSize}
+                        onChange={(e) => update({ burstSize: Number(e.target.value) })}
+                        style={rangeStyle}
+                    />
+                </label>
+            )}
+            <label style={checkboxFieldStyle}>
+                <input
+                    type="checkbox"
+                    checked={settings.glowBoost}
+                    onChange={(e) => update({ glowBoost: e.target.checked })}
+                />
+                Glow Flash
+            </label>
+            {settings.glowBoost && (
+                <label style={fieldStyle}>
+                    Flash Intensity:
+                    <input
+                        type="range"
+                        min="0"
+                        max="5"
+                        step="0.1"
+                        value={settings.glowBoostAmount}
+                        onChange={(e) => update({ glowBoostAmount: Number(e.target.value) })}
+                        style={rangeStyle}
+                    />
+                </label>
+            )}
+            <label style={checkboxFieldStyle}>
+                <input
+                    type="checkbox"
+                    checked={settings.shapeFlip}
+                    onChange={(e) => update({ shapeFlip: e.target.checked })}
+                />
+                Change Shape on Downbeats
+            </label>
+        </ControlGroup>
+    );
+};
+
+export default BeatControls;
@@ -0,0 +1,104 @@
+import { BOUNDARY_MODES, MASK_SHAPES, type BoundaryConfig, type BoundaryMode, type MaskShape } from '../engine/boundary';
+import ControlGroup from './ControlGroup';
+import { errorStyle, fieldStyle, hintStyle, rangeStyle, selectStyle, textInputStyle } from './panelStyles';
+
+interface BoundaryControlsProps {
+    boundary: BoundaryConfig;
+    maskImageName: string | null;
+    maskError: string | null;
+    onChange: (boundary: BoundaryConfig) => void;
+    onMaskImageSelected: (file: File) => void;
+}
+
+const BoundaryControls: React.FC<BoundaryControlsProps> = ({ boundary, maskImageName, maskError, onChange, onMaskImageSelected }) => {
+    const update = (changes: Partial<BoundaryConfig>) => onChange({ ...boundary, ...changes });
+
+    const slider = (key: 'restitution' | 'respawnX' | 'respawnY' | 'respawnSpread' | 'maskSize' | 'maskSides', label: string, min: number, max: number, step: number) => (
+        <label style={fieldStyle}>
+            {label}: {boundary[key]}
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={boundary[key]}
+                onChange={(e) => update({ [key]: Number(e.target.value) })}
+                style={rangeStyle}
+            />
+        </label>
+    );
+
+    return (
+        <ControlGroup title="Boundaries">
+            <label style={fieldStyle}>
+                Edges:
+                <select value={boundary.mode} onChange={(e) => update({ mode: e.target.value as BoundaryMode })} style={selectStyle}>
+                    {Object.entries(BOUNDARY_MODES).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+            </label>
+
+            {(boundary.mode === 'bounce' || boundary.mode === 'mask') && slider('restitution', 'Restitution', 0, 1, 0.05)}
+
+            {boundary.mode === 'respawn' && (
+                <>
+                    {slider('respawnX', 'Respawn X', 0, 1, 0.01)}
+                    {slider('respawnY', 'Respawn Y', 0, 1, 0.01)}
+                    {slider('respawnSpread', 'Respawn Spread', 0, 300, 5)}
+                </>
+            )}
+
+            {boundary.mode === 'mask' && (
+                <>
+                    <label style={fieldStyle}>
+                        Shape:
+                        <select value={boundary.maskShape} onChange={(e) => update({ maskShape: e.target.value as MaskShape })} style={selectStyle}>
+                            {Object.entries(MASK_SHAPES).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {slider('maskSize', 'Size', 0.1, 1, 0.05)}
+                    {boundary.maskShape === 'polygon' && slider('maskSides', 'Sides', 3, 12, 1)}
+                    {boundary.maskShape === 'text' && (
+                        <label style={fieldStyle}>
+                            Text:
+                            <input
+                                type="text"
+                                value={boundary.maskText}
+                                onChange={(e) => update({ maskText: e.target.value })}
+                                maxLength={40}
+                                style={textInputStyle}
+                            />
+                        </label>
+                    )}
+                    {boundary.maskShape === 'image' && (
+                        <>
+                            <label className="upload-button-small" style={{ margin: 0 }}>
+                                {maskImageName ? 'Change Image' : 'Load Image'}
+                                <input
+                                    type="file"
+                                    accept="image/*"
+                                    className="file-input"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) onMaskImageSelected(file);
+                                        // Allow re-selecting the same file
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                            <div style={hintStyle}>
+                                {maskImageName ?? 'Particles fill the opaque parts of a transparent PNG or SVG.'}
+                            </div>
+                        </>
+                    )}
+                    {maskError && <div style={errorStyle}>{maskError}</div>}
+                </>
+            )}
+        </ControlGroup>
+    );
+};
+
+export default BoundaryControls;
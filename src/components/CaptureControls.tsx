@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import type { FrameExportSettings } from '../capture/offlineRender';
+import { randomSeed } from '../engine/random';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, errorStyle, fieldStyle, hintStyle, rangeStyle, selectStyle, smallButtonStyle, textInputStyle } from './panelStyles';
+
+interface CaptureControlsProps {
+    canRecord: boolean;
+    recordingStartedAt: number | null; // Date.now() when the recording started
+    exportProgress: ExportProgress | null; // While frames are rendering
+    defaultDuration: number;
+    canRenderTrack: boolean; // A decodable audio file is loaded
+    error: string | null;
+    onToggleRecording: () => void;
+    onScreenshot: () => void;
+    onExportFrames: (settings: FrameExportSettings) => void;
+    onRenderTrack: (settings: Omit<FrameExportSettings, 'duration'>) => void;
+    onCancelExport: () => void;
+}
+
+export interface ExportProgress {
+    stage: string;
+    value: number; // 0-1
+}
+
+const RESOLUTIONS = [
+    { label: '1280 × 720', width: 1280, height: 720 },
+    { label: '1920 × 1080', width: 1920, height: 1080 },
+    { label: '2560 × 1440', width: 2560, height: 1440 },
+    { label: '3840 × 2160', width: 3840, height: 2160 },
+    { label: '1080 × 1920 (portrait)', width: 1080, height: 1920 },
+];
+
+const FRAME_RATES = [24, 30, 60];
+
+const formatElapsed = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const CaptureControls: React.FC<CaptureControlsProps> = ({
+    canRecord,
+    recordingStartedAt,
+    exportProgress,
+    defaultDuration,
+    canRenderTrack,
+    error,
+    onToggleRecording,
+    onScreenshot,
+    onExportFrames,
+    onRenderTrack,
+    onCancelExport,
+}) => {
+    const [resolution, setResolution] = useState(1);
+    const [fps, setFps] = useState(30);
+    const [duration, setDuration] = useState<number | null>(null);
+    const [seed, setSeed] = useState(randomSeed);
+    const [now, setNow] = useState(() => Date.now());
+    const isExporting = exportProgress !== null;
+    // Follow the loaded track until a duration is typed in
+    const exportDuration = duration ?? defaultDuration;
+
+    // Tick the elapsed time display while recording
+    useEffect(() => {
+        if (recordingStartedAt === null) return;
+        const interval = window.setInterval(() => setNow(Date.now()), 500);
+        return () => window.clearInterval(interval);
+    }, [recordingStartedAt]);
+
+    return (
+        <ControlGroup title="Capture">
+            <div style={buttonRowStyle}>
+                <button onClick={onToggleRecording} disabled={!canRecord} style={smallButtonStyle}>
+                    {recordingStartedAt !== null ? '■ Stop' : '● Record'}
+                </button>
+                <button onClick={onScreenshot} style={smallButtonStyle} title="Save the current frame as PNG">
+                    Screenshot
+                </button>
+                {recordingStartedAt !== null && (
+                    <span style={hintStyle}>{formatElapsed(Math.max(0, now - recordingStartedAt))}</span>
+                )}
+            </div>
+            {!canRecord && <div style={hintStyle}>Video recording is not supported in this browser.</div>}
+
+            <label style={fieldStyle}>
+                Frame Export Resolution:
+                <select
+                    value={resolution}
+                    onChange={(e) => setResolution(Number(e.target.value))}
+                    disabled={isExporting}
+                    style={selectStyle}
+                >
+                    {RESOLUTIONS.map((option, index) => (
+                        <option key={option.label} value={index}>{option.label}</option>
+                    ))}
+                </select>
+            </label>
+            <div style={buttonRowStyle}>
+                <label style={{ ...fieldStyle, flex: 1 }}>
+                    Frame Rate:
+                    <select value={fps} onChange={(e) => setFps(Number(e.target.value))} disabled={isExporting} style={selectStyle}>
+                        {FRAME_RATES.map(rate => (
+                            <option key={rate} value={rate}>{rate} fps</option>
+                        ))}
+                    </select>
+                </label>
+                <label style={{ ...fieldStyle, flex: 1 }}>
+                    Seconds:
+                    <input
+                        type="number"
+                        min="1"
+                        max="600"
+                        value={exportDuration}
+                        onChange={(e) => setDuration(Math.min(600, Math.max(1, Number(e.target.value) || 1)))}
+                        disabled={isExporting}
+                        style={textInputStyle}
+                    />
+                </label>
+            </div>
+            <div style={buttonRowStyle}>
+                <label style={{ ...fieldStyle, flex: 1 }}>
+                    Seed:
+                    <input
+                        type="number"
+                        min="0"
+                        max="4294967295"
+                        value={seed}
+                        onChange={(e) => setSeed(Math.min(4294967295, Math.max(0, Math.floor(Number(e.target.value) || 0))))}
+                        disabled={isExporting}
+                        style={textInputStyle}
+                    />
+                </label>
+                <button
+                    onClick={() => setSeed(randomSeed())}
+                    disabled={isExporting}
+                    style={smallButtonStyle}
+                    title="The same seed renders the same frames every time"
+                >
+                    Randomize
+                </button>
+            </div>
+            {exportProgress ? (
+                <>
+                    <div style={hintStyle}>{exportProgress.stage}</div>
+                    <div style={buttonRowStyle}>
+                        <progress value={exportProgress.value} max={1} style={{ ...rangeStyle, flex: 1 }} />
+                        <span style={hintStyle}>{Math.round(exportProgress.value * 100)}%</span>
+                        <button onClick={onCancelExport} style={smallButtonStyle}>
+                            Cancel
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <div style={buttonRowStyle}>
+                    <button
+                        onClick={() => {
+                            const { width, height } = RESOLUTIONS[resolution];
+                            onExportFrames({ width, height, fps, seed, duration: exportDuration });
+                        }}
+                        style={smallButtonStyle}
+                        title="Render PNG frames at a fixed frame rate and download them as a zip"
+                    >
+                        Render Frames (.zip)
+                    </button>
+                    <button
+                        onClick={() => {
+                            const { width, height } = RESOLUTIONS[resolution];
+                            onRenderTrack({ width, height, fps, seed });
+                        }}
+                        disabled={!canRenderTrack}
+                        style={smallButtonStyle}
+                        title="Render the whole loaded track to a WebM video, or PNG frames where video encoding is unavailable"
+                    >
+                        Render Track to Video
+                    </button>
+                </div>
+            )}
+            {error && <div style={errorStyle}>{error}</div>}
+        </ControlGroup>
+    );
+};
+
+export default CaptureControls;
@@ -0,0 +1,16 @@
+import type { ReactNode } from 'react';
+import { controlGroupStyle, groupBodyStyle, groupHeadingStyle } from './panelStyles';
+
+interface ControlGroupProps {
+    title: string;
+    children: ReactNode;
+}
+
+const ControlGroup: React.FC<ControlGroupProps> = ({ title, children }) => (
+    <div className="control-group" style={controlGroupStyle}>
+        <h4 style={groupHeadingStyle}>{title}</h4>
+        <div style={groupBodyStyle}>{children}</div>
+    </div>
+);
+
+export default ControlGroup;
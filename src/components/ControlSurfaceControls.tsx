@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { BURST_ADDRESS, getAddressLabel } from '../control/controlAddresses';
+import { describeMidiControl, type MidiBinding } from '../control/midi';
+import type { OscSocketStatus } from '../control/osc';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, errorStyle, fieldStyle, hintStyle, smallButtonStyle, textInputStyle } from './panelStyles';
+
+interface ControlSurfaceControlsProps {
+    isMidiSupported: boolean;
+    isMidiEnabled: boolean;
+    midiDevices: string[];
+    bindings: MidiBinding[];
+    isLearning: boolean;
+    learnAddress: string | null; // Control clicked in learn mode, waiting for a MIDI message
+    socketStatus: OscSocketStatus;
+    lastMessage: string | null;
+    error: string | null;
+    onEnableMidi: () => void;
+    onLearningChange: (isLearning: boolean) => void;
+    onBindingsChange: (bindings: MidiBinding[]) => void;
+    onConnect: (url: string) => void;
+    onDisconnect: () => void;
+    onBurst: () => void;
+}
+
+const DEFAULT_SOCKET_URL = 'ws://localhost:8080';
+
+const SOCKET_STATUS_LABELS: Record<OscSocketStatus, string> = {
+    connecting: 'Connecting…',
+    open: 'Connected',
+    closed: 'Not connected',
+};
+
+const bindingRowStyle: React.CSSProperties = { ...buttonRowStyle, flexWrap: 'nowrap', fontSize: '0.9rem' };
+
+const ControlSurfaceControls: React.FC<ControlSurfaceControlsProps> = ({
+    isMidiSupported,
+    isMidiEnabled,
+    midiDevices,
+    bindings,
+    isLearning,
+    learnAddress,
+    socketStatus,
+    lastMessage,
+    error,
+    onEnableMidi,
+    onLearningChange,
+    onBindingsChange,
+    onConnect,
+    onDisconnect,
+    onBurst,
+}) => {
+    const [socketUrl, setSocketUrl] = useState(DEFAULT_SOCKET_URL);
+
+    return (
+        <ControlGroup title="MIDI & OSC">
+            {!isMidiSupported ? (
+                <div style={hintStyle}>This browser does not support Web MIDI.</div>
+            ) : !isMidiEnabled ? (
+                <button onClick={onEnableMidi} style={smallButtonStyle}>
+                    Enable MIDI
+                </button>
+            ) : (
+                <>
+                    <div style={hintStyle}>
+                        {midiDevices.length ? `Inputs: ${midiDevices.join(', ')}` : 'No MIDI inputs connected.'}
+                    </div>
+                    <div style={buttonRowStyle}>
+                        <button
+                            onClick={() => onLearningChange(!isLearning)}
+                            style={{ ...smallButtonStyle, background: isLearning ? 'rgba(77, 163, 255, 0.4)' : smallButtonStyle.background }}
+                        >
+                            {isLearning ? 'Done' : 'MIDI Learn'}
+                        </button>
+                        {bindings.length > 0 && (
+                            <button onClick={() => onBindingsChange([])} style={smallButtonStyle}>
+                                Clear Bindings
+                            </button>
+                        )}
+                    </div>
+                    {isLearning && (
+                        <div style={hintStyle}>
+                            {learnAddress
+                                ? `Move a knob or press a pad to bind it to ${getAddressLabel(learnAddress)}.`
+                                : 'Click a highlighted control in the panel, then move a knob or press a pad.'}
+                        </div>
+                    )}
+                    {bindings.map(binding => (
+                        <div key={binding.id} style={bindingRowStyle}>
+                            <span style={{ flex: 1 }}>{getAddressLabel(binding.address)}</span>
+                            <span style={hintStyle}>{describeMidiControl(binding)}</span>
+                            <button
+                                className="remove-button"
+                                onClick={() => onBindingsChange(bindings.filter(other => other.id !== binding.id))}
+                                title="Remove binding"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </>
+            )}
+
+            <div style={buttonRowStyle}>
+                <button onClick={onBurst} data-control={BURST_ADDRESS} style={smallButtonStyle} title="Burst particles from the centre">
+                    Burst
+                </button>
+            </div>
+
+            <label style={fieldStyle}>
+                OSC WebSocket:
+                <input
+                    type="text"
+                    value={socketUrl}
+                    onChange={(e) => setSocketUrl(e.target.value)}
+                    disabled={socketStatus !== 'closed'}
+                    spellCheck={false}
+                    style={textInputStyle}
+                />
+            </label>
+            <div style={buttonRowStyle}>
+                {socketStatus === 'closed' ? (
+                    <button onClick={() => onConnect(socketUrl.trim())} disabled={!socketUrl.trim()} style={smallButtonStyle}>
+                        Connect
+                    </button>
+                ) : (
+                    <button onClick={onDisconnect} style={smallButtonStyle}>
+                        Disconnect
+                    </button>
+                )}
+                <span style={hintStyle}>{SOCKET_STATUS_LABELS[socketStatus]}</span>
+            </div>
+            <div style={hintStyle}>
+                Messages are an address and a value, e.g. /effects/connectionDistance 240 or /burst. Run npm run relay to
+                send them from a terminal or forward OSC over UDP.
+            </div>
+            {lastMessage && <div style={hintStyle}>Last: {lastMessage}</div>}
+            {error && <div style={errorStyle}>{error}</div>}
+        </ControlGroup>
+    );
+};
+
+export default ControlSurfaceControls;
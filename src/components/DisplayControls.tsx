@@ -0,0 +1,52 @@
+import { PIXEL_RATIO_CAPS } from '../engine/viewport';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, fieldStyle, hintStyle, selectStyle, smallButtonStyle } from './panelStyles';
+
+interface DisplayControlsProps {
+    pixelRatioCap: number;
+    devicePixelRatio: number;
+    isFullscreen: boolean;
+    canFullscreen: boolean;
+    hasKeyboardShortcuts: boolean; // Without them the hidden controls could not be brought back
+    onPixelRatioCapChange: (cap: number) => void;
+    onToggleFullscreen: () => void;
+    onHideUi: () => void;
+}
+
+const DisplayControls: React.FC<DisplayControlsProps> = ({
+    pixelRatioCap,
+    devicePixelRatio,
+    isFullscreen,
+    canFullscreen,
+    hasKeyboardShortcuts,
+    onPixelRatioCapChange,
+    onToggleFullscreen,
+    onHideUi,
+}) => (
+    <ControlGroup title="Display">
+        <label style={fieldStyle}>
+            Max Pixel Ratio:
+            <select value={pixelRatioCap} onChange={(e) => onPixelRatioCapChange(Number(e.target.value))} style={selectStyle}>
+                {PIXEL_RATIO_CAPS.map(cap => (
+                    <option key={cap} value={cap}>{cap}×</option>
+                ))}
+            </select>
+        </label>
+        <div style={hintStyle}>
+            This screen: {devicePixelRatio}×, rendering at {Math.min(devicePixelRatio, pixelRatioCap)}×
+        </div>
+        <div style={buttonRowStyle}>
+            <button onClick={onToggleFullscreen} disabled={!canFullscreen} style={smallButtonStyle}>
+                {isFullscreen ? 'Exit Fullscreen' : 'Fullscreen'}
+            </button>
+            {hasKeyboardShortcuts && (
+                <button onClick={onHideUi} style={smallButtonStyle}>
+                    Hide UI
+                </button>
+            )}
+        </div>
+        {hasKeyboardShortcuts && <div style={hintStyle}>Keys: F toggles fullscreen, H hides or shows the controls.</div>}
+    </ControlGroup>
+);
+
+export default DisplayControls;
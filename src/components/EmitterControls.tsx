@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import {
+    COMMON_EMITTER_PARAMS,
+    createEmitter,
+    EMITTER_EDGES,
+    EMITTER_KINDS,
+    EMITTER_PARAM_RANGES,
+    LIFE_CURVES,
+    PARTICLE_CAP_RANGE,
+    type Emitter,
+    type EmitterEdge,
+    type EmitterKind,
+    type LifeCurve,
+} from '../engine/emitters';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, checkboxFieldStyle, fieldStyle, hintStyle, rangeStyle, selectStyle, smallButtonStyle } from './panelStyles';
+
+interface EmitterControlsProps {
+    emitters: Emitter[];
+    particleCap: number;
+    placingId: string | null; // Waiting for a canvas click to position this emitter
+    onChange: (emitters: Emitter[]) => void;
+    onParticleCapChange: (cap: number) => void;
+    onPlace: (id: string | null) => void;
+}
+
+const emitterStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    padding: '0.5rem',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.1)'
+};
+
+const EmitterControls: React.FC<EmitterControlsProps> = ({ emitters, particleCap, placingId, onChange, onParticleCapChange, onPlace }) => {
+    const [newKind, setNewKind] = useState<EmitterKind>('point');
+
+    const update = (id: string, changes: Partial<Emitter>) => {
+        onChange(emitters.map(emitter => (emitter.id === id ? { ...emitter, ...changes } : emitter)));
+    };
+
+    const addEmitter = () => {
+        const emitter = createEmitter(newKind);
+        onChange([...emitters, emitter]);
+        // Positioned emitters start in the centre until the next canvas click
+        if (EMITTER_KINDS[newKind].positioned) onPlace(emitter.id);
+    };
+
+    return (
+        <ControlGroup title="Emitters">
+            <label style={fieldStyle}>
+                {PARTICLE_CAP_RANGE.label}: {particleCap}
+                <input
+                    type="range"
+                    min={PARTICLE_CAP_RANGE.min}
+                    max={PARTICLE_CAP_RANGE.max}
+                    step={PARTICLE_CAP_RANGE.step}
+                    value={particleCap}
+                    onChange={(e) => onParticleCapChange(Number(e.target.value))}
+                    style={rangeStyle}
+                />
+            </label>
+            <div style={hintStyle}>Emission pauses while this many particles, including the Particle Count ones, are alive.</div>
+            {emitters.map(emitter => {
+                const info = EMITTER_KINDS[emitter.kind];
+                const isPlacing = placingId === emitter.id;
+                return (
+                    <div key={emitter.id} style={emitterStyle}>
+                        <div style={buttonRowStyle}>
+                            <label style={{ ...checkboxFieldStyle, flex: 1 }}>
+                                <input
+                                    type="checkbox"
+                                    checked={emitter.enabled}
+                                    onChange={(e) => update(emitter.id, { enabled: e.target.checked })}
+                                />
+                                {info.label}
+                            </label>
+                            {info.positioned && (
+                                <button
+                                    onClick={() => onPlace(isPlacing ? null : emitter.id)}
+                                    style={smallButtonStyle}
+                                    title="Click the canvas to move this emitter"
+                                >
+                                    {isPlacing ? 'Cancel' : 'Move'}
+                                </button>
+                            )}
+                            <button
+                                className="remove-button"
+                                onClick={() => {
+                                    if (isPlacing) onPlace(null);
+                                    onChange(emitters.filter(other => other.id !== emitter.id));
+                                }}
+                                title="Remove emitter"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                        {isPlacing && <div style={hintStyle}>Click the canvas to place it.</div>}
+                        {emitter.kind === 'edge' && (
+                            <label style={fieldStyle}>
+                                Edge:
+                                <select
+                                    value={emitter.edge}
+                                    onChange={(e) => update(emitter.id, { edge: e.target.value as EmitterEdge })}
+                                    style={selectStyle}
+                                >
+                                    {Object.entries(EMITTER_EDGES).map(([edge, label]) => (
+                                        <option key={edge} value={edge}>{label}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        )}
+                        {[...info.params, ...COMMON_EMITTER_PARAMS].map(param => {
+                            const range = EMITTER_PARAM_RANGES[param];
+                            return (
+                                <label key={param} style={fieldStyle}>
+                                    {range.label}: {emitter[param]}
+                                    <input
+                                        type="range"
+                                        min={range.min}
+                                        max={range.max}
+                                        step={range.step}
+                                        value={emitter[param]}
+                                        onChange={(e) => update(emitter.id, { [param]: Number(e.target.value) })}
+                                        style={rangeStyle}
+                                    />
+                                </label>
+                            );
+                        })}
+                        <label style={fieldStyle}>
+                            Over-Life Curve:
+                            <select
+                                value={emitter.curve}
+                                onChange={(e) => update(emitter.id, { curve: e.target.value as LifeCurve })}
+                                style={selectStyle}
+                            >
+                                {Object.entries(LIFE_CURVES).map(([curve, label]) => (
+                                    <option key={curve} value={curve}>{label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                );
+            })}
+            <div style={buttonRowStyle}>
+                <select value={newKind} onChange={(e) => setNewKind(e.target.value as EmitterKind)} style={{ ...selectStyle, flex: 1 }}>
+                    {Object.entries(EMITTER_KINDS).map(([kind, info]) => (
+                        <option key={kind} value={kind}>{info.label}</option>
+                    ))}
+                </select>
+                <button onClick={addEmitter} style={smallButtonStyle}>
+                    + Add Emitter
+                </button>
+            </div>
+        </ControlGroup>
+    );
+};
+
+export default EmitterControls;
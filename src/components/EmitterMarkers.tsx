@@ -0,0 +1,45 @@
+import { EMITTER_KINDS, type Emitter } from '../engine/emitters';
+
+interface EmitterMarkersProps {
+    emitters: Emitter[];
+    placingId: string | null;
+}
+
+const getShapeStyle = (emitter: Emitter): React.CSSProperties => {
+    switch (emitter.kind) {
+        case 'line':
+            return {
+                width: `${emitter.length}px`,
+                height: 0,
+                transform: `translate(-50%, -50%) rotate(${emitter.angle}deg)`,
+            };
+        case 'ring':
+            return { width: `${emitter.radius * 2}px`, height: `${emitter.radius * 2}px`, borderRadius: '50%' };
+        default:
+            return { width: '10px', height: '10px', borderRadius: '50%' };
+    }
+};
+
+// Outlines where positioned emitters spawn particles, over the canvas
+const EmitterMarkers: React.FC<EmitterMarkersProps> = ({ emitters, placingId }) => (
+    <>
+        {emitters.filter(emitter => EMITTER_KINDS[emitter.kind].positioned).map(emitter => (
+            <div
+                key={emitter.id}
+                className="emitter-marker"
+                style={{
+                    position: 'absolute',
+                    left: `${emitter.x * 100}%`,
+                    top: `${emitter.y * 100}%`,
+                    transform: 'translate(-50%, -50%)',
+                    border: `1px ${emitter.enabled ? 'solid' : 'dotted'} rgba(255, 255, 255, ${emitter.id === placingId ? 0.6 : 0.25})`,
+                    zIndex: 1,
+                    pointerEvents: 'none',
+                    ...getShapeStyle(emitter)
+                }}
+            />
+        ))}
+    </>
+);
+
+export default EmitterMarkers;
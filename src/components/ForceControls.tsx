@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { createForce, FORCE_KINDS, FORCE_PARAMS, type Force, type ForceKind } from '../engine/forces';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, checkboxFieldStyle, fieldStyle, hintStyle, rangeStyle, selectStyle, smallButtonStyle } from './panelStyles';
+
+interface ForceControlsProps {
+    forces: Force[];
+    placingForceId: string | null; // Waiting for a canvas click to position this force
+    onChange: (forces: Force[]) => void;
+    onPlace: (id: string | null) => void;
+}
+
+const forceStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    padding: '0.5rem',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.1)'
+};
+
+const ForceControls: React.FC<ForceControlsProps> = ({ forces, placingForceId, onChange, onPlace }) => {
+    const [newKind, setNewKind] = useState<ForceKind>('attractor');
+
+    const update = (id: string, changes: Partial<Force>) => {
+        onChange(forces.map(force => (force.id === id ? { ...force, ...changes } : force)));
+    };
+
+    const addForce = () => {
+        const force = createForce(newKind);
+        onChange([...forces, force]);
+        // Positioned forces start in the centre until the next canvas click
+        if (FORCE_KINDS[newKind].positioned) onPlace(force.id);
+    };
+
+    return (
+        <ControlGroup title="Forces">
+            <div style={hintStyle}>Mouse repulsion is set under Mouse Interaction and always applies.</div>
+            {forces.map(force => {
+                const info = FORCE_KINDS[force.kind];
+                const isPlacing = placingForceId === force.id;
+                return (
+                    <div key={force.id} style={forceStyle}>
+                        <div style={buttonRowStyle}>
+                            <label style={{ ...checkboxFieldStyle, flex: 1 }}>
+                                <input
+                                    type="checkbox"
+                                    checked={force.enabled}
+                                    onChange={(e) => update(force.id, { enabled: e.target.checked })}
+                                />
+                                {info.label}
+                            </label>
+                            {info.positioned && (
+                                <button
+                                    onClick={() => onPlace(isPlacing ? null : force.id)}
+                                    style={smallButtonStyle}
+                                    title="Click the canvas to move this force"
+                                >
+                                    {isPlacing ? 'Cancel' : 'Move'}
+                                </button>
+                            )}
+                            <button
+                                className="remove-button"
+                                onClick={() => {
+                                    if (isPlacing) onPlace(null);
+                                    onChange(forces.filter(other => other.id !== force.id));
+                                }}
+                                title="Remove force"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                        {isPlacing && <div style={hintStyle}>Click the canvas to place it.</div>}
+                        {FORCE_PARAMS.map(param => {
+                            const range = info.params[param];
+                            return range && (
+                                <label key={param} style={fieldStyle}>
+                                    {range.label}: {force[param]}
+                                    <input
+                                        type="range"
+                                        min={range.min}
+                                        max={range.max}
+                                        step={range.step}
+                                        value={force[param]}
+                                        onChange={(e) => update(force.id, { [param]: Number(e.target.value) })}
+                                        style={rangeStyle}
+                                    />
+                                </label>
+                            );
+                        })}
+                    </div>
+                );
+            })}
+            <div style={buttonRowStyle}>
+                <select value={newKind} onChange={(e) => setNewKind(e.target.value as ForceKind)} style={{ ...selectStyle, flex: 1 }}>
+                    {Object.entries(FORCE_KINDS).map(([kind, info]) => (
+                        <option key={kind} value={kind}>{info.label}</option>
+                    ))}
+                </select>
+                <button onClick={addForce} style={smallButtonStyle}>
+                    + Add Force
+                </button>
+            </div>
+        </ControlGroup>
+    );
+};
+
+export default ForceControls;
@@ -0,0 +1,32 @@
+import { FORCE_KINDS, type Force } from '../engine/forces';
+
+interface ForceMarkersProps {
+    forces: Force[];
+    placingForceId: string | null;
+}
+
+// Outlines where positioned forces sit and how far they reach, over the canvas
+const ForceMarkers: React.FC<ForceMarkersProps> = ({ forces, placingForceId }) => (
+    <>
+        {forces.filter(force => FORCE_KINDS[force.kind].positioned).map(force => (
+            <div
+                key={force.id}
+                className="force-marker"
+                style={{
+                    position: 'absolute',
+                    left: `${force.x * 100}%`,
+                    top: `${force.y * 100}%`,
+                    width: `${force.radius * 2}px`,
+                    height: `${force.radius * 2}px`,
+                    transform: 'translate(-50%, -50%)',
+                    borderRadius: '50%',
+                    border: `1px ${force.enabled ? 'dashed' : 'dotted'} rgba(255, 255, 255, ${force.id === placingForceId ? 0.6 : 0.25})`,
+                    zIndex: 1,
+                    pointerEvents: 'none'
+                }}
+            />
+        ))}
+    </>
+);
+
+export default ForceMarkers;
@@ -0,0 +1,152 @@
+import { EFFECT_RANGES, type NumericEffect } from '../config/ranges';
+import {
+    createBinding,
+    MODULATION_CURVES,
+    MODULATION_SOURCES,
+    type ModulationBinding,
+    type ModulationCurve,
+    type ModulationSource,
+} from '../modulation/modulation';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, fieldStyle, hintStyle, rangeStyle, selectStyle, smallButtonStyle } from './panelStyles';
+
+interface ModulationControlsProps {
+    bindings: ModulationBinding[];
+    onChange: (bindings: ModulationBinding[]) => void;
+}
+
+const bindingStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    padding: '0.5rem',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.1)'
+};
+
+const ModulationControls: React.FC<ModulationControlsProps> = ({ bindings, onChange }) => {
+    const update = (id: string, changes: Partial<ModulationBinding>) => {
+        onChange(bindings.map(binding => (binding.id === id ? { ...binding, ...changes } : binding)));
+    };
+
+    return (
+        <ControlGroup title="Modulation Matrix">
+            {!bindings.length && <div style={hintStyle}>No bindings. Add one to make a setting react to audio or time.</div>}
+            {bindings.map(binding => (
+                <div key={binding.id} style={bindingStyle}>
+                    <div style={buttonRowStyle}>
+                        <select
+                            value={binding.source}
+                            onChange={(e) => update(binding.id, { source: e.target.value as ModulationSource })}
+                            style={{ ...selectStyle, flex: 1 }}
+                            title="Source"
+                        >
+                            {Object.entries(MODULATION_SOURCES).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                        →
+                        <select
+                            value={binding.target}
+                            onChange={(e) => update(binding.id, { target: e.target.value as NumericEffect })}
+                            style={{ ...selectStyle, flex: 1 }}
+                            title="Target"
+                        >
+                            {Object.entries(EFFECT_RANGES).map(([value, range]) => (
+                                <option key={value} value={value}>{range.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            className="remove-button"
+                            onClick={() => onChange(bindings.filter(other => other.id !== binding.id))}
+                            title="Remove binding"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                    <label style={fieldStyle}>
+                        Depth: {binding.depth.toFixed(2)}
+                        <input
+                            type="range"
+                            min="-1"
+                            max="1"
+                            step="0.05"
+                            value={binding.depth}
+                            onChange={(e) => update(binding.id, { depth: Number(e.target.value) })}
+                            style={rangeStyle}
+                        />
+                    </label>
+                    <label style={fieldStyle}>
+                        Offset: {binding.offset.toFixed(2)}
+                        <input
+                            type="range"
+                            min="-1"
+                            max="1"
+                            step="0.05"
+                            value={binding.offset}
+                            onChange={(e) => update(binding.id, { offset: Number(e.target.value) })}
+                            style={rangeStyle}
+                        />
+                    </label>
+                    <label style={fieldStyle}>
+                        Attack: {binding.attack.toFixed(2)}s
+                        <input
+                            type="range"
+                            min="0"
+                            max="2"
+                            step="0.01"
+                            value={binding.attack}
+                            onChange={(e) => update(binding.id, { attack: Number(e.target.value) })}
+                            style={rangeStyle}
+                        />
+                    </label>
+                    <label style={fieldStyle}>
+                        Release: {binding.release.toFixed(2)}s
+                        <input
+                            type="range"
+                            min="0"
+                            max="2"
+                            step="0.01"
+                            value={binding.release}
+                            onChange={(e) => update(binding.id, { release: Number(e.target.value) })}
+                            style={rangeStyle}
+                        />
+                    </label>
+                    <label style={fieldStyle}>
+                        Curve:
+                        <select
+                            value={binding.curve}
+                            onChange={(e) => update(binding.id, { curve: e.target.value as ModulationCurve })}
+                            style={selectStyle}
+                        >
+                            {Object.entries(MODULATION_CURVES).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {(binding.source === 'lfo' || binding.source === 'time') && (
+                        <label style={fieldStyle}>
+                            Rate: {binding.rate.toFixed(2)} Hz
+                            <input
+                                type="range"
+                                min="0.05"
+                                max="10"
+                                step="0.05"
+                                value={binding.rate}
+                                onChange={(e) => update(binding.id, { rate: Number(e.target.value) })}
+                                style={rangeStyle}
+                            />
+                        </label>
+                    )}
+                </div>
+            ))}
+            <div style={buttonRowStyle}>
+                <button onClick={() => onChange([...bindings, createBinding()])} style={smallButtonStyle}>
+                    + Add Binding
+                </button>
+            </div>
+        </ControlGroup>
+    );
+};
+
+export default ModulationControls;
@@ -0,0 +1,133 @@
+import { isPaletteColorMode, type ColorBand, type ColorMode } from '../config/visualizerConfig';
+import { rgbToHex } from '../engine/color';
+import {
+    BUILT_IN_PALETTES,
+    getPaletteGradient,
+    MAX_PALETTE_STOPS,
+    MIN_PALETTE_STOPS,
+    samplePalette,
+    sortStops,
+    type ColorStop,
+} from '../engine/palettes';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, fieldStyle, hintStyle, rangeStyle, selectStyle, smallButtonStyle } from './panelStyles';
+
+interface PaletteControlsProps {
+    palette: ColorStop[];
+    colorMode: ColorMode;
+    colorBand: ColorBand;
+    onChange: (palette: ColorStop[]) => void;
+    onColorBandChange: (band: ColorBand) => void;
+}
+
+const COLOR_BAND_LABELS: Record<ColorBand, string> = {
+    bass: 'Bass',
+    mid: 'Mid',
+    treble: 'Treble',
+    level: 'Overall Level',
+};
+
+const previewStyle: React.CSSProperties = {
+    height: '24px',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.2)'
+};
+
+const colorInputStyle: React.CSSProperties = { width: '40px', height: '28px', padding: 0, border: 'none', background: 'none' };
+
+/** Middle of the widest gap between stops, so a new stop lands where it changes the most. */
+const getNewStopPosition = (stops: ColorStop[]) => {
+    let best = { start: 0, width: 0 };
+    for (let i = 1; i < stops.length; i++) {
+        const width = stops[i].position - stops[i - 1].position;
+        if (width > best.width) best = { start: stops[i - 1].position, width };
+    }
+    return best.start + best.width / 2;
+};
+
+const PaletteControls: React.FC<PaletteControlsProps> = ({ palette, colorMode, colorBand, onChange, onColorBandChange }) => {
+    // Stops are kept in order, so the editor rows follow the gradient
+    const stops = sortStops(palette);
+
+    const update = (index: number, changes: Partial<ColorStop>) => {
+        onChange(sortStops(stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop))));
+    };
+
+    const addStop = () => {
+        const position = getNewStopPosition(stops);
+        // Start with the color already there, so adding a stop does not change the gradient
+        onChange(sortStops([...stops, { position, color: rgbToHex(samplePalette(stops, position)) }]));
+    };
+
+    return (
+        <ControlGroup title="Palette">
+            {!isPaletteColorMode(colorMode) && (
+                <div style={hintStyle}>Choose a palette color mode under Visual Effects to color particles with it.</div>
+            )}
+            <div style={{ ...previewStyle, background: getPaletteGradient(stops) }} />
+            <label style={fieldStyle}>
+                Built-in Palettes:
+                <select
+                    value=""
+                    onChange={(e) => {
+                        const chosen = BUILT_IN_PALETTES.find(option => option.name === e.target.value);
+                        if (chosen) onChange(chosen.stops.map(stop => ({ ...stop })));
+                    }}
+                    style={selectStyle}
+                >
+                    <option value="" disabled>Load a palette…</option>
+                    {BUILT_IN_PALETTES.map(option => (
+                        <option key={option.name} value={option.name}>{option.name}</option>
+                    ))}
+                </select>
+            </label>
+            {stops.map((stop, index) => (
+                <div key={index} style={buttonRowStyle}>
+                    <input
+                        type="color"
+                        value={stop.color}
+                        onChange={(e) => update(index, { color: e.target.value })}
+                        style={colorInputStyle}
+                        title="Stop color"
+                    />
+                    <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={stop.position}
+                        onChange={(e) => update(index, { position: Number(e.target.value) })}
+                        style={{ ...rangeStyle, flex: 1, width: 'auto' }}
+                        title="Stop position"
+                    />
+                    <span style={hintStyle}>{Math.round(stop.position * 100)}%</span>
+                    <button
+                        className="remove-button"
+                        onClick={() => onChange(stops.filter((_, i) => i !== index))}
+                        disabled={stops.length <= MIN_PALETTE_STOPS}
+                        title="Remove stop"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            <div style={buttonRowStyle}>
+                <button onClick={addStop} disabled={stops.length >= MAX_PALETTE_STOPS} style={smallButtonStyle}>
+                    + Add Stop
+                </button>
+            </div>
+            {colorMode === 'audio' && (
+                <label data-control="/effects/colorBand" style={fieldStyle}>
+                    Audio Band:
+                    <select value={colorBand} onChange={(e) => onColorBandChange(e.target.value as ColorBand)} style={selectStyle}>
+                        {Object.entries(COLOR_BAND_LABELS).map(([band, label]) => (
+                            <option key={band} value={band}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+            )}
+        </ControlGroup>
+    );
+};
+
+export default PaletteControls;
@@ -0,0 +1,52 @@
+import { TARGET_FPS_OPTIONS } from '../engine/qualityGovernor';
+import ControlGroup from './ControlGroup';
+import { checkboxFieldStyle, fieldStyle, hintStyle, selectStyle } from './panelStyles';
+
+interface PerformanceControlsProps {
+    showStats: boolean;
+    isAdaptive: boolean;
+    targetFps: number;
+    quality: string; // Label of the level in use
+    onShowStatsChange: (show: boolean) => void;
+    onAdaptiveChange: (adaptive: boolean) => void;
+    onTargetFpsChange: (fps: number) => void;
+}
+
+const PerformanceControls: React.FC<PerformanceControlsProps> = ({
+    showStats,
+    isAdaptive,
+    targetFps,
+    quality,
+    onShowStatsChange,
+    onAdaptiveChange,
+    onTargetFpsChange,
+}) => (
+    <ControlGroup title="Performance">
+        <label style={checkboxFieldStyle}>
+            <input type="checkbox" checked={showStats} onChange={(e) => onShowStatsChange(e.target.checked)} />
+            Show Stats Overlay
+        </label>
+        <label style={checkboxFieldStyle}>
+            <input type="checkbox" checked={isAdaptive} onChange={(e) => onAdaptiveChange(e.target.checked)} />
+            Adaptive Quality
+        </label>
+        {isAdaptive && (
+            <>
+                <label style={fieldStyle}>
+                    Target Frame Rate:
+                    <select value={targetFps} onChange={(e) => onTargetFpsChange(Number(e.target.value))} style={selectStyle}>
+                        {TARGET_FPS_OPTIONS.map(fps => (
+                            <option key={fps} value={fps}>{fps} fps</option>
+                        ))}
+                    </select>
+                </label>
+                <div style={hintStyle}>
+                    Quality: {quality}. Glow, gradient lines, line count, resolution and particle count are lowered in
+                    steps to hold the target and restored when there is headroom.
+                </div>
+            </>
+        )}
+    </ControlGroup>
+);
+
+export default PerformanceControls;
@@ -0,0 +1,41 @@
+import type { FrameStats } from '../engine/performanceMonitor';
+
+interface PerformanceOverlayProps {
+    stats: FrameStats;
+    particles: number;
+    lines: number;
+    quality: string | null; // Label of the governor's level, null when it is off
+}
+
+const rowStyle: React.CSSProperties = { display: 'flex', justifyContent: 'space-between', gap: '1rem' };
+
+// Frame timing and scene size in the corner of the canvas
+const PerformanceOverlay: React.FC<PerformanceOverlayProps> = ({ stats, particles, lines, quality }) => (
+    <div
+        className="performance-overlay"
+        style={{
+            position: 'absolute',
+            top: '1rem',
+            left: '1rem',
+            zIndex: 2,
+            minWidth: '10rem',
+            background: 'rgba(0, 0, 0, 0.7)',
+            color: 'white',
+            padding: '0.5rem 0.75rem',
+            borderRadius: '8px',
+            fontFamily: 'monospace',
+            fontSize: '0.8rem',
+            pointerEvents: 'none'
+        }}
+    >
+        <div style={rowStyle}><span>FPS</span><span>{stats.fps.toFixed(0)}</span></div>
+        <div style={rowStyle}><span>Frame</span><span>{stats.frameTime.toFixed(1)} ms</span></div>
+        <div style={rowStyle}><span>Work</span><span>{stats.workTime.toFixed(1)} ms</span></div>
+        <div style={rowStyle}><span>Worst</span><span>{stats.worstFrameTime.toFixed(1)} ms</span></div>
+        <div style={rowStyle}><span>Particles</span><span>{particles}</span></div>
+        <div style={rowStyle}><span>Lines</span><span>{lines}</span></div>
+        {quality && <div style={rowStyle}><span>Quality</span><span>{quality}</span></div>}
+    </div>
+);
+
+export default PerformanceOverlay;
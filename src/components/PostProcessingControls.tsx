@@ -0,0 +1,111 @@
+import {
+    BLEND_MODES,
+    movePostEffect,
+    POST_EFFECT_KINDS,
+    POST_EFFECT_PARAMS,
+    type BlendMode,
+    type Composition,
+    type PostEffect,
+} from '../engine/composition';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, checkboxFieldStyle, fieldStyle, hintStyle, rangeStyle, selectStyle, smallButtonStyle } from './panelStyles';
+
+interface PostProcessingControlsProps {
+    composition: Composition;
+    onChange: (composition: Composition) => void;
+}
+
+const effectStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    padding: '0.5rem',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.1)'
+};
+
+const PostProcessingControls: React.FC<PostProcessingControlsProps> = ({ composition, onChange }) => {
+    const { postEffects } = composition;
+
+    const update = (index: number, changes: Partial<PostEffect>) => {
+        onChange({ ...composition, postEffects: postEffects.map((effect, i) => (i === index ? { ...effect, ...changes } : effect)) });
+    };
+
+    const blendSelect = (key: 'particleBlend' | 'lineBlend', label: string) => (
+        <label style={{ ...fieldStyle, flex: 1 }}>
+            {label}:
+            <select
+                value={composition[key]}
+                onChange={(e) => onChange({ ...composition, [key]: e.target.value as BlendMode })}
+                style={selectStyle}
+            >
+                {Object.entries(BLEND_MODES).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    return (
+        <ControlGroup title="Blending & Post-Processing">
+            <div style={buttonRowStyle}>
+                {blendSelect('particleBlend', 'Particle Blend')}
+                {blendSelect('lineBlend', 'Line Blend')}
+            </div>
+            <div style={hintStyle}>Effects run top to bottom over the finished frame.</div>
+            {postEffects.map((effect, index) => {
+                const info = POST_EFFECT_KINDS[effect.kind];
+                return (
+                    <div key={effect.kind} style={effectStyle}>
+                        <div style={buttonRowStyle}>
+                            <label style={{ ...checkboxFieldStyle, flex: 1 }}>
+                                <input
+                                    type="checkbox"
+                                    checked={effect.enabled}
+                                    onChange={(e) => update(index, { enabled: e.target.checked })}
+                                />
+                                {info.label}
+                            </label>
+                            <button
+                                onClick={() => onChange({ ...composition, postEffects: movePostEffect(postEffects, index, -1) })}
+                                disabled={index === 0}
+                                style={smallButtonStyle}
+                                title="Run earlier"
+                            >
+                                ↑
+                            </button>
+                            <button
+                                onClick={() => onChange({ ...composition, postEffects: movePostEffect(postEffects, index, 1) })}
+                                disabled={index === postEffects.length - 1}
+                                style={smallButtonStyle}
+                                title="Run later"
+                            >
+                                ↓
+                            </button>
+                        </div>
+                        {effect.enabled && POST_EFFECT_PARAMS.map(param => {
+                            const range = info.params[param];
+                            return range && (
+                                <label key={param} style={fieldStyle}>
+                                    {range.label}: {effect[param]}
+                                    <input
+                                        type="range"
+                                        min={range.min}
+                                        max={range.max}
+                                        step={range.step}
+                                        value={effect[param]}
+                                        onChange={(e) => update(index, { [param]: Number(e.target.value) })}
+                                        style={rangeStyle}
+                                    />
+                                </label>
+                            );
+                        })}
+                    </div>
+                );
+            })}
+            <div style={hintStyle}>In Canvas2D, bloom is drawn with the particles and always comes first.</div>
+        </ControlGroup>
+    );
+};
+
+export default PostProcessingControls;
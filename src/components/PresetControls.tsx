@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { downloadBlob } from '../capture/files';
+import type { VisualizerConfig } from '../config/visualizerConfig';
+import {
+    BUILT_IN_PRESETS,
+    createPreset,
+    parsePresetJson,
+    removePreset,
+    renamePreset,
+    serializePreset,
+    upsertPreset,
+    type Preset,
+} from '../presets/presets';
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, errorStyle, fieldStyle, selectStyle, smallButtonStyle, textInputStyle } from './panelStyles';
+
+interface PresetControlsProps {
+    config: VisualizerConfig;
+    userPresets: Preset[];
+    loadError: string | null; // Why saved presets could not be loaded
+    onUserPresetsChange: (presets: Preset[]) => void;
+    onApply: (config: VisualizerConfig) => void;
+}
+
+// Select values are prefixed so built-in and user presets may share a name
+const BUILT_IN_PREFIX = 'builtin:';
+const USER_PREFIX = 'user:';
+
+const toMessage = (error: unknown) => (error instanceof Error ? error.message : 'Something went wrong.');
+
+const PresetControls: React.FC<PresetControlsProps> = ({ config, userPresets, loadError, onUserPresetsChange, onApply }) => {
+    const [selected, setSelected] = useState('');
+    const [name, setName] = useState('');
+    const [error, setError] = useState<string | null>(loadError);
+
+    const selectedUserName = selected.startsWith(USER_PREFIX) ? selected.slice(USER_PREFIX.length) : null;
+
+    const commit = (presets: Preset[]) => {
+        try {
+            onUserPresetsChange(presets);
+            setError(null);
+            return true;
+        } catch (err) {
+            setError(toMessage(err));
+            return false;
+        }
+    };
+
+    const selectPreset = (value: string) => {
+        setSelected(value);
+        const preset = value.startsWith(BUILT_IN_PREFIX)
+            ? BUILT_IN_PRESETS.find(p => p.name === value.slice(BUILT_IN_PREFIX.length))
+            : userPresets.find(p => p.name === value.slice(USER_PREFIX.length));
+        if (!preset) return;
+        setName(preset.name);
+        setError(null);
+        onApply(preset.config);
+    };
+
+    const savePreset = () => {
+        const preset = createPreset(name, config);
+        if (!preset.name) {
+            setError('Enter a name to save the preset.');
+            return;
+        }
+        if (commit(upsertPreset(userPresets, preset))) setSelected(USER_PREFIX + preset.name);
+    };
+
+    const renameSelected = () => {
+        if (selectedUserName === null) return;
+        try {
+            const presets = renamePreset(userPresets, selectedUserName, name);
+            if (commit(presets)) setSelected(USER_PREFIX + name.trim());
+        } catch (err) {
+            setError(toMessage(err));
+        }
+    };
+
+    const deleteSelected = () => {
+        if (selectedUserName === null) return;
+        if (commit(removePreset(userPresets, selectedUserName))) setSelected('');
+    };
+
+    const exportPreset = () => {
+        const preset = createPreset(name.trim() || 'Untitled', config);
+        const blob = new Blob([serializePreset(preset)], { type: 'application/json' });
+        downloadBlob(blob, `${preset.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'preset'}.json`);
+    };
+
+    const importPreset = async (file: File) => {
+        try {
+            const preset = parsePresetJson(await file.text());
+            if (!commit(upsertPreset(userPresets, preset))) return;
+            setSelected(USER_PREFIX + preset.name);
+            setName(preset.name);
+            onApply(preset.config);
+        } catch (err) {
+            setError(`Could not import ${file.name}: ${toMessage(err)}`);
+        }
+    };
+
+    return (
+        <ControlGroup title="Presets">
+            <label style={fieldStyle}>
+                Preset:
+                <select value={selected} onChange={(e) => selectPreset(e.target.value)} style={selectStyle}>
+                    <option value="" disabled>Choose a preset…</option>
+                    <optgroup label="Built-in">
+                        {BUILT_IN_PRESETS.map(preset => (
+                            <option key={preset.name} value={BUILT_IN_PREFIX + preset.name}>{preset.name}</option>
+                        ))}
+                    </optgroup>
+                    {userPresets.length > 0 && (
+                        <optgroup label="My Presets">
+                            {userPresets.map(preset => (
+                                <option key={preset.name} value={USER_PREFIX + preset.name}>{preset.name}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                </select>
+            </label>
+            <label style={fieldStyle}>
+                Name:
+                <input
+                    type="text"
+                    value={name}
+                    placeholder="My preset"
+                    onChange={(e) => setName(e.target.value)}
+                    style={textInputStyle}
+                />
+            </label>
+            <div style={buttonRowStyle}>
+                <button onClick={savePreset} style={smallButtonStyle} title="Save the current settings under this name">
+                    Save
+                </button>
+                <button onClick={renameSelected} disabled={selectedUserName === null} style={smallButtonStyle}>
+                    Rename
+                </button>
+                <button onClick={deleteSelected} disabled={selectedUserName === null} style={smallButtonStyle}>
+                    Delete
+                </button>
+            </div>
+            <div style={buttonRowStyle}>
+                <label style={{ ...smallButtonStyle, cursor: 'pointer' }}>
+                    Import…
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="file-input"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importPreset(file);
+                            // Allow re-importing the same file
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <button onClick={exportPreset} style={smallButtonStyle} title="Download the current settings as JSON">
+                    Export
+                </button>
+            </div>
+            {error && <div style={errorStyle}>{error}</div>}
+        </ControlGroup>
+    );
+};
+
+export default PresetControls;
@@ -0,0 +1,35 @@
+import { RENDERER_LABELS, type RendererKind, type RendererPreference } from '../engine/createRenderer';
+import ControlGroup from './ControlGroup';
+import { errorStyle, fieldStyle, hintStyle, selectStyle } from './panelStyles';
+
+interface RendererControlsProps {
+    preference: RendererPreference;
+    activeKind: RendererKind | null;
+    isWebGL2Supported: boolean;
+    error: string | null;
+    onChange: (preference: RendererPreference) => void;
+}
+
+const RendererControls: React.FC<RendererControlsProps> = ({ preference, activeKind, isWebGL2Supported, error, onChange }) => (
+    <ControlGroup title="Renderer">
+        <label style={fieldStyle}>
+            Renderer:
+            <select
+                value={preference}
+                onChange={(e) => onChange(e.target.value as RendererPreference)}
+                style={selectStyle}
+            >
+                {Object.entries(RENDERER_LABELS).map(([value, label]) => (
+                    <option key={value} value={value} disabled={value === 'webgl2' && !isWebGL2Supported}>
+                        {label}
+                    </option>
+                ))}
+            </select>
+        </label>
+        {activeKind && <div style={hintStyle}>Using {RENDERER_LABELS[activeKind]}</div>}
+        {!isWebGL2Supported && <div style={hintStyle}>WebGL2 is not available in this browser.</div>}
+        {error && <div style={errorStyle}>{error}</div>}
+    </ControlGroup>
+);
+
+export default RendererControls;
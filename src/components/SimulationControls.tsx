@@ -0,0 +1,43 @@
+import ControlGroup from './ControlGroup';
+import { buttonRowStyle, fieldStyle, rangeStyle, smallButtonStyle } from './panelStyles';
+
+interface SimulationControlsProps {
+    isPaused: boolean;
+    timeScale: number;
+    onTogglePause: () => void;
+    onStep: () => void;
+    onTimeScaleChange: (timeScale: number) => void;
+}
+
+const SimulationControls: React.FC<SimulationControlsProps> = ({
+    isPaused,
+    timeScale,
+    onTogglePause,
+    onStep,
+    onTimeScaleChange,
+}) => (
+    <ControlGroup title="Simulation">
+        <div style={buttonRowStyle}>
+            <button onClick={onTogglePause} style={smallButtonStyle}>
+                {isPaused ? '▶ Resume' : '❚❚ Pause'}
+            </button>
+            <button onClick={onStep} disabled={!isPaused} style={smallButtonStyle} title="Advance one simulation step">
+                Step ▸|
+            </button>
+        </div>
+        <label style={fieldStyle}>
+            Speed: {timeScale.toFixed(2)}×
+            <input
+                type="range"
+                min="0.05"
+                max="2"
+                step="0.05"
+                value={timeScale}
+                onChange={(e) => onTimeScaleChange(Number(e.target.value))}
+                style={rangeStyle}
+            />
+        </label>
+    </ControlGroup>
+);
+
+export default SimulationControls;
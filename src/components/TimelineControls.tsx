@@ -0,0 +1,389 @@
+import { useState } from 'react';
+import { downloadBlob } from '../capture/files';
+import type { VisualizerConfig } from '../config/visualizerConfig';
+import { BUILT_IN_PRESETS, createPreset, type Preset } from '../presets/presets';
+import {
+    createKeyframe,
+    createScene,
+    createTrack,
+    EASINGS,
+    EMPTY_TIMELINE,
+    evaluateTimeline,
+    getTargetValue,
+    getTimelineEnd,
+    parseTimelineJson,
+    serializeTimeline,
+    sortByTime,
+    TIME_RANGE,
+    TIMELINE_TARGETS,
+    TRANSITION_RANGE,
+    type Easing,
+    type Keyframe,
+    type Scene,
+    type Timeline,
+    type TimelineTarget,
+    type TimelineTrack,
+    type TimelineValue,
+} from '../presets/timeline';
+import ControlGroup from './ControlGroup';
+import {
+    buttonRowStyle,
+    checkboxFieldStyle,
+    errorStyle,
+    hintStyle,
+    selectStyle,
+    smallButtonStyle,
+    textInputStyle,
+} from './panelStyles';
+
+interface TimelineControlsProps {
+    timeline: Timeline;
+    isFollowing: boolean; // Whether the timeline drives the settings
+    position: number; // Seconds into the track
+    duration: number; // Of the loaded track, 0 without one
+    config: VisualizerConfig; // The slider settings, the look before the first scene
+    userPresets: Preset[];
+    onChange: (timeline: Timeline) => void;
+    onFollowChange: (isFollowing: boolean) => void;
+    onSeek: (seconds: number) => void;
+}
+
+// Select value for a scene made from the current slider settings; presets are picked by index
+const CURRENT_SETTINGS = 'current';
+
+const itemStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.25rem',
+    padding: '0.5rem',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.1)'
+};
+
+const stripStyle: React.CSSProperties = {
+    position: 'relative',
+    height: '36px',
+    borderRadius: '4px',
+    background: 'rgba(255, 255, 255, 0.08)',
+    overflow: 'hidden',
+    cursor: 'pointer'
+};
+
+const timeInputStyle: React.CSSProperties = { ...textInputStyle, width: '5rem', padding: '0.3rem' };
+
+const formatTime = (seconds: number) => {
+    const tenths = Math.floor(seconds * 10);
+    return `${Math.floor(tenths / 600)}:${String(Math.floor(tenths / 10) % 60).padStart(2, '0')}.${tenths % 10}`;
+};
+
+const readTime = (value: string, max = TIME_RANGE.max) => Math.min(max, Math.max(0, Number(value) || 0));
+
+const toMessage = (error: unknown) => (error instanceof Error ? error.message : 'Something went wrong.');
+
+const ValueInput: React.FC<{ target: TimelineTarget; value: TimelineValue; onChange: (value: TimelineValue) => void }> = ({ target, value, onChange }) => {
+    const info = TIMELINE_TARGETS[target];
+    switch (info.type) {
+        case 'number':
+            return (
+                <input
+                    type="number"
+                    min={info.range.min}
+                    max={info.range.max}
+                    step={info.integer ? 1 : info.range.step}
+                    value={value as number}
+                    onChange={(e) => onChange(Math.min(info.range.max, Math.max(info.range.min, Number(e.target.value) || 0)))}
+                    style={{ ...timeInputStyle, flex: 1 }}
+                    aria-label="Value"
+                />
+            );
+        case 'color':
+            return <input type="color" value={value as string} onChange={(e) => onChange(e.target.value)} aria-label="Value" />;
+        case 'choice':
+            return (
+                <select value={value as string} onChange={(e) => onChange(e.target.value)} style={{ ...selectStyle, flex: 1, padding: '0.3rem' }}>
+                    {info.choices.map(choice => (
+                        <option key={choice} value={choice}>{choice}</option>
+                    ))}
+                </select>
+            );
+        case 'boolean':
+            return (
+                <label style={{ ...checkboxFieldStyle, flex: 1 }}>
+                    <input type="checkbox" checked={value as boolean} onChange={(e) => onChange(e.target.checked)} />
+                    {value ? 'On' : 'Off'}
+                </label>
+            );
+    }
+};
+
+const TimelineControls: React.FC<TimelineControlsProps> = ({
+    timeline,
+    isFollowing,
+    position,
+    duration,
+    config,
+    userPresets,
+    onChange,
+    onFollowChange,
+    onSeek,
+}) => {
+    const [scenePreset, setScenePreset] = useState(CURRENT_SETTINGS);
+    const [newTarget, setNewTarget] = useState<TimelineTarget>('trailLength');
+    const [error, setError] = useState<string | null>(null);
+    const { scenes, tracks } = timeline;
+    // Leave room past the last event when there is no track to size the view
+    const viewLength = Math.max(duration, getTimelineEnd(timeline) + 5, 10);
+    const presets = [...BUILT_IN_PRESETS, ...userPresets];
+    const untracked = (Object.keys(TIMELINE_TARGETS) as TimelineTarget[]).filter(target => !tracks.some(track => track.target === target));
+    const target = untracked.includes(newTarget) ? newTarget : untracked[0];
+
+    const updateScene = (id: string, changes: Partial<Scene>) => {
+        onChange({ ...timeline, scenes: sortByTime(scenes.map(scene => (scene.id === id ? { ...scene, ...changes } : scene))) });
+    };
+
+    const updateTrack = (id: string, changes: Partial<TimelineTrack>) => {
+        onChange({ ...timeline, tracks: tracks.map(track => (track.id === id ? { ...track, ...changes } : track)) });
+    };
+
+    const updateKeyframe = (track: TimelineTrack, id: string, changes: Partial<Keyframe>) => {
+        updateTrack(track.id, { keyframes: sortByTime(track.keyframes.map(keyframe => (keyframe.id === id ? { ...keyframe, ...changes } : keyframe))) });
+    };
+
+    // New keyframes start at what the timeline shows right now, so adding one changes nothing
+    const currentValue = (target: TimelineTarget) => getTargetValue(evaluateTimeline(timeline, config, position), target);
+
+    const addScene = () => {
+        const preset = scenePreset === CURRENT_SETTINGS
+            ? createPreset('Current settings', config)
+            : presets[Number(scenePreset)];
+        if (preset) onChange({ ...timeline, scenes: sortByTime([...scenes, createScene(position, preset)]) });
+    };
+
+    const addTrack = () => {
+        if (!target) return;
+        onChange({ ...timeline, tracks: [...tracks, createTrack(target, [createKeyframe(position, currentValue(target))])] });
+    };
+
+    const exportTimeline = () => {
+        downloadBlob(new Blob([serializeTimeline(timeline)], { type: 'application/json' }), 'timeline.json');
+    };
+
+    const importTimeline = async (file: File) => {
+        try {
+            onChange(parseTimelineJson(await file.text()));
+            setError(null);
+        } catch (err) {
+            setError(`Could not import ${file.name}: ${toMessage(err)}`);
+        }
+    };
+
+    return (
+        <ControlGroup title="Timeline">
+            <div style={buttonRowStyle}>
+                <label style={{ ...checkboxFieldStyle, flex: 1 }}>
+                    <input type="checkbox" checked={isFollowing} onChange={(e) => onFollowChange(e.target.checked)} />
+                    Follow Timeline
+                </label>
+                <span style={hintStyle}>{formatTime(position)}</span>
+            </div>
+            <div
+                style={stripStyle}
+                title="Click to seek"
+                onClick={(e) => {
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    onSeek(((e.clientX - rect.left) / rect.width) * viewLength);
+                }}
+            >
+                {scenes.map(scene => (
+                    <div
+                        key={scene.id}
+                        title={scene.preset.name}
+                        style={{
+                            position: 'absolute',
+                            top: 2,
+                            height: 14,
+                            left: `${(scene.time / viewLength) * 100}%`,
+                            // The crossfade shows as the block's width
+                            width: `max(3px, ${(scene.transition / viewLength) * 100}%)`,
+                            background: 'rgba(100, 108, 255, 0.7)',
+                            borderRadius: '2px'
+                        }}
+                    />
+                ))}
+                {tracks.flatMap(track => track.keyframes.map(keyframe => (
+                    <div
+                        key={keyframe.id}
+                        style={{
+                            position: 'absolute',
+                            top: 22,
+                            left: `calc(${(keyframe.time / viewLength) * 100}% - 3px)`,
+                            width: 6,
+                            height: 6,
+                            transform: 'rotate(45deg)',
+                            background: track.enabled ? '#ffd166' : 'rgba(255, 255, 255, 0.3)'
+                        }}
+                    />
+                )))}
+                <div
+                    style={{
+                        position: 'absolute',
+                        top: 0,
+                        bottom: 0,
+                        left: `${(Math.min(position, viewLength) / viewLength) * 100}%`,
+                        width: 2,
+                        background: 'white'
+                    }}
+                />
+            </div>
+            {!isFollowing && <div style={hintStyle}>The sliders apply as set until the timeline is followed again.</div>}
+
+            <div style={hintStyle}>Scenes switch the whole look, crossfading from what was showing before.</div>
+            {scenes.map(scene => (
+                <div key={scene.id} style={buttonRowStyle}>
+                    <input
+                        type="number"
+                        min={0}
+                        step={TIME_RANGE.step}
+                        value={scene.time}
+                        onChange={(e) => updateScene(scene.id, { time: readTime(e.target.value) })}
+                        style={timeInputStyle}
+                        title="Start (s)"
+                    />
+                    <span style={{ flex: 1 }}>{scene.preset.name}</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={TRANSITION_RANGE.max}
+                        step={TRANSITION_RANGE.step}
+                        value={scene.transition}
+                        onChange={(e) => updateScene(scene.id, { transition: readTime(e.target.value, TRANSITION_RANGE.max) })}
+                        style={timeInputStyle}
+                        title={TRANSITION_RANGE.label}
+                    />
+                    <button
+                        className="remove-button"
+                        onClick={() => onChange({ ...timeline, scenes: scenes.filter(other => other.id !== scene.id) })}
+                        title="Remove scene"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            <div style={buttonRowStyle}>
+                <select value={scenePreset} onChange={(e) => setScenePreset(e.target.value)} style={{ ...selectStyle, flex: 1 }}>
+                    <option value={CURRENT_SETTINGS}>Current settings</option>
+                    {presets.map((preset, index) => (
+                        // Built-in and user presets may share a name
+                        <option key={index} value={index}>{preset.name}</option>
+                    ))}
+                </select>
+                <button onClick={addScene} style={smallButtonStyle}>
+                    + Scene at {formatTime(position)}
+                </button>
+            </div>
+
+            <div style={hintStyle}>Keyframed settings override the scene and slider values.</div>
+            {tracks.map(track => (
+                <div key={track.id} style={itemStyle}>
+                    <div style={buttonRowStyle}>
+                        <label style={{ ...checkboxFieldStyle, flex: 1 }}>
+                            <input
+                                type="checkbox"
+                                checked={track.enabled}
+                                onChange={(e) => updateTrack(track.id, { enabled: e.target.checked })}
+                            />
+                            {TIMELINE_TARGETS[track.target].label}
+                        </label>
+                        <button
+                            onClick={() => updateTrack(track.id, { keyframes: sortByTime([...track.keyframes, createKeyframe(position, currentValue(track.target))]) })}
+                            style={smallButtonStyle}
+                            title="Add a keyframe at the playback position"
+                        >
+                            + Key
+                        </button>
+                        <button
+                            className="remove-button"
+                            onClick={() => onChange({ ...timeline, tracks: tracks.filter(other => other.id !== track.id) })}
+                            title="Remove track"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                    {track.keyframes.map(keyframe => (
+                        <div key={keyframe.id} style={buttonRowStyle}>
+                            <input
+                                type="number"
+                                min={0}
+                                step={TIME_RANGE.step}
+                                value={keyframe.time}
+                                onChange={(e) => updateKeyframe(track, keyframe.id, { time: readTime(e.target.value) })}
+                                style={timeInputStyle}
+                                title="Time (s)"
+                            />
+                            <ValueInput target={track.target} value={keyframe.value} onChange={(value) => updateKeyframe(track, keyframe.id, { value })} />
+                            <select
+                                value={keyframe.easing}
+                                onChange={(e) => updateKeyframe(track, keyframe.id, { easing: e.target.value as Easing })}
+                                style={{ ...selectStyle, padding: '0.3rem' }}
+                                title="Easing from the previous keyframe"
+                            >
+                                {Object.entries(EASINGS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                            <button
+                                className="remove-button"
+                                onClick={() => updateTrack(track.id, { keyframes: track.keyframes.filter(other => other.id !== keyframe.id) })}
+                                title="Remove keyframe"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            ))}
+            {target && (
+                <div style={buttonRowStyle}>
+                    <select value={target} onChange={(e) => setNewTarget(e.target.value as TimelineTarget)} style={{ ...selectStyle, flex: 1 }}>
+                        {untracked.map(value => (
+                            <option key={value} value={value}>{TIMELINE_TARGETS[value].label}</option>
+                        ))}
+                    </select>
+                    <button onClick={addTrack} style={smallButtonStyle}>
+                        + Add Track
+                    </button>
+                </div>
+            )}
+
+            <div style={buttonRowStyle}>
+                <label style={{ ...smallButtonStyle, cursor: 'pointer' }}>
+                    Import…
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="file-input"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importTimeline(file);
+                            // Allow re-importing the same file
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                <button onClick={exportTimeline} style={smallButtonStyle} title="Download the scenes and keyframes as JSON">
+                    Export
+                </button>
+                <button
+                    onClick={() => onChange(EMPTY_TIMELINE)}
+                    disabled={!scenes.length && !tracks.length}
+                    style={smallButtonStyle}
+                >
+                    Clear
+                </button>
+            </div>
+            {error && <div style={errorStyle}>{error}</div>}
+        </ControlGroup>
+    );
+};
+
+export default TimelineControls;
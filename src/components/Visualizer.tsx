@@ -1,612 +1,1544 @@
-import { useEffect, useRef, useState } from 'react';
-
-interface Particle {
-    x: number;
-    y: number;
-    vx: number;
-    vy: number;
-    size: number;
-    hue: number;
-    saturation: number;
-    brightness: number;
+import { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { AudioEngine, AudioInputError, type AudioInputDevice } from '../audio/audioEngine';
+import { rootMeanSquare, SILENT_BANDS } from '../audio/bands';
+import { BeatDetector } from '../audio/beatDetector';
+import { analyzeTrack, decodeAudioFile, mixToMono } from '../audio/trackAnalysis';
+import { CanvasRecorder, isRecordingSupported } from '../capture/canvasRecorder';
+import { downloadBlob, timestampedFileName } from '../capture/files';
+import { PngZipSink, WebCodecsSink } from '../capture/frameSinks';
+import { renderOffline, type FrameExportSettings } from '../capture/offlineRender';
+import { CONFIG_RANGES, EFFECT_RANGES } from '../config/ranges';
+import { decodeConfig, encodeConfig } from '../config/urlState';
+import { commandFromLevel, commandFromMessage, ControlError, type ControlCommand } from '../control/controlAddresses';
+import {
+    describeMidiControl,
+    isMidiSupported,
+    isSameControl,
+    learnMidiBinding,
+    loadMidiBindings,
+    MidiInput,
+    saveMidiBindings,
+    type MidiBinding,
+    type MidiMessage,
+} from '../control/midi';
+import { OscSocket, type OscMessage, type OscSocketStatus } from '../control/osc';
+import {
+    DEFAULT_CONFIG,
+    type ColorMode,
+    type EffectsConfig,
+    type LineStyle,
+    type ParticleShape,
+    type VisualizerConfig,
+} from '../config/visualizerConfig';
+import { DEFAULT_BEAT_REACTIONS, type BeatReactionSettings } from '../engine/beatReactions';
+import { DEFAULT_BOUNDARY, type BoundaryConfig, type MaskBitmap } from '../engine/boundary';
+import { DEFAULT_COMPOSITION, type Composition } from '../engine/composition';
+import { isWebGL2Supported, type RendererKind, type RendererPreference } from '../engine/createRenderer';
+import { DEFAULT_PARTICLE_CAP, type Emitter } from '../engine/emitters';
+import type { Force } from '../engine/forces';
+import { INTERACTION_MODES, type InteractionMode } from '../engine/interaction';
+import { rasterizeImage, rasterizeText } from '../engine/maskBitmap';
+import { EMPTY_FRAME_STATS, type FrameStats } from '../engine/performanceMonitor';
+import { DEFAULT_TARGET_FPS, QUALITY_LEVELS } from '../engine/qualityGovernor';
+import { randomSeed } from '../engine/random';
+import { DEFAULT_PIXEL_RATIO_CAP, getCanvasSize } from '../engine/viewport';
+import { DEFAULT_BINDINGS, type ModulationBinding } from '../modulation/modulation';
+import { loadUserPresets, saveUserPresets, type Preset } from '../presets/presets';
+import { SimulationClient } from '../simulation/simulationClient';
+import { EMPTY_TIMELINE, setTargetValue, type Timeline, type TimelineTarget, type TimelineValue } from '../presets/timeline';
+import AudioControls, { type AudioInputSource } from './AudioControls';
+import BackgroundControls from './BackgroundControls';
+import BeatControls from './BeatControls';
+import BoundaryControls from './BoundaryControls';
+import CaptureControls, { type ExportProgress } from './CaptureControls';
+import ControlSurfaceControls from './ControlSurfaceControls';
+import DisplayControls from './DisplayControls';
+import EmitterControls from './EmitterControls';
+import EmitterMarkers from './EmitterMarkers';
+import ForceControls from './ForceControls';
+import ForceMarkers from './ForceMarkers';
+import ModulationControls from './ModulationControls';
+import PaletteControls from './PaletteControls';
+import PerformanceControls from './PerformanceControls';
+import PerformanceOverlay from './PerformanceOverlay';
+import PostProcessingControls from './PostProcessingControls';
+import PresetControls from './PresetControls';
+import RendererControls from './RendererControls';
+import SimulationControls from './SimulationControls';
+import TimelineControls from './TimelineControls';
+import './Visualizer.css';
+
+// How long the "controls hidden" hint stays up
+const HIDDEN_UI_HINT_DURATION = 3000;
+
+// Keyboard shortcuts should not fire while typing into a field
+const isEditableTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+
+// Wait for sliders to settle before rewriting the URL
+const URL_UPDATE_DELAY = 300;
+
+export interface ParticleVisualizerProps {
+    config?: VisualizerConfig; // Controlled: shown as given, changes are only reported through onConfigChange
+    defaultConfig?: VisualizerConfig; // Uncontrolled: the settings to start from
+    onConfigChange?: (config: VisualizerConfig) => void;
+    showControls?: boolean; // The control panel, its menu button and the force and emitter markers
+    keyboardShortcuts?: boolean; // H and Esc toggle the controls, F toggles fullscreen
+    syncUrl?: boolean; // Start from and mirror the settings in the URL hash, as the standalone app does
+    className?: string;
+    style?: React.CSSProperties;
+    ref?: React.Ref<ParticleVisualizerHandle>;
+}
+
+/** Imperative control over a mounted visualizer. */
+export interface ParticleVisualizerHandle {
+    pause(): void;
+    resume(): void;
+    burst(x: number, y: number): void; // CSS pixels from the visualizer's top-left corner
+    setConfig(changes: Partial<VisualizerConfig>): void; // Merged into the current settings
+    getConfig(): VisualizerConfig;
+    snapshot(): Promise<Blob>; // PNG of the next frame
+}
+
+interface SnapshotRequest {
+    resolve: (blob: Blob) => void;
+    reject: (error: unknown) => void;
 }
 
-const AudioVisualizer: React.FC = () => {
+// Pointer event times on the shared epoch clock the simulation expects
+const getEventTime = (e: React.PointerEvent) => performance.timeOrigin + e.timeStamp;
+
+/**
+ * The visualizer with its control panel. It fills its container, so give the
+ * container a size.
+ */
+const ParticleVisualizer: React.FC<ParticleVisualizerProps> = ({
+    config: controlledConfig,
+    defaultConfig,
+    onConfigChange,
+    showControls = true,
+    keyboardShortcuts = true,
+    syncUrl = false,
+    className,
+    style,
+    ref,
+}) => {
+    const rootRef = useRef<HTMLDivElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const animationFrameRef = useRef<number>(0);
-    const particlesRef = useRef<Particle[]>([]);
-    const mousePositionRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-    const [particleCount, setParticleCount] = useState(100);
-    const [lineWidth, setLineWidth] = useState(2);
-    const [particleColor, setParticleColor] = useState('#ffffff');
+    const simulationRef = useRef<SimulationClient | null>(null);
+    const audioEngineRef = useRef<AudioEngine | null>(null);
+    const beatDetectorRef = useRef<BeatDetector | null>(null);
+    const recorderRef = useRef<CanvasRecorder | null>(null);
+    const snapshotRequestsRef = useRef(new Map<number, SnapshotRequest>()); // Keyed on the id sent to the simulation
+    const nextSnapshotIdRef = useRef(0);
+    const exportAbortRef = useRef<AbortController | null>(null);
+    const audioFileRef = useRef<File | null>(null); // Decoded again for offline track renders
+    const midiInputRef = useRef<MidiInput | null>(null);
+    const oscSocketRef = useRef<OscSocket | null>(null);
+    const fallbackReasonRef = useRef<string | null>(null); // Shown until the renderer that replaced the failed one is up
+    // A shared link restores its configuration on load
+    const [initialConfig] = useState(() =>
+        controlledConfig ?? defaultConfig ?? (syncUrl ? decodeConfig(window.location.hash) : null) ?? DEFAULT_CONFIG
+    );
+    const [ownConfig, setOwnConfig] = useState(initialConfig);
+    const config = controlledConfig ?? ownConfig;
+    const { particleCount, maxConnections, lineWidth, particleColor, palette, effects } = config;
     const [isPanelOpen, setIsPanelOpen] = useState(false);
-    const [effects, setEffects] = useState({
-        colorMode: 'solid', // 'solid', 'rainbow'
-        particleShape: 'circle', // 'circle', 'square', 'triangle'
-        lineStyle: 'solid', // 'solid', 'dashed', 'gradient'
-        trailLength: 0.1, // 0-1
-        particleSize: 2, // 1-10
-        connectionDistance: 200, // 50-500
-        glowEffect: false,
-        glowIntensity: 0.5, // 0-1
-        mouseRepulsion: 80, // Distance at which mouse affects particles
-        mouseForce: 3, // Strength of mouse repulsion
+    const [isUiHidden, setIsUiHidden] = useState(false);
+    const [isHiddenHintVisible, setIsHiddenHintVisible] = useState(false);
+    const [isFullscreen, setIsFullscreen] = useState(false);
+    const [pixelRatioCap, setPixelRatioCap] = useState(DEFAULT_PIXEL_RATIO_CAP);
+    const [devicePixelRatio, setDevicePixelRatio] = useState(() => window.devicePixelRatio || 1);
+    const [isPaused, setIsPaused] = useState(false);
+    const [timeScale, setTimeScale] = useState(1);
+    const [rendererPreference, setRendererPreference] = useState<RendererPreference>('auto');
+    const [rendererKind, setRendererKind] = useState<RendererKind | null>(null);
+    const [rendererError, setRendererError] = useState<string | null>(null);
+    const [canvasGeneration, setCanvasGeneration] = useState(0); // Bumped when the canvas element must be replaced
+    const [audioFileName, setAudioFileName] = useState<string | null>(null);
+    const [audioError, setAudioError] = useState<string | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [audioPosition, setAudioPosition] = useState(0);
+    const [audioDuration, setAudioDuration] = useState(0);
+    const [volume, setVolume] = useState(0.8);
+    const [isDraggingFile, setIsDraggingFile] = useState(false);
+    const [inputSource, setInputSource] = useState<AudioInputSource>('file');
+    const [isMicrophoneActive, setIsMicrophoneActive] = useState(false);
+    const [inputDevices, setInputDevices] = useState<AudioInputDevice[]>([]);
+    const [inputDeviceId, setInputDeviceId] = useState<string | null>(null);
+    const [inputGain, setInputGain] = useState(1);
+    const [bpm, setBpm] = useState<number | null>(null);
+    const [beatSettings, setBeatSettings] = useState<BeatReactionSettings>(DEFAULT_BEAT_REACTIONS);
+    const [modulations, setModulations] = useState<ModulationBinding[]>(DEFAULT_BINDINGS);
+    const [forces, setForces] = useState<Force[]>([]);
+    const [emitters, setEmitters] = useState<Emitter[]>([]);
+    const [particleCap, setParticleCap] = useState(DEFAULT_PARTICLE_CAP);
+    const [interactionMode, setInteractionMode] = useState<InteractionMode>('repel');
+    const [placingId, setPlacingId] = useState<string | null>(null); // Force or emitter waiting for a canvas click
+    const [boundary, setBoundary] = useState<BoundaryConfig>(DEFAULT_BOUNDARY);
+    const [maskImage, setMaskImage] = useState<{ name: string; bitmap: MaskBitmap } | null>(null);
+    const [maskError, setMaskError] = useState<string | null>(null);
+    const [composition, setComposition] = useState<Composition>(DEFAULT_COMPOSITION);
+    const [backgroundImage, setBackgroundImage] = useState<{ name: string; bitmap: ImageBitmap } | null>(null);
+    const [backgroundError, setBackgroundError] = useState<string | null>(null);
+    const [storedPresets] = useState(() => loadUserPresets());
+    const [userPresets, setUserPresets] = useState<Preset[]>(storedPresets.presets);
+    const [timeline, setTimeline] = useState<Timeline>(EMPTY_TIMELINE);
+    const [isFollowingTimeline, setIsFollowingTimeline] = useState(true);
+    const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+    const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+    const [captureError, setCaptureError] = useState<string | null>(null);
+    const [midiBindings, setMidiBindings] = useState<MidiBinding[]>(() => loadMidiBindings());
+    const [isMidiEnabled, setIsMidiEnabled] = useState(false);
+    const [midiDevices, setMidiDevices] = useState<string[]>([]);
+    const [isMidiLearning, setIsMidiLearning] = useState(false);
+    const [learnAddress, setLearnAddress] = useState<string | null>(null);
+    const [socketStatus, setSocketStatus] = useState<OscSocketStatus>('closed');
+    const [lastControlMessage, setLastControlMessage] = useState<string | null>(null);
+    const [controlError, setControlError] = useState<string | null>(null);
+    const [showStats, setShowStats] = useState(false);
+    const [frameStats, setFrameStats] = useState<{ stats: FrameStats; particles: number; lines: number }>({
+        stats: EMPTY_FRAME_STATS,
+        particles: 0,
+        lines: 0,
     });
+    const [isAdaptiveQuality, setIsAdaptiveQuality] = useState(false);
+    const [targetFps, setTargetFps] = useState(DEFAULT_TARGET_FPS);
+    const [qualityLevel, setQualityLevel] = useState(0); // Index into QUALITY_LEVELS, 0 unless adaptive
+    const { resolutionScale } = QUALITY_LEVELS[qualityLevel];
 
-    const draw = () => {
-        const canvas = canvasRef.current;
-        const ctx = canvas?.getContext('2d');
-        if (!canvas || !ctx) return;
-
-        // Clear canvas with trail effect based on trailLength
-        ctx.fillStyle = `rgba(0, 0, 0, ${1 - effects.trailLength})`;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-        const particles = particlesRef.current;
-        if (!particles.length) return;
-
-        // Update and draw particles
-        for (let i = 0; i < particles.length; i++) {
-            const p = particles[i];
-            
-            // Apply mouse repulsion force
-            const dx = p.x - mousePositionRef.current.x;
-            const dy = p.y - mousePositionRef.current.y;
-            const distance = Math.sqrt(dx * dx + dy * dy);
-            
-            if (distance < effects.mouseRepulsion) {
-                const force = (effects.mouseRepulsion - distance) / effects.mouseRepulsion;
-                const angle = Math.atan2(dy, dx);
-                p.vx += Math.cos(angle) * force * effects.mouseForce;
-                p.vy += Math.sin(angle) * force * effects.mouseForce;
-            }
-            
-            // Maintain constant base movement
-            const baseSpeed = 1;
-            const angle = Math.atan2(p.vy, p.vx);
-            const speed = Math.sqrt(p.vx * p.vx + p.vy * p.vy);
-            
-            // Normalize velocity to maintain constant speed
-            if (speed < baseSpeed) {
-                p.vx = Math.cos(angle) * baseSpeed;
-                p.vy = Math.sin(angle) * baseSpeed;
-            }
-            
-            // Update position
-            p.x += p.vx;
-            p.y += p.vy;
-
-            // Bounce off walls with energy preservation
-            if (p.x < 0) {
-                p.x = 0;
-                p.vx = Math.abs(p.vx);
-            } else if (p.x > canvas.width) {
-                p.x = canvas.width;
-                p.vx = -Math.abs(p.vx);
-            }
-            if (p.y < 0) {
-                p.y = 0;
-                p.vy = Math.abs(p.vy);
-            } else if (p.y > canvas.height) {
-                p.y = canvas.height;
-                p.vy = -Math.abs(p.vy);
-            }
+    const textMask = useMemo(() => (boundary.maskShape === 'text' ? rasterizeText(boundary.maskText) : null), [boundary.maskShape, boundary.maskText]);
+    const maskBitmap = boundary.maskShape === 'text' ? textMask : boundary.maskShape === 'image' ? maskImage?.bitmap ?? null : null;
 
-            // Draw particle
-            drawParticle(ctx, p);
-
-            // Draw lines to nearby particles
-            for (let j = i + 1; j < particles.length; j++) {
-                const p2 = particles[j];
-                const dx = p.x - p2.x;
-                const dy = p.y - p2.y;
-                const distance = Math.sqrt(dx * dx + dy * dy);
-
-                // Only draw lines if particles are within connection distance
-                if (distance < effects.connectionDistance) {
-                    // Calculate opacity based on distance (fade out as distance increases)
-                    const opacity = 0.2 * (1 - (distance / effects.connectionDistance));
-                    drawLine(ctx, p, p2, opacity);
-                }
-            }
-        }
+    // Changes build on the latest settings, including ones made earlier in the
+    // same event, and a controlled config only changes once the parent passes it back
+    const latestConfigRef = useRef(config);
+    const isControlledRef = useRef(controlledConfig !== undefined);
+    const onConfigChangeRef = useRef(onConfigChange);
+    useEffect(() => {
+        latestConfigRef.current = config;
+        isControlledRef.current = controlledConfig !== undefined;
+        onConfigChangeRef.current = onConfigChange;
+    });
 
-        // Request next frame
-        animationFrameRef.current = requestAnimationFrame(draw);
+    const applyConfig = useCallback((next: VisualizerConfig) => {
+        latestConfigRef.current = next;
+        if (!isControlledRef.current) setOwnConfig(next);
+        onConfigChangeRef.current?.(next);
+    }, []);
+
+    const updateConfig = useCallback((changes: Partial<VisualizerConfig>) => {
+        applyConfig({ ...latestConfigRef.current, ...changes });
+    }, [applyConfig]);
+
+    const updateEffects = (changes: Partial<EffectsConfig>) => {
+        const current = latestConfigRef.current;
+        applyConfig({ ...current, effects: { ...current.effects, ...changes } });
     };
 
-    // Initialize canvas and start animation
-    useEffect(() => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
+    // Set one setting the way its slider would
+    const applyTarget = useCallback((target: TimelineTarget, value: TimelineValue) => {
+        applyConfig(setTargetValue(latestConfigRef.current, target, value));
+    }, [applyConfig]);
+
+    const updateUserPresets = (presets: Preset[]) => {
+        saveUserPresets(presets);
+        setUserPresets(presets);
+    };
 
-        // Set canvas size to window size
-        canvas.width = window.innerWidth;
-        canvas.height = window.innerHeight;
-
-        // Initialize particles
-        particlesRef.current = Array.from({ length: particleCount }, createParticle);
-        
-        // Add mouse event listeners
-        const handleMouseMove = (e: MouseEvent) => {
-            const rect = canvas.getBoundingClientRect();
-            mousePositionRef.current = {
-                x: e.clientX - rect.left,
-                y: e.clientY - rect.top
+    // Created lazily so the audio context is only touched once audio is used
+    const getAudioEngine = () => {
+        if (!audioEngineRef.current) {
+            const engine = new AudioEngine();
+            engine.setVolume(volume);
+            engine.setInputGain(inputGain);
+            engine.onEnded = () => {
+                setIsPlaying(false);
+                setAudioPosition(0);
             };
-        };
+            audioEngineRef.current = engine;
+        }
+        return audioEngineRef.current;
+    };
 
-        canvas.addEventListener('mousemove', handleMouseMove);
-        
-        // Start animation
-        animationFrameRef.current = requestAnimationFrame(draw);
+    const getBeatDetector = () => {
+        if (!beatDetectorRef.current) {
+            beatDetectorRef.current = new BeatDetector({ sensitivity: beatSettings.sensitivity });
+        }
+        return beatDetectorRef.current;
+    };
 
-        // Cleanup
-        return () => {
-            if (animationFrameRef.current) {
-                cancelAnimationFrame(animationFrameRef.current);
+    // Tempo from a previous track or input would be misleading
+    const resetBeatDetection = () => {
+        beatDetectorRef.current?.reset();
+        setBpm(null);
+    };
+
+    const loadAudioFile = async (file: File) => {
+        if (file.type && !file.type.startsWith('audio/')) {
+            setAudioError(`"${file.name}" is not an audio file.`);
+            return;
+        }
+        const engine = getAudioEngine();
+        if (inputSource !== 'file') {
+            // Dropping a file while live input is active switches back to file playback
+            engine.closeMicrophone();
+            setIsMicrophoneActive(false);
+            setInputSource('file');
+        }
+        engine.pause();
+        setIsPlaying(false);
+        resetBeatDetection();
+        try {
+            const duration = await engine.loadFile(file);
+            audioFileRef.current = file;
+            setAudioFileName(file.name);
+            setAudioDuration(duration);
+            setAudioPosition(0);
+            setAudioError(null);
+            await engine.play();
+            setIsPlaying(true);
+        } catch {
+            engine.unload();
+            audioFileRef.current = null;
+            setAudioFileName(null);
+            setAudioError(`Could not decode "${file.name}".`);
+        }
+    };
+
+    const togglePlayback = async () => {
+        const engine = audioEngineRef.current;
+        if (!engine?.isLoaded) return;
+        if (engine.isPlaying) {
+            engine.pause();
+        } else {
+            await engine.play();
+        }
+        setIsPlaying(engine.isPlaying);
+    };
+
+    const seekAudio = (seconds: number) => {
+        audioEngineRef.current?.seek(seconds);
+        setAudioPosition(seconds);
+    };
+
+    const openMicrophone = async (deviceId?: string) => {
+        const engine = getAudioEngine();
+        try {
+            const openedId = await engine.openMicrophone(deviceId);
+            setIsMicrophoneActive(true);
+            setAudioError(null);
+            setInputDeviceId(openedId ?? null);
+            // Device labels only become available once permission is granted
+            setInputDevices(await AudioEngine.listInputDevices());
+        } catch (error) {
+            setIsMicrophoneActive(false);
+            setAudioError(error instanceof AudioInputError ? error.message : 'The audio input could not be opened.');
+        }
+    };
+
+    const changeInputSource = (source: AudioInputSource) => {
+        setInputSource(source);
+        setAudioError(null);
+        resetBeatDetection();
+        const engine = audioEngineRef.current;
+        if (source === 'microphone') {
+            engine?.pause();
+            setIsPlaying(false);
+            openMicrophone(inputDeviceId ?? undefined);
+        } else {
+            engine?.closeMicrophone();
+            setIsMicrophoneActive(false);
+        }
+    };
+
+    const removeAudio = () => {
+        audioEngineRef.current?.unload();
+        audioFileRef.current = null;
+        setAudioFileName(null);
+        setIsPlaying(false);
+        setAudioPosition(0);
+        setAudioDuration(0);
+    };
+
+    // The simulation runs elsewhere, but the audio lives on this thread: detect
+    // beats and hand over the band energies, level and track position every frame
+    const sampleAudio = () => {
+        const now = performance.now() / 1000;
+        const engine = audioEngineRef.current;
+        const waveform = engine?.getWaveform();
+        const beat = waveform ? getBeatDetector().process(waveform, now) : null;
+        if (beat && beat.bpm !== null) setBpm(beat.bpm);
+        // The timeline follows the track position; without a track, the position set by seeking
+        simulationRef.current?.post({
+            type: 'audio',
+            bands: engine?.getBands() ?? SILENT_BANDS,
+            rms: waveform ? rootMeanSquare(waveform) : 0,
+            beat,
+            position: engine?.isLoaded ? engine.getPosition() : audioPosition,
+        });
+    };
+
+    const requestSnapshot = useCallback(
+        () => new Promise<Blob>((resolve, reject) => {
+            const simulation = simulationRef.current;
+            if (!simulation) {
+                reject(new Error('The visualizer is not running.'));
+                return;
             }
-            canvas.removeEventListener('mousemove', handleMouseMove);
-        };
-    }, [particleCount, effects.connectionDistance, effects.lineStyle, effects.trailLength, effects.particleShape, effects.glowEffect, effects.glowIntensity, lineWidth, effects.mouseRepulsion, effects.mouseForce]);
+            const id = nextSnapshotIdRef.current++;
+            snapshotRequestsRef.current.set(id, { resolve, reject });
+            simulation.post({ type: 'snapshot', id });
+        }),
+        []
+    );
+
+    const takeScreenshot = () => {
+        requestSnapshot()
+            .then(blob => downloadBlob(blob, timestampedFileName('particles', 'png')))
+            .catch(error => setCaptureError(error instanceof Error ? error.message : 'The screenshot failed.'));
+    };
 
-    // Update particles when effects change
+    // The audio loop always calls the sampler from the latest render, so it
+    // sees the current position without restarting anything
+    const sampleAudioRef = useRef(sampleAudio);
     useEffect(() => {
-        particlesRef.current.forEach(particle => {
-            // Update particle size when effect changes
-            particle.size = effects.particleSize;
-            
-            // Reset color when switching modes
-            if (effects.colorMode === 'rainbow') {
-                // Give each particle a different starting hue for more variety
-                particle.hue = Math.random() * 360;
-                particle.saturation = 100;
-                particle.brightness = 50;
-            } else if (effects.colorMode === 'solid') {
-                // Convert hex to HSL for consistent color handling
-                const r = parseInt(particleColor.slice(1, 3), 16) / 255;
-                const g = parseInt(particleColor.slice(3, 5), 16) / 255;
-                const b = parseInt(particleColor.slice(5, 7), 16) / 255;
-                
-                const max = Math.max(r, g, b);
-                const min = Math.min(r, g, b);
-                const l = (max + min) / 2;
-                
-                let h = 0;
-                let s = 0;
-                
-                if (max !== min) {
-                    const d = max - min;
-                    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-                    
-                    switch (max) {
-                        case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-                        case g: h = (b - r) / d + 2; break;
-                        case b: h = (r - g) / d + 4; break;
-                    }
-                    h *= 60;
-                }
-                
-                particle.hue = h;
-                particle.saturation = s * 100;
-                particle.brightness = l * 100;
-            }
-        });
-    }, [effects.colorMode, effects.particleSize, effects.lineStyle, particleColor]);
-
-    const createParticle = (): Particle => {
-        return {
-            x: Math.random() * window.innerWidth,
-            y: Math.random() * window.innerHeight,
-            vx: (Math.random() - 0.5) * 2,
-            vy: (Math.random() - 0.5) * 2,
-            size: effects.particleSize,
-            hue: Math.random() * 360,
-            saturation: 100,
-            brightness: 100
-        };
+        sampleAudioRef.current = sampleAudio;
+    });
+
+    // The simulation starts over from full quality when this changes
+    const changeAdaptiveQuality = (isAdaptive: boolean) => {
+        setIsAdaptiveQuality(isAdaptive);
+        setQualityLevel(0);
     };
 
-    const getParticleColor = (particle: Particle) => {
-        switch (effects.colorMode) {
-            case 'rainbow':
-                // Update hue based on time
-                particle.hue = (particle.hue + 1) % 360;
-                return `hsl(${particle.hue}, 100%, 50%)`;
-            case 'solid':
-            default:
-                return `hsl(${particle.hue}, ${particle.saturation}%, ${particle.brightness}%)`;
+    const loadMaskImage = async (file: File) => {
+        try {
+            setMaskImage({ name: file.name, bitmap: await rasterizeImage(file) });
+            setMaskError(null);
+        } catch {
+            setMaskError(`Could not read "${file.name}" as an image.`);
         }
     };
 
-    const drawParticle = (ctx: CanvasRenderingContext2D, particle: Particle) => {
-        const color = getParticleColor(particle);
-        ctx.fillStyle = color;
-        
-        if (effects.glowEffect) {
-            ctx.shadowColor = color;
-            ctx.shadowBlur = effects.glowIntensity * 20;
+    const loadBackgroundImage = async (file: File) => {
+        try {
+            setBackgroundImage({ name: file.name, bitmap: await createImageBitmap(file) });
+            setBackgroundError(null);
+        } catch {
+            setBackgroundError(`Could not read "${file.name}" as an image.`);
         }
+    };
+
+    // Free a replaced background image once the next draw no longer uses it
+    useEffect(() => () => backgroundImage?.bitmap.close(), [backgroundImage]);
+
+    const getCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        // The click places a force or emitter, it does not touch the particles
+        if (placingId) return;
+        const { x, y } = getCanvasPoint(e);
+        // Keep following a drag that leaves the canvas until it is released
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const simulation = simulationRef.current;
+        simulation?.post({ type: 'pointerDown', id: e.pointerId, x, y, time: getEventTime(e) });
+        if (interactionMode === 'burst') simulation?.post({ type: 'burst', x, y });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const { x, y } = getCanvasPoint(e);
+        simulationRef.current?.post({ type: 'pointerMove', id: e.pointerId, x, y, time: getEventTime(e) });
+    };
+
+    // Touches have no hover state, so they stop acting once lifted
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        simulationRef.current?.post({ type: 'pointerUp', id: e.pointerId, hovers: e.pointerType !== 'touch' });
+    };
+
+    const handlePointerLeave = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        simulationRef.current?.post({ type: 'pointerLeave', id: e.pointerId });
+    };
+
+    // Drop the force or emitter being placed at the clicked point
+    const placeOnCanvas = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (!placingId) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = (e.clientX - rect.left) / rect.width;
+        const y = (e.clientY - rect.top) / rect.height;
+        setForces(prev => prev.map(force => (force.id === placingId ? { ...force, x, y } : force)));
+        setEmitters(prev => prev.map(emitter => (emitter.id === placingId ? { ...emitter, x, y } : emitter)));
+        setPlacingId(null);
+    };
+
+    // Positions are fractions of the canvas, the centre when not given
+    const burstAt = (x: number | null, y: number | null) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        simulationRef.current?.post({ type: 'burst', x: (x ?? 0.5) * canvas.clientWidth, y: (y ?? 0.5) * canvas.clientHeight });
+    };
+
+    const applyControlCommand = (command: ControlCommand) => {
+        if (command.kind === 'burst') burstAt(command.x, command.y);
+        else applyTarget(command.target, command.value);
+    };
 
-        const size = particle.size;
-        ctx.beginPath();
-        switch (effects.particleShape) {
-            case 'square':
-                ctx.rect(particle.x - size, particle.y - size, size * 2, size * 2);
-                break;
-            case 'triangle':
-                ctx.moveTo(particle.x, particle.y - size);
-                ctx.lineTo(particle.x + size, particle.y + size);
-                ctx.lineTo(particle.x - size, particle.y + size);
-                break;
-            case 'circle':
-            default:
-                ctx.arc(particle.x, particle.y, size, 0, Math.PI * 2);
+    const updateMidiBindings = (bindings: MidiBinding[]) => {
+        setMidiBindings(bindings);
+        try {
+            saveMidiBindings(bindings);
+        } catch (error) {
+            if (!(error instanceof ControlError)) throw error;
+            setControlError(error.message);
         }
-        ctx.fill();
+    };
 
-        // Reset shadow after drawing
-        if (effects.glowEffect) {
-            ctx.shadowBlur = 0;
+    const handleMidiMessage = (message: MidiMessage) => {
+        // In learn mode the first control pressed or moved is bound, releases are ignored
+        if (learnAddress) {
+            if (message.value === 0 && message.type === 'note') return;
+            updateMidiBindings(learnMidiBinding(midiBindings, learnAddress, message));
+            setLearnAddress(null);
+            setLastControlMessage(`${describeMidiControl(message)} bound`);
+            return;
+        }
+        for (const binding of midiBindings) {
+            if (!isSameControl(binding, message)) continue;
+            const command = commandFromLevel(binding.address, message.value);
+            if (command) applyControlCommand(command);
         }
+        setLastControlMessage(`${describeMidiControl(message)}: ${Math.round(message.value * 127)}`);
     };
 
-    const drawLine = (ctx: CanvasRenderingContext2D, p1: Particle, p2: Particle, opacity: number) => {
-        // Only set line style if it's different from the current one
-        if (effects.lineStyle === 'dashed') {
-            ctx.setLineDash([5, 5]);
-        } else {
-            ctx.setLineDash([]);
+    const handleOscMessages = (messages: OscMessage[]) => {
+        for (const { address, args } of messages) {
+            try {
+                applyControlCommand(commandFromMessage(address, args));
+                setLastControlMessage([address, ...args].join(' '));
+                setControlError(null);
+            } catch (error) {
+                if (!(error instanceof ControlError)) throw error;
+                setControlError(error.message);
+            }
+        }
+    };
+
+    // MIDI and socket callbacks are set up once, so they go through refs to
+    // see the current bindings and learn state, like the animation loop does
+    const handleMidiMessageRef = useRef(handleMidiMessage);
+    const handleOscMessagesRef = useRef(handleOscMessages);
+    useEffect(() => {
+        handleMidiMessageRef.current = handleMidiMessage;
+        handleOscMessagesRef.current = handleOscMessages;
+    });
+
+    const enableMidi = async () => {
+        if (!midiInputRef.current) {
+            const input = new MidiInput();
+            input.onMessage = (message) => handleMidiMessageRef.current(message);
+            input.onDevicesChange = setMidiDevices;
+            midiInputRef.current = input;
+        }
+        try {
+            await midiInputRef.current.open();
+            setIsMidiEnabled(true);
+            setControlError(null);
+        } catch (error) {
+            setControlError(error instanceof ControlError ? error.message : 'MIDI could not be enabled.');
         }
+    };
 
-        ctx.lineWidth = lineWidth;
+    const changeMidiLearning = (isLearning: boolean) => {
+        setIsMidiLearning(isLearning);
+        setLearnAddress(null);
+    };
 
-        if (effects.lineStyle === 'gradient') {
-            const gradient = ctx.createLinearGradient(p1.x, p1.y, p2.x, p2.y);
-            const color1 = getParticleColor(p1);
-            const color2 = getParticleColor(p2);
-            gradient.addColorStop(0, color1);
-            gradient.addColorStop(1, color2);
-            ctx.strokeStyle = gradient;
-        } else {
-            ctx.strokeStyle = `rgba(255, 255, 255, ${opacity})`;
+    // In learn mode a click on a control picks it instead of changing it
+    const pickLearnTarget = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (!isMidiLearning || !(e.target instanceof Element)) return;
+        const control = e.target.closest<HTMLElement>('[data-control]');
+        if (!control?.dataset.control) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setLearnAddress(control.dataset.control);
+    };
+
+    const connectSocket = (url: string) => {
+        if (!oscSocketRef.current) {
+            const socket = new OscSocket();
+            socket.onMessages = (messages) => handleOscMessagesRef.current(messages);
+            socket.onStatusChange = setSocketStatus;
+            socket.onError = (error) => setControlError(error.message);
+            oscSocketRef.current = socket;
+        }
+        setControlError(null);
+        oscSocketRef.current.connect(url);
+    };
+
+    const toggleFullscreen = () => {
+        const root = rootRef.current;
+        if (!root) return;
+        const request = document.fullscreenElement ? document.exitFullscreen() : root.requestFullscreen();
+        // A refused request leaves the page as it was, there is nothing to recover
+        request.catch(() => undefined);
+    };
+
+    const stepSimulation = () => {
+        simulationRef.current?.post({ type: 'step' });
+    };
+
+    const toggleRecording = async () => {
+        const recorder = recorderRef.current;
+        if (recorder) {
+            recorderRef.current = null;
+            setRecordingStartedAt(null);
+            downloadBlob(await recorder.stop(), timestampedFileName('particles', 'webm'));
+            return;
         }
 
-        // Draw the line
-        ctx.beginPath();
-        ctx.moveTo(p1.x, p1.y);
-        ctx.lineTo(p2.x, p2.y);
-        ctx.stroke();
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        try {
+            const engine = audioEngineRef.current;
+            const next = new CanvasRecorder();
+            next.start(canvas, engine?.isLoaded ? engine.getRecordingStream() : null);
+            recorderRef.current = next;
+            setRecordingStartedAt(Date.now());
+            setCaptureError(null);
+        } catch (error) {
+            setCaptureError(error instanceof Error ? error.message : 'Recording could not be started.');
+        }
     };
 
+    /** Run an offline export with progress, cancellation and error reporting. */
+    const runExport = async (fallbackError: string, run: (signal: AbortSignal) => Promise<void>) => {
+        const controller = new AbortController();
+        exportAbortRef.current = controller;
+        setExportProgress({ stage: 'Preparing…', value: 0 });
+        setCaptureError(null);
+        try {
+            await run(controller.signal);
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                setCaptureError(error instanceof Error ? error.message : fallbackError);
+            }
+        } finally {
+            exportAbortRef.current = null;
+            setExportProgress(null);
+        }
+    };
+
+    const reportFrameProgress = (frame: number, total: number) => {
+        setExportProgress({ stage: `Rendering frame ${frame} of ${total}`, value: frame / total });
+    };
+
+    // Exports simulate at the on-screen size, so they show the same scene at their own resolution
+    const getSceneWidth = () => canvasRef.current?.clientWidth || window.innerWidth;
+
+    const exportFrames = ({ duration, ...settings }: FrameExportSettings) => runExport('The frame export failed.', async (signal) => {
+        const zip = await renderOffline({
+            ...settings,
+            sceneWidth: getSceneWidth(),
+            frameCount: Math.max(1, Math.round(duration * settings.fps)),
+            analysis: null,
+            config,
+            modulations,
+            beatSettings,
+            forces,
+            emitters,
+            particleCap,
+            boundary,
+            maskBitmap,
+            timeline: isFollowingTimeline ? timeline : null,
+            composition,
+            backgroundImage: backgroundImage?.bitmap ?? null,
+            renderer: rendererPreference,
+            sink: new PngZipSink(),
+            signal,
+            onProgress: reportFrameProgress,
+        });
+        downloadBlob(zip, timestampedFileName('particles-frames', 'zip'));
+    });
+
+    // Decode and analyse the loaded track up front, then render every frame
+    // against that analysis, muxing the audio in when WebCodecs is available
+    const renderTrack = (settings: Omit<FrameExportSettings, 'duration'>) => runExport('The track render failed.', async (signal) => {
+        const file = audioFileRef.current;
+        if (!file) return;
+        setExportProgress({ stage: 'Decoding audio…', value: 0 });
+        const audio = await decodeAudioFile(file);
+        signal.throwIfAborted();
+        setExportProgress({ stage: 'Analyzing audio…', value: 0 });
+        const analysis = analyzeTrack(mixToMono(audio), audio.sampleRate, settings.fps, { sensitivity: beatSettings.sensitivity });
+        signal.throwIfAborted();
+        const sink = await WebCodecsSink.create(settings.width, settings.height, settings.fps, audio, analysis.duration) ?? new PngZipSink();
+        const blob = await renderOffline({
+            ...settings,
+            sceneWidth: getSceneWidth(),
+            frameCount: analysis.frames.length,
+            analysis,
+            config,
+            modulations,
+            beatSettings,
+            forces,
+            emitters,
+            particleCap,
+            boundary,
+            maskBitmap,
+            timeline: isFollowingTimeline ? timeline : null,
+            composition,
+            backgroundImage: backgroundImage?.bitmap ?? null,
+            renderer: rendererPreference,
+            sink,
+            signal,
+            onProgress: reportFrameProgress,
+        });
+        downloadBlob(blob, timestampedFileName('particles-track', sink.extension));
+    });
+
+    // One simulation for the whole session. Settings, resizes and renderer
+    // switches all update it in place; the sizing effect fits it to the canvas.
+    useEffect(() => {
+        const simulation = new SimulationClient({
+            width: window.innerWidth,
+            height: window.innerHeight,
+            seed: randomSeed(),
+            config: latestConfigRef.current,
+        });
+        const snapshotRequests = snapshotRequestsRef.current;
+        simulation.onEvent = (event) => {
+            switch (event.type) {
+                case 'renderer':
+                    if (event.kind) {
+                        setRendererKind(event.kind);
+                        setRendererError(event.error ?? fallbackReasonRef.current);
+                        fallbackReasonRef.current = null;
+                    } else {
+                        // WebGL2 failed after claiming the canvas, retry on a fresh canvas with Canvas2D
+                        fallbackReasonRef.current = event.error;
+                        setRendererError(event.error);
+                        setRendererPreference('canvas2d');
+                    }
+                    break;
+                case 'quality':
+                    setQualityLevel(event.level);
+                    break;
+                case 'stats':
+                    setFrameStats({ stats: event.stats, particles: event.particles, lines: event.lines });
+                    break;
+                case 'snapshot':
+                    snapshotRequests.get(event.id)?.resolve(event.blob);
+                    snapshotRequests.delete(event.id);
+                    break;
+                case 'snapshotError':
+                    snapshotRequests.get(event.id)?.reject(new Error(event.message));
+                    snapshotRequests.delete(event.id);
+                    break;
+                case 'workerError':
+                    // The worker kept the old canvas, the main thread draws into a new one
+                    fallbackReasonRef.current = event.message;
+                    setRendererError(event.message);
+                    setCanvasGeneration(generation => generation + 1);
+                    break;
+            }
+        };
+        simulationRef.current = simulation;
+
+        // Audio is analysed here and sent over once per frame
+        const loop = () => {
+            sampleAudioRef.current();
+            animationFrameRef.current = requestAnimationFrame(loop);
+        };
+        animationFrameRef.current = requestAnimationFrame(loop);
+
+        return () => {
+            cancelAnimationFrame(animationFrameRef.current);
+            simulation.dispose();
+            simulationRef.current = null;
+            snapshotRequests.forEach(request => request.reject(new Error('The visualizer was unmounted.')));
+            snapshotRequests.clear();
+        };
+    }, []);
+
+    // Hand the canvas to the simulation
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const simulation = simulationRef.current;
+        if (!canvas || !simulation) return;
+        // A canvas given to an earlier worker, e.g. by a remount, cannot be handed over again
+        if (!simulation.attachCanvas(canvas, rendererPreference)) setCanvasGeneration(generation => generation + 1);
+    }, [rendererPreference, canvasGeneration]);
+
+    // Keep the backing store matched to the canvas's layout size and pixel
+    // density, remapping particles instead of restarting the scene
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        const applySize = () => {
+            const cssWidth = canvas.clientWidth;
+            const cssHeight = canvas.clientHeight;
+            if (!cssWidth || !cssHeight) return;
+            // The quality governor renders below the capped ratio and lets the browser scale up
+            const ratio = Math.min(window.devicePixelRatio || 1, pixelRatioCap) * resolutionScale;
+            const { width, height, pixelRatio } = getCanvasSize(cssWidth, cssHeight, ratio, pixelRatioCap);
+            setDevicePixelRatio(window.devicePixelRatio || 1);
+            // The simulation owns the canvas, so it sets the backing store size
+            simulationRef.current?.post({
+                type: 'resize',
+                width: cssWidth,
+                height: cssHeight,
+                canvasWidth: width,
+                canvasHeight: height,
+                pixelRatio,
+            });
+        };
+
+        // Moving the window to a screen with another density does not resize the element
+        let densityQuery: MediaQueryList | null = null;
+        const handleDensityChange = () => {
+            applySize();
+            watchDensity();
+        };
+        const watchDensity = () => {
+            densityQuery?.removeEventListener('change', handleDensityChange);
+            densityQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+            densityQuery.addEventListener('change', handleDensityChange);
+        };
+
+        applySize();
+        watchDensity();
+        const observer = new ResizeObserver(applySize);
+        observer.observe(canvas);
+        return () => {
+            observer.disconnect();
+            densityQuery?.removeEventListener('change', handleDensityChange);
+        };
+    }, [pixelRatioCap, resolutionScale, rendererPreference, canvasGeneration]);
+
+    // Send each group of settings when it changes; the simulation reads them every frame
+    useEffect(() => {
+        simulationRef.current?.post({ type: 'settings', settings: { config } });
+    }, [config]);
+
+    useEffect(() => {
+        simulationRef.current?.post({ type: 'settings', settings: { timeline: isFollowingTimeline ? timeline : null } });
+    }, [timeline, isFollowingTimeline]);
+
+    useEffect(() => {
+        simulationRef.current?.post({ type: 'settings', settings: { modulations, beatSettings } });
+    }, [modulations, beatSettings]);
+
+    useEffect(() => {
+        simulationRef.current?.post({ type: 'settings', settings: { forces, emitters, particleCap, interactionMode } });
+    }, [forces, emitters, particleCap, interactionMode]);
+
+    useEffect(() => {
+        simulationRef.current?.post({ type: 'settings', settings: { boundary, maskBitmap } });
+    }, [boundary, maskBitmap]);
+
+    useEffect(() => {
+        simulationRef.current?.post({ type: 'settings', settings: { composition, backgroundImage: backgroundImage?.bitmap ?? null } });
+    }, [composition, backgroundImage]);
+
+    useEffect(() => {
+        simulationRef.current?.post({ type: 'settings', settings: { isAdaptiveQuality, targetFps, reportStats: showStats } });
+    }, [isAdaptiveQuality, targetFps, showStats]);
+
+    useEffect(() => {
+        simulationRef.current?.post({ type: 'settings', settings: { paused: isPaused, timeScale } });
+    }, [isPaused, timeScale]);
+
+    useEffect(() => {
+        const handleFullscreenChange = () => setIsFullscreen(rootRef.current !== null && document.fullscreenElement === rootRef.current);
+        document.addEventListener('fullscreenchange', handleFullscreenChange);
+        return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    }, []);
+
+    useEffect(() => {
+        if (!keyboardShortcuts) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'h') {
+                setIsUiHidden(hidden => !hidden);
+            } else if (key === 'escape') {
+                setIsUiHidden(false);
+            } else if (key === 'f' && document.fullscreenEnabled) {
+                toggleFullscreen();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [keyboardShortcuts]);
+
+    // Tell the viewer how to get the controls back, then get out of the way
+    useEffect(() => {
+        setIsHiddenHintVisible(isUiHidden);
+        if (!isUiHidden) return;
+        const timeout = window.setTimeout(() => setIsHiddenHintVisible(false), HIDDEN_UI_HINT_DURATION);
+        return () => window.clearTimeout(timeout);
+    }, [isUiHidden]);
+
+    // Mirror the configuration into the URL hash so the current look can be shared
+    useEffect(() => {
+        if (!syncUrl) return;
+        const timeout = window.setTimeout(() => {
+            const hash = encodeConfig({ particleCount, maxConnections, lineWidth, particleColor, palette, effects });
+            // replaceState keeps slider moves out of the history and does not fire hashchange
+            window.history.replaceState(null, '', `#${hash}`);
+        }, URL_UPDATE_DELAY);
+        return () => window.clearTimeout(timeout);
+    }, [syncUrl, particleCount, maxConnections, lineWidth, particleColor, palette, effects]);
+
+    // Follow links pasted into the address bar of an open tab
+    useEffect(() => {
+        if (!syncUrl) return;
+        const handleHashChange = () => {
+            const next = decodeConfig(window.location.hash);
+            if (next) applyConfig(next);
+        };
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, [syncUrl, applyConfig]);
+
+    useEffect(() => {
+        beatDetectorRef.current?.setOptions({ sensitivity: beatSettings.sensitivity });
+    }, [beatSettings.sensitivity]);
+
+    // Track the playback position for the seek slider
+    useEffect(() => {
+        if (!isPlaying) return;
+        const interval = window.setInterval(() => {
+            setAudioPosition(audioEngineRef.current?.getPosition() ?? 0);
+        }, 250);
+        return () => window.clearInterval(interval);
+    }, [isPlaying]);
+
+    // Release audio nodes and control connections on unmount
+    useEffect(() => {
+        return () => {
+            audioEngineRef.current?.dispose();
+            audioEngineRef.current = null;
+            midiInputRef.current?.close();
+            oscSocketRef.current?.close();
+        };
+    }, []);
+
+    useImperativeHandle(ref, () => ({
+        pause: () => setIsPaused(true),
+        resume: () => setIsPaused(false),
+        burst: (x, y) => simulationRef.current?.post({ type: 'burst', x, y }),
+        setConfig: updateConfig,
+        getConfig: () => latestConfigRef.current,
+        snapshot: requestSnapshot,
+    }), [updateConfig, requestSnapshot]);
+
     return (
-        <div className="audio-visualizer">
+        <div
+            ref={rootRef}
+            className={`audio-visualizer ${isUiHidden ? 'ui-hidden' : ''} ${className ?? ''}`}
+            style={style}
+            onDragOver={(e) => {
+                // Dropped audio is only taken when its controls are shown
+                if (!showControls) return;
+                e.preventDefault();
+                setIsDraggingFile(true);
+            }}
+            onDragLeave={() => setIsDraggingFile(false)}
+            onDrop={(e) => {
+                e.preventDefault();
+                setIsDraggingFile(false);
+                const file = e.dataTransfer.files[0];
+                if (file) loadAudioFile(file);
+            }}
+        >
             <canvas
+                // A canvas is bound to its first context type and can only be
+                // transferred to a worker once, so both need a new element
+                key={`${rendererPreference}-${canvasGeneration}`}
                 ref={canvasRef}
-                width={window.innerWidth}
-                height={window.innerHeight}
+                onClick={placeOnCanvas}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerLeave}
+                onPointerCancel={handlePointerLeave}
                 style={{ 
-                    position: 'fixed', 
+                    position: 'absolute', 
                     top: 0, 
                     left: 0, 
+                    width: '100%',
+                    height: '100%',
                     zIndex: 1,
-                    background: 'black'
+                    // Let the page show through a transparent background
+                    background: composition.background.kind === 'transparent' ? 'transparent' : 'black',
+                    // Touches drive the particles instead of scrolling or zooming the page
+                    touchAction: 'none',
+                    cursor: placingId ? 'crosshair' : undefined
                 }}
             />
-            <button 
-                onClick={() => setIsPanelOpen(!isPanelOpen)}
-                style={{
-                    position: 'fixed',
-                    top: '1rem',
-                    right: '1rem',
-                    background: 'rgba(0, 0, 0, 0.7)',
-                    border: '1px solid rgba(255, 255, 255, 0.2)',
-                    borderRadius: '8px',
-                    color: 'white',
-                    cursor: 'pointer',
-                    padding: '0.75rem',
-                    zIndex: 3,
-                    fontSize: '1.5rem',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    width: '3rem',
-                    height: '3rem',
-                    backdropFilter: 'blur(5px)',
-                    WebkitBackdropFilter: 'blur(5px)'
-                }}
-                className="menu-button"
-            >
-                ☰
-            </button>
-            <div className={`controls-panel ${isPanelOpen ? 'open' : ''}`} style={{
-                position: 'fixed',
-                top: 0,
-                right: 0,
-                width: '300px',
-                maxWidth: '90vw',
-                maxHeight: '100vh',
-                overflowY: 'auto',
-                background: 'rgba(0, 0, 0, 0.8)',
-                color: 'white',
-                padding: '1rem',
-                zIndex: 2,
-                boxSizing: 'border-box',
-                backdropFilter: 'blur(10px)',
-                WebkitBackdropFilter: 'blur(10px)',
-                borderLeft: '1px solid rgba(255, 255, 255, 0.1)',
-                transform: 'translateX(0)',
-                transition: 'transform 0.3s ease-in-out'
-            }}>
-                <div className="controls-header" style={{
-                    display: 'flex',
-                    justifyContent: 'space-between',
-                    alignItems: 'center',
-                    marginBottom: '1rem',
-                    paddingBottom: '0.5rem',
-                    borderBottom: '1px solid rgba(255, 255, 255, 0.1)'
-                }}>
-                    <h3 style={{ margin: 0, fontSize: '1.2rem' }}>Particle Visualizer Controls</h3>
-                </div>
-                <div className="controls" style={{
-                    display: 'flex',
-                    flexDirection: 'column',
-                    gap: '1rem'
-                }}>
-                    <div className="control-group" style={{
-                        background: 'rgba(255, 255, 255, 0.05)',
-                        padding: '1rem',
-                        borderRadius: '8px'
-                    }}>
-                        <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Basic Controls</h4>
-                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Particle Count:
-                                <input
-                                    type="range"
-                                    min="50"
-                                    max="200"
-                                    value={particleCount}
-                                    onChange={(e) => setParticleCount(Number(e.target.value))}
-                                    style={{ width: '100%' }}
-                                />
-                            </label>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Line Width:
-                                <input
-                                    type="range"
-                                    min="1"
-                                    max="10"
-                                    value={lineWidth}
-                                    onChange={(e) => setLineWidth(Number(e.target.value))}
-                                    style={{ width: '100%' }}
-                                />
-                            </label>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Particle Color:
-                                <input
-                                    type="color"
-                                    value={particleColor}
-                                    onChange={(e) => {
-                                        setParticleColor(e.target.value);
-                                        setEffects(prev => ({ ...prev, colorMode: 'solid' }));
-                                    }}
-                                    style={{ width: '100%', height: '40px' }}
-                                />
-                            </label>
+            {showControls && (
+                <>
+                    <ForceMarkers forces={forces} placingForceId={placingId} />
+                    <EmitterMarkers emitters={emitters} placingId={placingId} />
+                    {showStats && (
+                        <PerformanceOverlay
+                            stats={frameStats.stats}
+                            particles={frameStats.particles}
+                            lines={frameStats.lines}
+                            quality={isAdaptiveQuality ? QUALITY_LEVELS[qualityLevel].label : null}
+                        />
+                    )}
+                    {isHiddenHintVisible && (
+                        <div style={{
+                            position: 'absolute',
+                            bottom: '1.5rem',
+                            left: '50%',
+                            transform: 'translateX(-50%)',
+                            zIndex: 3,
+                            background: 'rgba(0, 0, 0, 0.7)',
+                            color: 'white',
+                            padding: '0.5rem 1rem',
+                            borderRadius: '8px',
+                            pointerEvents: 'none'
+                        }}>
+                            Press H or Esc to show the controls
                         </div>
-                    </div>
-
-                    <div className="control-group" style={{
-                        background: 'rgba(255, 255, 255, 0.05)',
-                        padding: '1rem',
-                        borderRadius: '8px'
-                    }}>
-                        <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Visual Effects</h4>
-                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Color Mode:
-                                <select
-                                    value={effects.colorMode}
-                                    onChange={(e) => {
-                                        const newMode = e.target.value;
-                                        setEffects(prev => ({ ...prev, colorMode: newMode }));
-                                        
-                                        if (newMode === 'solid') {
-                                            particlesRef.current.forEach(particle => {
-                                                const r = parseInt(particleColor.slice(1, 3), 16) / 255;
-                                                const g = parseInt(particleColor.slice(3, 5), 16) / 255;
-                                                const b = parseInt(particleColor.slice(5, 7), 16) / 255;
-                                                
-                                                const max = Math.max(r, g, b);
-                                                const min = Math.min(r, g, b);
-                                                const l = (max + min) / 2;
-                                                
-                                                let h = 0;
-                                                let s = 0;
-                                                
-                                                if (max !== min) {
-                                                    const d = max - min;
-                                                    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-                                                    
-                                                    switch (max) {
-                                                        case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-                                                        case g: h = (b - r) / d + 2; break;
-                                                        case b: h = (r - g) / d + 4; break;
-                                                    }
-                                                    h *= 60;
-                                                }
-                                                
-                                                particle.hue = h;
-                                                particle.saturation = s * 100;
-                                                particle.brightness = l * 100;
-                                            });
-                                        }
-                                    }}
-                                    style={{ 
-                                        backgroundColor: '#333', 
-                                        color: 'white',
-                                        padding: '0.5rem',
-                                        borderRadius: '4px',
-                                        border: '1px solid rgba(255, 255, 255, 0.1)'
-                                    }}
-                                >
-                                    <option value="solid">Solid</option>
-                                    <option value="rainbow">Rainbow</option>
-                                </select>
-                            </label>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Particle Shape:
-                                <select
-                                    value={effects.particleShape}
-                                    onChange={(e) => setEffects(prev => ({ ...prev, particleShape: e.target.value }))}
-                                    style={{ 
-                                        backgroundColor: '#333', 
-                                        color: 'white',
-                                        padding: '0.5rem',
-                                        borderRadius: '4px',
-                                        border: '1px solid rgba(255, 255, 255, 0.1)'
-                                    }}
-                                >
-                                    <option value="circle">Circle</option>
-                                    <option value="square">Square</option>
-                                    <option value="triangle">Triangle</option>
-                                </select>
-                            </label>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Line Style:
-                                <select
-                                    value={effects.lineStyle}
-                                    onChange={(e) => setEffects(prev => ({ ...prev, lineStyle: e.target.value }))}
-                                    style={{ 
-                                        backgroundColor: '#333', 
-                                        color: 'white',
-                                        padding: '0.5rem',
-                                        borderRadius: '4px',
-                                        border: '1px solid rgba(255, 255, 255, 0.1)'
-                                    }}
-                                >
-                                    <option value="solid">Solid</option>
-                                    <option value="dashed">Dashed</option>
-                                    <option value="gradient">Gradient</option>
-                                </select>
-                            </label>
+                    )}
+                    {isDraggingFile && (
+                        <div style={{
+                            position: 'absolute',
+                            inset: '1rem',
+                            zIndex: 4,
+                            border: '2px dashed rgba(255, 255, 255, 0.5)',
+                            borderRadius: '16px',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            color: 'white',
+                            fontSize: '1.5rem',
+                            pointerEvents: 'none'
+                        }}>
+                            Drop audio file to play
                         </div>
-                    </div>
-
-                    <div className="control-group" style={{
-                        background: 'rgba(255, 255, 255, 0.05)',
+                    )}
+                    <button 
+                        onClick={() => setIsPanelOpen(!isPanelOpen)}
+                        style={{
+                            position: 'absolute',
+                            top: '1rem',
+                            right: '1rem',
+                            background: 'rgba(0, 0, 0, 0.7)',
+                            border: '1px solid rgba(255, 255, 255, 0.2)',
+                            borderRadius: '8px',
+                            color: 'white',
+                            cursor: 'pointer',
+                            padding: '0.75rem',
+                            zIndex: 3,
+                            fontSize: '1.5rem',
+                            display: 'flex',
+                            alignItems: 'center',
+                            justifyContent: 'center',
+                            width: '3rem',
+                            height: '3rem',
+                            backdropFilter: 'blur(5px)',
+                            WebkitBackdropFilter: 'blur(5px)'
+                        }}
+                        className="menu-button"
+                    >
+                        ☰
+                    </button>
+                    <div className={`controls-panel ${isPanelOpen ? 'open' : ''}`} style={{
+                        position: 'absolute',
+                        top: 0,
+                        right: 0,
+                        width: '300px',
+                        maxWidth: '90vw',
+                        maxHeight: '100%',
+                        overflowY: 'auto',
+                        background: 'rgba(0, 0, 0, 0.8)',
+                        color: 'white',
                         padding: '1rem',
-                        borderRadius: '8px'
+                        zIndex: 2,
+                        boxSizing: 'border-box',
+                        backdropFilter: 'blur(10px)',
+                        WebkitBackdropFilter: 'blur(10px)',
+                        borderLeft: '1px solid rgba(255, 255, 255, 0.1)',
+                        transform: 'translateX(0)',
+                        transition: 'transform 0.3s ease-in-out'
                     }}>
-                        <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Advanced Effects</h4>
-                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Trail Length:
-                                <input
-                                    type="range"
-                                    min="0"
-                                    max="1"
-                                    step="0.1"
-                                    value={effects.trailLength}
-                                    onChange={(e) => setEffects(prev => ({ ...prev, trailLength: Number(e.target.value) }))}
-                                    style={{ width: '100%' }}
-                                />
-                            </label>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Particle Size:
-                                <input
-                                    type="range"
-                                    min="1"
-                                    max="10"
-                                    value={effects.particleSize}
-                                    onChange={(e) => setEffects(prev => ({ ...prev, particleSize: Number(e.target.value) }))}
-                                    style={{ width: '100%' }}
-                                />
-                            </label>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Connection Distance:
-                                <input
-                                    type="range"
-                                    min="50"
-                                    max="320"
-                                    value={effects.connectionDistance}
-                                    onChange={(e) => setEffects(prev => ({ ...prev, connectionDistance: Number(e.target.value) }))}
-                                    style={{ width: '100%' }}
-                                />
-                            </label>
+                        <div className="controls-header" style={{
+                            display: 'flex',
+                            justifyContent: 'space-between',
+                            alignItems: 'center',
+                            marginBottom: '1rem',
+                            paddingBottom: '0.5rem',
+                            borderBottom: '1px solid rgba(255, 255, 255, 0.1)'
+                        }}>
+                            <h3 style={{ margin: 0, fontSize: '1.2rem' }}>Particle Visualizer Controls</h3>
                         </div>
-                    </div>
+                        <div className={`controls ${isMidiLearning ? 'midi-learning' : ''}`} onClickCapture={pickLearnTarget} style={{
+                            display: 'flex',
+                            flexDirection: 'column',
+                            gap: '1rem'
+                        }}>
+                            <AudioControls
+                                inputSource={inputSource}
+                                fileName={audioFileName}
+                                isPlaying={isPlaying}
+                                position={audioPosition}
+                                duration={audioDuration}
+                                volume={volume}
+                                reactivity={effects.audioReactivity}
+                                error={audioError}
+                                isMicrophoneActive={isMicrophoneActive}
+                                inputDevices={inputDevices}
+                                inputDeviceId={inputDeviceId}
+                                inputGain={inputGain}
+                                onInputSourceChange={changeInputSource}
+                                onFileSelected={loadAudioFile}
+                                onTogglePlay={togglePlayback}
+                                onSeek={seekAudio}
+                                onVolumeChange={(value) => {
+                                    setVolume(value);
+                                    audioEngineRef.current?.setVolume(value);
+                                }}
+                                onReactivityChange={(value) => updateEffects({ audioReactivity: value })}
+                                onRemove={removeAudio}
+                                onEnableMicrophone={() => openMicrophone(inputDeviceId ?? undefined)}
+                                onInputDeviceChange={(deviceId) => {
+                                    setInputDeviceId(deviceId);
+                                    openMicrophone(deviceId);
+                                }}
+                                onInputGainChange={(value) => {
+                                    setInputGain(value);
+                                    audioEngineRef.current?.setInputGain(value);
+                                }}
+                            />
 
-                    <div className="control-group" style={{
-                        background: 'rgba(255, 255, 255, 0.05)',
-                        padding: '1rem',
-                        borderRadius: '8px'
-                    }}>
-                        <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Effects</h4>
-                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                                <input
-                                    type="checkbox"
-                                    checked={effects.glowEffect}
-                                    onChange={(e) => setEffects(prev => ({ ...prev, glowEffect: e.target.checked }))}
-                                />
-                                Glow Effect
-                            </label>
-                            {effects.glowEffect && (
-                                <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                    Glow Intensity:
-                                    <input
-                                        type="range"
-                                        min="0"
-                                        max="5"
-                                        step="0.1"
-                                        value={effects.glowIntensity}
-                                        onChange={(e) => setEffects(prev => ({ ...prev, glowIntensity: Number(e.target.value) }))}
-                                        style={{ width: '100%' }}
-                                    />
-                                </label>
-                            )}
-                        </div>
-                    </div>
+                            <PresetControls
+                                config={config}
+                                userPresets={userPresets}
+                                loadError={storedPresets.error}
+                                onUserPresetsChange={updateUserPresets}
+                                onApply={applyConfig}
+                            />
 
-                    <div className="control-group" style={{
-                        background: 'rgba(255, 255, 255, 0.05)',
-                        padding: '1rem',
-                        borderRadius: '8px'
-                    }}>
-                        <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Mouse Interaction</h4>
-                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Mouse Repulsion Distance:
-                                <input
-                                    type="range"
-                                    min="0"
-                                    max="200"
-                                    value={effects.mouseRepulsion}
-                                    onChange={(e) => setEffects(prev => ({ ...prev, mouseRepulsion: Number(e.target.value) }))}
-                                    style={{ width: '100%' }}
-                                />
-                            </label>
-                            <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                Mouse Force Strength:
-                                <input
-                                    type="range"
-                                    min="0"
-                                    max="10"
-                                    step="0.1"
-                                    value={effects.mouseForce}
-                                    onChange={(e) => setEffects(prev => ({ ...prev, mouseForce: Number(e.target.value) }))}
-                                    style={{ width: '100%' }}
-                                />
-                            </label>
+                            <TimelineControls
+                                timeline={timeline}
+                                isFollowing={isFollowingTimeline}
+                                position={audioPosition}
+                                duration={audioDuration}
+                                config={config}
+                                userPresets={userPresets}
+                                onChange={setTimeline}
+                                onFollowChange={setIsFollowingTimeline}
+                                onSeek={seekAudio}
+                            />
+
+                            <ControlSurfaceControls
+                                isMidiSupported={isMidiSupported()}
+                                isMidiEnabled={isMidiEnabled}
+                                midiDevices={midiDevices}
+                                bindings={midiBindings}
+                                isLearning={isMidiLearning}
+                                learnAddress={learnAddress}
+                                socketStatus={socketStatus}
+                                lastMessage={lastControlMessage}
+                                error={controlError}
+                                onEnableMidi={enableMidi}
+                                onLearningChange={changeMidiLearning}
+                                onBindingsChange={updateMidiBindings}
+                                onConnect={connectSocket}
+                                onDisconnect={() => oscSocketRef.current?.close()}
+                                onBurst={() => burstAt(null, null)}
+                            />
+
+                            <SimulationControls
+                                isPaused={isPaused}
+                                timeScale={timeScale}
+                                onTogglePause={() => setIsPaused(!isPaused)}
+                                onStep={stepSimulation}
+                                onTimeScaleChange={setTimeScale}
+                            />
+
+                            <DisplayControls
+                                pixelRatioCap={pixelRatioCap}
+                                devicePixelRatio={devicePixelRatio}
+                                isFullscreen={isFullscreen}
+                                canFullscreen={document.fullscreenEnabled}
+                                hasKeyboardShortcuts={keyboardShortcuts}
+                                onPixelRatioCapChange={setPixelRatioCap}
+                                onToggleFullscreen={toggleFullscreen}
+                                onHideUi={() => setIsUiHidden(true)}
+                            />
+
+                            <PerformanceControls
+                                showStats={showStats}
+                                isAdaptive={isAdaptiveQuality}
+                                targetFps={targetFps}
+                                quality={QUALITY_LEVELS[qualityLevel].label}
+                                onShowStatsChange={setShowStats}
+                                onAdaptiveChange={changeAdaptiveQuality}
+                                onTargetFpsChange={setTargetFps}
+                            />
+
+                            <RendererControls
+                                preference={rendererPreference}
+                                activeKind={rendererKind}
+                                isWebGL2Supported={isWebGL2Supported()}
+                                error={rendererError}
+                                onChange={setRendererPreference}
+                            />
+
+                            <CaptureControls
+                                canRecord={isRecordingSupported()}
+                                recordingStartedAt={recordingStartedAt}
+                                exportProgress={exportProgress}
+                                defaultDuration={audioDuration > 0 ? Math.ceil(audioDuration) : 10}
+                                canRenderTrack={audioFileName !== null}
+                                error={captureError}
+                                onToggleRecording={toggleRecording}
+                                onScreenshot={takeScreenshot}
+                                onExportFrames={exportFrames}
+                                onRenderTrack={renderTrack}
+                                onCancelExport={() => exportAbortRef.current?.abort()}
+                            />
+
+                            <BeatControls settings={beatSettings} bpm={bpm} onChange={setBeatSettings} />
+
+                            <ModulationControls bindings={modulations} onChange={setModulations} />
+
+                            <BoundaryControls
+                                boundary={boundary}
+                                maskImageName={maskImage?.name ?? null}
+                                maskError={maskError}
+                                onChange={setBoundary}
+                                onMaskImageSelected={loadMaskImage}
+                            />
+
+                            <ForceControls
+                                forces={forces}
+                                placingForceId={placingId}
+                                onChange={setForces}
+                                onPlace={setPlacingId}
+                            />
+
+                            <EmitterControls
+                                emitters={emitters}
+                                particleCap={particleCap}
+                                placingId={placingId}
+                                onChange={setEmitters}
+                                onParticleCapChange={setParticleCap}
+                                onPlace={setPlacingId}
+                            />
+
+                            <div className="control-group" style={{
+                                background: 'rgba(255, 255, 255, 0.05)',
+                                padding: '1rem',
+                                borderRadius: '8px'
+                            }}>
+                                <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Basic Controls</h4>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                                    <label data-control="/particleCount" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Particle Count: {particleCount}
+                                        <input
+                                            type="range"
+                                            min={CONFIG_RANGES.particleCount.min}
+                                            max={CONFIG_RANGES.particleCount.max}
+                                            step={CONFIG_RANGES.particleCount.step}
+                                            value={particleCount}
+                                            onChange={(e) => updateConfig({ particleCount: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                    <label data-control="/maxConnections" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Max Lines: {maxConnections}
+                                        <input
+                                            type="range"
+                                            min={CONFIG_RANGES.maxConnections.min}
+                                            max={CONFIG_RANGES.maxConnections.max}
+                                            step={CONFIG_RANGES.maxConnections.step}
+                                            value={maxConnections}
+                                            onChange={(e) => updateConfig({ maxConnections: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                    <label data-control="/lineWidth" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Line Width:
+                                        <input
+                                            type="range"
+                                            min={CONFIG_RANGES.lineWidth.min}
+                                            max={CONFIG_RANGES.lineWidth.max}
+                                            step={CONFIG_RANGES.lineWidth.step}
+                                            value={lineWidth}
+                                            onChange={(e) => updateConfig({ lineWidth: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                    <label data-control="/particleColor" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Particle Color:
+                                        <input
+                                            type="color"
+                                            value={particleColor}
+                                            onChange={(e) => updateConfig({ particleColor: e.target.value, effects: { ...effects, colorMode: 'solid' } })}
+                                            style={{ width: '100%', height: '40px' }}
+                                        />
+                                    </label>
+                                </div>
+                            </div>
+
+                            <div className="control-group" style={{
+                                background: 'rgba(255, 255, 255, 0.05)',
+                                padding: '1rem',
+                                borderRadius: '8px'
+                            }}>
+                                <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Visual Effects</h4>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                                    <label data-control="/effects/colorMode" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Color Mode:
+                                        <select
+                                            value={effects.colorMode}
+                                            onChange={(e) => updateEffects({ colorMode: e.target.value as ColorMode })}
+                                            style={{ 
+                                                backgroundColor: '#333', 
+                                                color: 'white',
+                                                padding: '0.5rem',
+                                                borderRadius: '4px',
+                                                border: '1px solid rgba(255, 255, 255, 0.1)'
+                                            }}
+                                        >
+                                            <option value="solid">Solid</option>
+                                            <option value="rainbow">Rainbow</option>
+                                            <option value="velocity">Palette by Speed</option>
+                                            <option value="position">Palette by Position</option>
+                                            <option value="connections">Palette by Connections</option>
+                                            <option value="age">Palette by Age</option>
+                                            <option value="audio">Palette by Audio</option>
+                                        </select>
+                                    </label>
+                                    <label data-control="/effects/particleShape" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Particle Shape:
+                                        <select
+                                            value={effects.particleShape}
+                                            onChange={(e) => updateEffects({ particleShape: e.target.value as ParticleShape })}
+                                            style={{ 
+                                                backgroundColor: '#333', 
+                                                color: 'white',
+                                                padding: '0.5rem',
+                                                borderRadius: '4px',
+                                                border: '1px solid rgba(255, 255, 255, 0.1)'
+                                            }}
+                                        >
+                                            <option value="circle">Circle</option>
+                                            <option value="square">Square</option>
+                                            <option value="triangle">Triangle</option>
+                                        </select>
+                                    </label>
+                                    <label data-control="/effects/lineStyle" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Line Style:
+                                        <select
+                                            value={effects.lineStyle}
+                                            onChange={(e) => updateEffects({ lineStyle: e.target.value as LineStyle })}
+                                            style={{ 
+                                                backgroundColor: '#333', 
+                                                color: 'white',
+                                                padding: '0.5rem',
+                                                borderRadius: '4px',
+                                                border: '1px solid rgba(255, 255, 255, 0.1)'
+                                            }}
+                                        >
+                                            <option value="solid">Solid</option>
+                                            <option value="dashed">Dashed</option>
+                                            <option value="gradient">Gradient</option>
+                                        </select>
+                                    </label>
+                                </div>
+                            </div>
+
+                            <div className="control-group" style={{
+                                background: 'rgba(255, 255, 255, 0.05)',
+                                padding: '1rem',
+                                borderRadius: '8px'
+                            }}>
+                                <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Advanced Effects</h4>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                                    <label data-control="/effects/trailLength" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Trail Length:
+                                        <input
+                                            type="range"
+                                            min={EFFECT_RANGES.trailLength.min}
+                                            max={EFFECT_RANGES.trailLength.max}
+                                            step={EFFECT_RANGES.trailLength.step}
+                                            value={effects.trailLength}
+                                            onChange={(e) => updateEffects({ trailLength: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                    <label data-control="/effects/particleSize" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Particle Size:
+                                        <input
+                                            type="range"
+                                            min={EFFECT_RANGES.particleSize.min}
+                                            max={EFFECT_RANGES.particleSize.max}
+                                            step={EFFECT_RANGES.particleSize.step}
+                                            value={effects.particleSize}
+                                            onChange={(e) => updateEffects({ particleSize: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                    <label data-control="/effects/connectionDistance" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Connection Distance:
+                                        <input
+                                            type="range"
+                                            min={EFFECT_RANGES.connectionDistance.min}
+                                            max={EFFECT_RANGES.connectionDistance.max}
+                                            step={EFFECT_RANGES.connectionDistance.step}
+                                            value={effects.connectionDistance}
+                                            onChange={(e) => updateEffects({ connectionDistance: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                    <label data-control="/effects/particleSpeed" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Particle Speed:
+                                        <input
+                                            type="range"
+                                            min={EFFECT_RANGES.particleSpeed.min}
+                                            max={EFFECT_RANGES.particleSpeed.max}
+                                            step={EFFECT_RANGES.particleSpeed.step}
+                                            value={effects.particleSpeed}
+                                            onChange={(e) => updateEffects({ particleSpeed: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                    <label data-control="/effects/hueShift" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Hue Shift:
+                                        <input
+                                            type="range"
+                                            min={EFFECT_RANGES.hueShift.min}
+                                            max={EFFECT_RANGES.hueShift.max}
+                                            step={EFFECT_RANGES.hueShift.step}
+                                            value={effects.hueShift}
+                                            onChange={(e) => updateEffects({ hueShift: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                </div>
+                            </div>
+
+                            <div className="control-group" style={{
+                                background: 'rgba(255, 255, 255, 0.05)',
+                                padding: '1rem',
+                                borderRadius: '8px'
+                            }}>
+                                <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Effects</h4>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                                    <label data-control="/effects/glowEffect" style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                        <input
+                                            type="checkbox"
+                                            checked={effects.glowEffect}
+                                            onChange={(e) => updateEffects({ glowEffect: e.target.checked })}
+                                        />
+                                        Glow Effect
+                                    </label>
+                                    {effects.glowEffect && (
+                                        <label data-control="/effects/glowIntensity" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                            Glow Intensity:
+                                            <input
+                                                type="range"
+                                                min={EFFECT_RANGES.glowIntensity.min}
+                                                max={EFFECT_RANGES.glowIntensity.max}
+                                                step={EFFECT_RANGES.glowIntensity.step}
+                                                value={effects.glowIntensity}
+                                                onChange={(e) => updateEffects({ glowIntensity: Number(e.target.value) })}
+                                                style={{ width: '100%' }}
+                                            />
+                                        </label>
+                                    )}
+                                </div>
+                            </div>
+
+                            <PaletteControls
+                                palette={palette}
+                                colorMode={effects.colorMode}
+                                colorBand={effects.colorBand}
+                                onChange={(palette) => updateConfig({ palette })}
+                                onColorBandChange={(colorBand) => updateEffects({ colorBand })}
+                            />
+
+                            <PostProcessingControls composition={composition} onChange={setComposition} />
+
+                            <BackgroundControls
+                                background={composition.background}
+                                imageName={backgroundImage?.name ?? null}
+                                imageError={backgroundError}
+                                onChange={(background) => setComposition(prev => ({ ...prev, background }))}
+                                onImageSelected={loadBackgroundImage}
+                            />
+
+                            <div className="control-group" style={{
+                                background: 'rgba(255, 255, 255, 0.05)',
+                                padding: '1rem',
+                                borderRadius: '8px'
+                            }}>
+                                <h4 style={{ margin: '0 0 0.5rem 0', fontSize: '1rem' }}>Mouse Interaction</h4>
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                                    <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Press / Touch:
+                                        <select
+                                            value={interactionMode}
+                                            onChange={(e) => setInteractionMode(e.target.value as InteractionMode)}
+                                            style={{ 
+                                                backgroundColor: '#333', 
+                                                color: 'white',
+                                                padding: '0.5rem',
+                                                borderRadius: '4px',
+                                                border: '1px solid rgba(255, 255, 255, 0.1)'
+                                            }}
+                                        >
+                                            {Object.entries(INTERACTION_MODES).map(([mode, label]) => (
+                                                <option key={mode} value={mode}>{label}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                    <label data-control="/effects/mouseRepulsion" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Mouse Repulsion Distance:
+                                        <input
+                                            type="range"
+                                            min={EFFECT_RANGES.mouseRepulsion.min}
+                                            max={EFFECT_RANGES.mouseRepulsion.max}
+                                            step={EFFECT_RANGES.mouseRepulsion.step}
+                                            value={effects.mouseRepulsion}
+                                            onChange={(e) => updateEffects({ mouseRepulsion: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                    <label data-control="/effects/mouseForce" style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                        Mouse Force Strength:
+                                        <input
+                                            type="range"
+                                            min={EFFECT_RANGES.mouseForce.min}
+                                            max={EFFECT_RANGES.mouseForce.max}
+                                            step={EFFECT_RANGES.mouseForce.step}
+                                            value={effects.mouseForce}
+                                            onChange={(e) => updateEffects({ mouseForce: Number(e.target.value) })}
+                                            style={{ width: '100%' }}
+                                        />
+                                    </label>
+                                </div>
+                            </div>
                         </div>
                     </div>
-                </div>
-            </div>
+                </>
+            )}
             <style>
                 {`
-                    @media (max-width: 768px) {
+                    @container (max-width: 768px) {
                         .controls-panel {
                             transform: translateX(100%) !important;
                             width: 100% !important;
@@ -619,7 +1551,7 @@ const AudioVisualizer: React.FC = () => {
                             display: flex !important;
                         }
                     }
-                    @media (min-width: 769px) {
+                    @container (min-width: 769px) {
                         .menu-button {
                             display: none !important;
                         }
@@ -627,10 +1559,30 @@ const AudioVisualizer: React.FC = () => {
                             transform: translateX(0) !important;
                         }
                     }
+                    .ui-hidden .menu-button,
+                    .ui-hidden .controls-panel,
+                    .ui-hidden .force-marker,
+                    .ui-hidden .emitter-marker,
+                    .ui-hidden .performance-overlay {
+                        display: none !important;
+                    }
+                    .ui-hidden canvas {
+                        cursor: none;
+                    }
+                    .midi-learning [data-control] {
+                        outline: 1px dashed rgba(77, 163, 255, 0.8);
+                        outline-offset: 2px;
+                        border-radius: 4px;
+                        cursor: pointer;
+                    }
+                    .midi-learning [data-control] * {
+                        pointer-events: none;
+                    }
+                    ${learnAddress ? `.midi-learning [data-control="${learnAddress}"] { outline: 2px solid rgb(77, 163, 255); }` : ''}
                 `}
             </style>
         </div>
     );
 };
 
-export default AudioVisualizer; 
\ No newline at end of file
+export default ParticleVisualizer; 
\ No newline at end of file
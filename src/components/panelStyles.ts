@@ -0,0 +1,51 @@
+import type { CSSProperties } from 'react';
+
+// Inline styles shared by the control panel groups
+
+export const controlGroupStyle: CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.05)',
+    padding: '1rem',
+    borderRadius: '8px'
+};
+
+export const groupHeadingStyle: CSSProperties = { margin: '0 0 0.5rem 0', fontSize: '1rem' };
+
+export const groupBodyStyle: CSSProperties = { display: 'flex', flexDirection: 'column', gap: '0.5rem' };
+
+export const fieldStyle: CSSProperties = { display: 'flex', flexDirection: 'column', gap: '0.25rem' };
+
+export const checkboxFieldStyle: CSSProperties = { display: 'flex', alignItems: 'center', gap: '0.5rem' };
+
+export const rangeStyle: CSSProperties = { width: '100%' };
+
+export const selectStyle: CSSProperties = {
+    backgroundColor: '#333',
+    color: 'white',
+    padding: '0.5rem',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.1)'
+};
+
+export const textInputStyle: CSSProperties = { ...selectStyle, minWidth: 0 };
+
+export const buttonRowStyle: CSSProperties = { display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' };
+
+export const smallButtonStyle: CSSProperties = {
+    background: 'rgba(255, 255, 255, 0.1)',
+    border: '1px solid rgba(255, 255, 255, 0.2)',
+    borderRadius: '6px',
+    color: 'white',
+    padding: '0.4rem 0.8rem',
+    fontSize: '0.9rem'
+};
+
+export const hintStyle: CSSProperties = { fontSize: '0.85rem', color: 'rgba(255, 255, 255, 0.6)' };
+
+export const errorStyle: CSSProperties = {
+    fontSize: '0.85rem',
+    color: '#ff8080',
+    background: 'rgba(255, 68, 68, 0.1)',
+    border: '1px solid rgba(255, 68, 68, 0.3)',
+    borderRadius: '6px',
+    padding: '0.5rem'
+};
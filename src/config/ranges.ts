@@ -0,0 +1,32 @@
+export interface ParamRange {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+}
+
+// Ranges of the numeric effect sliders in the controls panel
+export const EFFECT_RANGES = {
+    trailLength: { label: 'Trail Length', min: 0, max: 1, step: 0.1 },
+    particleSize: { label: 'Particle Size', min: 1, max: 10, step: 1 },
+    connectionDistance: { label: 'Connection Distance', min: 50, max: 320, step: 1 },
+    glowIntensity: { label: 'Glow Intensity', min: 0, max: 5, step: 0.1 },
+    mouseRepulsion: { label: 'Mouse Repulsion Distance', min: 0, max: 200, step: 1 },
+    mouseForce: { label: 'Mouse Force Strength', min: 0, max: 10, step: 0.1 },
+    particleSpeed: { label: 'Particle Speed', min: 0.5, max: 5, step: 0.1 },
+    hueShift: { label: 'Hue Shift', min: 0, max: 360, step: 1 },
+} satisfies Record<string, ParamRange>;
+
+export type NumericEffect = keyof typeof EFFECT_RANGES;
+
+// Audio reactivity scales modulation depth, so it is not a modulation target itself
+export const AUDIO_REACTIVITY_RANGE: ParamRange = { label: 'Audio Reactivity', min: 0, max: 2, step: 0.1 };
+
+// Ranges of the top-level numeric settings in the Basic Controls group
+export const CONFIG_RANGES = {
+    particleCount: { label: 'Particle Count', min: 0, max: 20000, step: 50 },
+    maxConnections: { label: 'Max Lines', min: 0, max: 50000, step: 500 },
+    lineWidth: { label: 'Line Width', min: 1, max: 10, step: 1 },
+} satisfies Record<string, ParamRange>;
+
+export const clampToRange = (value: number, range: ParamRange) => Math.min(range.max, Math.max(range.min, value));
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { decodeConfig, encodeConfig } from './urlState';
+import { DEFAULT_CONFIG, type VisualizerConfig } from './visualizerConfig';
+
+const custom: VisualizerConfig = {
+    particleCount: 750,
+    maxConnections: 12000,
+    lineWidth: 3,
+    particleColor: '#12abef',
+    palette: [
+        { position: 0, color: '#000000' },
+        { position: 0.35, color: '#ff8800' },
+        { position: 1, color: '#ffffff' },
+    ],
+    effects: {
+        colorMode: 'rainbow',
+        colorBand: 'treble',
+        particleShape: 'triangle',
+        lineStyle: 'gradient',
+        trailLength: 0.6,
+        particleSize: 4,
+        connectionDistance: 150,
+        glowEffect: true,
+        glowIntensity: 2.3,
+        mouseRepulsion: 120,
+        mouseForce: 4.5,
+        audioReactivity: 1.5,
+        particleSpeed: 1.8,
+        hueShift: 90,
+    },
+};
+
+describe('URL state', () => {
+    it('round-trips a configuration', () => {
+        expect(decodeConfig(`#${encodeConfig(custom)}`)).toEqual(custom);
+    });
+
+    it('rounds values to the slider step', () => {
+        const hash = encodeConfig({ ...custom, effects: { ...custom.effects, particleSpeed: 1.8000000004 } });
+        expect(hash).toContain('v=1.8&');
+    });
+
+    it('returns null when the hash holds no configuration', () => {
+        expect(decodeConfig('')).toBeNull();
+        expect(decodeConfig('#section-2')).toBeNull();
+    });
+
+    it('clamps out-of-range numbers', () => {
+        const config = decodeConfig('#n=999999&s=-4&h=400');
+        expect(config?.particleCount).toBe(20000);
+        expect(config?.effects.particleSize).toBe(1);
+        expect(config?.effects.hueShift).toBe(360);
+    });
+
+    it('falls back to defaults for unreadable values and ignores unknown keys', () => {
+        const config = decodeConfig('#n=lots&c=red&sh=star&g=maybe&zz=1&w=5');
+        expect(config).toEqual({ ...DEFAULT_CONFIG, lineWidth: 5 });
+    });
+
+    it('falls back to the default palette when any stop is unreadable', () => {
+        expect(decodeConfig('#p=000000-0_ffffff-100')?.palette).toEqual([
+            { position: 0, color: '#000000' },
+            { position: 1, color: '#ffffff' },
+        ]);
+        for (const palette of ['000000-0', '000000-0_red-100', '000000-0_ffffff-', '000000-0_ffffff']) {
+            expect(decodeConfig(`#p=${palette}`)?.palette).toEqual(DEFAULT_CONFIG.palette);
+        }
+    });
+});
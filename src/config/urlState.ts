@@ -0,0 +1,139 @@
+import { AUDIO_REACTIVITY_RANGE, CONFIG_RANGES, EFFECT_RANGES, clampToRange, type ParamRange } from './ranges';
+import { isHexColor } from '../engine/color';
+import { MAX_PALETTE_STOPS, MIN_PALETTE_STOPS, type ColorStop } from '../engine/palettes';
+import {
+    COLOR_BANDS,
+    COLOR_MODES,
+    DEFAULT_CONFIG,
+    LINE_STYLES,
+    PARTICLE_SHAPES,
+    type VisualizerConfig,
+} from './visualizerConfig';
+
+type NumericConfigKey = keyof typeof CONFIG_RANGES;
+type NumericEffectKey = keyof typeof EFFECT_RANGES | 'audioReactivity';
+
+// Short hash parameter names, keep them stable so shared links keep working
+const CONFIG_KEYS: Record<NumericConfigKey, string> = {
+    particleCount: 'n',
+    maxConnections: 'l',
+    lineWidth: 'w',
+};
+
+const EFFECT_KEYS: Record<NumericEffectKey, string> = {
+    trailLength: 't',
+    particleSize: 's',
+    connectionDistance: 'd',
+    glowIntensity: 'gi',
+    mouseRepulsion: 'mr',
+    mouseForce: 'mf',
+    particleSpeed: 'v',
+    hueShift: 'h',
+    audioReactivity: 'ar',
+};
+
+const COLOR_KEY = 'c';
+const GLOW_KEY = 'g';
+const COLOR_MODE_KEY = 'cm';
+const SHAPE_KEY = 'sh';
+const LINE_STYLE_KEY = 'ls';
+const COLOR_BAND_KEY = 'cb';
+const PALETTE_KEY = 'p';
+
+const effectRange = (key: NumericEffectKey): ParamRange =>
+    key === 'audioReactivity' ? AUDIO_REACTIVITY_RANGE : EFFECT_RANGES[key];
+
+// Round to the slider step so the hash does not carry float noise
+const formatNumber = (value: number, range: ParamRange) => {
+    const decimals = Math.max(0, -Math.floor(Math.log10(range.step)));
+    return String(Number(value.toFixed(decimals)));
+};
+
+const readNumber = (params: URLSearchParams, key: string, range: ParamRange, fallback: number) => {
+    const raw = params.get(key);
+    const value = raw === null || raw.trim() === '' ? NaN : Number(raw);
+    return Number.isFinite(value) ? clampToRange(value, range) : fallback;
+};
+
+// Palettes are written as color-percent pairs, e.g. 2d0b59-0_ffe066-100
+const encodePalette = (palette: readonly ColorStop[]) =>
+    palette.map(stop => `${stop.color.replace('#', '')}-${Math.round(stop.position * 100)}`).join('_');
+
+const readPalette = (params: URLSearchParams, fallback: ColorStop[]) => {
+    const entries = params.get(PALETTE_KEY)?.split('_') ?? [];
+    if (entries.length < MIN_PALETTE_STOPS || entries.length > MAX_PALETTE_STOPS) return fallback;
+    const stops: ColorStop[] = [];
+    for (const entry of entries) {
+        const [color, percent] = entry.split('-');
+        const position = Number(percent);
+        if (!isHexColor(`#${color}`) || percent === undefined || percent.trim() === '' || !Number.isFinite(position)) return fallback;
+        stops.push({ position: Math.min(1, Math.max(0, position / 100)), color: `#${color.toLowerCase()}` });
+    }
+    return stops;
+};
+
+const readChoice = <T extends string>(params: URLSearchParams, key: string, choices: readonly T[], fallback: T) => {
+    const value = params.get(key) as T | null;
+    return value !== null && choices.includes(value) ? value : fallback;
+};
+
+/** Encode a configuration as a compact hash fragment, without the leading '#'. */
+export const encodeConfig = (config: VisualizerConfig) => {
+    const { effects } = config;
+    const params = new URLSearchParams();
+    for (const [field, key] of Object.entries(CONFIG_KEYS) as [NumericConfigKey, string][]) {
+        params.set(key, formatNumber(config[field], CONFIG_RANGES[field]));
+    }
+    params.set(COLOR_KEY, config.particleColor.replace('#', ''));
+    params.set(COLOR_MODE_KEY, effects.colorMode);
+    params.set(COLOR_BAND_KEY, effects.colorBand);
+    params.set(PALETTE_KEY, encodePalette(config.palette));
+    params.set(SHAPE_KEY, effects.particleShape);
+    params.set(LINE_STYLE_KEY, effects.lineStyle);
+    params.set(GLOW_KEY, effects.glowEffect ? '1' : '0');
+    for (const [field, key] of Object.entries(EFFECT_KEYS) as [NumericEffectKey, string][]) {
+        params.set(key, formatNumber(effects[field], effectRange(field)));
+    }
+    return params.toString();
+};
+
+/**
+ * Restore a configuration from a hash fragment. Missing or unreadable values
+ * fall back to the defaults, numbers are clamped to the slider ranges and
+ * unknown parameters are ignored. Returns null when the hash holds no
+ * configuration at all.
+ */
+export const decodeConfig = (hash: string, defaults: VisualizerConfig = DEFAULT_CONFIG): VisualizerConfig | null => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const knownKeys = [
+        ...Object.values(CONFIG_KEYS),
+        ...Object.values(EFFECT_KEYS),
+        COLOR_KEY,
+        GLOW_KEY,
+        COLOR_MODE_KEY,
+        COLOR_BAND_KEY,
+        PALETTE_KEY,
+        SHAPE_KEY,
+        LINE_STYLE_KEY,
+    ];
+    if (!knownKeys.some(key => params.has(key))) return null;
+
+    const config = { ...defaults, effects: { ...defaults.effects } };
+    for (const [field, key] of Object.entries(CONFIG_KEYS) as [NumericConfigKey, string][]) {
+        config[field] = readNumber(params, key, CONFIG_RANGES[field], defaults[field]);
+    }
+    for (const [field, key] of Object.entries(EFFECT_KEYS) as [NumericEffectKey, string][]) {
+        config.effects[field] = readNumber(params, key, effectRange(field), defaults.effects[field]);
+    }
+
+    const color = params.get(COLOR_KEY);
+    if (color && isHexColor(`#${color}`)) config.particleColor = `#${color.toLowerCase()}`;
+    const glow = params.get(GLOW_KEY);
+    if (glow === '1' || glow === '0') config.effects.glowEffect = glow === '1';
+    config.effects.colorMode = readChoice(params, COLOR_MODE_KEY, COLOR_MODES, defaults.effects.colorMode);
+    config.effects.colorBand = readChoice(params, COLOR_BAND_KEY, COLOR_BANDS, defaults.effects.colorBand);
+    config.palette = readPalette(params, defaults.palette);
+    config.effects.particleShape = readChoice(params, SHAPE_KEY, PARTICLE_SHAPES, defaults.effects.particleShape);
+    config.effects.lineStyle = readChoice(params, LINE_STYLE_KEY, LINE_STYLES, defaults.effects.lineStyle);
+    return config;
+};
@@ -0,0 +1,66 @@
+import { DEFAULT_PALETTE, type ColorStop } from '../engine/palettes';
+
+// Modes after rainbow pick each particle's color from the palette
+export const COLOR_MODES = ['solid', 'rainbow', 'velocity', 'position', 'connections', 'age', 'audio'] as const;
+export const COLOR_BANDS = ['bass', 'mid', 'treble', 'level'] as const;
+export const PARTICLE_SHAPES = ['circle', 'square', 'triangle'] as const;
+export const LINE_STYLES = ['solid', 'dashed', 'gradient'] as const;
+
+export type ColorMode = typeof COLOR_MODES[number];
+export type ColorBand = typeof COLOR_BANDS[number];
+export type ParticleShape = typeof PARTICLE_SHAPES[number];
+export type LineStyle = typeof LINE_STYLES[number];
+
+export interface EffectsConfig {
+    colorMode: ColorMode;
+    colorBand: ColorBand; // Audio band driving the palette in the audio color mode
+    particleShape: ParticleShape;
+    lineStyle: LineStyle;
+    trailLength: number; // 0-1
+    particleSize: number; // 1-10
+    connectionDistance: number; // 50-320
+    glowEffect: boolean;
+    glowIntensity: number; // 0-5
+    mouseRepulsion: number; // Distance at which mouse affects particles
+    mouseForce: number; // Strength of mouse repulsion
+    audioReactivity: number; // 0-2, scales the depth of audio-driven modulations
+    particleSpeed: number; // 0.5-5, multiplier on particle velocity
+    hueShift: number; // 0-360, degrees added to every particle hue
+}
+
+export interface VisualizerConfig {
+    particleCount: number;
+    maxConnections: number; // Cap on connection lines per frame
+    lineWidth: number;
+    particleColor: string; // Hex color used by the solid color mode
+    palette: ColorStop[]; // Gradient used by the palette color modes
+    effects: EffectsConfig;
+}
+
+export const isPaletteColorMode = (mode: ColorMode) => mode !== 'solid' && mode !== 'rainbow';
+
+export const DEFAULT_EFFECTS: EffectsConfig = {
+    colorMode: 'solid',
+    colorBand: 'bass',
+    particleShape: 'circle',
+    lineStyle: 'solid',
+    trailLength: 0.1,
+    particleSize: 2,
+    connectionDistance: 200,
+    glowEffect: false,
+    glowIntensity: 0.5,
+    mouseRepulsion: 80,
+    mouseForce: 3,
+    audioReactivity: 1,
+    particleSpeed: 1,
+    hueShift: 0,
+};
+
+export const DEFAULT_CONFIG: VisualizerConfig = {
+    particleCount: 100,
+    maxConnections: 5000,
+    lineWidth: 2,
+    particleColor: '#ffffff',
+    palette: DEFAULT_PALETTE,
+    effects: DEFAULT_EFFECTS,
+};
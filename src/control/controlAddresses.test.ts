@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG_RANGES, EFFECT_RANGES } from '../config/ranges';
+import { commandFromLevel, commandFromMessage, ControlError, CONTROL_ADDRESSES, getTargetAddress } from './controlAddresses';
+
+describe('getTargetAddress', () => {
+    it('puts effects under /effects', () => {
+        expect(getTargetAddress('connectionDistance')).toBe('/effects/connectionDistance');
+        expect(getTargetAddress('particleCount')).toBe('/particleCount');
+    });
+
+    it('lists every address once', () => {
+        const addresses = CONTROL_ADDRESSES.map(entry => entry.address);
+        expect(new Set(addresses).size).toBe(addresses.length);
+        expect(addresses).toContain('/burst');
+    });
+});
+
+describe('commandFromLevel', () => {
+    it('spans the slider range of numbers', () => {
+        const { min, max } = EFFECT_RANGES.connectionDistance;
+        expect(commandFromLevel('/effects/connectionDistance', 0)).toEqual({ kind: 'set', target: 'connectionDistance', value: min });
+        expect(commandFromLevel('/effects/connectionDistance', 1)).toEqual({ kind: 'set', target: 'connectionDistance', value: max });
+    });
+
+    it('rounds integer settings', () => {
+        const command = commandFromLevel('/particleCount', 0.333);
+        expect(command?.kind === 'set' && Number.isInteger(command.value)).toBe(true);
+    });
+
+    it('splits choices into equal steps and switches at the halfway point', () => {
+        expect(commandFromLevel('/effects/particleShape', 0)).toMatchObject({ value: 'circle' });
+        expect(commandFromLevel('/effects/particleShape', 0.5)).toMatchObject({ value: 'square' });
+        expect(commandFromLevel('/effects/particleShape', 1)).toMatchObject({ value: 'triangle' });
+        expect(commandFromLevel('/effects/glowEffect', 0.49)).toMatchObject({ value: false });
+        expect(commandFromLevel('/effects/glowEffect', 0.5)).toMatchObject({ value: true });
+    });
+
+    it('only bursts while pressed', () => {
+        expect(commandFromLevel('/burst', 1)).toEqual({ kind: 'burst', x: null, y: null });
+        expect(commandFromLevel('/burst', 0)).toBeNull();
+    });
+});
+
+describe('commandFromMessage', () => {
+    it('takes numbers in slider units, clamped to the range', () => {
+        expect(commandFromMessage('/effects/connectionDistance', [240])).toEqual({ kind: 'set', target: 'connectionDistance', value: 240 });
+        expect(commandFromMessage('/particleCount', [1e9])).toMatchObject({ value: CONFIG_RANGES.particleCount.max });
+        expect(commandFromMessage('/effects/trailLength', ['0.5'])).toMatchObject({ value: 0.5 });
+    });
+
+    it('accepts choices by name or index', () => {
+        expect(commandFromMessage('/effects/lineStyle', ['dashed'])).toMatchObject({ value: 'dashed' });
+        expect(commandFromMessage('/effects/lineStyle', [2])).toMatchObject({ value: 'gradient' });
+        expect(() => commandFromMessage('/effects/lineStyle', [7])).toThrow(ControlError);
+    });
+
+    it('accepts colors as hex or hue', () => {
+        expect(commandFromMessage('/particleColor', ['#FF8800'])).toMatchObject({ value: '#ff8800' });
+        expect(commandFromMessage('/particleColor', [0])).toMatchObject({ value: '#ff0000' });
+    });
+
+    it('reads switches from words and numbers', () => {
+        expect(commandFromMessage('/effects/glowEffect', ['false'])).toMatchObject({ value: false });
+        expect(commandFromMessage('/effects/glowEffect', [1])).toMatchObject({ value: true });
+    });
+
+    it('bursts at an optional position', () => {
+        expect(commandFromMessage('/burst', [])).toEqual({ kind: 'burst', x: null, y: null });
+        expect(commandFromMessage('/burst', [0.25, 2])).toEqual({ kind: 'burst', x: 0.25, y: 1 });
+    });
+
+    it('rejects unknown addresses and missing values', () => {
+        expect(() => commandFromMessage('/effects/nope', [1])).toThrow('Unknown address "/effects/nope".');
+        expect(() => commandFromMessage('/lineWidth', [])).toThrow(ControlError);
+    });
+});
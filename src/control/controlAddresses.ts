@@ -0,0 +1,118 @@
+import { clampToRange } from '../config/ranges';
+import { DEFAULT_EFFECTS } from '../config/visualizerConfig';
+import { hslToRgb, isHexColor, rgbToHex } from '../engine/color';
+import { TIMELINE_TARGETS, type TimelineTarget, type TimelineValue } from '../presets/timeline';
+
+/** Thrown when a control message cannot be applied. The message is meant to be shown to the user. */
+export class ControlError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ControlError';
+    }
+}
+
+export type ControlArgument = number | string | boolean;
+
+export type ControlCommand =
+    | { kind: 'set'; target: TimelineTarget; value: TimelineValue }
+    | { kind: 'burst'; x: number | null; y: number | null }; // Position as a fraction of the canvas, the centre when null
+
+export const BURST_ADDRESS = '/burst';
+
+// Effects live under /effects, like in a preset file
+export const getTargetAddress = (target: TimelineTarget) => (target in DEFAULT_EFFECTS ? `/effects/${target}` : `/${target}`);
+
+const TARGETS_BY_ADDRESS = new Map(
+    (Object.keys(TIMELINE_TARGETS) as TimelineTarget[]).map(target => [getTargetAddress(target), target])
+);
+
+/** Every address a message or a MIDI binding can drive, with a label for the panel. */
+export const CONTROL_ADDRESSES: { address: string; label: string }[] = [
+    ...[...TARGETS_BY_ADDRESS].map(([address, target]) => ({ address, label: TIMELINE_TARGETS[target].label })),
+    { address: BURST_ADDRESS, label: 'Burst' },
+];
+
+export const getAddressLabel = (address: string) =>
+    CONTROL_ADDRESSES.find(entry => entry.address === address)?.label ?? address;
+
+const getTarget = (address: string) => {
+    const target = TARGETS_BY_ADDRESS.get(address);
+    if (!target) throw new ControlError(`Unknown address "${address}".`);
+    return target;
+};
+
+// A single number picks a hue, which is all a knob or fader can express
+const hueToHex = (amount: number) => rgbToHex(hslToRgb({ h: (amount % 1) * 360, s: 100, l: 50 }));
+
+/**
+ * Turn a value from 0 to 1, as sent by a knob, fader or pad, into a command.
+ * Numbers span their slider range, choices are split into equal steps and
+ * switches turn on from the halfway point. Returns null when nothing should
+ * happen, like a burst pad being released.
+ */
+export const commandFromLevel = (address: string, level: number): ControlCommand | null => {
+    const amount = Math.min(1, Math.max(0, level));
+    if (address === BURST_ADDRESS) return amount > 0 ? { kind: 'burst', x: null, y: null } : null;
+
+    const target = getTarget(address);
+    const info = TIMELINE_TARGETS[target];
+    switch (info.type) {
+        case 'number': {
+            const value = info.range.min + (info.range.max - info.range.min) * amount;
+            return { kind: 'set', target, value: info.integer ? Math.round(value) : value };
+        }
+        case 'choice':
+            return { kind: 'set', target, value: info.choices[Math.min(info.choices.length - 1, Math.floor(amount * info.choices.length))] };
+        case 'boolean':
+            return { kind: 'set', target, value: amount >= 0.5 };
+        case 'color':
+            return { kind: 'set', target, value: hueToHex(amount) };
+    }
+};
+
+const readNumberArgument = (value: ControlArgument | undefined, address: string) => {
+    const number = value === undefined || value === '' ? NaN : Number(value);
+    if (!Number.isFinite(number)) throw new ControlError(`"${address}" expects a number.`);
+    return number;
+};
+
+/**
+ * Turn an OSC-style message into a command. Numbers are taken in the units of
+ * their slider and clamped to its range, choices by name or index, switches
+ * by true/false or 1/0, and colors as #rrggbb or a hue from 0 to 1.
+ * /burst takes an optional x and y as fractions of the canvas.
+ */
+export const commandFromMessage = (address: string, args: readonly ControlArgument[]): ControlCommand => {
+    if (address === BURST_ADDRESS) {
+        if (args.length < 2) return { kind: 'burst', x: null, y: null };
+        return {
+            kind: 'burst',
+            x: Math.min(1, Math.max(0, readNumberArgument(args[0], address))),
+            y: Math.min(1, Math.max(0, readNumberArgument(args[1], address))),
+        };
+    }
+
+    const target = getTarget(address);
+    const info = TIMELINE_TARGETS[target];
+    const [arg] = args;
+    switch (info.type) {
+        case 'number': {
+            const value = clampToRange(readNumberArgument(arg, address), info.range);
+            return { kind: 'set', target, value: info.integer ? Math.round(value) : value };
+        }
+        case 'choice': {
+            if (typeof arg === 'string' && info.choices.includes(arg)) return { kind: 'set', target, value: arg };
+            const index = Math.round(readNumberArgument(arg, address));
+            if (index < 0 || index >= info.choices.length) {
+                throw new ControlError(`"${address}" expects one of ${info.choices.join(', ')}.`);
+            }
+            return { kind: 'set', target, value: info.choices[index] };
+        }
+        case 'boolean':
+            if (arg === 'true' || arg === 'false') return { kind: 'set', target, value: arg === 'true' };
+            return { kind: 'set', target, value: readNumberArgument(arg, address) >= 0.5 };
+        case 'color':
+            if (typeof arg === 'string' && isHexColor(arg)) return { kind: 'set', target, value: arg.toLowerCase() };
+            return { kind: 'set', target, value: hueToHex(readNumberArgument(arg, address)) };
+    }
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ControlError } from './controlAddresses';
+import { learnMidiBinding, loadMidiBindings, parseMidiMessage, saveMidiBindings, type MidiBinding } from './midi';
+
+const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+    };
+};
+
+describe('parseMidiMessage', () => {
+    it('reads control changes on their channel', () => {
+        expect(parseMidiMessage([0xb3, 21, 127])).toEqual({ type: 'cc', channel: 4, number: 21, value: 1 });
+    });
+
+    it('treats a note on with zero velocity as a release', () => {
+        expect(parseMidiMessage([0x90, 60, 100])).toEqual({ type: 'note', channel: 1, number: 60, value: 1 });
+        expect(parseMidiMessage([0x90, 60, 0])).toMatchObject({ value: 0 });
+        expect(parseMidiMessage([0x80, 60, 64])).toMatchObject({ value: 0 });
+    });
+
+    it('ignores other messages', () => {
+        expect(parseMidiMessage([0xe0, 0, 64])).toBeNull(); // Pitch bend
+        expect(parseMidiMessage([0xf8])).toBeNull(); // Clock
+    });
+});
+
+describe('learnMidiBinding', () => {
+    it('moves a control to the newly learned address', () => {
+        const knob = { type: 'cc' as const, channel: 1, number: 21, value: 0.5 };
+        const first = learnMidiBinding([], '/lineWidth', knob);
+        const second = learnMidiBinding(first, '/effects/hueShift', knob);
+        expect(second.map(binding => binding.address)).toEqual(['/effects/hueShift']);
+    });
+});
+
+describe('stored bindings', () => {
+    it('round-trip and skip entries that no longer validate', () => {
+        const storage = memoryStorage();
+        const bindings: MidiBinding[] = [{ id: 'a', address: '/burst', type: 'note', channel: 10, number: 36 }];
+        saveMidiBindings(bindings, storage);
+        expect(loadMidiBindings(storage)).toMatchObject([{ address: '/burst', type: 'note', channel: 10, number: 36 }]);
+
+        storage.setItem('particle-visualizer.midi-bindings', JSON.stringify([
+            { address: '/removed', type: 'cc', channel: 1, number: 1 },
+            { address: '/lineWidth', type: 'cc', channel: 17, number: 1 },
+        ]));
+        expect(loadMidiBindings(storage)).toEqual([]);
+    });
+
+    it('keeps working where the browser blocks storage', () => {
+        const blocked = {
+            getItem: () => {
+                throw new DOMException('The operation is insecure.', 'SecurityError');
+            },
+            setItem: () => {
+                throw new DOMException('The operation is insecure.', 'SecurityError');
+            },
+        };
+        expect(loadMidiBindings(blocked)).toEqual([]);
+        expect(() => saveMidiBindings([], blocked)).toThrow(ControlError);
+    });
+});
@@ -0,0 +1,151 @@
+import { isObject } from '../presets/presets';
+import { CONTROL_ADDRESSES, ControlError } from './controlAddresses';
+
+export type MidiMessageType = 'cc' | 'note';
+
+export interface MidiMessage {
+    type: MidiMessageType;
+    channel: number; // 1-16
+    number: number; // Controller or note number
+    value: number; // 0-1. Notes are 1 while held and 0 once released
+}
+
+/** A hardware control bound to an address, see controlAddresses. */
+export interface MidiBinding {
+    id: string;
+    address: string;
+    type: MidiMessageType;
+    channel: number;
+    number: number;
+}
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+
+/** Read a control change or note message, ignoring everything else (clock, pitch bend, sysex...). */
+export const parseMidiMessage = (data: ArrayLike<number>): MidiMessage | null => {
+    if (data.length < 3) return null;
+    const status = data[0] & 0xf0;
+    const channel = (data[0] & 0x0f) + 1;
+    const number = data[1];
+    switch (status) {
+        case CONTROL_CHANGE:
+            return { type: 'cc', channel, number, value: data[2] / 127 };
+        // Many devices send a note on with zero velocity instead of a note off
+        case NOTE_ON:
+            return { type: 'note', channel, number, value: data[2] > 0 ? 1 : 0 };
+        case NOTE_OFF:
+            return { type: 'note', channel, number, value: 0 };
+        default:
+            return null;
+    }
+};
+
+export const isSameControl = (binding: Omit<MidiBinding, 'id' | 'address'>, message: MidiMessage) =>
+    binding.type === message.type && binding.channel === message.channel && binding.number === message.number;
+
+export const describeMidiControl = ({ type, channel, number }: Omit<MidiBinding, 'id' | 'address'>) =>
+    `${type === 'cc' ? 'CC' : 'Note'} ${number} · Ch ${channel}`;
+
+let nextBindingId = 0;
+
+export const createMidiBinding = (address: string, { type, channel, number }: MidiMessage): MidiBinding => ({
+    id: `midi-${Date.now().toString(36)}-${nextBindingId++}`,
+    address,
+    type,
+    channel,
+    number,
+});
+
+/** Bind the control that sent the message to an address, taking it away from whatever it drove before. */
+export const learnMidiBinding = (bindings: readonly MidiBinding[], address: string, message: MidiMessage) => [
+    ...bindings.filter(binding => !isSameControl(binding, message)),
+    createMidiBinding(address, message),
+];
+
+const STORAGE_KEY = 'particle-visualizer.midi-bindings';
+
+const isIntegerBetween = (value: unknown, min: number, max: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+const isMidiBinding = (value: unknown): value is Omit<MidiBinding, 'id'> =>
+    isObject(value) &&
+    CONTROL_ADDRESSES.some(entry => entry.address === value.address) &&
+    (value.type === 'cc' || value.type === 'note') &&
+    isIntegerBetween(value.channel, 1, 16) &&
+    isIntegerBetween(value.number, 0, 127);
+
+/**
+ * Read the saved bindings, skipping entries that no longer validate. Where the
+ * browser blocks storage, touching localStorage throws; there are none then.
+ */
+export const loadMidiBindings = (storage?: Pick<Storage, 'getItem'>): MidiBinding[] => {
+    let stored: unknown;
+    try {
+        stored = JSON.parse((storage ?? localStorage).getItem(STORAGE_KEY) ?? '[]');
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(stored)) return [];
+    return stored
+        .filter(isMidiBinding)
+        .map(({ address, type, channel, number }) => createMidiBinding(address, { type, channel, number, value: 0 }));
+};
+
+/** Store the bindings. Throws a ControlError when the browser refuses. */
+export const saveMidiBindings = (bindings: readonly MidiBinding[], storage?: Pick<Storage, 'setItem'>) => {
+    const stored = JSON.stringify(bindings.map(({ address, type, channel, number }) => ({ address, type, channel, number })));
+    try {
+        (storage ?? localStorage).setItem(STORAGE_KEY, stored);
+    } catch {
+        throw new ControlError('MIDI bindings work until the page is closed, the browser does not let them be saved.');
+    }
+};
+
+export const isMidiSupported = () => typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+
+/** Listens to every connected MIDI input, including devices plugged in later. */
+export class MidiInput {
+    onMessage: ((message: MidiMessage) => void) | null = null;
+    onDevicesChange: ((names: string[]) => void) | null = null;
+    private access: MIDIAccess | null = null;
+
+    async open() {
+        if (!isMidiSupported()) throw new ControlError('This browser does not support Web MIDI.');
+        if (this.access) return;
+        try {
+            this.access = await navigator.requestMIDIAccess();
+        } catch {
+            throw new ControlError('MIDI access was denied. Allow it in your browser\'s site settings and try again.');
+        }
+        this.access.onstatechange = () => this.attachInputs();
+        this.attachInputs();
+    }
+
+    close() {
+        if (!this.access) return;
+        this.access.onstatechange = null;
+        this.access.inputs.forEach(input => {
+            input.onmidimessage = null;
+        });
+        this.access = null;
+    }
+
+    get isOpen() {
+        return this.access !== null;
+    }
+
+    private attachInputs() {
+        const names: string[] = [];
+        this.access?.inputs.forEach(input => {
+            // Setting a handler also opens the port
+            input.onmidimessage = (event) => {
+                const message = event.data ? parseMidiMessage(event.data) : null;
+                if (message) this.onMessage?.(message);
+            };
+            if (input.state === 'connected') names.push(input.name ?? 'MIDI input');
+        });
+        this.onDevicesChange?.(names);
+    }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ControlError } from './controlAddresses';
+import { decodeOscPacket, parseOscText } from './osc';
+
+// Null terminated and padded to 4 bytes, as OSC strings are
+const oscString = (text: string) => {
+    const bytes = new Uint8Array(Math.ceil((text.length + 1) / 4) * 4);
+    bytes.set(new TextEncoder().encode(text));
+    return bytes;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+    const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+    }
+    return bytes;
+};
+
+const int32 = (value: number) => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setInt32(0, value);
+    return bytes;
+};
+
+const float32 = (value: number) => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setFloat32(0, value);
+    return bytes;
+};
+
+describe('parseOscText', () => {
+    it('reads an address and typed arguments per line', () => {
+        expect(parseOscText('/effects/connectionDistance 240\n\n# comment\n/burst 0.5 0.5\n/effects/lineStyle dashed true')).toEqual([
+            { address: '/effects/connectionDistance', args: [240] },
+            { address: '/burst', args: [0.5, 0.5] },
+            { address: '/effects/lineStyle', args: ['dashed', true] },
+        ]);
+    });
+
+    it('rejects lines without an address', () => {
+        expect(() => parseOscText('connectionDistance 240')).toThrow(ControlError);
+    });
+});
+
+describe('decodeOscPacket', () => {
+    it('decodes a message with int, float, string and boolean arguments', () => {
+        const packet = concat(oscString('/effects/x'), oscString(',ifsT'), int32(240), float32(0.5), oscString('dashed'));
+        expect(decodeOscPacket(packet.buffer)).toEqual([{ address: '/effects/x', args: [240, 0.5, 'dashed', true] }]);
+    });
+
+    it('flattens nested bundles', () => {
+        const first = concat(oscString('/a'), oscString(',i'), int32(1));
+        const second = concat(oscString('/b'), oscString(','));
+        const inner = concat(oscString('#bundle'), new Uint8Array(8), int32(second.length), second);
+        const packet = concat(oscString('#bundle'), new Uint8Array(8), int32(first.length), first, int32(inner.length), inner);
+        expect(decodeOscPacket(packet.buffer)).toEqual([
+            { address: '/a', args: [1] },
+            { address: '/b', args: [] },
+        ]);
+    });
+
+    it('rejects truncated packets and unknown types', () => {
+        expect(() => decodeOscPacket(concat(oscString('/a'), oscString(',i')).buffer)).toThrow('The OSC packet ended early.');
+        expect(() => decodeOscPacket(concat(oscString('/a'), oscString(',b'), int32(0)).buffer)).toThrow(ControlError);
+    });
+
+    it('rejects bundle elements with a negative or unaligned size', () => {
+        const message = concat(oscString('/a'), oscString(','));
+        const withSize = (size: number) => concat(oscString('#bundle'), new Uint8Array(8), int32(size), message).buffer;
+        expect(() => decodeOscPacket(withSize(-4))).toThrow(ControlError);
+        expect(() => decodeOscPacket(withSize(3))).toThrow(ControlError);
+    });
+});
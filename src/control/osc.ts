@@ -0,0 +1,207 @@
+import { ControlError, type ControlArgument } from './controlAddresses';
+
+export interface OscMessage {
+    address: string;
+    args: ControlArgument[];
+}
+
+const parseTextArgument = (token: string): ControlArgument => {
+    if (token === 'true' || token === 'false') return token === 'true';
+    const number = Number(token);
+    return Number.isFinite(number) ? number : token;
+};
+
+/**
+ * Read messages typed as text, one per line: an address followed by
+ * space-separated arguments, e.g. "/effects/connectionDistance 240".
+ * Blank lines and lines starting with # are skipped.
+ */
+export const parseOscText = (text: string): OscMessage[] =>
+    text
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => {
+            const [address, ...args] = line.split(/\s+/);
+            if (!address.startsWith('/')) throw new ControlError(`"${line}" does not start with an address.`);
+            return { address, args: args.map(parseTextArgument) };
+        });
+
+const BUNDLE_TAG = '#bundle';
+
+/** Reads the big-endian, 4-byte aligned fields of an OSC packet. */
+class OscReader {
+    private offset = 0;
+    private readonly view: DataView;
+
+    constructor(view: DataView) {
+        this.view = view;
+    }
+
+    get remaining() {
+        return this.view.byteLength - this.offset;
+    }
+
+    private need(bytes: number) {
+        if (this.remaining < bytes) throw new ControlError('The OSC packet ended early.');
+    }
+
+    string() {
+        let end = this.offset;
+        while (end < this.view.byteLength && this.view.getUint8(end) !== 0) end++;
+        this.need(end - this.offset + 1);
+        const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, end - this.offset);
+        // Strings are null terminated and padded to a multiple of 4 bytes
+        this.offset = Math.min(this.view.byteLength, (end + 4) & ~3);
+        return new TextDecoder().decode(bytes);
+    }
+
+    int32() {
+        this.need(4);
+        const value = this.view.getInt32(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    float32() {
+        this.need(4);
+        const value = this.view.getFloat32(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    float64() {
+        this.need(8);
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    int64() {
+        this.need(8);
+        const value = Number(this.view.getBigInt64(this.offset));
+        this.offset += 8;
+        return value;
+    }
+
+    slice(bytes: number) {
+        // Sizes come from the packet itself, and OSC keeps everything 4-byte aligned
+        if (bytes < 0 || bytes % 4 !== 0) throw new ControlError(`The OSC packet has an invalid element size of ${bytes} bytes.`);
+        this.need(bytes);
+        const view = new DataView(this.view.buffer, this.view.byteOffset + this.offset, bytes);
+        this.offset += bytes;
+        return view;
+    }
+}
+
+const decodeMessage = (reader: OscReader): OscMessage => {
+    const address = reader.string();
+    if (!address.startsWith('/')) throw new ControlError('The OSC packet has no address.');
+    // Very old senders leave out the type tags, such a message has no arguments we can read
+    const tags = reader.remaining > 0 ? reader.string() : ',';
+    if (!tags.startsWith(',')) throw new ControlError(`"${address}" has no OSC type tags.`);
+
+    const args: ControlArgument[] = [];
+    for (const tag of tags.slice(1)) {
+        switch (tag) {
+            case 'i': args.push(reader.int32()); break;
+            case 'f': args.push(reader.float32()); break;
+            case 'd': args.push(reader.float64()); break;
+            case 'h': args.push(reader.int64()); break;
+            case 's':
+            case 'S': args.push(reader.string()); break;
+            case 'T': args.push(true); break;
+            case 'F': args.push(false); break;
+            // Nil and impulse carry no data
+            case 'N':
+            case 'I': break;
+            default: throw new ControlError(`"${address}" uses the unsupported OSC type "${tag}".`);
+        }
+    }
+    return { address, args };
+};
+
+const decodePacket = (view: DataView): OscMessage[] => {
+    const reader = new OscReader(view);
+    if (view.byteLength < 8 || new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset, 7)) !== BUNDLE_TAG) {
+        return [decodeMessage(reader)];
+    }
+    reader.string();
+    // Bundles are applied as soon as they arrive, the time tag is ignored
+    reader.slice(8);
+    const messages: OscMessage[] = [];
+    while (reader.remaining > 0) {
+        const size = reader.int32();
+        messages.push(...decodePacket(reader.slice(size)));
+    }
+    return messages;
+};
+
+/** Decode a binary OSC message or bundle, flattening bundles into their messages. */
+export const decodeOscPacket = (buffer: ArrayBuffer) => decodePacket(new DataView(buffer));
+
+export type OscSocketStatus = 'connecting' | 'open' | 'closed';
+
+// Wait before retrying a dropped connection, a relay restarting mid-show should not need a click
+const RECONNECT_DELAY = 2000;
+
+/**
+ * Receives control messages over a WebSocket, as text lines or binary OSC
+ * packets, and reconnects after the connection drops until it is closed.
+ */
+export class OscSocket {
+    onMessages: ((messages: OscMessage[]) => void) | null = null;
+    onStatusChange: ((status: OscSocketStatus) => void) | null = null;
+    onError: ((error: ControlError) => void) | null = null;
+    private socket: WebSocket | null = null;
+    private reconnectTimeout = 0;
+    private url: string | null = null;
+
+    connect(url: string) {
+        this.close();
+        this.url = url;
+        this.open();
+    }
+
+    close() {
+        this.url = null;
+        window.clearTimeout(this.reconnectTimeout);
+        if (this.socket) {
+            this.socket.onclose = null;
+            this.socket.close();
+            this.socket = null;
+        }
+        this.onStatusChange?.('closed');
+    }
+
+    private open() {
+        if (!this.url) return;
+        let socket: WebSocket;
+        try {
+            socket = new WebSocket(this.url);
+        } catch {
+            this.url = null;
+            this.onError?.(new ControlError('That is not a valid WebSocket address.'));
+            this.onStatusChange?.('closed');
+            return;
+        }
+        socket.binaryType = 'arraybuffer';
+        socket.onopen = () => this.onStatusChange?.('open');
+        socket.onmessage = (event: MessageEvent<string | ArrayBuffer>) => {
+            try {
+                const messages = typeof event.data === 'string' ? parseOscText(event.data) : decodeOscPacket(event.data);
+                this.onMessages?.(messages);
+            } catch (error) {
+                if (error instanceof ControlError) this.onError?.(error);
+                else throw error;
+            }
+        };
+        socket.onclose = () => {
+            this.socket = null;
+            this.onStatusChange?.('connecting');
+            this.reconnectTimeout = window.setTimeout(() => this.open(), RECONNECT_DELAY);
+        };
+        this.socket = socket;
+        this.onStatusChange?.('connecting');
+    }
+}
@@ -0,0 +1,58 @@
+import type { BeatEvent } from '../audio/beatDetector';
+import type { ParticleSystem } from './particleSystem';
+
+export interface BeatReactionSettings {
+    sensitivity: number; // 0-1
+    burst: boolean;
+    burstSize: number; // Particles spawned per beat
+    glowBoost: boolean;
+    glowBoostAmount: number; // Added to glowIntensity on a beat
+    shapeFlip: boolean; // Cycle particleShape on downbeats
+}
+
+export const DEFAULT_BEAT_REACTIONS: BeatReactionSettings = {
+    sensitivity: 0.5,
+    burst: true,
+    burstSize: 24,
+    glowBoost: true,
+    glowBoostAmount: 2,
+    shapeFlip: false,
+};
+
+// Fraction of the beat envelope left after one second (0.9 per frame at 60 fps)
+const ENVELOPE_DECAY = Math.pow(0.9, 60);
+
+// Burst speed in pixels per second, plus the part scaled by beat strength
+const BURST_SPEED = 180;
+const BURST_STRENGTH_SPEED = 240;
+
+/**
+ * Turns detected beats into particle bursts, a decaying envelope (used for the
+ * glow boost and as the 'beat' modulation source) and shape changes. Decay is
+ * time based, so live and offline rendering at any frame rate look alike.
+ */
+export class BeatReactions {
+    envelope = 0; // 1 on a beat, decaying towards 0
+    shapeOffset = 0; // Advanced on downbeats to cycle shapes
+
+    update(system: ParticleSystem, beat: BeatEvent | null, settings: BeatReactionSettings, dt: number) {
+        if (beat) {
+            if (settings.burst) {
+                const speed = BURST_SPEED + beat.strength * BURST_STRENGTH_SPEED;
+                system.burst(system.width / 2, system.height / 2, settings.burstSize, speed);
+            }
+            this.envelope = 1;
+            if (settings.shapeFlip && beat.isDownbeat) this.shapeOffset++;
+        }
+        this.envelope *= Math.pow(ENVELOPE_DECAY, dt);
+    }
+
+    getGlowBoost(settings: BeatReactionSettings) {
+        return settings.glowBoost ? this.envelope * settings.glowBoostAmount : 0;
+    }
+
+    reset() {
+        this.envelope = 0;
+        this.shapeOffset = 0;
+    }
+}
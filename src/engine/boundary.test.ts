@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createMaskTest, DEFAULT_BOUNDARY, type BoundaryConfig, type MaskBitmap } from './boundary';
+
+const mask = (changes: Partial<BoundaryConfig>) => ({ ...DEFAULT_BOUNDARY, mode: 'mask' as const, ...changes });
+
+describe('createMaskTest', () => {
+    it('keeps circles round on wide canvases', () => {
+        const inside = createMaskTest(mask({ maskShape: 'circle', maskSize: 1 }), null, 400, 200)!;
+        expect(inside(200, 100)).toBe(true);
+        expect(inside(290, 100)).toBe(true);
+        expect(inside(310, 100)).toBe(false);
+        expect(inside(200, 5)).toBe(true);
+    });
+
+    it('builds regular polygons pointing up', () => {
+        const inside = createMaskTest(mask({ maskShape: 'polygon', maskSides: 3, maskSize: 1 }), null, 200, 200)!;
+        expect(inside(100, 100)).toBe(true);
+        expect(inside(100, 5)).toBe(true);
+        // Beside the top corner is outside the triangle
+        expect(inside(40, 20)).toBe(false);
+    });
+
+    it('fits bitmaps into the canvas and reads their alpha', () => {
+        // Left half opaque, right half transparent
+        const bitmap: MaskBitmap = { width: 2, height: 1, alpha: new Uint8Array([255, 0]) };
+        const inside = createMaskTest(mask({ maskShape: 'image', maskSize: 1 }), bitmap, 400, 400)!;
+        // Scaled to 400 × 200, centred vertically
+        expect(inside(100, 200)).toBe(true);
+        expect(inside(300, 200)).toBe(false);
+        expect(inside(100, 50)).toBe(false);
+    });
+
+    it('leaves particles unconfined until an image or text is available', () => {
+        expect(createMaskTest(mask({ maskShape: 'text' }), null, 400, 400)).toBeNull();
+    });
+});
@@ -0,0 +1,102 @@
+export type BoundaryMode = 'bounce' | 'wrap' | 'respawn' | 'mask';
+
+export type MaskShape = 'circle' | 'polygon' | 'image' | 'text';
+
+export interface BoundaryConfig {
+    mode: BoundaryMode;
+    restitution: number; // 0-1, share of the speed kept by a bounce
+    respawnX: number; // 0-1 across the width, where absorbed particles reappear
+    respawnY: number;
+    respawnSpread: number; // Pixels around the respawn point
+    maskShape: MaskShape;
+    maskSize: number; // 0-1 of the canvas the mask may fill
+    maskSides: number; // For polygons
+    maskText: string;
+}
+
+export const DEFAULT_BOUNDARY: BoundaryConfig = {
+    mode: 'bounce',
+    restitution: 1,
+    respawnX: 0.5,
+    respawnY: 0.5,
+    respawnSpread: 20,
+    maskShape: 'circle',
+    maskSize: 0.8,
+    maskSides: 6,
+    maskText: 'HELLO',
+};
+
+export const BOUNDARY_MODES: Record<BoundaryMode, string> = {
+    bounce: 'Bounce',
+    wrap: 'Wrap Around',
+    respawn: 'Absorb and Respawn',
+    mask: 'Confine to Shape',
+};
+
+export const MASK_SHAPES: Record<MaskShape, string> = {
+    circle: 'Circle',
+    polygon: 'Polygon',
+    image: 'Image (alpha)',
+    text: 'Text',
+};
+
+/** Coverage of an image or text, row by row. Alpha of 128 or more is inside. */
+export interface MaskBitmap {
+    width: number;
+    height: number;
+    alpha: Uint8Array;
+}
+
+export type MaskTest = (x: number, y: number) => boolean;
+
+const ALPHA_THRESHOLD = 128;
+
+/** Even-odd point in polygon test. */
+const insidePolygon = (points: readonly [number, number][], x: number, y: number) => {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const [xi, yi] = points[i];
+        const [xj, yj] = points[j];
+        if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * Build the inside test for a mask centred in a width × height area. Circles
+ * and polygons stay regular whatever the aspect ratio; bitmaps are scaled to
+ * fit. Returns null for an image or text mask without a bitmap yet, which
+ * leaves particles unconfined.
+ */
+export const createMaskTest = (config: BoundaryConfig, bitmap: MaskBitmap | null, width: number, height: number): MaskTest | null => {
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = (config.maskSize * Math.min(width, height)) / 2;
+
+    switch (config.maskShape) {
+        case 'circle':
+            return (x, y) => (x - cx) ** 2 + (y - cy) ** 2 <= radius * radius;
+        case 'polygon': {
+            const sides = Math.max(3, Math.round(config.maskSides));
+            // First corner points straight up
+            const points = Array.from({ length: sides }, (_, i): [number, number] => {
+                const angle = -Math.PI / 2 + (i * 2 * Math.PI) / sides;
+                return [cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius];
+            });
+            return (x, y) => insidePolygon(points, x, y);
+        }
+        case 'image':
+        case 'text': {
+            if (!bitmap) return null;
+            const scale = Math.min((config.maskSize * width) / bitmap.width, (config.maskSize * height) / bitmap.height);
+            const left = cx - (bitmap.width * scale) / 2;
+            const top = cy - (bitmap.height * scale) / 2;
+            return (x, y) => {
+                const bx = Math.floor((x - left) / scale);
+                const by = Math.floor((y - top) / scale);
+                if (bx < 0 || by < 0 || bx >= bitmap.width || by >= bitmap.height) return false;
+                return bitmap.alpha[by * bitmap.width + bx] >= ALPHA_THRESHOLD;
+            };
+        }
+    }
+};
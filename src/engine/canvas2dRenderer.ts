@@ -0,0 +1,369 @@
+import {
+    getActivePostEffects,
+    getCoverRect,
+    getGradientLine,
+    type BackgroundConfig,
+    type BlendMode,
+    type PostEffect,
+} from './composition';
+import { getParticleAlpha, getParticleSize, type ParticleStore } from './particleStore';
+import type { Connection } from './particleSystem';
+import { createRandom } from './random';
+import {
+    forEachSegment,
+    getParticleColor,
+    interpolateX,
+    interpolateY,
+    type Renderer,
+    type RenderFrame,
+    type RenderStyle,
+} from './renderer';
+
+// Solid and dashed lines are grouped into this many opacity levels per stroke
+const OPACITY_BUCKETS = 16;
+
+// Size of the repeating film grain tile in canvas pixels
+const GRAIN_TILE_SIZE = 128;
+
+const COMPOSITE_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+    normal: 'source-over',
+    additive: 'lighter',
+    screen: 'screen',
+    multiply: 'multiply',
+};
+
+// On-screen canvases and OffscreenCanvas draw the same way
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface Layer {
+    canvas: OffscreenCanvas | HTMLCanvasElement;
+    ctx: Canvas2DContext;
+}
+
+// An OffscreenCanvas where there is one, so layers also work in a worker
+const createLayer = (width: number, height: number): Layer => {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        const canvas = new OffscreenCanvas(width, height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Could not create a 2D context');
+        return { canvas, ctx };
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a 2D context');
+    return { canvas, ctx };
+};
+
+/** Resize a layer to the canvas, which also clears it. Returns whether anything changed. */
+const fitLayer = ({ canvas }: Layer, width: number, height: number) => {
+    if (canvas.width === width && canvas.height === height) return false;
+    canvas.width = width;
+    canvas.height = height;
+    return true;
+};
+
+/**
+ * Draws into an offscreen scene canvas that keeps the trails, then copies it
+ * to the output and runs the post-processing chain there. Glow is a shadow
+ * drawn with every particle, so the bloom stage only switches it on and off;
+ * its position in the chain has no effect here.
+ */
+export class Canvas2DRenderer implements Renderer {
+    private readonly output: Canvas2DContext;
+    private readonly scene = createLayer(1, 1);
+    private readonly ctx = this.scene.ctx; // Particles and lines are drawn here
+    private scratch: Layer | null = null; // Chromatic aberration source
+    private channel: Layer | null = null; // One color channel at a time
+    private history: Layer | null = null; // Previous output of the feedback stage
+    private grainTile: OffscreenCanvas | HTMLCanvasElement | null = null;
+    private imageLayer: Layer | null = null; // The background image fitted to the canvas
+    private fittedImage: ImageBitmap | null = null; // In the image layer
+    // The scene is filled with the background at full opacity when it or the size changes
+    private background: BackgroundConfig | null = null;
+    private image: ImageBitmap | null = null; // Of the previous frame
+    private frameCount = 0;
+
+    constructor(output: Canvas2DContext) {
+        this.output = output;
+    }
+
+    render({ particles, connections, width, height, pixelRatio, alpha, style, composition, backgroundImage }: RenderFrame) {
+        const ctx = this.ctx;
+        const { width: canvasWidth, height: canvasHeight } = this.output.canvas;
+        this.frameCount++;
+
+        const resized = fitLayer(this.scene, canvasWidth, canvasHeight);
+        const fresh = resized || this.background !== composition.background || this.image !== backgroundImage;
+        // Draw in simulation pixels on a backing store that may be denser
+        ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+        // Fade the previous frame towards the background, which leaves trails
+        this.drawBackground(composition.background, backgroundImage, width, height, fresh ? 1 : 1 - style.trailLength);
+
+        const postEffects = getActivePostEffects(composition.postEffects, style.glow);
+        const sceneStyle = { ...style, glow: postEffects.some(effect => effect.kind === 'bloom') ? style.glow : 0 };
+
+        ctx.globalCompositeOperation = COMPOSITE_OPERATIONS[composition.particleBlend];
+        for (let i = 0; i < particles.count; i++) {
+            this.drawParticle(particles, i, sceneStyle, alpha, pixelRatio);
+        }
+
+        ctx.globalCompositeOperation = COMPOSITE_OPERATIONS[composition.lineBlend];
+        ctx.setLineDash(style.lineStyle === 'dashed' ? [5, 5] : []);
+        ctx.lineWidth = style.lineWidth;
+        if (style.lineStyle === 'gradient') {
+            // Every gradient line has its own stroke style, so they cannot be batched
+            for (const connection of connections) {
+                this.drawGradientLine(particles, connection, style, alpha);
+            }
+        } else {
+            this.drawLineBatches(particles, connections, alpha);
+        }
+        ctx.setLineDash([]);
+        ctx.globalCompositeOperation = 'source-over';
+
+        // Present the scene, then process the presented copy so the trails stay untouched
+        const output = this.output;
+        output.setTransform(1, 0, 0, 1, 0, 0);
+        output.globalCompositeOperation = 'copy';
+        output.drawImage(this.scene.canvas, 0, 0);
+        for (const effect of postEffects) {
+            this.drawPostEffect(effect, canvasWidth, canvasHeight, pixelRatio);
+            output.setTransform(1, 0, 0, 1, 0, 0);
+            output.globalCompositeOperation = 'source-over';
+            output.globalAlpha = 1;
+        }
+        output.globalCompositeOperation = 'source-over';
+    }
+
+    dispose() {
+        // Release the offscreen layers' memory; the output canvas belongs to the host
+        for (const layer of [this.scene, this.scratch, this.channel, this.history, this.imageLayer]) {
+            if (layer) fitLayer(layer, 0, 0);
+        }
+    }
+
+    /** Draw the background over the scene at the given opacity; a transparent background erases instead. */
+    private drawBackground(background: BackgroundConfig, image: ImageBitmap | null, width: number, height: number, opacity: number) {
+        const ctx = this.ctx;
+        this.background = background;
+        this.image = image;
+
+        if (background.kind === 'transparent') {
+            ctx.globalCompositeOperation = 'destination-out';
+            ctx.fillStyle = `rgba(0, 0, 0, ${opacity})`;
+            ctx.fillRect(0, 0, width, height);
+            ctx.globalCompositeOperation = 'source-over';
+            return;
+        }
+
+        ctx.globalAlpha = opacity;
+        if (background.kind === 'image' && image) {
+            // Drawn in canvas pixels from the prepared layer
+            ctx.save();
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.drawImage(this.getImageLayer(image).canvas, 0, 0);
+            ctx.restore();
+        } else if (background.kind === 'gradient') {
+            const { x0, y0, x1, y1 } = getGradientLine(background.gradientAngle, width, height);
+            const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+            gradient.addColorStop(0, background.color);
+            gradient.addColorStop(1, background.gradientEnd);
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, width, height);
+        } else {
+            ctx.fillStyle = background.color;
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.globalAlpha = 1;
+    }
+
+    /** The image cover-fitted over black at the scene size, so fading towards it is one draw. */
+    private getImageLayer(image: ImageBitmap) {
+        const { width, height } = this.scene.canvas;
+        const layer = (this.imageLayer ??= createLayer(width, height));
+        if (fitLayer(layer, width, height) || this.fittedImage !== image) {
+            const rect = getCoverRect(image.width, image.height, width, height);
+            layer.ctx.fillStyle = 'black';
+            layer.ctx.fillRect(0, 0, width, height);
+            layer.ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+            this.fittedImage = image;
+        }
+        return layer;
+    }
+
+    /** Apply one stage to the output canvas, working in canvas pixels. */
+    private drawPostEffect(effect: PostEffect, width: number, height: number, pixelRatio: number) {
+        const output = this.output;
+        switch (effect.kind) {
+            case 'chromaticAberration': {
+                // Red is scaled up and blue down about the center; the offset reaches the
+                // amount at the middle of the longer edges
+                const scale = Math.min(0.5, (effect.amount * pixelRatio) / (Math.max(width, height) / 2));
+                const scratch = (this.scratch ??= createLayer(width, height));
+                const channel = (this.channel ??= createLayer(width, height));
+                fitLayer(scratch, width, height);
+                fitLayer(channel, width, height);
+                scratch.ctx.globalCompositeOperation = 'copy';
+                scratch.ctx.drawImage(output.canvas, 0, 0);
+
+                output.clearRect(0, 0, width, height);
+                output.globalCompositeOperation = 'lighter';
+                for (const [color, factor] of [['#ff0000', 1 + scale], ['#00ff00', 1], ['#0000ff', 1 - scale]] as const) {
+                    // Keep one channel, then restore the original alpha the solid fill replaced
+                    channel.ctx.globalCompositeOperation = 'copy';
+                    channel.ctx.drawImage(scratch.canvas, 0, 0);
+                    channel.ctx.globalCompositeOperation = 'multiply';
+                    channel.ctx.fillStyle = color;
+                    channel.ctx.fillRect(0, 0, width, height);
+                    channel.ctx.globalCompositeOperation = 'destination-in';
+                    channel.ctx.drawImage(scratch.canvas, 0, 0);
+
+                    output.setTransform(factor, 0, 0, factor, (width / 2) * (1 - factor), (height / 2) * (1 - factor));
+                    output.drawImage(channel.canvas, 0, 0);
+                }
+                break;
+            }
+            case 'vignette': {
+                // In a unit square stretched over the canvas, like the WebGL2 vignette
+                output.setTransform(width, 0, 0, height, 0, 0);
+                const gradient = output.createRadialGradient(0.5, 0.5, 0.35 * Math.SQRT1_2, 0.5, 0.5, Math.SQRT1_2);
+                gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+                gradient.addColorStop(1, `rgba(0, 0, 0, ${effect.amount})`);
+                output.globalCompositeOperation = 'source-atop';
+                output.fillStyle = gradient;
+                output.fillRect(0, 0, 1, 1);
+                break;
+            }
+            case 'feedback': {
+                const history = (this.history ??= createLayer(width, height));
+                fitLayer(history, width, height);
+                // Keep the brighter of the image and the zoomed, rotated previous output
+                output.globalCompositeOperation = 'lighten';
+                output.globalAlpha = effect.amount;
+                output.translate(width / 2, height / 2);
+                output.rotate((effect.rotation * Math.PI) / 180);
+                output.scale(effect.zoom, effect.zoom);
+                output.translate(-width / 2, -height / 2);
+                output.drawImage(history.canvas, 0, 0);
+                history.ctx.globalCompositeOperation = 'copy';
+                history.ctx.drawImage(output.canvas, 0, 0);
+                break;
+            }
+            case 'grain': {
+                // Shift the tile every frame; counted per render, so offline renders get the same grain every time
+                const offsetX = (this.frameCount * 37) % GRAIN_TILE_SIZE;
+                const offsetY = (this.frameCount * 71) % GRAIN_TILE_SIZE;
+                const pattern = output.createPattern(this.getGrainTile(), 'repeat');
+                if (!pattern) break;
+                output.setTransform(1, 0, 0, 1, -offsetX, -offsetY);
+                output.globalCompositeOperation = 'source-atop';
+                output.globalAlpha = effect.amount;
+                output.fillStyle = pattern;
+                output.fillRect(0, 0, width + GRAIN_TILE_SIZE, height + GRAIN_TILE_SIZE);
+                break;
+            }
+        }
+    }
+
+    /** Black and white noise whose opacity is the distance from mid grey, the same every run. */
+    private getGrainTile() {
+        if (this.grainTile) return this.grainTile;
+        const { canvas, ctx } = createLayer(GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+        const random = createRandom(1);
+        const pixels = ctx.createImageData(GRAIN_TILE_SIZE, GRAIN_TILE_SIZE);
+        for (let i = 0; i < pixels.data.length; i += 4) {
+            const noise = random() - 0.5;
+            const value = noise > 0 ? 255 : 0;
+            pixels.data[i] = value;
+            pixels.data[i + 1] = value;
+            pixels.data[i + 2] = value;
+            pixels.data[i + 3] = Math.abs(noise) * 255;
+        }
+        ctx.putImageData(pixels, 0, 0);
+        return (this.grainTile = canvas);
+    }
+
+    private drawParticle(particles: ParticleStore, i: number, style: RenderStyle, alpha: number, pixelRatio: number) {
+        const ctx = this.ctx;
+        const color = getParticleColor(particles, i, style.hueShift);
+        ctx.fillStyle = color;
+        ctx.globalAlpha = getParticleAlpha(particles, i);
+
+        if (style.glow > 0) {
+            ctx.shadowColor = color;
+            // Shadows ignore the transform, so scale the blur by hand
+            ctx.shadowBlur = style.glow * 20 * pixelRatio;
+        }
+
+        const size = getParticleSize(particles, i);
+        const x = interpolateX(particles, i, alpha);
+        const y = interpolateY(particles, i, alpha);
+        ctx.beginPath();
+        switch (style.particleShape) {
+            case 'square':
+                ctx.rect(x - size, y - size, size * 2, size * 2);
+                break;
+            case 'triangle':
+                ctx.moveTo(x, y - size);
+                ctx.lineTo(x + size, y + size);
+                ctx.lineTo(x - size, y + size);
+                break;
+            case 'circle':
+            default:
+                ctx.arc(x, y, size, 0, Math.PI * 2);
+        }
+        ctx.fill();
+
+        // Reset shadow and opacity after drawing
+        if (style.glow > 0) {
+            ctx.shadowBlur = 0;
+        }
+        ctx.globalAlpha = 1;
+    }
+
+    /** Stroke all lines of similar opacity as one path. */
+    private drawLineBatches(particles: ParticleStore, connections: readonly Connection[], alpha: number) {
+        const ctx = this.ctx;
+        const buckets: Connection[][] = Array.from({ length: OPACITY_BUCKETS }, () => []);
+        let maxOpacity = 0;
+        for (const connection of connections) maxOpacity = Math.max(maxOpacity, connection.opacity);
+        if (maxOpacity <= 0) return;
+
+        for (const connection of connections) {
+            const bucket = Math.min(OPACITY_BUCKETS - 1, Math.floor((connection.opacity / maxOpacity) * OPACITY_BUCKETS));
+            buckets[bucket].push(connection);
+        }
+
+        buckets.forEach((bucket, index) => {
+            if (!bucket.length) return;
+            // Use the bucket's midpoint opacity
+            ctx.strokeStyle = `rgba(255, 255, 255, ${((index + 0.5) / OPACITY_BUCKETS) * maxOpacity})`;
+            ctx.beginPath();
+            for (const connection of bucket) {
+                forEachSegment(particles, connection, alpha, (ax, ay, bx, by) => {
+                    ctx.moveTo(ax, ay);
+                    ctx.lineTo(bx, by);
+                });
+            }
+            ctx.stroke();
+        });
+    }
+
+    private drawGradientLine(particles: ParticleStore, connection: Connection, style: RenderStyle, alpha: number) {
+        const ctx = this.ctx;
+        forEachSegment(particles, connection, alpha, (ax, ay, bx, by) => {
+            const gradient = ctx.createLinearGradient(ax, ay, bx, by);
+            gradient.addColorStop(0, getParticleColor(particles, connection.a, style.hueShift));
+            gradient.addColorStop(1, getParticleColor(particles, connection.b, style.hueShift));
+            ctx.strokeStyle = gradient;
+
+            ctx.beginPath();
+            ctx.moveTo(ax, ay);
+            ctx.lineTo(bx, by);
+            ctx.stroke();
+        });
+    }
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { hexToHsl, hexToRgb, hslToRgb, isHexColor, mixRgb, rgbToHex, rgbToHsl } from './color';
+
+describe('color conversion', () => {
+    it('parses and formats hex colors', () => {
+        expect(hexToRgb('#12abef')).toEqual({ r: 0x12, g: 0xab, b: 0xef });
+        expect(hexToRgb('#FFFFFF')).toEqual({ r: 255, g: 255, b: 255 });
+        expect(rgbToHex({ r: 18, g: 171, b: 239 })).toBe('#12abef');
+        // Rounded and clamped
+        expect(rgbToHex({ r: 300, g: -4, b: 127.6 })).toBe('#ff0080');
+    });
+
+    it('recognizes #rrggbb colors only', () => {
+        expect(isHexColor('#a0B1c2')).toBe(true);
+        expect(isHexColor('a0b1c2')).toBe(false);
+        expect(isHexColor('#abc')).toBe(false);
+        expect(isHexColor('#gggggg')).toBe(false);
+    });
+
+    it('converts to HSL', () => {
+        expect(hexToHsl('#ff0000')).toEqual({ h: 0, s: 100, l: 50 });
+        expect(hexToHsl('#00ff00')).toEqual({ h: 120, s: 100, l: 50 });
+        expect(hexToHsl('#0000ff')).toEqual({ h: 240, s: 100, l: 50 });
+        expect(hexToHsl('#ffffff')).toEqual({ h: 0, s: 0, l: 100 });
+        expect(hexToHsl('#000000')).toEqual({ h: 0, s: 0, l: 0 });
+    });
+
+    it('round-trips through HSL', () => {
+        for (const hex of ['#12abef', '#ff8800', '#808080', '#2d0b59', '#fde725']) {
+            expect(rgbToHex(hslToRgb(rgbToHsl(hexToRgb(hex))))).toBe(hex);
+        }
+    });
+
+    it('mixes colors channel by channel', () => {
+        const black = { r: 0, g: 0, b: 0 };
+        const white = { r: 255, g: 255, b: 255 };
+        expect(mixRgb(black, white, 0)).toEqual(black);
+        expect(mixRgb(black, white, 1)).toEqual(white);
+        expect(mixRgb({ r: 255, g: 0, b: 0 }, { r: 0, g: 0, b: 255 }, 0.5)).toEqual({ r: 127.5, g: 0, b: 127.5 });
+    });
+});
@@ -0,0 +1,70 @@
+export interface Rgb {
+    r: number; // 0-255
+    g: number;
+    b: number;
+}
+
+export interface Hsl {
+    h: number; // 0-360
+    s: number; // 0-100
+    l: number; // 0-100
+}
+
+export const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+/** Parse a #rrggbb color. */
+export const hexToRgb = (hex: string): Rgb => ({
+    r: parseInt(hex.slice(1, 3), 16),
+    g: parseInt(hex.slice(3, 5), 16),
+    b: parseInt(hex.slice(5, 7), 16),
+});
+
+export const rgbToHex = ({ r, g, b }: Rgb) =>
+    `#${[r, g, b].map(channel => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0')).join('')}`;
+
+export const rgbToHsl = ({ r, g, b }: Rgb): Hsl => {
+    r /= 255;
+    g /= 255;
+    b /= 255;
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+
+    let h = 0;
+    let s = 0;
+
+    if (max !== min) {
+        const d = max - min;
+        s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+
+        switch (max) {
+            case r: h = (g - b) / d + (g < b ? 6 : 0); break;
+            case g: h = (b - r) / d + 2; break;
+            case b: h = (r - g) / d + 4; break;
+        }
+        h *= 60;
+    }
+
+    return { h, s: s * 100, l: l * 100 };
+};
+
+export const hslToRgb = ({ h, s, l }: Hsl): Rgb => {
+    s /= 100;
+    l /= 100;
+    const chroma = s * Math.min(l, 1 - l);
+    const channel = (n: number) => {
+        const k = (n + h / 30) % 12;
+        return 255 * (l - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+    };
+    return { r: channel(0), g: channel(8), b: channel(4) };
+};
+
+export const hexToHsl = (hex: string) => rgbToHsl(hexToRgb(hex));
+
+/** Blend two colors channel by channel, t = 0 gives a. */
+export const mixRgb = (a: Rgb, b: Rgb, t: number): Rgb => ({
+    r: a.r + (b.r - a.r) * t,
+    g: a.g + (b.g - a.g) * t,
+    b: a.b + (b.b - a.b) * t,
+});
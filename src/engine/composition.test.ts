@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COMPOSITION, getActivePostEffects, getCoverRect, getGradientLine, movePostEffect, type PostEffect } from './composition';
+
+const effect = (kind: PostEffect['kind'], enabled = true, amount = 0.5): PostEffect => ({ kind, enabled, amount, zoom: 1, rotation: 0 });
+
+describe('post effect chain', () => {
+    it('keeps only enabled stages with an effect, in order', () => {
+        const chain = [effect('grain'), effect('vignette', false), effect('bloom'), effect('chromaticAberration', true, 0)];
+        expect(getActivePostEffects(chain, 1).map(stage => stage.kind)).toEqual(['grain', 'bloom']);
+    });
+
+    it('skips bloom without glow', () => {
+        expect(getActivePostEffects([effect('bloom')], 0)).toEqual([]);
+    });
+
+    it('runs only bloom by default, like the renderers before the chain existed', () => {
+        expect(getActivePostEffects(DEFAULT_COMPOSITION.postEffects, 1).map(stage => stage.kind)).toEqual(['bloom']);
+    });
+
+    it('moves a stage past its neighbour without touching the original', () => {
+        const chain = [effect('bloom'), effect('grain'), effect('vignette')];
+        expect(movePostEffect(chain, 1, -1).map(stage => stage.kind)).toEqual(['grain', 'bloom', 'vignette']);
+        expect(movePostEffect(chain, 1, 1).map(stage => stage.kind)).toEqual(['bloom', 'vignette', 'grain']);
+        expect(chain.map(stage => stage.kind)).toEqual(['bloom', 'grain', 'vignette']);
+    });
+
+    it('ignores moves past either end', () => {
+        const chain = [effect('bloom'), effect('grain')];
+        expect(movePostEffect(chain, 0, -1)).toEqual(chain);
+        expect(movePostEffect(chain, 1, 1)).toEqual(chain);
+    });
+});
+
+describe('background geometry', () => {
+    it('runs a 0° gradient from the left edge to the right', () => {
+        const line = getGradientLine(0, 200, 100);
+        expect(line.x0).toBeCloseTo(0);
+        expect(line.y0).toBeCloseTo(50);
+        expect(line.x1).toBeCloseTo(200);
+        expect(line.y1).toBeCloseTo(50);
+    });
+
+    it('runs a 90° gradient from top to bottom', () => {
+        const line = getGradientLine(90, 200, 100);
+        expect(line.x0).toBeCloseTo(100);
+        expect(line.y0).toBeCloseTo(0);
+        expect(line.y1).toBeCloseTo(100);
+    });
+
+    it('reaches both corners with a diagonal gradient', () => {
+        const line = getGradientLine(45, 100, 100);
+        // The corners project onto the ends of the line
+        expect((line.x0 + line.y0) / 2).toBeCloseTo(0);
+        expect((line.x1 + line.y1) / 2).toBeCloseTo(100);
+    });
+
+    it('covers the area and crops the overflow evenly', () => {
+        // A square image on a wide canvas is scaled to the width
+        expect(getCoverRect(100, 100, 400, 200)).toEqual({ x: 0, y: -100, width: 400, height: 400 });
+        // A wide image on a tall canvas is scaled to the height
+        expect(getCoverRect(200, 100, 100, 200)).toEqual({ x: -150, y: 0, width: 400, height: 200 });
+    });
+});
@@ -0,0 +1,136 @@
+import type { ParamRange } from '../config/ranges';
+
+export type BlendMode = 'normal' | 'additive' | 'screen' | 'multiply';
+
+export const BLEND_MODES: Record<BlendMode, string> = {
+    normal: 'Normal',
+    additive: 'Additive',
+    screen: 'Screen',
+    multiply: 'Multiply',
+};
+
+export type BackgroundKind = 'solid' | 'gradient' | 'image' | 'transparent';
+
+export const BACKGROUND_KINDS: Record<BackgroundKind, string> = {
+    solid: 'Solid Color',
+    gradient: 'Gradient',
+    image: 'Image',
+    transparent: 'Transparent',
+};
+
+/** What trails fade towards. Images come separately, as a decoded bitmap. */
+export interface BackgroundConfig {
+    kind: BackgroundKind;
+    color: string; // #rrggbb, the solid color and the start of the gradient
+    gradientEnd: string;
+    gradientAngle: number; // Degrees clockwise from running left to right
+}
+
+export type PostEffectKind = 'bloom' | 'chromaticAberration' | 'vignette' | 'feedback' | 'grain';
+
+export type PostEffectParam = 'amount' | 'zoom' | 'rotation';
+
+// Order of the parameter sliders in the panel
+export const POST_EFFECT_PARAMS: PostEffectParam[] = ['amount', 'zoom', 'rotation'];
+
+/**
+ * One stage of the post-processing chain. Fields a kind does not use are
+ * kept, like forces do, so every stage has the same shape.
+ */
+export interface PostEffect {
+    kind: PostEffectKind;
+    enabled: boolean;
+    amount: number; // See POST_EFFECT_KINDS for the unit of each kind
+    zoom: number; // Feedback scale per frame, 1 keeps the size
+    rotation: number; // Feedback degrees per frame, clockwise
+}
+
+export interface PostEffectKindInfo {
+    label: string;
+    params: Partial<Record<PostEffectParam, ParamRange>>;
+}
+
+export const POST_EFFECT_KINDS: Record<PostEffectKind, PostEffectKindInfo> = {
+    // Strength comes from the glow settings, so beat boosts and modulation keep working
+    bloom: { label: 'Bloom (Glow Intensity)', params: {} },
+    chromaticAberration: {
+        label: 'Chromatic Aberration',
+        params: { amount: { label: 'Offset (px)', min: 0, max: 20, step: 0.5 } },
+    },
+    vignette: {
+        label: 'Vignette',
+        params: { amount: { label: 'Darkness', min: 0, max: 1, step: 0.05 } },
+    },
+    feedback: {
+        label: 'Feedback Trails',
+        params: {
+            amount: { label: 'Persistence', min: 0, max: 0.98, step: 0.01 },
+            zoom: { label: 'Zoom per Frame', min: 0.95, max: 1.05, step: 0.001 },
+            rotation: { label: 'Rotation per Frame (°)', min: -5, max: 5, step: 0.1 },
+        },
+    },
+    grain: {
+        label: 'Film Grain',
+        params: { amount: { label: 'Strength', min: 0, max: 0.5, step: 0.01 } },
+    },
+};
+
+export interface Composition {
+    particleBlend: BlendMode;
+    lineBlend: BlendMode;
+    background: BackgroundConfig;
+    postEffects: PostEffect[]; // Applied in order to the finished scene
+}
+
+const postEffect = (kind: PostEffectKind, enabled: boolean, amount: number): PostEffect =>
+    ({ kind, enabled, amount, zoom: 1.01, rotation: 0.5 });
+
+// The default look matches the renderers from before blend modes and backgrounds existed
+export const DEFAULT_COMPOSITION: Composition = {
+    particleBlend: 'normal',
+    lineBlend: 'normal',
+    background: { kind: 'solid', color: '#000000', gradientEnd: '#1a1040', gradientAngle: 90 },
+    postEffects: [
+        postEffect('feedback', false, 0.85),
+        postEffect('bloom', true, 1),
+        postEffect('chromaticAberration', false, 4),
+        postEffect('vignette', false, 0.5),
+        postEffect('grain', false, 0.1),
+    ],
+};
+
+/** The enabled stages worth running; bloom needs some glow. */
+export const getActivePostEffects = (postEffects: readonly PostEffect[], glow: number) =>
+    postEffects.filter(effect => effect.enabled && (effect.kind !== 'bloom' || glow > 0) && (effect.kind === 'bloom' || effect.amount > 0));
+
+/** Swap a stage with its neighbour, by -1 (earlier) or 1 (later). Out-of-range moves change nothing. */
+export const movePostEffect = (postEffects: readonly PostEffect[], index: number, by: -1 | 1) => {
+    const target = index + by;
+    if (target < 0 || target >= postEffects.length) return [...postEffects];
+    const moved = [...postEffects];
+    [moved[index], moved[target]] = [moved[target], moved[index]];
+    return moved;
+};
+
+/** Gradient end points for an angle, across a width × height area through its centre. */
+export const getGradientLine = (angle: number, width: number, height: number) => {
+    const radians = (angle * Math.PI) / 180;
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+    // Half the length of the area's projection on the gradient direction, so both corners are covered
+    const half = (Math.abs(dx) * width + Math.abs(dy) * height) / 2;
+    return {
+        x0: width / 2 - dx * half,
+        y0: height / 2 - dy * half,
+        x1: width / 2 + dx * half,
+        y1: height / 2 + dy * half,
+    };
+};
+
+/** Scale and offset that make an image cover a width × height area, cropping the overflow. */
+export const getCoverRect = (imageWidth: number, imageHeight: number, width: number, height: number) => {
+    const scale = Math.max(width / imageWidth, height / imageHeight);
+    const drawWidth = imageWidth * scale;
+    const drawHeight = imageHeight * scale;
+    return { x: (width - drawWidth) / 2, y: (height - drawHeight) / 2, width: drawWidth, height: drawHeight };
+};
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRenderer } from './createRenderer';
+
+// A canvas that hands out the given contexts and records what was asked for
+const createFakeCanvas = (contexts: Record<string, () => object | null>) => {
+    const requested: string[] = [];
+    const canvas = {
+        getContext: (type: string) => {
+            requested.push(type);
+            return contexts[type]?.() ?? null;
+        },
+    };
+    return { canvas: canvas as unknown as HTMLCanvasElement, requested };
+};
+
+// Canvas2D draws its scene into a layer of its own
+class FakeOffscreenCanvas {
+    width: number;
+    height: number;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+    }
+
+    getContext() {
+        return {};
+    }
+}
+
+describe('createRenderer', () => {
+    beforeEach(() => {
+        // The support probe sees a browser with WebGL2
+        vi.stubGlobal('document', { createElement: () => createFakeCanvas({ webgl2: () => ({}) }).canvas });
+        vi.stubGlobal('OffscreenCanvas', FakeOffscreenCanvas);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('uses Canvas2D when asked to, without touching WebGL2', () => {
+        const { canvas, requested } = createFakeCanvas({ '2d': () => ({}) });
+
+        expect(createRenderer(canvas, 'canvas2d')).toMatchObject({ kind: 'canvas2d', error: null });
+        expect(requested).toEqual(['2d']);
+    });
+
+    it('falls back to Canvas2D when the canvas has no WebGL2 context', () => {
+        const { canvas, requested } = createFakeCanvas({ '2d': () => ({}) });
+
+        expect(createRenderer(canvas, 'auto').kind).toBe('canvas2d');
+        expect(requested).toEqual(['webgl2', '2d']);
+    });
+
+    it('falls back to Canvas2D and says why when WebGL2 cannot be set up', () => {
+        // A context without any of the WebGL2 calls fails while compiling the shaders
+        const { canvas } = createFakeCanvas({ webgl2: () => ({}), '2d': () => ({}) });
+        const created = createRenderer(canvas, 'webgl2');
+
+        expect(created.kind).toBe('canvas2d');
+        expect(created.error).toMatch(/^WebGL2 could not be set up, using Canvas2D instead/);
+    });
+
+    it('returns no renderer when the canvas has no usable context', () => {
+        expect(createRenderer(createFakeCanvas({}).canvas, 'auto')).toEqual({ renderer: null, kind: null, error: null });
+    });
+
+    it('keeps the WebGL2 error when the bound canvas has no Canvas2D context left', () => {
+        const { canvas } = createFakeCanvas({ webgl2: () => ({}) });
+        const created = createRenderer(canvas, 'webgl2');
+
+        expect(created.renderer).toBeNull();
+        expect(created.error).toMatch(/^WebGL2 could not be set up, using Canvas2D instead/);
+    });
+});
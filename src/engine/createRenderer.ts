@@ -0,0 +1,64 @@
+import { Canvas2DRenderer, type Canvas2DContext } from './canvas2dRenderer';
+import type { Renderer } from './renderer';
+import { WebGL2Renderer } from './webgl2Renderer';
+
+export const RENDERER_KINDS = ['webgl2', 'canvas2d'] as const;
+
+export type RendererKind = typeof RENDERER_KINDS[number];
+
+// 'auto' picks WebGL2 when the browser supports it
+export type RendererPreference = 'auto' | RendererKind;
+
+export const RENDERER_LABELS: Record<RendererPreference, string> = {
+    auto: 'Auto',
+    webgl2: 'WebGL2',
+    canvas2d: 'Canvas2D',
+};
+
+let webgl2Support: boolean | null = null;
+
+/**
+ * Probe a throwaway canvas, since a canvas that handed out a WebGL context can
+ * never return a 2D one.
+ */
+export const isWebGL2Supported = () => {
+    if (webgl2Support === null) {
+        try {
+            const probe = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : document.createElement('canvas');
+            webgl2Support = probe.getContext('webgl2') !== null;
+        } catch {
+            webgl2Support = false;
+        }
+    }
+    return webgl2Support;
+};
+
+// The error says why WebGL2 was asked for but could not be set up
+export type CreatedRenderer =
+    | { renderer: Renderer; kind: RendererKind; error: string | null }
+    | { renderer: null; kind: null; error: string | null };
+
+/**
+ * Create the preferred renderer for a canvas, falling back to Canvas2D when
+ * WebGL2 is unavailable. Without a renderer the canvas has no usable context,
+ * e.g. when WebGL2 setup failed after the canvas was already bound to it.
+ */
+export const createRenderer = (
+    canvas: HTMLCanvasElement | OffscreenCanvas,
+    preference: RendererPreference
+): CreatedRenderer => {
+    let error: string | null = null;
+    if (preference !== 'canvas2d' && isWebGL2Supported()) {
+        try {
+            // getContext overloads do not resolve on the canvas union, the context types are the same for both.
+            // Alpha lets a transparent background show the page behind the canvas.
+            const gl = canvas.getContext('webgl2', { alpha: true, antialias: false }) as WebGL2RenderingContext | null;
+            if (gl) return { renderer: new WebGL2Renderer(gl), kind: 'webgl2', error: null };
+        } catch (cause) {
+            error = `WebGL2 could not be set up, using Canvas2D instead${cause instanceof Error ? ` (${cause.message})` : ''}.`;
+        }
+    }
+
+    const ctx = canvas.getContext('2d') as Canvas2DContext | null;
+    return ctx ? { renderer: new Canvas2DRenderer(ctx), kind: 'canvas2d', error } : { renderer: null, kind: null, error };
+};
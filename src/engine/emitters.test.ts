@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { applyLifeCurve, createEmitter, LIFE_CURVES, sampleEmission, type LifeCurve } from './emitters';
+import { createRandom } from './random';
+
+const WIDTH = 400;
+const HEIGHT = 300;
+
+const sample = (emitter: ReturnType<typeof createEmitter>, count = 50) => {
+    const random = createRandom(1);
+    return Array.from({ length: count }, () => sampleEmission(emitter, WIDTH, HEIGHT, random));
+};
+
+describe('sampleEmission', () => {
+    it('emits from a point within the velocity cone', () => {
+        const emitter = createEmitter('point', { x: 0.25, y: 0.5, direction: 270, spread: 60, speed: 200 });
+        for (const { x, y, vx, vy } of sample(emitter)) {
+            expect(x).toBe(100);
+            expect(y).toBe(150);
+            // Up the screen, at most 30° either side
+            const angle = (Math.atan2(vy, vx) * 180) / Math.PI;
+            expect(angle).toBeGreaterThanOrEqual(-120);
+            expect(angle).toBeLessThanOrEqual(-60);
+            expect(Math.hypot(vx, vy)).toBeGreaterThanOrEqual(150);
+            expect(Math.hypot(vx, vy)).toBeLessThanOrEqual(250);
+        }
+    });
+
+    it('spreads line emissions along the line', () => {
+        const emitter = createEmitter('line', { angle: 90, length: 100 });
+        for (const { x, y } of sample(emitter)) {
+            expect(x).toBeCloseTo(200);
+            expect(Math.abs(y - 150)).toBeLessThanOrEqual(50);
+        }
+    });
+
+    it('emits outwards from a ring', () => {
+        const emitter = createEmitter('ring', { radius: 80, spread: 0 });
+        for (const { x, y, vx, vy } of sample(emitter)) {
+            const dx = x - 200;
+            const dy = y - 150;
+            expect(Math.hypot(dx, dy)).toBeCloseTo(80);
+            // Velocity parallel to the radius and pointing away from the centre
+            expect(dx * vy - dy * vx).toBeCloseTo(0);
+            expect(dx * vx + dy * vy).toBeGreaterThan(0);
+        }
+    });
+
+    it('emits into the screen from an edge', () => {
+        const emitter = createEmitter('edge', { edge: 'top', spread: 90 });
+        for (const { x, y, vy } of sample(emitter)) {
+            expect(y).toBe(0);
+            expect(x).toBeGreaterThanOrEqual(0);
+            expect(x).toBeLessThanOrEqual(WIDTH);
+            expect(vy).toBeGreaterThan(0);
+        }
+    });
+
+    it('varies lifetimes around the configured one', () => {
+        const lifetimes = sample(createEmitter('point', { lifetime: 2 })).map(emission => emission.lifetime);
+        expect(Math.min(...lifetimes)).toBeGreaterThanOrEqual(1.6);
+        expect(Math.max(...lifetimes)).toBeLessThanOrEqual(2.4);
+        expect(new Set(lifetimes).size).toBeGreaterThan(1);
+    });
+});
+
+describe('applyLifeCurve', () => {
+    it('runs every curve from 0 to 1', () => {
+        for (const curve of Object.keys(LIFE_CURVES) as LifeCurve[]) {
+            expect(applyLifeCurve(0, curve)).toBe(0);
+            expect(applyLifeCurve(1, curve)).toBe(1);
+        }
+        expect(applyLifeCurve(0.5, 'easeIn')).toBeLessThan(0.5);
+        expect(applyLifeCurve(0.5, 'easeOut')).toBeGreaterThan(0.5);
+    });
+});
@@ -0,0 +1,195 @@
+import type { ParamRange } from '../config/ranges';
+import type { Random } from './random';
+
+export type EmitterKind = 'point' | 'line' | 'ring' | 'edge';
+
+export type EmitterEdge = 'top' | 'bottom' | 'left' | 'right';
+
+export type LifeCurve = 'linear' | 'easeIn' | 'easeOut' | 'smooth';
+
+/** How an emitted particle changes between its birth (0) and death (1). */
+export interface OverLife {
+    sizeStart: number; // Multiples of the particle size
+    sizeEnd: number;
+    opacityStart: number; // 0-1
+    opacityEnd: number;
+    hueShift: number; // Degrees added by the end of the lifetime
+    curve: LifeCurve;
+}
+
+/**
+ * Spawns particles at a steady rate. Fields a kind does not use are kept so
+ * switching kinds in the panel does not lose them.
+ */
+export interface Emitter extends OverLife {
+    id: string;
+    kind: EmitterKind;
+    enabled: boolean;
+    x: number; // 0-1 across the width, centre of point, line and ring emitters
+    y: number; // 0-1 down the height
+    length: number; // Pixels, for lines
+    angle: number; // Degrees clockwise from horizontal, for lines
+    radius: number; // Pixels, for rings
+    edge: EmitterEdge;
+    rate: number; // Particles per second
+    direction: number; // Degrees clockwise from pointing right; rings and edges emit along their normal
+    spread: number; // Degrees, width of the velocity cone
+    speed: number; // Pixels per second
+    lifetime: number; // Seconds
+}
+
+export type EmitterParam = 'length' | 'angle' | 'radius' | 'rate' | 'direction' | 'spread' | 'speed' | 'lifetime'
+    | 'sizeStart' | 'sizeEnd' | 'opacityStart' | 'opacityEnd' | 'hueShift';
+
+export interface EmitterKindInfo {
+    label: string;
+    positioned: boolean; // Has a position that can be placed on the canvas
+    params: EmitterParam[]; // Parameters shown in addition to the common ones
+}
+
+export const EMITTER_KINDS: Record<EmitterKind, EmitterKindInfo> = {
+    point: { label: 'Point', positioned: true, params: ['direction'] },
+    line: { label: 'Line', positioned: true, params: ['length', 'angle', 'direction'] },
+    ring: { label: 'Ring', positioned: true, params: ['radius'] },
+    edge: { label: 'Screen Edge', positioned: false, params: [] },
+};
+
+// Shown for every kind, after the kind's own parameters
+export const COMMON_EMITTER_PARAMS: EmitterParam[] = [
+    'rate', 'spread', 'speed', 'lifetime', 'sizeStart', 'sizeEnd', 'opacityStart', 'opacityEnd', 'hueShift',
+];
+
+export const EMITTER_PARAM_RANGES: Record<EmitterParam, ParamRange> = {
+    length: { label: 'Length', min: 10, max: 2000, step: 10 },
+    angle: { label: 'Angle (°)', min: 0, max: 180, step: 5 },
+    radius: { label: 'Radius', min: 10, max: 800, step: 10 },
+    rate: { label: 'Rate (per second)', min: 1, max: 2000, step: 1 },
+    direction: { label: 'Direction (°)', min: 0, max: 360, step: 5 },
+    spread: { label: 'Spread (°)', min: 0, max: 360, step: 5 },
+    speed: { label: 'Speed', min: 0, max: 1500, step: 10 },
+    lifetime: { label: 'Lifetime (s)', min: 0.1, max: 20, step: 0.1 },
+    sizeStart: { label: 'Size at Birth', min: 0, max: 4, step: 0.1 },
+    sizeEnd: { label: 'Size at Death', min: 0, max: 4, step: 0.1 },
+    opacityStart: { label: 'Opacity at Birth', min: 0, max: 1, step: 0.05 },
+    opacityEnd: { label: 'Opacity at Death', min: 0, max: 1, step: 0.05 },
+    hueShift: { label: 'Hue Shift over Life (°)', min: -360, max: 360, step: 5 },
+};
+
+// Emitters stop while this many particles, persistent ones included, are alive
+export const PARTICLE_CAP_RANGE: ParamRange = { label: 'Particle Cap', min: 100, max: 20000, step: 100 };
+export const DEFAULT_PARTICLE_CAP = 5000;
+
+export const EMITTER_EDGES: Record<EmitterEdge, string> = {
+    top: 'Top',
+    bottom: 'Bottom',
+    left: 'Left',
+    right: 'Right',
+};
+
+export const LIFE_CURVES: Record<LifeCurve, string> = {
+    linear: 'Linear',
+    easeIn: 'Ease In',
+    easeOut: 'Ease Out',
+    smooth: 'Smooth',
+};
+
+// Emitted speeds and lifetimes vary by up to this fraction either way
+const SPEED_VARIATION = 0.25;
+const LIFETIME_VARIATION = 0.2;
+
+let nextEmitterId = 0;
+
+export const createEmitter = (kind: EmitterKind, changes: Partial<Emitter> = {}): Emitter => ({
+    id: `emitter-${Date.now().toString(36)}-${nextEmitterId++}`,
+    kind,
+    enabled: true,
+    x: 0.5,
+    y: 0.5,
+    length: 400,
+    angle: 0,
+    radius: 150,
+    edge: 'bottom',
+    rate: 60,
+    direction: 270,
+    spread: 30,
+    speed: 250,
+    lifetime: 2,
+    sizeStart: 1,
+    sizeEnd: 0.5,
+    opacityStart: 1,
+    opacityEnd: 0,
+    hueShift: 0,
+    curve: 'linear',
+    ...changes,
+});
+
+/** Shape 0-1 progress through a lifetime. */
+export const applyLifeCurve = (t: number, curve: LifeCurve) => {
+    switch (curve) {
+        case 'easeIn':
+            return t * t;
+        case 'easeOut':
+            return 1 - (1 - t) * (1 - t);
+        case 'smooth':
+            return t * t * (3 - 2 * t);
+        case 'linear':
+        default:
+            return t;
+    }
+};
+
+export interface Emission {
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    lifetime: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Pick where and how the next particle leaves an emitter in a width × height area. */
+export const sampleEmission = (emitter: Emitter, width: number, height: number, random: Random): Emission => {
+    const cx = emitter.x * width;
+    const cy = emitter.y * height;
+    let x = cx;
+    let y = cy;
+    let heading = toRadians(emitter.direction);
+
+    switch (emitter.kind) {
+        case 'line': {
+            const along = (random() - 0.5) * emitter.length;
+            x += Math.cos(toRadians(emitter.angle)) * along;
+            y += Math.sin(toRadians(emitter.angle)) * along;
+            break;
+        }
+        case 'ring': {
+            const theta = random() * Math.PI * 2;
+            x += Math.cos(theta) * emitter.radius;
+            y += Math.sin(theta) * emitter.radius;
+            heading = theta; // Outwards
+            break;
+        }
+        case 'edge': {
+            const along = random();
+            // Each edge emits into the screen
+            [x, y, heading] = {
+                top: [along * width, 0, Math.PI / 2],
+                bottom: [along * width, height, -Math.PI / 2],
+                left: [0, along * height, 0],
+                right: [width, along * height, Math.PI],
+            }[emitter.edge];
+            break;
+        }
+    }
+
+    const angle = heading + (random() - 0.5) * toRadians(emitter.spread);
+    const speed = emitter.speed * (1 + (random() * 2 - 1) * SPEED_VARIATION);
+    return {
+        x,
+        y,
+        vx: Math.cos(angle) * speed,
+        vy: Math.sin(angle) * speed,
+        lifetime: emitter.lifetime * (1 + (random() * 2 - 1) * LIFETIME_VARIATION),
+    };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { FixedTimestep } from './fixedTimestep';
+
+const countSteps = (clock: FixedTimestep, frames: number[]) => {
+    let steps = 0;
+    let alpha = 0;
+    for (const frame of frames) {
+        alpha = clock.advance(frame, () => steps++);
+    }
+    return { steps, alpha };
+};
+
+describe('FixedTimestep', () => {
+    it('runs the same number of steps at 60 Hz and 120 Hz', () => {
+        const at60 = countSteps(new FixedTimestep(1 / 60), Array(60).fill(1 / 60));
+        const at120 = countSteps(new FixedTimestep(1 / 60), Array(120).fill(1 / 120));
+        expect(at60.steps).toBeCloseTo(60, -1);
+        expect(Math.abs(at60.steps - at120.steps)).toBeLessThanOrEqual(1);
+    });
+
+    it('catches up after dropped frames', () => {
+        const { steps } = countSteps(new FixedTimestep(1 / 60), [0.05]);
+        expect(steps).toBe(3);
+    });
+
+    it('returns the leftover fraction for interpolation', () => {
+        const { steps, alpha } = countSteps(new FixedTimestep(0.01), [0.025]);
+        expect(steps).toBe(2);
+        expect(alpha).toBeCloseTo(0.5);
+    });
+
+    it('caps very long frames', () => {
+        const { steps } = countSteps(new FixedTimestep(1 / 60, 0.25), [10]);
+        expect(steps).toBe(15);
+    });
+
+    it('scales time for slow motion', () => {
+        const clock = new FixedTimestep(0.01);
+        clock.timeScale = 0.5;
+        expect(countSteps(clock, Array(10).fill(0.01)).steps).toBe(5);
+    });
+
+    it('does not step while paused but can single-step', () => {
+        const clock = new FixedTimestep(0.01);
+        clock.paused = true;
+        expect(countSteps(clock, [0.1]).steps).toBe(0);
+
+        let steps = 0;
+        clock.stepOnce(() => steps++);
+        expect(steps).toBe(1);
+    });
+});
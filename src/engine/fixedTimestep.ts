@@ -0,0 +1,42 @@
+/**
+ * Fixed-timestep accumulator. Real frame time (scaled for slow motion) is
+ * banked and spent in whole simulation steps, so physics behaves the same at
+ * any display refresh rate. advance() returns how far the simulation is
+ * between its last two steps, for interpolated rendering.
+ */
+export class FixedTimestep {
+    readonly stepSize: number;
+    timeScale = 1;
+    paused = false;
+
+    private accumulator = 0;
+
+    // Longest frame time accepted, so a stalled tab does not trigger a burst of catch-up steps
+    private readonly maxFrameTime: number;
+
+    constructor(stepSize = 1 / 60, maxFrameTime = 0.25) {
+        this.stepSize = stepSize;
+        this.maxFrameTime = maxFrameTime;
+    }
+
+    advance(frameTime: number, step: (dt: number) => void): number {
+        if (!this.paused) {
+            this.accumulator += Math.min(Math.max(0, frameTime), this.maxFrameTime) * this.timeScale;
+            while (this.accumulator >= this.stepSize) {
+                step(this.stepSize);
+                this.accumulator -= this.stepSize;
+            }
+        }
+        return this.accumulator / this.stepSize;
+    }
+
+    /** Run exactly one step, e.g. to advance frame by frame while paused. */
+    stepOnce(step: (dt: number) => void) {
+        step(this.stepSize);
+        this.accumulator = 0;
+    }
+
+    reset() {
+        this.accumulator = 0;
+    }
+}
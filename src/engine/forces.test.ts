@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { applyForce, createForce, type ForceField } from './forces';
+import { createNoise2D } from './noise';
+import type { Particle } from './particleStore';
+import { createRandom } from './random';
+
+const makeField = (): ForceField => ({ width: 400, height: 300, time: 0, noise: createNoise2D(createRandom(1)) });
+
+const makeParticle = (x: number, y: number): Particle => ({
+    x,
+    y,
+    prevX: x,
+    prevY: y,
+    homeX: x,
+    homeY: y,
+    vx: 0,
+    vy: 0,
+    size: 2,
+    hue: 0,
+    saturation: 0,
+    brightness: 100,
+    age: 0,
+});
+
+describe('applyForce', () => {
+    it('pulls particles towards an attractor and pushes them from a repulsor', () => {
+        const field = makeField();
+        const pulled = makeParticle(300, 150);
+        const pushed = makeParticle(300, 150);
+        applyForce(createForce('attractor', { strength: 1000, radius: 200 }), pulled, field, 0.1);
+        applyForce(createForce('attractor', { strength: -1000, radius: 200 }), pushed, field, 0.1);
+
+        // The centre is at (200, 150), halfway to the edge of the radius
+        expect(pulled.vx).toBeCloseTo(-50);
+        expect(pulled.vy).toBeCloseTo(0);
+        expect(pushed.vx).toBeCloseTo(50);
+    });
+
+    it('ignores particles outside the radius', () => {
+        const p = makeParticle(390, 150);
+        applyForce(createForce('attractor', { radius: 100 }), p, makeField(), 0.1);
+        expect(p.vx).toBe(0);
+        expect(p.vy).toBe(0);
+    });
+
+    it('turns particles clockwise around a vortex', () => {
+        const p = makeParticle(300, 150);
+        applyForce(createForce('vortex', { strength: 1000, radius: 200 }), p, makeField(), 0.1);
+        expect(p.vx).toBeCloseTo(0);
+        expect(p.vy).toBeCloseTo(50);
+    });
+
+    it('accelerates everything in the gravity direction', () => {
+        const p = makeParticle(10, 10);
+        applyForce(createForce('gravity', { strength: 100, angle: 90 }), p, makeField(), 0.5);
+        expect(p.vx).toBeCloseTo(0);
+        expect(p.vy).toBeCloseTo(50);
+    });
+
+    it('slows particles down with drag', () => {
+        const p = { ...makeParticle(10, 10), vx: 100 };
+        applyForce(createForce('drag', { strength: 1 }), p, makeField(), 1);
+        expect(p.vx).toBeCloseTo(100 / Math.E);
+    });
+
+    it('pulls particles back to their home position with a spring', () => {
+        const p = { ...makeParticle(10, 10), homeX: 20, homeY: 0 };
+        applyForce(createForce('spring', { strength: 2 }), p, makeField(), 0.5);
+        expect(p.vx).toBeCloseTo(10);
+        expect(p.vy).toBeCloseTo(-10);
+    });
+
+    it('moves particles along a noise flow that depends only on the seed', () => {
+        const run = () => {
+            const p = makeParticle(123, 45);
+            applyForce(createForce('noise', { strength: 600, scale: 100 }), p, makeField(), 0.1);
+            return p;
+        };
+        const p = run();
+        expect(Math.hypot(p.vx, p.vy)).toBeGreaterThan(0);
+        expect(run()).toEqual(p);
+    });
+});
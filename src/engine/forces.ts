@@ -0,0 +1,168 @@
+import type { ParamRange } from '../config/ranges';
+import type { Noise2D } from './noise';
+import type { Particle } from './particleStore';
+
+export type ForceKind = 'attractor' | 'vortex' | 'gravity' | 'noise' | 'drag' | 'spring';
+
+/**
+ * A force acting on every particle. Fields a kind does not use are kept so
+ * switching back and forth in the panel does not lose them.
+ */
+export interface Force {
+    id: string;
+    kind: ForceKind;
+    enabled: boolean;
+    x: number; // 0-1 across the width, for attractors and vortices
+    y: number; // 0-1 down the height
+    strength: number; // See FORCE_KINDS for the unit of each kind
+    radius: number; // Pixels; the pull falls off linearly to 0 at this distance
+    angle: number; // Degrees clockwise from pointing right, for gravity
+    scale: number; // Pixels per noise feature
+    speed: number; // How fast the noise field evolves, in features per second
+}
+
+export type ForceParam = 'strength' | 'radius' | 'angle' | 'scale' | 'speed';
+
+// Order of the parameter sliders in the panel
+export const FORCE_PARAMS: ForceParam[] = ['strength', 'radius', 'angle', 'scale', 'speed'];
+
+export interface ForceKindInfo {
+    label: string;
+    positioned: boolean; // Has a position that can be placed on the canvas
+    params: Partial<Record<ForceParam, ParamRange>>;
+}
+
+export const FORCE_KINDS: Record<ForceKind, ForceKindInfo> = {
+    attractor: {
+        label: 'Attractor / Repulsor',
+        positioned: true,
+        params: {
+            strength: { label: 'Strength (negative repels)', min: -10000, max: 10000, step: 100 },
+            radius: { label: 'Radius', min: 10, max: 1000, step: 10 },
+        },
+    },
+    vortex: {
+        label: 'Vortex',
+        positioned: true,
+        params: {
+            strength: { label: 'Spin (negative is anticlockwise)', min: -10000, max: 10000, step: 100 },
+            radius: { label: 'Radius', min: 10, max: 1000, step: 10 },
+        },
+    },
+    gravity: {
+        label: 'Gravity',
+        positioned: false,
+        params: {
+            strength: { label: 'Strength', min: 0, max: 2000, step: 10 },
+            angle: { label: 'Direction (°)', min: 0, max: 360, step: 5 },
+        },
+    },
+    noise: {
+        label: 'Noise Flow',
+        positioned: false,
+        params: {
+            strength: { label: 'Strength', min: 0, max: 3000, step: 50 },
+            scale: { label: 'Scale', min: 20, max: 1000, step: 10 },
+            speed: { label: 'Evolution', min: 0, max: 2, step: 0.05 },
+        },
+    },
+    drag: {
+        label: 'Drag',
+        positioned: false,
+        params: {
+            strength: { label: 'Amount', min: 0, max: 5, step: 0.1 },
+        },
+    },
+    spring: {
+        label: 'Spring to Home',
+        positioned: false,
+        params: {
+            strength: { label: 'Stiffness', min: 0, max: 20, step: 0.5 },
+        },
+    },
+};
+
+// Starting strengths that give a visible effect for each kind
+const DEFAULT_STRENGTHS: Record<ForceKind, number> = {
+    attractor: 3000,
+    vortex: 3000,
+    gravity: 200,
+    noise: 600,
+    drag: 0.5,
+    spring: 2,
+};
+
+let nextForceId = 0;
+
+export const createForce = (kind: ForceKind, changes: Partial<Force> = {}): Force => ({
+    id: `force-${Date.now().toString(36)}-${nextForceId++}`,
+    kind,
+    enabled: true,
+    x: 0.5,
+    y: 0.5,
+    strength: DEFAULT_STRENGTHS[kind],
+    radius: 300,
+    angle: 90,
+    scale: 200,
+    speed: 0.2,
+    ...changes,
+});
+
+export interface ForceField {
+    width: number;
+    height: number;
+    time: number; // Seconds of simulation so far
+    noise: Noise2D;
+}
+
+// Distance in noise units used for the finite differences of the curl
+const CURL_EPSILON = 0.01;
+
+/** The parts of a particle forces read; only the velocity is changed. */
+export type ForceBody = Pick<Particle, 'x' | 'y' | 'vx' | 'vy' | 'homeX' | 'homeY'>;
+
+/** Change a particle's velocity by one force acting for dt seconds. */
+export const applyForce = (force: Force, p: ForceBody, field: ForceField, dt: number) => {
+    switch (force.kind) {
+        case 'attractor':
+        case 'vortex': {
+            const dx = force.x * field.width - p.x;
+            const dy = force.y * field.height - p.y;
+            const distance = Math.sqrt(dx * dx + dy * dy);
+            if (distance >= force.radius || distance === 0) return;
+            const acceleration = force.strength * (1 - distance / force.radius);
+            // Attractors pull along the line to the centre, vortices push across it
+            const [ax, ay] = force.kind === 'attractor' ? [dx, dy] : [dy, -dx];
+            p.vx += (ax / distance) * acceleration * dt;
+            p.vy += (ay / distance) * acceleration * dt;
+            return;
+        }
+        case 'gravity': {
+            const angle = (force.angle * Math.PI) / 180;
+            p.vx += Math.cos(angle) * force.strength * dt;
+            p.vy += Math.sin(angle) * force.strength * dt;
+            return;
+        }
+        case 'noise': {
+            // The curl of a noise potential is divergence free, so particles
+            // swirl along it instead of bunching up
+            const nx = p.x / force.scale;
+            const ny = p.y / force.scale + field.time * force.speed;
+            const dPdx = (field.noise(nx + CURL_EPSILON, ny) - field.noise(nx - CURL_EPSILON, ny)) / (2 * CURL_EPSILON);
+            const dPdy = (field.noise(nx, ny + CURL_EPSILON) - field.noise(nx, ny - CURL_EPSILON)) / (2 * CURL_EPSILON);
+            p.vx += dPdy * force.strength * dt;
+            p.vy -= dPdx * force.strength * dt;
+            return;
+        }
+        case 'drag': {
+            const factor = Math.exp(-force.strength * dt);
+            p.vx *= factor;
+            p.vy *= factor;
+            return;
+        }
+        case 'spring':
+            p.vx += (p.homeX - p.x) * force.strength * dt;
+            p.vy += (p.homeY - p.y) * force.strength * dt;
+            return;
+    }
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { PointerTracker } from './interaction';
+
+describe('PointerTracker', () => {
+    it('tracks hovering and pressed pointers separately', () => {
+        const tracker = new PointerTracker();
+        tracker.move(1, 10, 20, 0);
+        tracker.down(2, 100, 100, 0);
+        expect(tracker.getPointers(0)).toEqual([
+            { x: 10, y: 20, vx: 0, vy: 0, pressed: false },
+            { x: 100, y: 100, vx: 0, vy: 0, pressed: true },
+        ]);
+    });
+
+    it('forgets pointers that leave and touches that lift', () => {
+        const tracker = new PointerTracker();
+        tracker.down(1, 10, 10, 0);
+        tracker.down(2, 20, 20, 0);
+        tracker.up(1, true);
+        tracker.up(2, false);
+        expect(tracker.getPointers(0)).toEqual([{ x: 10, y: 10, vx: 0, vy: 0, pressed: false }]);
+
+        tracker.leave(1);
+        expect(tracker.getPointers(0)).toEqual([]);
+    });
+
+    it('estimates the velocity from recent moves', () => {
+        const tracker = new PointerTracker();
+        tracker.down(1, 0, 0, 0);
+        for (let time = 16; time <= 160; time += 16) tracker.move(1, time * 0.5, 0, time);
+
+        const [pointer] = tracker.getPointers(160);
+        // Half a pixel per millisecond
+        expect(pointer.vx).toBeCloseTo(500, -1);
+        expect(pointer.vy).toBe(0);
+    });
+
+    it('reports a pointer that stopped moving as still', () => {
+        const tracker = new PointerTracker();
+        tracker.down(1, 0, 0, 0);
+        tracker.move(1, 10, 0, 16);
+        expect(tracker.getPointers(16)[0].vx).toBeGreaterThan(0);
+        expect(tracker.getPointers(200)[0].vx).toBe(0);
+    });
+});
@@ -0,0 +1,86 @@
+export type InteractionMode = 'repel' | 'attract' | 'burst' | 'fling';
+
+// What pressing does in each mode; hovering a mouse or pen always repels
+export const INTERACTION_MODES: Record<InteractionMode, string> = {
+    repel: 'Repel',
+    attract: 'Hold to Attract',
+    burst: 'Tap to Burst',
+    fling: 'Drag to Fling',
+};
+
+// Particles spawned by a tap in burst mode, and their speed in pixels per second
+export const TAP_BURST_SIZE = 32;
+export const TAP_BURST_SPEED = 320;
+
+export interface PointerState {
+    x: number;
+    y: number;
+    vx: number; // Pixels per second
+    vy: number;
+    pressed: boolean; // Mouse button held, or a finger or pen on the screen
+}
+
+interface TrackedPointer extends PointerState {
+    time: number; // Milliseconds, of the last position update
+}
+
+// Weight of the newest move in the smoothed velocity
+const VELOCITY_SMOOTHING = 0.6;
+
+// A pointer that has not moved for this many milliseconds is standing still
+const VELOCITY_TIMEOUT = 80;
+
+/**
+ * Follows every pointer over the canvas, keyed on the Pointer Events
+ * pointerId, with a smoothed velocity for flinging. Touches only exist while
+ * they are down; a mouse or pen also counts while hovering. Pointers that
+ * leave are forgotten, so nothing keeps acting where one was last seen.
+ */
+export class PointerTracker {
+    private readonly pointers = new Map<number, TrackedPointer>();
+
+    down(id: number, x: number, y: number, time: number) {
+        this.pointers.set(id, { x, y, vx: 0, vy: 0, pressed: true, time });
+    }
+
+    move(id: number, x: number, y: number, time: number) {
+        const pointer = this.pointers.get(id);
+        if (!pointer) {
+            this.pointers.set(id, { x, y, vx: 0, vy: 0, pressed: false, time });
+            return;
+        }
+        const elapsed = time - pointer.time;
+        if (elapsed > 0) {
+            // After a pause the old velocity is stale, so start over from this move
+            const weight = elapsed > VELOCITY_TIMEOUT ? 1 : VELOCITY_SMOOTHING;
+            pointer.vx += (((x - pointer.x) * 1000) / elapsed - pointer.vx) * weight;
+            pointer.vy += (((y - pointer.y) * 1000) / elapsed - pointer.vy) * weight;
+        }
+        pointer.x = x;
+        pointer.y = y;
+        pointer.time = time;
+    }
+
+    /** A release; hovering pointers stay, touches go away. */
+    up(id: number, hovers: boolean) {
+        const pointer = this.pointers.get(id);
+        if (!pointer) return;
+        if (hovers) pointer.pressed = false;
+        else this.pointers.delete(id);
+    }
+
+    leave(id: number) {
+        this.pointers.delete(id);
+    }
+
+    clear() {
+        this.pointers.clear();
+    }
+
+    /** The pointers as of time, with pointers that stopped moving at rest. */
+    getPointers(time: number): PointerState[] {
+        return Array.from(this.pointers.values(), ({ x, y, vx, vy, pressed, time: updated }) =>
+            time - updated > VELOCITY_TIMEOUT ? { x, y, vx: 0, vy: 0, pressed } : { x, y, vx, vy, pressed }
+        );
+    }
+}
@@ -0,0 +1,63 @@
+import type { MaskBitmap } from './boundary';
+import type { Canvas2DContext } from './canvas2dRenderer';
+
+// Longest side of a rasterised mask; finer detail is lost on screen anyway
+const MASK_RESOLUTION = 512;
+
+const TEXT_FONT_SIZE = 200;
+const TEXT_FONT = `bold ${TEXT_FONT_SIZE}px system-ui, sans-serif`;
+
+const createContext = (width: number, height: number): Canvas2DContext => {
+    if (typeof OffscreenCanvas !== 'undefined') {
+        const context = new OffscreenCanvas(width, height).getContext('2d');
+        if (context) return context;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas2D is not available to draw the mask.');
+    return context;
+};
+
+const readAlpha = (context: Canvas2DContext, width: number, height: number): MaskBitmap => {
+    const { data } = context.getImageData(0, 0, width, height);
+    const alpha = new Uint8Array(width * height);
+    for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+    return { width, height, alpha };
+};
+
+/** Rasterise a line of text, cropped to its bounding box. */
+export const rasterizeText = (text: string): MaskBitmap | null => {
+    if (!text.trim()) return null;
+    const measure = createContext(1, 1);
+    measure.font = TEXT_FONT;
+    const metrics = measure.measureText(text);
+    const textWidth = Math.ceil(metrics.actualBoundingBoxLeft + metrics.actualBoundingBoxRight);
+    const textHeight = Math.ceil(metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent);
+    if (textWidth <= 0 || textHeight <= 0) return null;
+
+    const scale = Math.min(1, MASK_RESOLUTION / Math.max(textWidth, textHeight));
+    const width = Math.max(1, Math.round(textWidth * scale));
+    const height = Math.max(1, Math.round(textHeight * scale));
+    const context = createContext(width, height);
+    context.scale(scale, scale);
+    context.font = TEXT_FONT;
+    context.fillText(text, metrics.actualBoundingBoxLeft, metrics.actualBoundingBoxAscent);
+    return readAlpha(context, width, height);
+};
+
+/** Rasterise an image file; its alpha channel becomes the mask. */
+export const rasterizeImage = async (file: Blob): Promise<MaskBitmap> => {
+    const image = await createImageBitmap(file);
+    try {
+        const scale = Math.min(1, MASK_RESOLUTION / Math.max(image.width, image.height));
+        const width = Math.max(1, Math.round(image.width * scale));
+        const height = Math.max(1, Math.round(image.height * scale));
+        const context = createContext(width, height);
+        context.drawImage(image, 0, 0, width, height);
+        return readAlpha(context, width, height);
+    } finally {
+        image.close();
+    }
+};
@@ -0,0 +1,45 @@
+import type { Random } from './random';
+
+export type Noise2D = (x: number, y: number) => number;
+
+// Unit gradients Perlin noise picks from at each lattice point
+const GRADIENTS = Array.from({ length: 8 }, (_, i) => [Math.cos((i * Math.PI) / 4), Math.sin((i * Math.PI) / 4)]);
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+
+/**
+ * 2D Perlin gradient noise in roughly [-1, 1], smooth with a feature size of
+ * one unit. The lattice is shuffled with the given generator, so the same
+ * seed always gives the same field.
+ */
+export const createNoise2D = (random: Random): Noise2D => {
+    const permutation = Array.from({ length: 256 }, (_, i) => i);
+    for (let i = 255; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+    }
+    // Doubled so lookups of i + 1 never need wrapping
+    const table = new Uint8Array(512);
+    for (let i = 0; i < 512; i++) table[i] = permutation[i & 255];
+
+    const corner = (ix: number, iy: number, dx: number, dy: number) => {
+        const [gx, gy] = GRADIENTS[table[table[ix] + iy] & 7];
+        return gx * dx + gy * dy;
+    };
+
+    return (x, y) => {
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        const dx = x - x0;
+        const dy = y - y0;
+        const ix = x0 & 255;
+        const iy = y0 & 255;
+        const u = fade(dx);
+        const v = fade(dy);
+
+        const bottom = corner(ix, iy, dx, dy) + u * (corner(ix + 1, iy, dx - 1, dy) - corner(ix, iy, dx, dy));
+        const top = corner(ix, iy + 1, dx, dy - 1) + u * (corner(ix + 1, iy + 1, dx - 1, dy - 1) - corner(ix, iy + 1, dx, dy - 1));
+        // Perlin noise peaks near ±0.7 in 2D, so stretch it towards ±1
+        return Math.SQRT2 * (bottom + v * (top - bottom));
+    };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_PALETTES, createPaletteLookup, lookupPalette, MAX_PALETTE_STOPS, MIN_PALETTE_STOPS, samplePalette } from './palettes';
+
+const stops = [
+    { position: 1, color: '#ffffff' },
+    { position: 0.2, color: '#000000' },
+    { position: 0.6, color: '#ff0000' },
+];
+
+describe('palettes', () => {
+    it('samples between stops in any order', () => {
+        expect(samplePalette(stops, 0.2)).toEqual({ r: 0, g: 0, b: 0 });
+        const between = samplePalette(stops, 0.4);
+        expect(between.r).toBeCloseTo(127.5);
+        expect(between.g).toBe(0);
+        const upper = samplePalette(stops, 0.8);
+        expect(upper.r).toBe(255);
+        expect(upper.g).toBeCloseTo(127.5);
+        expect(upper.b).toBeCloseTo(127.5);
+    });
+
+    it('holds the end colors outside the stops', () => {
+        expect(samplePalette(stops, 0)).toEqual({ r: 0, g: 0, b: 0 });
+        expect(samplePalette(stops, 1)).toEqual({ r: 255, g: 255, b: 255 });
+    });
+
+    it('looks colors up by position, clamped to the palette', () => {
+        const lookup = createPaletteLookup(stops);
+        expect(lookupPalette(lookup, -1)).toEqual({ h: 0, s: 0, l: 0 });
+        expect(lookupPalette(lookup, 0.6)).toEqual({ h: 0, s: 100, l: 50 });
+        expect(lookupPalette(lookup, 5)).toEqual({ h: 0, s: 0, l: 100 });
+    });
+
+    it('ships built-in palettes within the stop limits', () => {
+        for (const palette of BUILT_IN_PALETTES) {
+            expect(palette.stops.length).toBeGreaterThanOrEqual(MIN_PALETTE_STOPS);
+            expect(palette.stops.length).toBeLessThanOrEqual(MAX_PALETTE_STOPS);
+        }
+    });
+});
@@ -0,0 +1,107 @@
+import { hexToRgb, mixRgb, rgbToHsl, type Hsl } from './color';
+
+export interface ColorStop {
+    position: number; // 0-1 along the gradient
+    color: string; // #rrggbb
+}
+
+export interface Palette {
+    name: string;
+    stops: ColorStop[];
+}
+
+export const MIN_PALETTE_STOPS = 2;
+export const MAX_PALETTE_STOPS = 8;
+
+export const BUILT_IN_PALETTES: readonly Palette[] = [
+    {
+        name: 'Sunset',
+        stops: [
+            { position: 0, color: '#2d0b59' },
+            { position: 0.45, color: '#d6336c' },
+            { position: 0.75, color: '#ff922b' },
+            { position: 1, color: '#ffe066' },
+        ],
+    },
+    {
+        name: 'Ocean',
+        stops: [
+            { position: 0, color: '#03045e' },
+            { position: 0.5, color: '#0096c7' },
+            { position: 1, color: '#caf0f8' },
+        ],
+    },
+    {
+        name: 'Fire',
+        stops: [
+            { position: 0, color: '#3d0000' },
+            { position: 0.35, color: '#c1121f' },
+            { position: 0.7, color: '#f77f00' },
+            { position: 1, color: '#fff3b0' },
+        ],
+    },
+    {
+        name: 'Aurora',
+        stops: [
+            { position: 0, color: '#0b3d2e' },
+            { position: 0.4, color: '#2ee59d' },
+            { position: 0.7, color: '#5f6fff' },
+            { position: 1, color: '#d16eff' },
+        ],
+    },
+    {
+        name: 'Viridis',
+        stops: [
+            { position: 0, color: '#440154' },
+            { position: 0.25, color: '#3b528b' },
+            { position: 0.5, color: '#21918c' },
+            { position: 0.75, color: '#5ec962' },
+            { position: 1, color: '#fde725' },
+        ],
+    },
+    {
+        name: 'Monochrome',
+        stops: [
+            { position: 0, color: '#303030' },
+            { position: 1, color: '#ffffff' },
+        ],
+    },
+];
+
+export const DEFAULT_PALETTE = BUILT_IN_PALETTES[0].stops;
+
+/** Stops ordered by position, as sampling and the editor expect. */
+export const sortStops = (stops: readonly ColorStop[]) => [...stops].sort((a, b) => a.position - b.position);
+
+/**
+ * Color at t (0-1) along a gradient, blending neighbouring stops in RGB so
+ * hues do not swing round the color wheel between them. Before the first and
+ * after the last stop the end colors hold.
+ */
+export const samplePalette = (stops: readonly ColorStop[], t: number) => {
+    const sorted = sortStops(stops);
+    if (t <= sorted[0].position) return hexToRgb(sorted[0].color);
+    for (let i = 1; i < sorted.length; i++) {
+        const a = sorted[i - 1];
+        const b = sorted[i];
+        if (t <= b.position) {
+            const span = b.position - a.position;
+            return mixRgb(hexToRgb(a.color), hexToRgb(b.color), span > 0 ? (t - a.position) / span : 1);
+        }
+    }
+    return hexToRgb(sorted[sorted.length - 1].color);
+};
+
+// Entries in a palette lookup table
+const LOOKUP_SIZE = 256;
+
+/** Precompute HSL colors along a gradient, for mapping many particles every step. */
+export const createPaletteLookup = (stops: readonly ColorStop[]): Hsl[] =>
+    Array.from({ length: LOOKUP_SIZE }, (_, i) => rgbToHsl(samplePalette(stops, i / (LOOKUP_SIZE - 1))));
+
+export const lookupPalette = (lookup: readonly Hsl[], t: number) =>
+    lookup[Math.round(Math.min(1, Math.max(0, t)) * (lookup.length - 1))];
+
+/** CSS linear-gradient for previewing a palette. */
+export const getPaletteGradient = (stops: readonly ColorStop[]) =>
+    `linear-gradient(to right, ${sortStops(stops).map(stop => `${stop.color} ${Math.round(stop.position * 100)}%`).join(', ')})`;
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getParticleAlpha, getParticleSize, ParticleStore, type Particle } from './particleStore';
+
+const makeParticle = (x: number, changes: Partial<Particle> = {}): Particle => ({
+    x,
+    y: 20,
+    prevX: x,
+    prevY: 20,
+    homeX: x,
+    homeY: 20,
+    vx: 1,
+    vy: -1,
+    size: 3,
+    hue: 200,
+    saturation: 80,
+    brightness: 60,
+    age: 0,
+    ...changes,
+});
+
+describe('ParticleStore', () => {
+    it('reads back what was added, optional fields included', () => {
+        const store = new ParticleStore();
+        const plain = makeParticle(1);
+        const emitted = makeParticle(2, {
+            age: 0.5,
+            lifetime: 2,
+            overLife: { sizeStart: 1, sizeEnd: 0, opacityStart: 1, opacityEnd: 0.5, hueShift: 90, curve: 'easeOut' },
+            fade: 0.25,
+            culled: true,
+        });
+        store.add(plain);
+        store.add(emitted);
+
+        expect(store.count).toBe(2);
+        expect(store.get(0)).toEqual(plain);
+        expect(store.get(1)).toEqual(emitted);
+    });
+
+    it('keeps particles in order when some are dropped', () => {
+        const store = new ParticleStore();
+        for (let i = 0; i < 6; i++) store.add(makeParticle(i, i % 2 ? { lifetime: 1 } : {}));
+
+        store.retain(i => !store.isTemporary(i));
+
+        expect(store.toArray().map(particle => particle.x)).toEqual([0, 2, 4]);
+    });
+
+    it('grows without losing particles', () => {
+        const store = new ParticleStore();
+        for (let i = 0; i < 200; i++) store.add(makeParticle(i));
+
+        expect(store.capacity).toBeGreaterThanOrEqual(200);
+        expect(store.count).toBe(200);
+        expect(store.x[0]).toBe(0);
+        expect(store.x[199]).toBe(199);
+    });
+
+    it('fades and shrinks temporary particles over their lifetime', () => {
+        const store = new ParticleStore();
+        store.add(makeParticle(0, { age: 1, lifetime: 2 }));
+        store.add(makeParticle(0, {
+            age: 1,
+            lifetime: 2,
+            overLife: { sizeStart: 1, sizeEnd: 0, opacityStart: 1, opacityEnd: 1, hueShift: 0, curve: 'linear' },
+        }));
+
+        expect(getParticleAlpha(store, 0)).toBeCloseTo(0.5);
+        expect(getParticleSize(store, 0)).toBe(3);
+        expect(getParticleAlpha(store, 1)).toBeCloseTo(1);
+        expect(getParticleSize(store, 1)).toBeCloseTo(1.5);
+    });
+});
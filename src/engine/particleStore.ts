@@ -0,0 +1,224 @@
+import { applyLifeCurve, LIFE_CURVES, type LifeCurve, type OverLife } from './emitters';
+
+/** One particle as a plain object, for adding particles and reading them back outside the hot paths. */
+export interface Particle {
+    x: number;
+    y: number;
+    prevX: number; // Position before the last step, for interpolated rendering
+    prevY: number;
+    homeX: number; // Where the particle spawned, for spring forces
+    homeY: number;
+    vx: number; // Pixels per second
+    vy: number;
+    size: number;
+    hue: number;
+    saturation: number;
+    brightness: number;
+    age: number; // Seconds since the particle spawned
+    lifetime?: number; // Seconds, for temporary particles such as emitted ones and beat bursts
+    overLife?: OverLife; // How size, opacity and hue change with age; without it temporary particles fade linearly
+    fade?: number; // 0-1 opacity while fading in or out after a particle count change
+    culled?: boolean; // Fading out, removed once the fade reaches 0
+}
+
+const FLOAT_FIELDS = [
+    'x', 'y', 'prevX', 'prevY', 'homeX', 'homeY', 'vx', 'vy', 'size', 'hue', 'saturation', 'brightness', 'age',
+    'lifetime', 'fade', 'sizeStart', 'sizeEnd', 'opacityStart', 'opacityEnd', 'hueShift',
+] as const;
+
+const FLAG_CULLED = 1;
+const FLAG_OVER_LIFE = 2;
+
+const CURVES = Object.keys(LIFE_CURVES) as LifeCurve[];
+
+const MIN_CAPACITY = 64;
+
+/**
+ * Particles as a structure of arrays: one typed array per field, indexed by
+ * particle. Steps and renderers walk the arrays directly instead of chasing
+ * an object per particle. Optional fields are NaN when unset, and the over
+ * life curve of an emitted particle is copied in rather than referenced.
+ */
+export class ParticleStore {
+    count = 0;
+    x = new Float64Array(0);
+    y = new Float64Array(0);
+    prevX = new Float64Array(0);
+    prevY = new Float64Array(0);
+    homeX = new Float64Array(0);
+    homeY = new Float64Array(0);
+    vx = new Float64Array(0);
+    vy = new Float64Array(0);
+    size = new Float64Array(0);
+    hue = new Float64Array(0);
+    saturation = new Float64Array(0);
+    brightness = new Float64Array(0);
+    age = new Float64Array(0);
+    lifetime = new Float64Array(0); // NaN for persistent particles
+    fade = new Float64Array(0); // NaN once fully faded in
+    sizeStart = new Float64Array(0);
+    sizeEnd = new Float64Array(0);
+    opacityStart = new Float64Array(0);
+    opacityEnd = new Float64Array(0);
+    hueShift = new Float64Array(0);
+    flags = new Uint8Array(0);
+    curve = new Uint8Array(0); // Index into the life curves, when the over life flag is set
+
+    get capacity() {
+        return this.x.length;
+    }
+
+    /** Append a particle and return its index. */
+    add(particle: Particle) {
+        if (this.count === this.capacity) this.grow(this.count + 1);
+        const index = this.count++;
+        this.set(index, particle);
+        return index;
+    }
+
+    set(i: number, particle: Particle) {
+        const { lifetime, overLife, fade, culled } = particle;
+        this.x[i] = particle.x;
+        this.y[i] = particle.y;
+        this.prevX[i] = particle.prevX;
+        this.prevY[i] = particle.prevY;
+        this.homeX[i] = particle.homeX;
+        this.homeY[i] = particle.homeY;
+        this.vx[i] = particle.vx;
+        this.vy[i] = particle.vy;
+        this.size[i] = particle.size;
+        this.hue[i] = particle.hue;
+        this.saturation[i] = particle.saturation;
+        this.brightness[i] = particle.brightness;
+        this.age[i] = particle.age;
+        this.lifetime[i] = lifetime ?? NaN;
+        this.fade[i] = fade ?? NaN;
+        this.flags[i] = (culled ? FLAG_CULLED : 0) | (overLife ? FLAG_OVER_LIFE : 0);
+        if (overLife) this.setOverLife(i, overLife);
+    }
+
+    /** A copy of one particle. Changing it does not change the store. */
+    get(i: number): Particle {
+        const particle: Particle = {
+            x: this.x[i],
+            y: this.y[i],
+            prevX: this.prevX[i],
+            prevY: this.prevY[i],
+            homeX: this.homeX[i],
+            homeY: this.homeY[i],
+            vx: this.vx[i],
+            vy: this.vy[i],
+            size: this.size[i],
+            hue: this.hue[i],
+            saturation: this.saturation[i],
+            brightness: this.brightness[i],
+            age: this.age[i],
+        };
+        if (!Number.isNaN(this.lifetime[i])) particle.lifetime = this.lifetime[i];
+        if (this.hasOverLife(i)) {
+            particle.overLife = {
+                sizeStart: this.sizeStart[i],
+                sizeEnd: this.sizeEnd[i],
+                opacityStart: this.opacityStart[i],
+                opacityEnd: this.opacityEnd[i],
+                hueShift: this.hueShift[i],
+                curve: CURVES[this.curve[i]],
+            };
+        }
+        if (!Number.isNaN(this.fade[i])) particle.fade = this.fade[i];
+        if (this.isCulled(i)) particle.culled = true;
+        return particle;
+    }
+
+    toArray() {
+        return Array.from({ length: this.count }, (_, i) => this.get(i));
+    }
+
+    setOverLife(i: number, { sizeStart, sizeEnd, opacityStart, opacityEnd, hueShift, curve }: OverLife) {
+        this.sizeStart[i] = sizeStart;
+        this.sizeEnd[i] = sizeEnd;
+        this.opacityStart[i] = opacityStart;
+        this.opacityEnd[i] = opacityEnd;
+        this.hueShift[i] = hueShift;
+        this.curve[i] = Math.max(0, CURVES.indexOf(curve));
+        this.flags[i] |= FLAG_OVER_LIFE;
+    }
+
+    hasOverLife(i: number) {
+        return (this.flags[i] & FLAG_OVER_LIFE) !== 0;
+    }
+
+    isCulled(i: number) {
+        return (this.flags[i] & FLAG_CULLED) !== 0;
+    }
+
+    setCulled(i: number, culled: boolean) {
+        this.flags[i] = culled ? this.flags[i] | FLAG_CULLED : this.flags[i] & ~FLAG_CULLED;
+    }
+
+    isTemporary(i: number) {
+        return !Number.isNaN(this.lifetime[i]);
+    }
+
+    /** Keep the particles the test accepts, in their order, and drop the rest. */
+    retain(keep: (i: number) => boolean) {
+        let kept = 0;
+        for (let i = 0; i < this.count; i++) {
+            if (!keep(i)) continue;
+            if (kept !== i) this.move(i, kept);
+            kept++;
+        }
+        this.count = kept;
+    }
+
+    clear() {
+        this.count = 0;
+    }
+
+    private move(from: number, to: number) {
+        for (const field of FLOAT_FIELDS) this[field][to] = this[field][from];
+        this.flags[to] = this.flags[from];
+        this.curve[to] = this.curve[from];
+    }
+
+    /** Reallocate with room for at least minCapacity particles, keeping the current ones. */
+    private grow(minCapacity: number) {
+        const capacity = Math.max(MIN_CAPACITY, minCapacity, this.capacity * 2);
+        for (const field of FLOAT_FIELDS) this[field] = copyInto(new Float64Array(capacity), this[field], this.count);
+        this.flags = copyInto(new Uint8Array(capacity), this.flags, this.count);
+        this.curve = copyInto(new Uint8Array(capacity), this.curve, this.count);
+    }
+}
+
+const copyInto = <T extends Float64Array | Uint8Array>(target: T, source: T, count: number) => {
+    target.set(source.subarray(0, count));
+    return target;
+};
+
+/** 0-1 progress through a temporary particle's lifetime, shaped by its curve. 0 for persistent particles. */
+export const getLifeProgress = (particles: ParticleStore, i: number) => {
+    const lifetime = particles.lifetime[i];
+    if (!lifetime) return 0; // Also NaN
+    const t = Math.min(1, particles.age[i] / lifetime);
+    return particles.hasOverLife(i) ? applyLifeCurve(t, CURVES[particles.curve[i]]) : t;
+};
+
+const mix = (start: number, end: number, t: number) => start + (end - start) * t;
+
+export const getParticleAlpha = (particles: ParticleStore, i: number) => {
+    const fade = Number.isNaN(particles.fade[i]) ? 1 : particles.fade[i];
+    if (!particles.isTemporary(i)) return fade;
+    const t = getLifeProgress(particles, i);
+    return fade * (particles.hasOverLife(i) ? mix(particles.opacityStart[i], particles.opacityEnd[i], t) : 1 - t);
+};
+
+export const getParticleSize = (particles: ParticleStore, i: number) => {
+    if (!particles.hasOverLife(i)) return particles.size[i];
+    return particles.size[i] * mix(particles.sizeStart[i], particles.sizeEnd[i], getLifeProgress(particles, i));
+};
+
+export const getParticleHue = (particles: ParticleStore, i: number) => {
+    const hueShift = particles.hasOverLife(i) ? particles.hueShift[i] : 0;
+    if (!hueShift) return particles.hue[i];
+    return (((particles.hue[i] + hueShift * getLifeProgress(particles, i)) % 360) + 360) % 360;
+};
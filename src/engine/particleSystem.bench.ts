@@ -0,0 +1,17 @@
+import { bench, describe } from 'vitest';
+import { DEFAULT_CONFIG } from '../config/visualizerConfig';
+import { ParticleSystem } from './particleSystem';
+
+// Simulation cost of one frame (step plus connection pass) on a 1080p canvas
+describe.each([1000, 5000, 20000])('frame time with %i particles', (particleCount) => {
+    const system = new ParticleSystem({
+        width: 1920,
+        height: 1080,
+        seed: 1,
+        config: { ...DEFAULT_CONFIG, particleCount },
+    });
+
+    bench('step', () => {
+        system.step(1 / 60);
+    }, { time: 1000 });
+});
@@ -0,0 +1,496 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, type EffectsConfig, type VisualizerConfig } from '../config/visualizerConfig';
+import { DEFAULT_BOUNDARY } from './boundary';
+import { createEmitter } from './emitters';
+import type { PointerState } from './interaction';
+import { getParticleAlpha, getParticleHue, getParticleSize, type Particle } from './particleStore';
+import { ParticleSystem } from './particleSystem';
+
+const STEP = 1 / 60;
+
+const makeConfig = (effects: Partial<EffectsConfig> = {}, particleCount = 0): VisualizerConfig => ({
+    ...DEFAULT_CONFIG,
+    particleCount,
+    effects: { ...DEFAULT_CONFIG.effects, ...effects },
+});
+
+const makeSystem = (effects: Partial<EffectsConfig> = {}, particleCount = 0, seed = 1) =>
+    new ParticleSystem({ width: 400, height: 300, seed, config: makeConfig(effects, particleCount) });
+
+const pointAt = (system: ParticleSystem, x: number, y: number, changes: Partial<PointerState> = {}) =>
+    system.setPointers([{ x, y, vx: 0, vy: 0, pressed: false, ...changes }]);
+
+const place = (system: ParticleSystem, particles: Partial<Particle>[]) => {
+    system.particles.clear();
+    for (const p of particles) system.particles.add({
+        x: 0,
+        y: 0,
+        vx: 60,
+        vy: 0,
+        size: 2,
+        hue: 0,
+        saturation: 0,
+        brightness: 100,
+        age: 0,
+        ...p,
+        prevX: p.x ?? 0,
+        prevY: p.y ?? 0,
+        homeX: p.homeX ?? p.x ?? 0,
+        homeY: p.homeY ?? p.y ?? 0,
+    });
+};
+
+describe('ParticleSystem', () => {
+    it('creates the configured number of particles inside the bounds', () => {
+        const system = makeSystem({}, 50);
+        expect(system.particles.count).toBe(50);
+        for (const p of system.particles.toArray()) {
+            expect(p.x).toBeGreaterThanOrEqual(0);
+            expect(p.x).toBeLessThanOrEqual(400);
+            expect(p.y).toBeGreaterThanOrEqual(0);
+            expect(p.y).toBeLessThanOrEqual(300);
+        }
+    });
+
+    it('is deterministic for the same seed', () => {
+        const a = makeSystem({}, 30, 42);
+        const b = makeSystem({}, 30, 42);
+        for (let i = 0; i < 120; i++) {
+            a.step(STEP);
+            b.step(STEP);
+        }
+        expect(a.particles.toArray()).toEqual(b.particles.toArray());
+        expect(makeSystem({}, 30, 43).particles.toArray()).not.toEqual(makeSystem({}, 30, 42).particles.toArray());
+    });
+
+    describe('bounce', () => {
+        it('reflects off the right and bottom walls', () => {
+            const system = makeSystem({ mouseRepulsion: 0 });
+            pointAt(system, -1000, -1000);
+            place(system, [{ x: 399.5, y: 299.5, vx: 120, vy: 180 }]);
+            system.step(STEP);
+
+            const p = system.particles.get(0);
+            expect(p.x).toBe(400);
+            expect(p.y).toBe(300);
+            expect(p.vx).toBe(-120);
+            expect(p.vy).toBe(-180);
+        });
+
+        it('reflects off the left and top walls', () => {
+            const system = makeSystem({ mouseRepulsion: 0 });
+            pointAt(system, -1000, -1000);
+            place(system, [{ x: 0.5, y: 0.5, vx: -120, vy: -180 }]);
+            system.step(STEP);
+
+            const p = system.particles.get(0);
+            expect(p.x).toBe(0);
+            expect(p.y).toBe(0);
+            expect(p.vx).toBe(120);
+            expect(p.vy).toBe(180);
+        });
+
+        it('keeps every particle inside the bounds over time', () => {
+            const system = makeSystem({ particleSpeed: 5 }, 100);
+            for (let i = 0; i < 600; i++) system.step(STEP);
+            for (const p of system.particles.toArray()) {
+                expect(p.x).toBeGreaterThanOrEqual(0);
+                expect(p.x).toBeLessThanOrEqual(400);
+                expect(p.y).toBeGreaterThanOrEqual(0);
+                expect(p.y).toBeLessThanOrEqual(300);
+            }
+        });
+    });
+
+    describe('pointers', () => {
+        it('pushes particles inside the radius away from the pointer', () => {
+            const system = makeSystem({ mouseRepulsion: 80, mouseForce: 3 });
+            place(system, [{ x: 220, y: 150, vx: 0, vy: 60 }]);
+            pointAt(system, 200, 150);
+            system.step(STEP);
+
+            const p = system.particles.get(0);
+            expect(p.vx).toBeGreaterThan(0);
+            expect(p.x).toBeGreaterThan(220);
+        });
+
+        it('pushes harder the closer the particle is', () => {
+            const system = makeSystem({ mouseRepulsion: 80, mouseForce: 3 });
+            place(system, [
+                { x: 210, y: 100, vx: 0, vy: 60 },
+                { x: 260, y: 200, vx: 0, vy: 60 },
+            ]);
+            pointAt(system, 200, 100);
+            system.step(STEP);
+            const near = system.particles.vx[0];
+
+            pointAt(system, 200, 200);
+            system.step(STEP);
+            const far = system.particles.vx[1];
+
+            expect(near).toBeGreaterThan(far);
+            expect(far).toBeGreaterThan(0);
+        });
+
+        it('ignores particles outside the radius', () => {
+            const system = makeSystem({ mouseRepulsion: 80, mouseForce: 3 });
+            place(system, [{ x: 300, y: 150, vx: 0, vy: 60 }]);
+            pointAt(system, 200, 150);
+            system.step(STEP);
+
+            expect(system.particles.vx[0]).toBe(0);
+            expect(system.particles.vy[0]).toBe(60);
+        });
+
+        it('leaves particles alone once the pointer is gone', () => {
+            const system = makeSystem({ mouseRepulsion: 80, mouseForce: 3 });
+            place(system, [{ x: 220, y: 150, vx: 0, vy: 60 }]);
+            pointAt(system, 200, 150);
+            system.setPointers([]);
+            system.step(STEP);
+
+            expect(system.particles.vx[0]).toBe(0);
+        });
+
+        it('treats every pointer as a separate force source', () => {
+            const system = makeSystem({ mouseRepulsion: 80, mouseForce: 3 });
+            place(system, [
+                { x: 120, y: 150, vx: 0, vy: 60 },
+                { x: 280, y: 150, vx: 0, vy: 60 },
+            ]);
+            system.setPointers([
+                { x: 100, y: 150, vx: 0, vy: 0, pressed: true },
+                { x: 300, y: 150, vx: 0, vy: 0, pressed: true },
+            ]);
+            system.step(STEP);
+
+            expect(system.particles.vx[0]).toBeGreaterThan(0);
+            expect(system.particles.vx[1]).toBeLessThan(0);
+        });
+
+        it('attracts while pressed in attract mode and repels while hovering', () => {
+            const system = makeSystem({ mouseRepulsion: 80, mouseForce: 3 });
+            place(system, [{ x: 220, y: 150, vx: 0, vy: 60 }]);
+            system.setPointers([{ x: 200, y: 150, vx: 0, vy: 0, pressed: true }], 'attract');
+            system.step(STEP);
+            expect(system.particles.vx[0]).toBeLessThan(0);
+
+            place(system, [{ x: 220, y: 150, vx: 0, vy: 60 }]);
+            pointAt(system, 200, 150);
+            system.step(STEP);
+            expect(system.particles.vx[0]).toBeGreaterThan(0);
+        });
+
+        it('flings particles near a dragging pointer with its velocity', () => {
+            const system = makeSystem({ mouseRepulsion: 80, mouseForce: 3 });
+            place(system, [
+                { x: 210, y: 150, vx: 0, vy: 60 },
+                { x: 200, y: 250, vx: 0, vy: 60 },
+            ]);
+            system.setPointers([{ x: 200, y: 150, vx: 0, vy: -600, pressed: true }], 'fling');
+            for (let i = 0; i < 10; i++) system.step(STEP);
+
+            expect(system.particles.vy[0]).toBeLessThan(-300);
+            // Not repelled sideways
+            expect(system.particles.vx[0]).toBeCloseTo(0);
+            expect(system.particles.vy[1]).toBe(60);
+        });
+    });
+
+    it('enforces the minimum speed', () => {
+        const system = makeSystem({ mouseRepulsion: 0 });
+        place(system, [{ x: 200, y: 150, vx: 6, vy: 0 }]);
+        system.step(STEP);
+        expect(Math.hypot(system.particles.vx[0], system.particles.vy[0])).toBeCloseTo(60);
+    });
+
+    describe('connections', () => {
+        it('connects only pairs closer than the connection distance', () => {
+            const system = makeSystem({ connectionDistance: 100, mouseRepulsion: 0 });
+            place(system, [
+                { x: 100, y: 100, vx: 0, vy: 0 },
+                { x: 150, y: 100, vx: 0, vy: 0 },
+                { x: 300, y: 100, vx: 0, vy: 0 },
+            ]);
+            // A zero-length step rebuilds connections without moving anything noticeable
+            system.step(0);
+
+            expect(system.connections).toHaveLength(1);
+            const [connection] = system.connections;
+            expect(connection.a).toBe(0);
+            expect(connection.b).toBe(1);
+            expect(connection.distance).toBeCloseTo(50);
+        });
+
+        it('fades opacity out with distance', () => {
+            const system = makeSystem({ connectionDistance: 100, mouseRepulsion: 0 });
+            place(system, [
+                { x: 100, y: 100, vx: 0, vy: 0 },
+                { x: 110, y: 100, vx: 0, vy: 0 },
+                { x: 100, y: 200, vx: 0, vy: 0 },
+                { x: 190, y: 200, vx: 0, vy: 0 },
+            ]);
+            system.step(0);
+
+            const near = system.connections.find(c => c.distance < 20)!;
+            const far = system.connections.find(c => c.distance > 80)!;
+            expect(near.opacity).toBeGreaterThan(far.opacity);
+            expect(far.opacity).toBeGreaterThan(0);
+        });
+
+        it('caps the number of lines per frame', () => {
+            const system = new ParticleSystem({
+                width: 400,
+                height: 300,
+                seed: 1,
+                config: { ...makeConfig({ connectionDistance: 320 }, 200), maxConnections: 50 },
+            });
+            expect(system.connections).toHaveLength(50);
+        });
+
+        it('culls every pair when the distance shrinks', () => {
+            const system = makeSystem({ connectionDistance: 320 }, 40);
+            expect(system.connections.length).toBeGreaterThan(0);
+            system.setConfig(makeConfig({ connectionDistance: 0 }, 40));
+            system.step(0);
+            expect(system.connections).toHaveLength(0);
+        });
+    });
+
+    it('moves the same distance per second regardless of step size', () => {
+        const coarse = makeSystem({ mouseRepulsion: 0 });
+        const fine = makeSystem({ mouseRepulsion: 0 });
+        place(coarse, [{ x: 100, y: 100, vx: 90, vy: 45 }]);
+        place(fine, [{ x: 100, y: 100, vx: 90, vy: 45 }]);
+        for (let i = 0; i < 30; i++) coarse.step(1 / 30);
+        for (let i = 0; i < 120; i++) fine.step(1 / 120);
+
+        expect(coarse.particles.x[0]).toBeCloseTo(fine.particles.x[0]);
+        expect(coarse.particles.y[0]).toBeCloseTo(fine.particles.y[0]);
+        expect(fine.particles.x[0]).toBeCloseTo(190);
+    });
+
+    it('records the previous position for interpolation', () => {
+        const system = makeSystem({ mouseRepulsion: 0 });
+        place(system, [{ x: 100, y: 100, vx: 60, vy: 0 }]);
+        system.step(STEP);
+        expect(system.particles.prevX[0]).toBe(100);
+        expect(system.particles.x[0]).toBeCloseTo(101);
+    });
+
+    it('removes burst particles once their lifetime ends', () => {
+        const system = makeSystem({}, 10);
+        system.burst(200, 150, 12, 240, 0.5);
+        expect(system.particles.count).toBe(22);
+        for (let i = 0; i < 40; i++) system.step(STEP);
+        expect(system.particles.count).toBe(10);
+    });
+
+    describe('particle count changes', () => {
+        it('fades new particles in without touching existing ones', () => {
+            const system = makeSystem({}, 10);
+            const existing = system.particles.toArray();
+            system.setConfig(makeConfig({}, 15));
+
+            expect(system.particles.count).toBe(15);
+            expect(system.particles.toArray().slice(0, 10)).toEqual(existing);
+            expect(getParticleAlpha(system.particles, 14)).toBe(0);
+
+            for (let i = 0; i < 60; i++) system.step(STEP);
+            expect(system.particles.get(14).fade).toBeUndefined();
+            expect(getParticleAlpha(system.particles, 14)).toBe(1);
+        });
+
+        it('fades surplus particles out before removing them', () => {
+            const system = makeSystem({}, 10);
+            system.setConfig(makeConfig({}, 4));
+            expect(system.particles.count).toBe(10);
+
+            system.step(STEP);
+            expect(getParticleAlpha(system.particles, 9)).toBeLessThan(1);
+            for (let i = 0; i < 60; i++) system.step(STEP);
+            expect(system.particles.count).toBe(4);
+        });
+
+        it('brings back fading particles before spawning new ones', () => {
+            const system = makeSystem({}, 10);
+            system.setConfig(makeConfig({}, 4));
+            system.step(STEP);
+            system.setConfig(makeConfig({}, 10));
+
+            expect(system.particles.count).toBe(10);
+            for (let i = 0; i < 60; i++) system.step(STEP);
+            expect(system.particles.count).toBe(10);
+            expect(system.particles.toArray().every((_, i) => getParticleAlpha(system.particles, i) === 1)).toBe(true);
+        });
+    });
+
+    describe('boundaries', () => {
+        it('keeps the restitution share of the speed on a bounce', () => {
+            const system = makeSystem({ mouseRepulsion: 0, particleSpeed: 1 });
+            system.setBoundary({ ...DEFAULT_BOUNDARY, restitution: 0.5 });
+            place(system, [{ x: 399, y: 150, vx: 600, vy: 0 }]);
+            system.step(STEP);
+            expect(system.particles.x[0]).toBe(400);
+            expect(system.particles.vx[0]).toBe(-300);
+        });
+
+        it('wraps around the edges without interpolating across the screen', () => {
+            const system = makeSystem({ mouseRepulsion: 0, particleSpeed: 1 });
+            system.setBoundary({ ...DEFAULT_BOUNDARY, mode: 'wrap' });
+            place(system, [{ x: 399, y: 150, vx: 120, vy: 0 }]);
+            system.step(STEP);
+            const p = system.particles.get(0);
+            expect(p.x).toBeCloseTo(1);
+            expect(p.prevX).toBeCloseTo(-1);
+            expect(p.vx).toBe(120);
+        });
+
+        it('connects particles across a wrapped edge', () => {
+            const system = makeSystem({ mouseRepulsion: 0, connectionDistance: 50 });
+            system.setBoundary({ ...DEFAULT_BOUNDARY, mode: 'wrap' });
+            place(system, [
+                { x: 5, y: 100, vx: 0, vy: 60 },
+                { x: 395, y: 100, vx: 0, vy: 60 },
+            ]);
+            system.step(STEP);
+            expect(system.connections).toHaveLength(1);
+            const [connection] = system.connections;
+            expect(connection.distance).toBeCloseTo(10);
+            // b's copy next to a sits beyond the left edge
+            expect(system.particles.x[connection.b] + connection.wrapX!).toBeCloseTo(-5);
+        });
+
+        it('respawns particles that leave at the respawn point', () => {
+            const system = makeSystem({ mouseRepulsion: 0, particleSpeed: 1 });
+            system.setBoundary({ ...DEFAULT_BOUNDARY, mode: 'respawn', respawnX: 0.25, respawnY: 0.5, respawnSpread: 0 });
+            place(system, [{ x: 399, y: 150, vx: 600, vy: 0 }]);
+            system.step(STEP);
+            expect(system.particles.get(0)).toMatchObject({ x: 100, y: 150, prevX: 100, prevY: 150 });
+        });
+
+        it('keeps particles inside a mask', () => {
+            const system = makeSystem({ mouseRepulsion: 0 }, 100);
+            system.setBoundary({ ...DEFAULT_BOUNDARY, mode: 'mask', maskShape: 'circle', maskSize: 0.5 });
+            for (let i = 0; i < 120; i++) system.step(STEP);
+            for (const p of system.particles.toArray()) {
+                expect(Math.hypot(p.x - 200, p.y - 150)).toBeLessThanOrEqual(75);
+            }
+        });
+    });
+
+    it('remaps positions proportionally on resize', () => {
+        const system = makeSystem();
+        place(system, [{ x: 100, y: 150 }]);
+        system.particles.prevX[0] = 90;
+        system.resize(800, 600);
+        expect(system.width).toBe(800);
+        expect(system.height).toBe(600);
+        expect(system.particles.get(0)).toMatchObject({ x: 200, y: 300, prevX: 180, prevY: 300 });
+    });
+
+    describe('emitters', () => {
+        it('emits at the configured rate', () => {
+            const system = makeSystem();
+            system.setEmitters([createEmitter('point', { rate: 30, lifetime: 10 })]);
+            for (let i = 0; i < 60; i++) system.step(STEP);
+            expect(system.particles.count).toBe(30);
+        });
+
+        it('stops emitting at the particle cap, counting persistent particles', () => {
+            const system = makeSystem({}, 10);
+            system.setEmitters([createEmitter('edge', { rate: 1000, lifetime: 10 })], 50);
+            for (let i = 0; i < 60; i++) system.step(STEP);
+            expect(system.particles.count).toBe(50);
+            expect(system.particles.toArray().filter(p => p.lifetime !== undefined)).toHaveLength(40);
+        });
+
+        it('removes emitted particles once their lifetime ends', () => {
+            const system = makeSystem({}, 5);
+            system.setEmitters([createEmitter('ring', { rate: 60, lifetime: 0.5 })]);
+            for (let i = 0; i < 30; i++) system.step(STEP);
+            expect(system.particles.count).toBeGreaterThan(5);
+
+            system.setEmitters([]);
+            // Lifetimes vary by up to 20%
+            for (let i = 0; i < 40; i++) system.step(STEP);
+            expect(system.particles.count).toBe(5);
+        });
+
+        it('applies over-life curves to size, opacity and hue', () => {
+            const overLife = createEmitter('point', { sizeStart: 1, sizeEnd: 3, opacityStart: 1, opacityEnd: 0, hueShift: 90 });
+            const system = makeSystem();
+            place(system, [{ size: 2, hue: 300, age: 1, lifetime: 2, overLife }]);
+            const { particles } = system;
+            expect(getParticleSize(particles, 0)).toBe(4);
+            expect(getParticleAlpha(particles, 0)).toBe(0.5);
+            expect(getParticleHue(particles, 0)).toBe(345);
+
+            particles.setOverLife(0, { ...overLife, curve: 'easeIn' });
+            expect(getParticleSize(particles, 0)).toBe(3);
+            expect(getParticleAlpha(particles, 0)).toBe(0.75);
+        });
+    });
+
+    describe('palette color modes', () => {
+        const palette = [
+            { position: 0, color: '#00ff00' },
+            { position: 1, color: '#0000ff' },
+        ];
+
+        it('colors particles by position', () => {
+            const system = new ParticleSystem({
+                width: 400,
+                height: 300,
+                seed: 1,
+                config: { ...makeConfig({ colorMode: 'position', mouseRepulsion: 0 }), palette },
+            });
+            place(system, [{ x: 1, y: 150 }, { x: 399, y: 150, vx: -60 }]);
+            system.step(STEP);
+
+            expect(system.particles.hue[0]).toBeCloseTo(120, 0);
+            expect(system.particles.hue[1]).toBeCloseTo(240, 0);
+        });
+
+        it('colors particles by connection count', () => {
+            const system = new ParticleSystem({
+                width: 400,
+                height: 300,
+                seed: 1,
+                config: { ...makeConfig({ colorMode: 'connections', mouseRepulsion: 0, connectionDistance: 50 }), palette },
+            });
+            place(system, [
+                { x: 20, y: 150, vx: 0, vy: 60 },
+                ...Array.from({ length: 8 }, (_, i) => ({ x: 200 + (i % 4) * 5, y: 150 + Math.floor(i / 4) * 5, vx: 0, vy: 60 })),
+            ]);
+            system.step(STEP);
+
+            expect(system.particles.hue[0]).toBe(120);
+            // Seven neighbours each, nearly the end of the palette
+            expect(system.particles.hue[1]).toBeGreaterThan(220);
+        });
+
+        it('follows the chosen audio band', () => {
+            const system = new ParticleSystem({
+                width: 400,
+                height: 300,
+                seed: 1,
+                config: { ...makeConfig({ colorMode: 'audio', colorBand: 'treble' }, 5), palette },
+            });
+            system.setAudioBands({ bass: 0, mid: 0, treble: 1, level: 0.3 });
+            system.step(STEP);
+            expect(system.particles.toArray().every(p => p.hue === 240)).toBe(true);
+
+            system.setAudioBands({ bass: 1, mid: 1, treble: 0, level: 1 });
+            system.step(STEP);
+            expect(system.particles.toArray().every(p => p.hue === 120)).toBe(true);
+        });
+
+        it('recolors particles when the palette changes', () => {
+            const config = { ...makeConfig({ colorMode: 'audio' }, 5), palette };
+            const system = new ParticleSystem({ width: 400, height: 300, seed: 1, config });
+            system.setConfig({ ...config, palette: [{ position: 0, color: '#ff0000' }, { position: 1, color: '#ff0000' }] });
+            expect(system.particles.toArray().every(p => p.hue === 0)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,634 @@
+import { SILENT_BANDS, type BandEnergies } from '../audio/bands';
+import { isPaletteColorMode, type VisualizerConfig } from '../config/visualizerConfig';
+import { createMaskTest, DEFAULT_BOUNDARY, type BoundaryConfig, type MaskBitmap, type MaskTest } from './boundary';
+import { sampleEmission, type Emitter } from './emitters';
+import { applyForce, createForce, type Force, type ForceBody, type ForceField } from './forces';
+import type { InteractionMode, PointerState } from './interaction';
+import { hexToHsl, type Hsl } from './color';
+import { createNoise2D } from './noise';
+import { createPaletteLookup, lookupPalette } from './palettes';
+import { getParticleAlpha, ParticleStore } from './particleStore';
+import { createRandom, type Random } from './random';
+import { SpatialHash } from './spatialHash';
+
+/** A line between two particles, by their index in the store. */
+export interface Connection {
+    a: number;
+    b: number;
+    distance: number;
+    opacity: number;
+    wrapX?: number; // Set when the line crosses a wrapped edge: b's copy next to a is at b + wrap
+    wrapY?: number;
+}
+
+export interface ParticleSystemOptions {
+    width: number;
+    height: number;
+    seed: number;
+    config: VisualizerConfig;
+}
+
+// Particles never move slower than this (pixels per second, before particleSpeed)
+const BASE_SPEED = 60;
+
+// Mouse repulsion acceleration (pixels per second²) per unit of mouseForce
+const REPULSION_ACCELERATION = 3600;
+
+// How quickly particles under a dragging pointer take on its velocity, per second per unit of mouseForce
+const FLING_RESPONSE = 4;
+
+// Rainbow mode hue rotation in degrees per second
+const RAINBOW_SPEED = 60;
+
+// Opacity of a connection between two touching particles
+const MAX_LINE_OPACITY = 0.2;
+
+// Attempts at finding a random point inside a mask before giving up
+const MASK_SAMPLE_ATTEMPTS = 64;
+
+// Seconds for particles added or removed by a count change to fade fully
+const COUNT_FADE_DURATION = 0.6;
+
+// Speed (pixels per second) and connection count that reach the end of the palette
+const PALETTE_MAX_SPEED = 400;
+const PALETTE_MAX_CONNECTIONS = 8;
+
+// Seconds for a persistent particle to go through the palette and back in the age mode
+const PALETTE_AGE_PERIOD = 20;
+
+// Temporary particles and ones fading out do not count towards particleCount
+const isPersistent = (particles: ParticleStore, i: number) => !particles.isTemporary(i) && !particles.isCulled(i);
+
+// Fade lines out as distance increases
+const getConnectionOpacity = (particles: ParticleStore, a: number, b: number, distance: number, maxDistance: number) =>
+    MAX_LINE_OPACITY * (1 - distance / maxDistance) * Math.min(getParticleAlpha(particles, a), getParticleAlpha(particles, b));
+
+const isExpired = (particles: ParticleStore, i: number) =>
+    (particles.isTemporary(i) && particles.age[i] >= particles.lifetime[i]) ||
+    (particles.isCulled(i) && !(particles.fade[i] > 0)); // A culled particle without a fade is gone at once
+
+/**
+ * Framework-free particle simulation: mouse repulsion, a minimum speed,
+ * wall bouncing, emitters and the connection pass. All randomness comes from a seeded
+ * generator, so the same seed, config and step sequence give the same result.
+ * Neighbour searches go through a spatial hash rebuilt every step, keyed on
+ * the connection distance. Particles live in a structure of typed arrays
+ * and are addressed by index.
+ */
+export class ParticleSystem {
+    readonly particles = new ParticleStore();
+    connections: Connection[] = [];
+    width: number;
+    height: number;
+
+    private config: VisualizerConfig;
+    private readonly random: Random;
+    private pointers: readonly PointerState[] = [];
+    private interactionMode: InteractionMode = 'repel';
+    private forces: readonly Force[] = [];
+    private emitters: readonly Emitter[] = [];
+    private particleCap = Infinity;
+    private readonly emitCarry = new Map<string, number>(); // Fractional particles owed per emitter
+    private paletteLookup: Hsl[];
+    private bands: BandEnergies = SILENT_BANDS;
+    private boundary: BoundaryConfig = DEFAULT_BOUNDARY;
+    private maskBitmap: MaskBitmap | null = null;
+    private maskTest: MaskTest | null | undefined; // Undefined until built for the current bounds
+    private readonly field: ForceField;
+    private readonly grid = new SpatialHash();
+    // Forces act on one particle at a time, copied out of the arrays
+    private readonly body: ForceBody = { x: 0, y: 0, vx: 0, vy: 0, homeX: 0, homeY: 0 };
+
+    constructor({ width, height, seed, config }: ParticleSystemOptions) {
+        this.width = width;
+        this.height = height;
+        this.config = config;
+        this.random = createRandom(seed);
+        // The noise gets its own generator so it does not shift particle spawns
+        this.field = { width, height, time: 0, noise: createNoise2D(createRandom(seed ^ 0x9e3779b9)) };
+        this.paletteLookup = createPaletteLookup(config.palette);
+        for (let i = 0; i < config.particleCount; i++) this.addParticle();
+        this.updateConnections();
+    }
+
+    getConfig() {
+        return this.config;
+    }
+
+    /**
+     * Swap in a new config. Sizes and colors of existing particles follow the
+     * change, and a new particle count fades particles in or out rather than
+     * rebuilding the field.
+     */
+    setConfig(config: VisualizerConfig) {
+        const previous = this.config;
+        const { particles } = this;
+        this.config = config;
+
+        if (config.particleCount !== previous.particleCount) {
+            this.setParticleCount(config.particleCount);
+        }
+
+        if (config.effects.particleSize !== previous.effects.particleSize) {
+            particles.size.fill(config.effects.particleSize, 0, particles.count);
+        }
+        if (config.palette !== previous.palette) {
+            this.paletteLookup = createPaletteLookup(config.palette);
+        }
+        if (
+            config.effects.colorMode !== previous.effects.colorMode ||
+            config.particleColor !== previous.particleColor ||
+            config.palette !== previous.palette
+        ) {
+            for (let i = 0; i < particles.count; i++) this.applyColor(i);
+        }
+    }
+
+    /**
+     * Change the bounds, moving every particle to the same relative position
+     * so a resize keeps the scene instead of starting over.
+     */
+    resize(width: number, height: number) {
+        if (width === this.width && height === this.height) return;
+        const scaleX = this.width > 0 ? width / this.width : 1;
+        const scaleY = this.height > 0 ? height / this.height : 1;
+        const p = this.particles;
+        for (let i = 0; i < p.count; i++) {
+            p.x[i] *= scaleX;
+            p.y[i] *= scaleY;
+            p.prevX[i] *= scaleX;
+            p.prevY[i] *= scaleY;
+            p.homeX[i] *= scaleX;
+            p.homeY[i] *= scaleY;
+        }
+        this.width = width;
+        this.height = height;
+        this.field.width = width;
+        this.field.height = height;
+        this.maskTest = undefined;
+        this.updateConnections();
+    }
+
+    /**
+     * Set the pointers over the canvas and what pressing them does. Each one
+     * is a force source; an empty list leaves the particles alone.
+     */
+    setPointers(pointers: readonly PointerState[], mode: InteractionMode = this.interactionMode) {
+        this.pointers = pointers;
+        this.interactionMode = mode;
+    }
+
+    /**
+     * Set how particles are kept inside the bounds. The bitmap is used by
+     * image and text masks.
+     */
+    setBoundary(boundary: BoundaryConfig, maskBitmap: MaskBitmap | null = null) {
+        if (boundary === this.boundary && maskBitmap === this.maskBitmap) return;
+        this.boundary = boundary;
+        this.maskBitmap = maskBitmap;
+        this.maskTest = undefined;
+    }
+
+    /** Latest audio band energies, for the audio color mode. */
+    setAudioBands(bands: BandEnergies) {
+        this.bands = bands;
+    }
+
+    /** Replace the user forces. Positions are fractions of the bounds. */
+    setForces(forces: readonly Force[]) {
+        this.forces = forces;
+    }
+
+    /**
+     * Replace the emitters. Emission stops while the total number of
+     * particles, persistent ones included, is at the cap.
+     */
+    setEmitters(emitters: readonly Emitter[], cap = Infinity) {
+        this.emitters = emitters;
+        this.particleCap = cap;
+        for (const id of this.emitCarry.keys()) {
+            if (!emitters.some(emitter => emitter.id === id)) this.emitCarry.delete(id);
+        }
+    }
+
+    /** Spawn short-lived particles flying outwards from a point at speed pixels per second. */
+    burst(x: number, y: number, count: number, speed: number, lifetime = 1.5) {
+        const p = this.particles;
+        for (let n = 0; n < count; n++) {
+            const angle = (n / count) * Math.PI * 2;
+            const i = this.addParticle();
+            this.place(i, x, y);
+            p.homeX[i] = x;
+            p.homeY[i] = y;
+            p.vx[i] = Math.cos(angle) * speed;
+            p.vy[i] = Math.sin(angle) * speed;
+            p.lifetime[i] = lifetime;
+        }
+    }
+
+    /** Advance the simulation by dt seconds and rebuild the connections. */
+    step(dt: number) {
+        const { effects } = this.config;
+        const { particles: p, body } = this;
+        let hasExpired = false;
+        const forces = [...this.getPointerForces(), ...this.forces.filter(force => force.enabled)];
+        const flinging = this.interactionMode === 'fling' ? this.pointers.filter(pointer => pointer.pressed) : [];
+
+        for (let i = 0; i < p.count; i++) {
+            p.prevX[i] = p.x[i];
+            p.prevY[i] = p.y[i];
+
+            if (forces.length || flinging.length) {
+                body.x = p.x[i];
+                body.y = p.y[i];
+                body.vx = p.vx[i];
+                body.vy = p.vy[i];
+                body.homeX = p.homeX[i];
+                body.homeY = p.homeY[i];
+                for (const force of forces) applyForce(force, body, this.field, dt);
+                for (const pointer of flinging) this.fling(body, pointer, dt);
+                p.vx[i] = body.vx;
+                p.vy[i] = body.vy;
+            }
+
+            // Maintain constant base movement; emitted particles may slow down and settle
+            const speed = Math.sqrt(p.vx[i] * p.vx[i] + p.vy[i] * p.vy[i]);
+            if (speed < BASE_SPEED && !p.hasOverLife(i)) {
+                const angle = Math.atan2(p.vy[i], p.vx[i]);
+                p.vx[i] = Math.cos(angle) * BASE_SPEED;
+                p.vy[i] = Math.sin(angle) * BASE_SPEED;
+            }
+
+            // Update position
+            p.x[i] += p.vx[i] * effects.particleSpeed * dt;
+            p.y[i] += p.vy[i] * effects.particleSpeed * dt;
+
+            this.constrain(i);
+
+            if (effects.colorMode === 'rainbow') {
+                p.hue[i] = (p.hue[i] + RAINBOW_SPEED * dt) % 360;
+            }
+
+            p.age[i] += dt;
+            if (p.age[i] >= p.lifetime[i]) hasExpired = true; // Never true for NaN
+
+            if (!Number.isNaN(p.fade[i])) {
+                const culled = p.isCulled(i);
+                p.fade[i] += (culled ? -dt : dt) / COUNT_FADE_DURATION;
+                if (culled && p.fade[i] <= 0) {
+                    hasExpired = true;
+                } else if (!culled && p.fade[i] >= 1) {
+                    p.fade[i] = NaN;
+                }
+            }
+        }
+
+        this.field.time += dt;
+
+        // Remove temporary and culled particles that have faded out
+        if (hasExpired) {
+            p.retain(i => !isExpired(p, i));
+        }
+
+        this.emit(dt);
+        this.updateConnections();
+        if (isPaletteColorMode(effects.colorMode)) this.applyPaletteColors();
+    }
+
+    /** Visit particles within radius of a point by index, using the grid from the last step. */
+    forEachNeighbor(x: number, y: number, radius: number, callback: (index: number, distance: number) => void) {
+        this.grid.forEachNear(x, y, radius, callback);
+    }
+
+    /** Keep a particle that has just moved inside the bounds, as the boundary mode says. */
+    private constrain(i: number) {
+        const { mode, restitution } = this.boundary;
+        const { width, height, particles: p } = this;
+        const x = p.x[i];
+        const y = p.y[i];
+
+        if (mode === 'wrap') {
+            // Move the previous position along so interpolation does not streak across the screen
+            const shiftX = x < 0 ? width : x >= width ? -width : 0;
+            const shiftY = y < 0 ? height : y >= height ? -height : 0;
+            p.x[i] += shiftX;
+            p.prevX[i] += shiftX;
+            p.y[i] += shiftY;
+            p.prevY[i] += shiftY;
+            return;
+        }
+        if (mode === 'respawn') {
+            if (x < 0 || x > width || y < 0 || y > height) this.respawn(i);
+            return;
+        }
+        const inside = this.getMaskTest();
+        if (inside) {
+            if (!inside(x, y)) this.bounceOffMask(i, inside);
+            return;
+        }
+
+        // Bounce off the walls, keeping the restitution share of the speed
+        if (x < 0) {
+            p.x[i] = 0;
+            p.vx[i] = Math.abs(p.vx[i]) * restitution;
+        } else if (x > width) {
+            p.x[i] = width;
+            p.vx[i] = -Math.abs(p.vx[i]) * restitution;
+        }
+        if (y < 0) {
+            p.y[i] = 0;
+            p.vy[i] = Math.abs(p.vy[i]) * restitution;
+        } else if (y > height) {
+            p.y[i] = height;
+            p.vy[i] = -Math.abs(p.vy[i]) * restitution;
+        }
+    }
+
+    /**
+     * Undo a step that left the mask and reverse the velocity across the edge
+     * that was crossed. Particles that were already outside, e.g. because the
+     * mask just changed, jump to a random point inside.
+     */
+    private bounceOffMask(i: number, inside: MaskTest) {
+        const p = this.particles;
+        if (!inside(p.prevX[i], p.prevY[i])) {
+            const { x, y } = this.randomPosition();
+            this.place(i, x, y);
+            return;
+        }
+        const { restitution } = this.boundary;
+        const crossedX = !inside(p.x[i], p.prevY[i]);
+        const crossedY = !inside(p.prevX[i], p.y[i]);
+        // Only the diagonal move left the mask, so it hit a corner
+        const corner = !crossedX && !crossedY;
+        if (crossedX || corner) p.vx[i] = -p.vx[i] * restitution;
+        if (crossedY || corner) p.vy[i] = -p.vy[i] * restitution;
+        p.x[i] = p.prevX[i];
+        p.y[i] = p.prevY[i];
+    }
+
+    /** Absorb a particle that left the bounds and send it out again from the respawn point. */
+    private respawn(i: number) {
+        const { respawnX, respawnY, respawnSpread } = this.boundary;
+        const angle = this.random() * Math.PI * 2;
+        const distance = Math.sqrt(this.random()) * respawnSpread;
+        this.place(
+            i,
+            respawnX * this.width + Math.cos(angle) * distance,
+            respawnY * this.height + Math.sin(angle) * distance
+        );
+        const direction = this.random() * Math.PI * 2;
+        this.particles.vx[i] = Math.cos(direction) * BASE_SPEED;
+        this.particles.vy[i] = Math.sin(direction) * BASE_SPEED;
+    }
+
+    /** Move a particle without interpolating the jump. */
+    private place(i: number, x: number, y: number) {
+        const p = this.particles;
+        p.x[i] = x;
+        p.y[i] = y;
+        p.prevX[i] = x;
+        p.prevY[i] = y;
+    }
+
+    private getMaskTest() {
+        if (this.boundary.mode !== 'mask') return null;
+        if (this.maskTest === undefined) {
+            this.maskTest = createMaskTest(this.boundary, this.maskBitmap, this.width, this.height);
+        }
+        return this.maskTest;
+    }
+
+    /** A random point in the bounds, inside the mask when one is active. */
+    private randomPosition() {
+        const inside = this.getMaskTest();
+        let x = this.random() * this.width;
+        let y = this.random() * this.height;
+        for (let attempt = 1; inside && !inside(x, y) && attempt < MASK_SAMPLE_ATTEMPTS; attempt++) {
+            x = this.random() * this.width;
+            y = this.random() * this.height;
+        }
+        return { x, y };
+    }
+
+    /**
+     * Mouse repulsion, as a repelling attractor following each pointer. A
+     * pressed pointer attracts in attract mode and flings instead in fling mode.
+     */
+    private getPointerForces(): Force[] {
+        const { mouseRepulsion, mouseForce } = this.config.effects;
+        const mode = this.interactionMode;
+        return this.pointers
+            .filter(pointer => !(pointer.pressed && mode === 'fling'))
+            .map((pointer, index) => createForce('attractor', {
+                id: `pointer-${index}`,
+                x: pointer.x / this.width,
+                y: pointer.y / this.height,
+                strength: (pointer.pressed && mode === 'attract' ? 1 : -1) * mouseForce * REPULSION_ACCELERATION,
+                radius: mouseRepulsion,
+            }));
+    }
+
+    /** Pull the velocity of a particle near a dragging pointer towards the pointer's own. */
+    private fling(p: ForceBody, pointer: PointerState, dt: number) {
+        const { mouseRepulsion, mouseForce } = this.config.effects;
+        const distance = Math.hypot(p.x - pointer.x, p.y - pointer.y);
+        if (distance >= mouseRepulsion) return;
+        const amount = Math.min(1, FLING_RESPONSE * mouseForce * dt) * (1 - distance / mouseRepulsion);
+        p.vx += (pointer.vx - p.vx) * amount;
+        p.vy += (pointer.vy - p.vy) * amount;
+    }
+
+    /** Spawn what each enabled emitter owes for the last dt seconds, up to the cap. */
+    private emit(dt: number) {
+        const p = this.particles;
+        for (const emitter of this.emitters) {
+            if (!emitter.enabled) continue;
+            const owed = (this.emitCarry.get(emitter.id) ?? 0) + emitter.rate * dt;
+            const count = Math.min(Math.floor(owed), Math.max(0, this.particleCap - p.count));
+            // Whatever the cap blocks is dropped rather than released in a burst later
+            this.emitCarry.set(emitter.id, owed - Math.floor(owed));
+
+            for (let n = 0; n < count; n++) {
+                const { x, y, vx, vy, lifetime } = sampleEmission(emitter, this.width, this.height, this.random);
+                const i = this.addParticle({ x, y });
+                p.vx[i] = vx;
+                p.vy[i] = vy;
+                p.lifetime[i] = lifetime;
+                p.setOverLife(i, emitter);
+            }
+        }
+    }
+
+    /**
+     * Move towards count persistent particles. Particles that are still fading
+     * out are brought back first, then new ones fade in; surplus particles,
+     * newest first, fade out and are removed when invisible.
+     */
+    private setParticleCount(count: number) {
+        const p = this.particles;
+        let persistent = 0;
+        for (let i = 0; i < p.count; i++) {
+            if (isPersistent(p, i)) persistent++;
+        }
+        let missing = count - persistent;
+
+        if (missing > 0) {
+            for (let i = 0; i < p.count && missing > 0; i++) {
+                if (p.isCulled(i)) {
+                    p.setCulled(i, false);
+                    missing--;
+                }
+            }
+            for (; missing > 0; missing--) {
+                p.fade[this.addParticle()] = 0;
+            }
+        } else {
+            // Keep the first count persistent particles
+            for (let i = 0, kept = 0; i < p.count; i++) {
+                if (!isPersistent(p, i) || kept++ < count) continue;
+                p.setCulled(i, true);
+                if (Number.isNaN(p.fade[i])) p.fade[i] = 1;
+            }
+        }
+    }
+
+    private updateConnections() {
+        const maxDistance = this.config.effects.connectionDistance;
+        const maxConnections = this.config.maxConnections;
+        const particles = this.particles;
+        const connections: Connection[] = [];
+
+        this.grid.build(particles, this.width, this.height, maxDistance);
+        if (maxDistance > 0 && maxConnections > 0) {
+            this.grid.forEachPair(maxDistance, (a, b, distance) => {
+                connections.push({ a, b, distance, opacity: getConnectionOpacity(particles, a, b, distance, maxDistance) });
+                return connections.length < maxConnections;
+            });
+            if (this.boundary.mode === 'wrap') this.addSeamConnections(connections, maxDistance, maxConnections);
+        }
+
+        this.connections = connections;
+    }
+
+    /**
+     * Connect particles that are close across a wrapped edge. Each such pair is
+     * found once, from the particle near the left or top edge, by looking for
+     * neighbours of its copy beyond the opposite edge.
+     */
+    private addSeamConnections(connections: Connection[], maxDistance: number, maxConnections: number) {
+        const { particles, width, height } = this;
+        const copies: [number, number][] = [[width, 0], [0, height], [width, height], [width, -height]];
+
+        for (let a = 0; a < particles.count; a++) {
+            const ax = particles.x[a];
+            const ay = particles.y[a];
+            const nearLeft = ax < maxDistance;
+            const nearTop = ay < maxDistance;
+            const nearBottom = ay > height - maxDistance;
+            for (const [offsetX, offsetY] of copies) {
+                if ((offsetX && !nearLeft) || (offsetY > 0 && !nearTop) || (offsetY < 0 && !nearBottom)) continue;
+                if (connections.length >= maxConnections) return;
+
+                this.grid.forEachNear(ax + offsetX, ay + offsetY, maxDistance, (b, distance) => {
+                    // Tiny canvases can have pairs that are also close directly
+                    if (
+                        connections.length >= maxConnections ||
+                        b === a ||
+                        Math.hypot(ax - particles.x[b], ay - particles.y[b]) < maxDistance
+                    ) return;
+                    connections.push({
+                        a,
+                        b,
+                        distance,
+                        opacity: getConnectionOpacity(particles, a, b, distance, maxDistance),
+                        wrapX: -offsetX,
+                        wrapY: -offsetY,
+                    });
+                });
+            }
+        }
+    }
+
+    /** Append a particle at a random position, or the given one, and return its index. */
+    private addParticle({ x, y } = this.randomPosition()) {
+        const i = this.particles.add({
+            x,
+            y,
+            prevX: x,
+            prevY: y,
+            homeX: x,
+            homeY: y,
+            vx: (this.random() - 0.5) * 2 * BASE_SPEED,
+            vy: (this.random() - 0.5) * 2 * BASE_SPEED,
+            size: this.config.effects.particleSize,
+            age: 0,
+            hue: 0,
+            saturation: 100,
+            brightness: 50,
+        });
+        this.applyColor(i);
+        return i;
+    }
+
+    /** Recolor every particle from the palette, by the quantity the color mode maps. */
+    private applyPaletteColors() {
+        const { particles } = this;
+        const degrees = this.config.effects.colorMode === 'connections' ? new Uint16Array(particles.count) : null;
+        if (degrees) {
+            for (const { a, b } of this.connections) {
+                degrees[a]++;
+                degrees[b]++;
+            }
+        }
+        for (let i = 0; i < particles.count; i++) this.applyPaletteColor(i, degrees?.[i] ?? 0);
+    }
+
+    private applyPaletteColor(i: number, degree: number) {
+        const { h, s, l } = lookupPalette(this.paletteLookup, this.getPalettePosition(i, degree));
+        this.setColor(i, h, s, l);
+    }
+
+    /** Where a particle sits along the palette, 0-1, in the current color mode. */
+    private getPalettePosition(i: number, degree: number) {
+        const { colorMode, colorBand } = this.config.effects;
+        const p = this.particles;
+        switch (colorMode) {
+            case 'velocity':
+                return Math.hypot(p.vx[i], p.vy[i]) / PALETTE_MAX_SPEED;
+            case 'position':
+                return this.width > 0 ? p.x[i] / this.width : 0;
+            case 'connections':
+                return degree / PALETTE_MAX_CONNECTIONS;
+            case 'age': {
+                // The lifetime of persistent particles is NaN
+                if (p.lifetime[i]) return p.age[i] / p.lifetime[i];
+                // Persistent particles go back and forth so the color never jumps
+                const phase = (p.age[i] / PALETTE_AGE_PERIOD) % 1;
+                return 1 - Math.abs(phase * 2 - 1);
+            }
+            case 'audio':
+                return this.bands[colorBand];
+            default:
+                return 0;
+        }
+    }
+
+    private applyColor(i: number) {
+        if (isPaletteColorMode(this.config.effects.colorMode)) {
+            this.applyPaletteColor(i, 0);
+        } else if (this.config.effects.colorMode === 'rainbow') {
+            // Give each particle a different starting hue for more variety
+            this.setColor(i, this.random() * 360, 100, 50);
+        } else {
+            const { h, s, l } = hexToHsl(this.config.particleColor);
+            this.setColor(i, h, s, l);
+        }
+    }
+
+    private setColor(i: number, hue: number, saturation: number, brightness: number) {
+        this.particles.hue[i] = hue;
+        this.particles.saturation[i] = saturation;
+        this.particles.brightness[i] = brightness;
+    }
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FRAME_STATS, PerformanceMonitor } from './performanceMonitor';
+
+describe('PerformanceMonitor', () => {
+    it('reports nothing before the first frame', () => {
+        expect(new PerformanceMonitor().getStats()).toEqual(EMPTY_FRAME_STATS);
+    });
+
+    it('averages over the most recent frames only', () => {
+        const monitor = new PerformanceMonitor(4);
+        monitor.record(0.1, 0.05);
+        for (let i = 0; i < 4; i++) monitor.record(0.02, 0.01);
+        const stats = monitor.getStats();
+        expect(stats.fps).toBeCloseTo(50);
+        expect(stats.frameTime).toBeCloseTo(20);
+        expect(stats.workTime).toBeCloseTo(10);
+        expect(stats.worstFrameTime).toBeCloseTo(20);
+    });
+});
@@ -0,0 +1,53 @@
+export interface FrameStats {
+    fps: number;
+    frameTime: number; // Average time between frames, ms
+    workTime: number; // Average time spent simulating and drawing, ms
+    worstFrameTime: number; // Longest frame in the window, ms
+}
+
+export const EMPTY_FRAME_STATS: FrameStats = { fps: 0, frameTime: 0, workTime: 0, worstFrameTime: 0 };
+
+/** Keeps the timings of the last few frames in a ring buffer. */
+export class PerformanceMonitor {
+    private readonly frameTimes: Float64Array;
+    private readonly workTimes: Float64Array;
+    private index = 0;
+    private count = 0;
+
+    constructor(windowSize = 120) {
+        this.frameTimes = new Float64Array(windowSize);
+        this.workTimes = new Float64Array(windowSize);
+    }
+
+    /** Record one frame, both times in seconds. */
+    record(frameTime: number, workTime: number) {
+        this.frameTimes[this.index] = frameTime;
+        this.workTimes[this.index] = workTime;
+        this.index = (this.index + 1) % this.frameTimes.length;
+        this.count = Math.min(this.count + 1, this.frameTimes.length);
+    }
+
+    getStats(): FrameStats {
+        if (!this.count) return EMPTY_FRAME_STATS;
+        let frameTotal = 0;
+        let workTotal = 0;
+        let worst = 0;
+        for (let i = 0; i < this.count; i++) {
+            frameTotal += this.frameTimes[i];
+            workTotal += this.workTimes[i];
+            worst = Math.max(worst, this.frameTimes[i]);
+        }
+        const frameTime = frameTotal / this.count;
+        return {
+            fps: frameTime > 0 ? 1 / frameTime : 0,
+            frameTime: frameTime * 1000,
+            workTime: (workTotal / this.count) * 1000,
+            worstFrameTime: worst * 1000,
+        };
+    }
+
+    reset() {
+        this.index = 0;
+        this.count = 0;
+    }
+}
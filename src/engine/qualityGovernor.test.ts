@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../config/visualizerConfig';
+import { applyQualityLevel, QUALITY_LEVELS, QualityGovernor } from './qualityGovernor';
+
+// Feed frames at a steady rate, returning how often the level changed
+const run = (governor: QualityGovernor, fps: number, seconds: number, targetFps = 60) => {
+    let changes = 0;
+    for (let t = 0; t < seconds; t += 1 / fps) {
+        if (governor.update(1 / fps, targetFps)) changes++;
+    }
+    return changes;
+};
+
+describe('QualityGovernor', () => {
+    it('holds full quality at the target rate', () => {
+        const governor = new QualityGovernor();
+        expect(run(governor, 60, 30)).toBe(0);
+        expect(governor.level).toBe(0);
+    });
+
+    it('steps down while frames are slow, one level at a time', () => {
+        const governor = new QualityGovernor();
+        run(governor, 20, 2.5);
+        expect(governor.level).toBe(1);
+        run(governor, 20, 60);
+        expect(governor.level).toBe(QUALITY_LEVELS.length - 1);
+    });
+
+    it('holds its level in the band between the thresholds', () => {
+        const governor = new QualityGovernor();
+        run(governor, 20, 2.5);
+        expect(run(governor, 56, 60)).toBe(0);
+        expect(governor.level).toBe(1);
+    });
+
+    it('steps back up once there is headroom', () => {
+        const governor = new QualityGovernor();
+        run(governor, 20, 5);
+        run(governor, 60, 1.5); // The average still remembers the slow frames
+        const level = governor.level;
+        run(governor, 60, 5);
+        expect(governor.level).toBe(level - 1);
+    });
+
+    it('waits longer before retrying a level it could not hold', () => {
+        const governor = new QualityGovernor();
+        run(governor, 20, 2.5);
+        run(governor, 60, 4.5); // Back up after the minimum delay
+        expect(governor.level).toBe(0);
+        run(governor, 20, 2.5); // Which turned out too slow
+        expect(governor.level).toBe(1);
+        run(governor, 60, 4.5);
+        expect(governor.level).toBe(1);
+        run(governor, 60, 3);
+        expect(governor.level).toBe(0);
+    });
+
+    it('ignores stalls such as a hidden tab', () => {
+        const governor = new QualityGovernor();
+        for (let i = 0; i < 10; i++) governor.update(2, 60);
+        expect(governor.level).toBe(0);
+    });
+});
+
+describe('applyQualityLevel', () => {
+    const config = {
+        ...DEFAULT_CONFIG,
+        particleCount: 1000,
+        maxConnections: 2000,
+        effects: { ...DEFAULT_CONFIG.effects, glowEffect: true, lineStyle: 'gradient' as const },
+    };
+
+    it('leaves the settings alone at full quality', () => {
+        expect(applyQualityLevel(config, QUALITY_LEVELS[0])).toEqual(config);
+    });
+
+    it('scales counts and turns off expensive effects at the lowest level', () => {
+        const lowest = applyQualityLevel(config, QUALITY_LEVELS[QUALITY_LEVELS.length - 1]);
+        expect(lowest.particleCount).toBeLessThan(config.particleCount);
+        expect(lowest.maxConnections).toBeLessThan(config.maxConnections);
+        expect(lowest.effects.glowEffect).toBe(false);
+        expect(lowest.effects.lineStyle).toBe('solid');
+    });
+
+    it('only cuts, never adds', () => {
+        for (const level of QUALITY_LEVELS) {
+            const applied = applyQualityLevel({ ...config, effects: { ...config.effects, glowEffect: false, lineStyle: 'dashed' } }, level);
+            expect(applied.effects.glowEffect).toBe(false);
+            expect(applied.effects.lineStyle).toBe('dashed');
+        }
+    });
+});
@@ -0,0 +1,132 @@
+import type { VisualizerConfig } from '../config/visualizerConfig';
+
+/** One step down the quality ladder. Each level keeps the cuts of the ones before it. */
+export interface QualityLevel {
+    label: string;
+    particleScale: number; // Of the particle count and the emitter cap
+    connectionScale: number; // Of the line cap
+    glow: boolean; // Glow is allowed when the settings ask for it
+    solidLines: boolean; // Gradient lines are drawn solid, saving a gradient per pair
+    resolutionScale: number; // Of the canvas pixel ratio
+}
+
+// Cheapest visual losses first: glow costs a blur per particle, gradients a
+// gradient per line, then lines, resolution and finally particles themselves
+export const QUALITY_LEVELS: readonly QualityLevel[] = [
+    { label: 'Full', particleScale: 1, connectionScale: 1, glow: true, solidLines: false, resolutionScale: 1 },
+    { label: 'No glow', particleScale: 1, connectionScale: 1, glow: false, solidLines: false, resolutionScale: 1 },
+    { label: 'Solid lines', particleScale: 1, connectionScale: 1, glow: false, solidLines: true, resolutionScale: 1 },
+    { label: 'Fewer lines', particleScale: 1, connectionScale: 0.6, glow: false, solidLines: true, resolutionScale: 1 },
+    { label: '75% resolution', particleScale: 1, connectionScale: 0.6, glow: false, solidLines: true, resolutionScale: 0.75 },
+    { label: 'Fewer particles', particleScale: 0.7, connectionScale: 0.4, glow: false, solidLines: true, resolutionScale: 0.75 },
+    { label: 'Half resolution', particleScale: 0.7, connectionScale: 0.4, glow: false, solidLines: true, resolutionScale: 0.5 },
+    { label: 'Half particles', particleScale: 0.5, connectionScale: 0.25, glow: false, solidLines: true, resolutionScale: 0.5 },
+    { label: 'Minimum', particleScale: 0.3, connectionScale: 0.15, glow: false, solidLines: true, resolutionScale: 0.5 },
+];
+
+export const TARGET_FPS_OPTIONS = [30, 45, 60] as const;
+
+export const DEFAULT_TARGET_FPS = 60;
+
+/** The settings to simulate and draw with at a quality level. */
+export const applyQualityLevel = (config: VisualizerConfig, level: QualityLevel): VisualizerConfig => ({
+    ...config,
+    particleCount: Math.max(1, Math.round(config.particleCount * level.particleScale)),
+    maxConnections: Math.round(config.maxConnections * level.connectionScale),
+    effects: {
+        ...config.effects,
+        glowEffect: config.effects.glowEffect && level.glow,
+        lineStyle: level.solidLines && config.effects.lineStyle === 'gradient' ? 'solid' : config.effects.lineStyle,
+    },
+});
+
+// Weight of each new frame in the running average frame time
+const SMOOTHING = 0.05;
+// Frames longer than this are a hidden tab or a stall, not a sign of load
+const MAX_FRAME_TIME = 0.5;
+// Seconds after a change before the new level is judged, so its cost shows in the average
+const SETTLE_TIME = 1;
+// Below this share of the target the level drops, above UPGRADE_RATIO it may rise;
+// between the two the level holds
+const DOWNGRADE_RATIO = 0.9;
+const UPGRADE_RATIO = 0.97;
+// Seconds the frame rate must stay low before a drop
+const DOWNGRADE_AFTER = 1;
+// Seconds the frame rate must stay high before a rise. Doubles every time a
+// rise has to be taken back, so a level that cannot be held is tried less often
+const MIN_UPGRADE_DELAY = 3;
+const MAX_UPGRADE_DELAY = 60;
+// A rise that lasts this long was sustainable, later rises wait the minimum again
+const UPGRADE_PROBATION = 10;
+
+/**
+ * Steps through QUALITY_LEVELS to hold a target frame rate: down when frames
+ * are consistently slow, back up after a longer stretch of headroom.
+ */
+export class QualityGovernor {
+    level = 0;
+    private averageFrameTime: number | null = null;
+    private sinceChange = 0;
+    private slowFor = 0;
+    private fastFor = 0;
+    private upgradeDelay = MIN_UPGRADE_DELAY;
+    private isOnProbation = false; // The last change was a rise that has not lasted yet
+
+    /** Feed the duration of one frame in seconds. Returns true when the level changed. */
+    update(frameTime: number, targetFps: number) {
+        if (frameTime <= 0 || frameTime > MAX_FRAME_TIME) return false;
+        this.averageFrameTime = this.averageFrameTime === null
+            ? frameTime
+            : this.averageFrameTime + (frameTime - this.averageFrameTime) * SMOOTHING;
+        this.sinceChange += frameTime;
+        if (this.isOnProbation && this.sinceChange >= UPGRADE_PROBATION) {
+            this.isOnProbation = false;
+            this.upgradeDelay = MIN_UPGRADE_DELAY;
+        }
+        if (this.sinceChange < SETTLE_TIME) return false;
+
+        const fps = 1 / this.averageFrameTime;
+        if (fps < targetFps * DOWNGRADE_RATIO) {
+            this.slowFor += frameTime;
+            this.fastFor = 0;
+        } else if (fps >= targetFps * UPGRADE_RATIO) {
+            this.fastFor += frameTime;
+            this.slowFor = 0;
+        } else {
+            this.slowFor = 0;
+            this.fastFor = 0;
+        }
+
+        if (this.slowFor >= DOWNGRADE_AFTER && this.level < QUALITY_LEVELS.length - 1) {
+            if (this.isOnProbation) this.upgradeDelay = Math.min(MAX_UPGRADE_DELAY, this.upgradeDelay * 2);
+            this.isOnProbation = false;
+            this.changeLevel(1);
+            return true;
+        }
+        if (this.fastFor >= this.upgradeDelay && this.level > 0) {
+            this.isOnProbation = true;
+            this.changeLevel(-1);
+            return true;
+        }
+        return false;
+    }
+
+    reset() {
+        this.level = 0;
+        this.averageFrameTime = null;
+        this.sinceChange = 0;
+        this.slowFor = 0;
+        this.fastFor = 0;
+        this.upgradeDelay = MIN_UPGRADE_DELAY;
+        this.isOnProbation = false;
+    }
+
+    private changeLevel(step: number) {
+        this.level += step;
+        // Judge the new level on its own frames
+        this.averageFrameTime = null;
+        this.sinceChange = 0;
+        this.slowFor = 0;
+        this.fastFor = 0;
+    }
+}
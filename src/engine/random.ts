@@ -0,0 +1,18 @@
+export type Random = () => number;
+
+/**
+ * Seedable pseudo-random generator (mulberry32) returning values in [0, 1).
+ * The same seed always produces the same sequence.
+ */
+export const createRandom = (seed: number): Random => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
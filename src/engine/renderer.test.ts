@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EFFECTS } from '../config/visualizerConfig';
+import { getRenderStyle } from './renderer';
+
+describe('getRenderStyle', () => {
+    it('takes the style from the effects', () => {
+        const effects = { ...DEFAULT_EFFECTS, trailLength: 0.4, lineStyle: 'dashed' as const, hueShift: 30 };
+
+        expect(getRenderStyle(effects, 3)).toMatchObject({ trailLength: 0.4, lineWidth: 3, lineStyle: 'dashed', hueShift: 30 });
+    });
+
+    it('only glows with the glow effect on, plus any boost', () => {
+        expect(getRenderStyle({ ...DEFAULT_EFFECTS, glowEffect: false, glowIntensity: 2 }, 1).glow).toBe(0);
+        expect(getRenderStyle({ ...DEFAULT_EFFECTS, glowEffect: true, glowIntensity: 2 }, 1).glow).toBe(2);
+        expect(getRenderStyle({ ...DEFAULT_EFFECTS, glowEffect: false, glowIntensity: 2 }, 1, 1.5).glow).toBe(1.5);
+    });
+
+    it('steps through the shapes, wrapping around', () => {
+        const effects = { ...DEFAULT_EFFECTS, particleShape: 'square' as const };
+
+        expect(getRenderStyle(effects, 1, 0, 1).particleShape).toBe('triangle');
+        expect(getRenderStyle(effects, 1, 0, 2).particleShape).toBe('circle');
+    });
+});
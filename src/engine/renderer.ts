@@ -0,0 +1,78 @@
+import { PARTICLE_SHAPES, type EffectsConfig, type LineStyle, type ParticleShape } from '../config/visualizerConfig';
+import type { Composition } from './composition';
+import type { Connection } from './particleSystem';
+import { getParticleHue, type ParticleStore } from './particleStore';
+
+export interface RenderStyle {
+    trailLength: number; // 0-1
+    lineWidth: number;
+    lineStyle: LineStyle;
+    particleShape: ParticleShape;
+    glow: number; // Glow intensity, 0 disables glow
+    hueShift: number; // Degrees added to every particle hue
+}
+
+export interface RenderFrame {
+    particles: ParticleStore;
+    connections: readonly Connection[];
+    width: number; // In simulation pixels
+    height: number;
+    pixelRatio: number; // Canvas pixels per simulation pixel
+    alpha: number; // 0-1, how far to interpolate from each particle's previous position
+    style: RenderStyle;
+    composition: Composition;
+    backgroundImage: ImageBitmap | null; // Shown when the background kind is image
+}
+
+/**
+ * Draws simulation state. Renderers only read the frame; all state changes
+ * happen in the ParticleSystem.
+ */
+export interface Renderer {
+    render(frame: RenderFrame): void;
+    dispose(): void;
+}
+
+/**
+ * Derive the render style from (modulated) effects. The glow boost is added on
+ * top of the glow intensity and the shape offset steps through the shapes.
+ */
+export const getRenderStyle = (effects: EffectsConfig, lineWidth: number, glowBoost = 0, shapeOffset = 0): RenderStyle => {
+    const shapeIndex = PARTICLE_SHAPES.indexOf(effects.particleShape) + shapeOffset;
+    return {
+        trailLength: effects.trailLength,
+        lineWidth,
+        lineStyle: effects.lineStyle,
+        particleShape: PARTICLE_SHAPES[shapeIndex % PARTICLE_SHAPES.length],
+        glow: (effects.glowEffect ? effects.glowIntensity : 0) + glowBoost,
+        hueShift: effects.hueShift,
+    };
+};
+
+export const interpolateX = (particles: ParticleStore, i: number, alpha: number) =>
+    particles.prevX[i] + (particles.x[i] - particles.prevX[i]) * alpha;
+
+export const interpolateY = (particles: ParticleStore, i: number, alpha: number) =>
+    particles.prevY[i] + (particles.y[i] - particles.prevY[i]) * alpha;
+
+/**
+ * Visit the on-screen segments of a connection at the interpolated positions.
+ * A line across a wrapped edge is drawn as two halves, each running off the
+ * screen towards the other particle's copy.
+ */
+export const forEachSegment = (
+    particles: ParticleStore,
+    { a, b, wrapX = 0, wrapY = 0 }: Connection,
+    alpha: number,
+    callback: (ax: number, ay: number, bx: number, by: number) => void
+) => {
+    const ax = interpolateX(particles, a, alpha);
+    const ay = interpolateY(particles, a, alpha);
+    const bx = interpolateX(particles, b, alpha);
+    const by = interpolateY(particles, b, alpha);
+    callback(ax, ay, bx + wrapX, by + wrapY);
+    if (wrapX || wrapY) callback(ax - wrapX, ay - wrapY, bx, by);
+};
+
+export const getParticleColor = (particles: ParticleStore, i: number, hueShift: number) =>
+    `hsl(${(getParticleHue(particles, i) + hueShift) % 360}, ${particles.saturation[i]}%, ${particles.brightness[i]}%)`;
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from './random';
+import { SpatialHash, type PointSet } from './spatialHash';
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+const toPointSet = (points: Point[]): PointSet => ({
+    count: points.length,
+    x: points.map(p => p.x),
+    y: points.map(p => p.y),
+});
+
+const randomPoints = (count: number, width: number, height: number, seed = 1): Point[] => {
+    const random = createRandom(seed);
+    return Array.from({ length: count }, () => ({ x: random() * width, y: random() * height }));
+};
+
+const bruteForcePairs = (points: Point[], maxDistance: number) => {
+    const pairs = new Set<string>();
+    for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+            if (Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y) < maxDistance) {
+                pairs.add(`${i}-${j}`);
+            }
+        }
+    }
+    return pairs;
+};
+
+const hashPairs = (hash: SpatialHash, maxDistance: number) => {
+    const pairs = new Set<string>();
+    hash.forEachPair(maxDistance, (i, j) => {
+        const key = i < j ? `${i}-${j}` : `${j}-${i}`;
+        expect(pairs.has(key)).toBe(false);
+        pairs.add(key);
+    });
+    return pairs;
+};
+
+describe('SpatialHash', () => {
+    it('finds exactly the pairs a brute-force search finds', () => {
+        const points = randomPoints(500, 800, 600);
+        const hash = new SpatialHash();
+        hash.build(toPointSet(points), 800, 600, 60);
+        expect(hashPairs(hash, 60)).toEqual(bruteForcePairs(points, 60));
+    });
+
+    it('handles distances larger than the cell size', () => {
+        const points = randomPoints(300, 800, 600, 7);
+        const hash = new SpatialHash();
+        hash.build(toPointSet(points), 800, 600, 20);
+        expect(hashPairs(hash, 90)).toEqual(bruteForcePairs(points, 90));
+    });
+
+    it('keeps points outside the bounds searchable', () => {
+        const points = [{ x: -5, y: -5 }, { x: 3, y: 2 }, { x: 805, y: 610 }, { x: 798, y: 599 }];
+        const hash = new SpatialHash();
+        hash.build(toPointSet(points), 800, 600, 50);
+        expect(hashPairs(hash, 50)).toEqual(new Set(['0-1', '2-3']));
+    });
+
+    it('stops when the callback returns false', () => {
+        const points = randomPoints(200, 200, 200);
+        const hash = new SpatialHash();
+        hash.build(toPointSet(points), 200, 200, 100);
+        let visited = 0;
+        hash.forEachPair(100, () => ++visited < 10);
+        expect(visited).toBe(10);
+    });
+
+    it('finds points near a position', () => {
+        const points = randomPoints(400, 800, 600, 3);
+        const hash = new SpatialHash();
+        hash.build(toPointSet(points), 800, 600, 50);
+
+        const found: number[] = [];
+        hash.forEachNear(400, 300, 75, i => found.push(i));
+        const expected = points
+            .map((p, i) => (Math.hypot(p.x - 400, p.y - 300) < 75 ? i : -1))
+            .filter(i => i >= 0);
+        expect(found.sort((a, b) => a - b)).toEqual(expected);
+    });
+});
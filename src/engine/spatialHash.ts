@@ -0,0 +1,135 @@
+/** Positions in parallel arrays, such as a ParticleStore's. */
+export interface PointSet {
+    count: number;
+    x: ArrayLike<number>;
+    y: ArrayLike<number>;
+}
+
+// Upper bound on grid cells so tiny cell sizes on huge canvases stay cheap
+const MAX_CELLS = 1 << 16;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Uniform grid over the canvas, rebuilt every frame with a counting sort into
+ * flat typed arrays. Neighbour queries only visit nearby cells, so finding
+ * pairs within a distance costs roughly O(n * density) instead of O(n²).
+ */
+export class SpatialHash {
+    private points: PointSet = { count: 0, x: [], y: [] };
+    private cellSize = 1;
+    private cols = 1;
+    private rows = 1;
+    private cellStart = new Int32Array(2);
+    private cellItems = new Int32Array(0);
+    private cellOf = new Int32Array(0);
+
+    build(points: PointSet, width: number, height: number, cellSize: number) {
+        this.points = points;
+        this.cellSize = Math.max(1, cellSize, Math.sqrt((width * height) / MAX_CELLS));
+        this.cols = Math.max(1, Math.ceil(width / this.cellSize));
+        this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+
+        const cellCount = this.cols * this.rows;
+        if (this.cellStart.length < cellCount + 1) this.cellStart = new Int32Array(cellCount + 1);
+        else this.cellStart.fill(0, 0, cellCount + 1);
+        if (this.cellItems.length < points.count) {
+            this.cellItems = new Int32Array(points.count);
+            this.cellOf = new Int32Array(points.count);
+        }
+
+        // Count items per cell, offset by one for the prefix sum
+        for (let i = 0; i < points.count; i++) {
+            const cell = this.cellIndex(points.x[i], points.y[i]);
+            this.cellOf[i] = cell;
+            this.cellStart[cell + 1]++;
+        }
+        for (let c = 0; c < cellCount; c++) {
+            this.cellStart[c + 1] += this.cellStart[c];
+        }
+
+        // Scatter item indices into their cells
+        const cursor = this.cellStart.slice(0, cellCount);
+        for (let i = 0; i < points.count; i++) {
+            this.cellItems[cursor[this.cellOf[i]]++] = i;
+        }
+    }
+
+    /**
+     * Visit every pair closer than maxDistance exactly once. Return false from
+     * the callback to stop early. Cells are visited in a strided order so an
+     * early stop still spreads the visited pairs across the whole canvas.
+     */
+    forEachPair(maxDistance: number, callback: (i: number, j: number, distance: number) => boolean | void) {
+        const { points: { x, y }, cols, rows, cellStart, cellItems } = this;
+        const reach = Math.ceil(maxDistance / this.cellSize);
+        const maxDistanceSq = maxDistance * maxDistance;
+        const cellCount = cols * rows;
+
+        // Any stride coprime with the cell count visits every cell once
+        let stride = Math.max(1, Math.floor(cellCount * 0.618));
+        while (gcd(stride, cellCount) !== 1) stride++;
+
+        for (let k = 0, cell = 0; k < cellCount; k++, cell = (cell + stride) % cellCount) {
+            const cx = cell % cols;
+            const cy = Math.floor(cell / cols);
+
+            for (let a = cellStart[cell]; a < cellStart[cell + 1]; a++) {
+                const i = cellItems[a];
+                const px = x[i];
+                const py = y[i];
+
+                // Half neighbourhood: the rest of this cell, then cells after it
+                for (let dy = 0; dy <= reach; dy++) {
+                    const ny = cy + dy;
+                    if (ny >= rows) break;
+                    for (let dx = dy === 0 ? 0 : -reach; dx <= reach; dx++) {
+                        const nx = cx + dx;
+                        if (nx < 0 || nx >= cols) continue;
+                        const neighbour = ny * cols + nx;
+                        const start = neighbour === cell ? a + 1 : cellStart[neighbour];
+
+                        for (let b = start; b < cellStart[neighbour + 1]; b++) {
+                            const j = cellItems[b];
+                            const ddx = px - x[j];
+                            const ddy = py - y[j];
+                            const distanceSq = ddx * ddx + ddy * ddy;
+                            if (distanceSq < maxDistanceSq && callback(i, j, Math.sqrt(distanceSq)) === false) {
+                                return;
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    /** Visit every item closer than radius to a point, e.g. for particle–particle forces. */
+    forEachNear(x: number, y: number, radius: number, callback: (i: number, distance: number) => void) {
+        const { points, cols, rows, cellStart, cellItems } = this;
+        const radiusSq = radius * radius;
+        const minX = Math.max(0, Math.floor((x - radius) / this.cellSize));
+        const maxX = Math.min(cols - 1, Math.floor((x + radius) / this.cellSize));
+        const minY = Math.max(0, Math.floor((y - radius) / this.cellSize));
+        const maxY = Math.min(rows - 1, Math.floor((y + radius) / this.cellSize));
+
+        for (let cy = minY; cy <= maxY; cy++) {
+            for (let cx = minX; cx <= maxX; cx++) {
+                const cell = cy * cols + cx;
+                for (let b = cellStart[cell]; b < cellStart[cell + 1]; b++) {
+                    const i = cellItems[b];
+                    const dx = points.x[i] - x;
+                    const dy = points.y[i] - y;
+                    const distanceSq = dx * dx + dy * dy;
+                    if (distanceSq < radiusSq) callback(i, Math.sqrt(distanceSq));
+                }
+            }
+        }
+    }
+
+    private cellIndex(x: number, y: number) {
+        const cx = Math.min(this.cols - 1, Math.max(0, Math.floor(x / this.cellSize)));
+        const cy = Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+        return cy * this.cols + cx;
+    }
+}
@@ -0,0 +1,21 @@
+// Upper limits offered for the canvas pixel ratio. Dense screens look sharper
+// at their native ratio but every doubling quadruples the pixels to fill.
+export const PIXEL_RATIO_CAPS = [1, 1.5, 2, 3] as const;
+
+export const DEFAULT_PIXEL_RATIO_CAP = 2;
+
+export interface CanvasSize {
+    width: number; // Backing store pixels
+    height: number;
+    pixelRatio: number; // Backing store pixels per CSS pixel
+}
+
+/** Size the backing store of a canvas laid out at cssWidth × cssHeight. */
+export const getCanvasSize = (cssWidth: number, cssHeight: number, devicePixelRatio: number, cap: number): CanvasSize => {
+    const pixelRatio = Math.min(devicePixelRatio || 1, cap);
+    return {
+        width: Math.max(1, Math.round(cssWidth * pixelRatio)),
+        height: Math.max(1, Math.round(cssHeight * pixelRatio)),
+        pixelRatio,
+    };
+};
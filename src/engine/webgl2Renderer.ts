@@ -0,0 +1,618 @@
+import { PARTICLE_SHAPES } from '../config/visualizerConfig';
+import { hexToRgb } from './color';
+import {
+    getActivePostEffects,
+    getCoverRect,
+    getGradientLine,
+    type BackgroundConfig,
+    type BlendMode,
+    type PostEffect,
+} from './composition';
+import { getParticleAlpha, getParticleHue, getParticleSize, type ParticleStore } from './particleStore';
+import type { Connection } from './particleSystem';
+import { forEachSegment, type Renderer, type RenderFrame, type RenderStyle } from './renderer';
+import {
+    BACKGROUND_FRAGMENT,
+    BLOOM_FRAGMENT,
+    BLUR_FRAGMENT,
+    CHROMATIC_FRAGMENT,
+    COPY_FRAGMENT,
+    FEEDBACK_FRAGMENT,
+    FULLSCREEN_VERTEX,
+    GRAIN_FRAGMENT,
+    LINE_FRAGMENT,
+    LINE_VERTEX,
+    PARTICLE_FRAGMENT,
+    PARTICLE_VERTEX,
+    VIGNETTE_FRAGMENT,
+} from './webgl2Shaders';
+
+// Floats per particle instance: previous xy, current xy, size, hsl, alpha
+const PARTICLE_STRIDE = 9;
+
+// Floats per line vertex: xy, hsl, alpha, distance along the line
+const LINE_STRIDE = 7;
+
+// Bloom runs at this fraction of the canvas resolution
+const BLOOM_SCALE = 0.5;
+
+// Blur tap spacing in bloom texels per unit of glow, and its limits
+const BLOOM_SPREAD = 1.75;
+const MAX_BLOOM_SPREAD = 4;
+
+// Brightness of the bloom layer per unit of glow
+const BLOOM_STRENGTH = 1.5;
+const MAX_BLOOM_STRENGTH = 4;
+
+const BACKGROUND_KIND_INDEX = { solid: 0, gradient: 1, image: 2, transparent: 0 } as const;
+
+interface Program<U extends string> {
+    program: WebGLProgram;
+    uniforms: Record<U, WebGLUniformLocation | null>;
+}
+
+interface RenderTarget {
+    texture: WebGLTexture;
+    framebuffer: WebGLFramebuffer;
+    width: number;
+    height: number;
+}
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Could not create shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(`Shader compilation failed: ${log}`);
+    }
+    return shader;
+};
+
+const createProgram = <U extends string>(
+    gl: WebGL2RenderingContext,
+    vertexSource: string,
+    fragmentSource: string,
+    uniformNames: readonly U[]
+): Program<U> => {
+    const vertex = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+    const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+    const program = gl.createProgram();
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    // The program keeps the compiled code, the shader objects are no longer needed
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        const log = gl.getProgramInfoLog(program);
+        gl.deleteProgram(program);
+        throw new Error(`Program link failed: ${log}`);
+    }
+
+    const uniforms = {} as Record<U, WebGLUniformLocation | null>;
+    for (const name of uniformNames) uniforms[name] = gl.getUniformLocation(program, name);
+    return { program, uniforms };
+};
+
+/** Grow a scratch array to hold at least length floats, keeping it when it is large enough. */
+const ensureCapacity = (array: Float32Array, length: number) => {
+    if (array.length >= length) return array;
+    let capacity = Math.max(array.length, 1024);
+    while (capacity < length) capacity *= 2;
+    return new Float32Array(capacity);
+};
+
+/**
+ * GPU renderer: particles are instanced quads whose shape is cut out in the
+ * fragment shader, connections are one indexed quad batch, and glow is a
+ * bloom pass over the finished scene. The scene is drawn into an offscreen
+ * target that persists between frames so trails fade the same way as with
+ * Canvas2D. Colors are premultiplied throughout, and the post-processing
+ * chain ping-pongs between two targets before the result is copied to the
+ * screen.
+ */
+export class WebGL2Renderer implements Renderer {
+    private readonly gl: WebGL2RenderingContext;
+    private readonly particleProgram;
+    private readonly lineProgram;
+    private readonly backgroundProgram;
+    private readonly blurProgram;
+    private readonly bloomProgram;
+    private readonly chromaticProgram;
+    private readonly vignetteProgram;
+    private readonly feedbackProgram;
+    private readonly grainProgram;
+    private readonly copyProgram;
+
+    private readonly particleVao: WebGLVertexArrayObject;
+    private readonly lineVao: WebGLVertexArrayObject;
+    private readonly emptyVao: WebGLVertexArrayObject;
+    private readonly cornerBuffer: WebGLBuffer;
+    private readonly particleBuffer: WebGLBuffer;
+    private readonly lineBuffer: WebGLBuffer;
+    private readonly lineIndexBuffer: WebGLBuffer;
+
+    private particleData = new Float32Array(0);
+    private lineData = new Float32Array(0);
+    private lineIndexCapacity = 0; // Lines covered by the index buffer
+
+    private scene: RenderTarget | null = null;
+    private bloom: [RenderTarget, RenderTarget] | null = null;
+    private post: [RenderTarget, RenderTarget] | null = null;
+    private feedback: [RenderTarget, RenderTarget] | null = null; // Previous output of the feedback stage first
+
+    private imageTexture: WebGLTexture | null = null;
+    private uploadedImage: ImageBitmap | null = null; // In the image texture
+    private image: ImageBitmap | null = null; // Of the previous frame
+    // The scene is filled with the background at full opacity when it or the targets change
+    private background: BackgroundConfig | null = null;
+    private frameCount = 0;
+
+    constructor(gl: WebGL2RenderingContext) {
+        this.gl = gl;
+        this.particleProgram = createProgram(gl, PARTICLE_VERTEX, PARTICLE_FRAGMENT, ['u_resolution', 'u_alpha', 'u_hueShift', 'u_shape']);
+        this.lineProgram = createProgram(gl, LINE_VERTEX, LINE_FRAGMENT, ['u_resolution', 'u_hueShift', 'u_dashed']);
+        this.backgroundProgram = createProgram(gl, FULLSCREEN_VERTEX, BACKGROUND_FRAGMENT, [
+            'u_kind',
+            'u_size',
+            'u_color',
+            'u_gradientEnd',
+            'u_gradientLine',
+            'u_image',
+            'u_imageRect',
+            'u_opacity',
+        ]);
+        this.blurProgram = createProgram(gl, FULLSCREEN_VERTEX, BLUR_FRAGMENT, ['u_source', 'u_direction']);
+        this.bloomProgram = createProgram(gl, FULLSCREEN_VERTEX, BLOOM_FRAGMENT, ['u_source', 'u_bloom', 'u_bloomStrength']);
+        this.chromaticProgram = createProgram(gl, FULLSCREEN_VERTEX, CHROMATIC_FRAGMENT, ['u_source', 'u_scale']);
+        this.vignetteProgram = createProgram(gl, FULLSCREEN_VERTEX, VIGNETTE_FRAGMENT, ['u_source', 'u_amount']);
+        this.feedbackProgram = createProgram(gl, FULLSCREEN_VERTEX, FEEDBACK_FRAGMENT, [
+            'u_source',
+            'u_history',
+            'u_size',
+            'u_zoom',
+            'u_rotation',
+            'u_amount',
+        ]);
+        this.grainProgram = createProgram(gl, FULLSCREEN_VERTEX, GRAIN_FRAGMENT, ['u_source', 'u_amount', 'u_frame']);
+        this.copyProgram = createProgram(gl, FULLSCREEN_VERTEX, COPY_FRAGMENT, ['u_source']);
+
+        this.cornerBuffer = gl.createBuffer();
+        this.particleBuffer = gl.createBuffer();
+        this.lineBuffer = gl.createBuffer();
+        this.lineIndexBuffer = gl.createBuffer();
+
+        // Particles: a shared unit quad plus one instance record per particle
+        this.particleVao = gl.createVertexArray();
+        gl.bindVertexArray(this.particleVao);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+        gl.enableVertexAttribArray(0);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.particleBuffer);
+        const particleBytes = PARTICLE_STRIDE * 4;
+        this.instanceAttribute(1, 4, particleBytes, 0);
+        this.instanceAttribute(2, 1, particleBytes, 16);
+        this.instanceAttribute(3, 4, particleBytes, 20);
+
+        // Lines: four vertices per connection, indexed as two triangles
+        this.lineVao = gl.createVertexArray();
+        gl.bindVertexArray(this.lineVao);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.lineBuffer);
+        const lineBytes = LINE_STRIDE * 4;
+        gl.enableVertexAttribArray(0);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, lineBytes, 0);
+        gl.enableVertexAttribArray(1);
+        gl.vertexAttribPointer(1, 4, gl.FLOAT, false, lineBytes, 8);
+        gl.enableVertexAttribArray(2);
+        gl.vertexAttribPointer(2, 1, gl.FLOAT, false, lineBytes, 24);
+        gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.lineIndexBuffer);
+
+        // Fullscreen passes generate their vertices from gl_VertexID
+        this.emptyVao = gl.createVertexArray();
+        gl.bindVertexArray(null);
+    }
+
+    render({ particles, connections, width, height, pixelRatio, alpha, style, composition, backgroundImage }: RenderFrame) {
+        const gl = this.gl;
+        if (gl.isContextLost()) return;
+        this.frameCount++;
+
+        // Geometry is laid out in simulation pixels; the targets match the canvas
+        const previous = this.scene;
+        const scene = this.ensureTargets(Math.round(width * pixelRatio), Math.round(height * pixelRatio));
+        const fresh = scene !== previous || this.background !== composition.background || this.image !== backgroundImage;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, scene.framebuffer);
+        gl.viewport(0, 0, scene.width, scene.height);
+        gl.enable(gl.BLEND);
+
+        // Fade the previous frame towards the background instead of clearing it, which leaves trails
+        this.drawBackground(composition.background, backgroundImage, width, height, fresh ? 1 : 1 - style.trailLength);
+
+        this.setBlendMode(composition.particleBlend);
+        this.drawParticles(particles, width, height, alpha, style);
+        this.setBlendMode(composition.lineBlend);
+        this.drawLines(particles, connections, width, height, alpha, style);
+        gl.disable(gl.BLEND);
+
+        // The scene is kept for the next frame's trails, so the chain starts from a copy of it
+        let source = scene;
+        for (const effect of getActivePostEffects(composition.postEffects, style.glow)) {
+            if (effect.kind === 'feedback') {
+                source = this.drawFeedback(source, effect);
+                continue;
+            }
+            const [first, second] = this.post!;
+            const target = source === first ? second : first;
+            if (effect.kind === 'bloom') {
+                this.drawBloom(source, target, style.glow, pixelRatio);
+            } else {
+                this.drawPostEffect(source, target, effect, width, height);
+            }
+            source = target;
+        }
+
+        // Present the result
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+        gl.useProgram(this.copyProgram.program);
+        this.bindTexture(0, source.texture, this.copyProgram.uniforms.u_source);
+        gl.bindVertexArray(this.emptyVao);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+        gl.bindVertexArray(null);
+    }
+
+    dispose() {
+        const gl = this.gl;
+        const programs = [
+            this.particleProgram,
+            this.lineProgram,
+            this.backgroundProgram,
+            this.blurProgram,
+            this.bloomProgram,
+            this.chromaticProgram,
+            this.vignetteProgram,
+            this.feedbackProgram,
+            this.grainProgram,
+            this.copyProgram,
+        ];
+        for (const { program } of programs) {
+            gl.deleteProgram(program);
+        }
+        for (const buffer of [this.cornerBuffer, this.particleBuffer, this.lineBuffer, this.lineIndexBuffer]) {
+            gl.deleteBuffer(buffer);
+        }
+        for (const vao of [this.particleVao, this.lineVao, this.emptyVao]) {
+            gl.deleteVertexArray(vao);
+        }
+        if (this.imageTexture) gl.deleteTexture(this.imageTexture);
+        this.releaseTargets();
+    }
+
+    /** Set the color blend factors for premultiplied colors. */
+    private setBlendMode(mode: BlendMode) {
+        const gl = this.gl;
+        const [source, destination] = {
+            normal: [gl.ONE, gl.ONE_MINUS_SRC_ALPHA],
+            additive: [gl.ONE, gl.ONE],
+            screen: [gl.ONE_MINUS_DST_COLOR, gl.ONE],
+            multiply: [gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA],
+        }[mode];
+        // Alpha always accumulates as with normal blending, so coverage is the same in every mode
+        gl.blendFuncSeparate(source, destination, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    }
+
+    /** Draw the background over the scene at the given opacity; a transparent background erases instead. */
+    private drawBackground(background: BackgroundConfig, image: ImageBitmap | null, width: number, height: number, opacity: number) {
+        const gl = this.gl;
+        const { program, uniforms } = this.backgroundProgram;
+        const kind = background.kind === 'image' && !image ? 'solid' : background.kind;
+        this.background = background;
+
+        gl.useProgram(program);
+        gl.uniform1i(uniforms.u_kind, BACKGROUND_KIND_INDEX[kind]);
+        gl.uniform2f(uniforms.u_size, width, height);
+        gl.uniform1f(uniforms.u_opacity, opacity);
+        const start = kind === 'transparent' ? { r: 0, g: 0, b: 0 } : hexToRgb(background.color);
+        const end = hexToRgb(background.gradientEnd);
+        gl.uniform3f(uniforms.u_color, start.r / 255, start.g / 255, start.b / 255);
+        gl.uniform3f(uniforms.u_gradientEnd, end.r / 255, end.g / 255, end.b / 255);
+        const line = getGradientLine(background.gradientAngle, width, height);
+        gl.uniform4f(uniforms.u_gradientLine, line.x0, line.y0, line.x1, line.y1);
+
+        if (kind === 'image' && image) {
+            this.bindTexture(0, this.uploadImage(image), uniforms.u_image);
+            const rect = getCoverRect(image.width, image.height, width, height);
+            gl.uniform4f(uniforms.u_imageRect, rect.x, rect.y, rect.width, rect.height);
+        }
+        this.image = image;
+
+        if (kind === 'transparent') {
+            // Scale everything down by the opacity, like destination-out
+            gl.blendFunc(gl.ZERO, gl.ONE_MINUS_SRC_ALPHA);
+        } else {
+            gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        }
+        gl.bindVertexArray(this.emptyVao);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+
+    /** Keep the background image in a texture, uploading it again only when it changes. */
+    private uploadImage(image: ImageBitmap) {
+        const gl = this.gl;
+        if (this.imageTexture && this.uploadedImage === image) return this.imageTexture;
+        if (!this.imageTexture) this.imageTexture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, this.imageTexture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, image);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        this.uploadedImage = image;
+        return this.imageTexture;
+    }
+
+    private instanceAttribute(location: number, size: number, stride: number, offset: number) {
+        const gl = this.gl;
+        gl.enableVertexAttribArray(location);
+        gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+        gl.vertexAttribDivisor(location, 1);
+    }
+
+    private drawParticles(particles: ParticleStore, width: number, height: number, alpha: number, style: RenderStyle) {
+        if (!particles.count) return;
+        const gl = this.gl;
+
+        const data = (this.particleData = ensureCapacity(this.particleData, particles.count * PARTICLE_STRIDE));
+        let offset = 0;
+        for (let i = 0; i < particles.count; i++) {
+            data[offset++] = particles.prevX[i];
+            data[offset++] = particles.prevY[i];
+            data[offset++] = particles.x[i];
+            data[offset++] = particles.y[i];
+            data[offset++] = getParticleSize(particles, i);
+            data[offset++] = getParticleHue(particles, i);
+            data[offset++] = particles.saturation[i] / 100;
+            data[offset++] = particles.brightness[i] / 100;
+            data[offset++] = getParticleAlpha(particles, i);
+        }
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.particleBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, offset), gl.STREAM_DRAW);
+
+        const { program, uniforms } = this.particleProgram;
+        gl.useProgram(program);
+        gl.uniform2f(uniforms.u_resolution, width, height);
+        gl.uniform1f(uniforms.u_alpha, alpha);
+        gl.uniform1f(uniforms.u_hueShift, style.hueShift);
+        gl.uniform1i(uniforms.u_shape, Math.max(0, PARTICLE_SHAPES.indexOf(style.particleShape)));
+        gl.bindVertexArray(this.particleVao);
+        gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, particles.count);
+    }
+
+    private drawLines(particles: ParticleStore, connections: readonly Connection[], width: number, height: number, alpha: number, style: RenderStyle) {
+        if (!connections.length) return;
+        const gl = this.gl;
+        const gradient = style.lineStyle === 'gradient';
+        const halfWidth = style.lineWidth / 2;
+
+        // Lines across a wrapped edge take two quads
+        const data = (this.lineData = ensureCapacity(this.lineData, connections.length * 2 * 4 * LINE_STRIDE));
+        let offset = 0;
+        const pushVertex = (x: number, y: number, i: number, opacity: number, along: number) => {
+            data[offset++] = x;
+            data[offset++] = y;
+            if (gradient) {
+                data[offset++] = getParticleHue(particles, i);
+                data[offset++] = particles.saturation[i] / 100;
+                data[offset++] = particles.brightness[i] / 100;
+            } else {
+                // Zero saturation at full lightness is white whatever the hue
+                data[offset++] = 0;
+                data[offset++] = 0;
+                data[offset++] = 1;
+            }
+            data[offset++] = opacity;
+            data[offset++] = along;
+        };
+
+        let segments = 0;
+        for (const connection of connections) {
+            const { a, b, opacity } = connection;
+            // Gradient lines are drawn opaque, like the Canvas2D gradient stroke
+            const lineOpacity = gradient ? 1 : opacity;
+            forEachSegment(particles, connection, alpha, (ax, ay, bx, by) => {
+                const length = Math.hypot(bx - ax, by - ay) || 1;
+                // Offset both ends along the line normal to give it width
+                const nx = (-(by - ay) / length) * halfWidth;
+                const ny = ((bx - ax) / length) * halfWidth;
+
+                pushVertex(ax - nx, ay - ny, a, lineOpacity, 0);
+                pushVertex(ax + nx, ay + ny, a, lineOpacity, 0);
+                pushVertex(bx - nx, by - ny, b, lineOpacity, length);
+                pushVertex(bx + nx, by + ny, b, lineOpacity, length);
+                segments++;
+            });
+        }
+
+        gl.bindVertexArray(this.lineVao);
+        this.ensureLineIndices(segments);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.lineBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, offset), gl.STREAM_DRAW);
+
+        const { program, uniforms } = this.lineProgram;
+        gl.useProgram(program);
+        gl.uniform2f(uniforms.u_resolution, width, height);
+        gl.uniform1f(uniforms.u_hueShift, style.hueShift);
+        gl.uniform1i(uniforms.u_dashed, style.lineStyle === 'dashed' ? 1 : 0);
+        gl.drawElements(gl.TRIANGLES, segments * 6, gl.UNSIGNED_INT, 0);
+    }
+
+    /** Upload quad indices for at least count lines. Expects the line VAO to be bound. */
+    private ensureLineIndices(count: number) {
+        if (count <= this.lineIndexCapacity) return;
+        let capacity = Math.max(this.lineIndexCapacity, 1024);
+        while (capacity < count) capacity *= 2;
+
+        const indices = new Uint32Array(capacity * 6);
+        for (let i = 0; i < capacity; i++) {
+            const vertex = i * 4;
+            indices.set([vertex, vertex + 1, vertex + 2, vertex + 2, vertex + 1, vertex + 3], i * 6);
+        }
+        this.gl.bufferData(this.gl.ELEMENT_ARRAY_BUFFER, indices, this.gl.STATIC_DRAW);
+        this.lineIndexCapacity = capacity;
+    }
+
+    /** Blur a downscaled copy of the source twice in each direction and add it back on top. */
+    private drawBloom(source: RenderTarget, target: RenderTarget, glow: number, pixelRatio: number) {
+        const gl = this.gl;
+        const [first, second] = this.bloom!;
+        // Spread is in bloom texels, which shrink as the pixel ratio grows
+        const spread = Math.min(MAX_BLOOM_SPREAD, Math.max(1, glow * BLOOM_SPREAD)) * pixelRatio;
+        const { program, uniforms } = this.blurProgram;
+
+        gl.useProgram(program);
+        gl.bindVertexArray(this.emptyVao);
+        gl.viewport(0, 0, first.width, first.height);
+
+        let blurSource = source;
+        for (let pass = 0; pass < 2; pass++) {
+            this.blur(blurSource, first, spread / first.width, 0, uniforms);
+            this.blur(first, second, 0, spread / first.height, uniforms);
+            blurSource = second;
+        }
+
+        const bloom = this.bloomProgram;
+        gl.useProgram(bloom.program);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+        gl.viewport(0, 0, target.width, target.height);
+        this.bindTexture(0, source.texture, bloom.uniforms.u_source);
+        this.bindTexture(1, second.texture, bloom.uniforms.u_bloom);
+        gl.uniform1f(bloom.uniforms.u_bloomStrength, Math.min(MAX_BLOOM_STRENGTH, glow * BLOOM_STRENGTH));
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+
+    /** Blend the source with the transformed previous output and keep the result for the next frame. */
+    private drawFeedback(source: RenderTarget, effect: PostEffect) {
+        const gl = this.gl;
+        const [history, target] = this.feedback!;
+        const { program, uniforms } = this.feedbackProgram;
+        gl.useProgram(program);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+        gl.viewport(0, 0, target.width, target.height);
+        this.bindTexture(0, source.texture, uniforms.u_source);
+        this.bindTexture(1, history.texture, uniforms.u_history);
+        gl.uniform2f(uniforms.u_size, target.width, target.height);
+        gl.uniform1f(uniforms.u_zoom, effect.zoom);
+        gl.uniform1f(uniforms.u_rotation, (effect.rotation * Math.PI) / 180);
+        gl.uniform1f(uniforms.u_amount, effect.amount);
+        gl.bindVertexArray(this.emptyVao);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+        this.feedback = [target, history];
+        return target;
+    }
+
+    /** Run one of the single pass effects from source into target. */
+    private drawPostEffect(source: RenderTarget, target: RenderTarget, effect: PostEffect, width: number, height: number) {
+        const gl = this.gl;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+        gl.viewport(0, 0, target.width, target.height);
+        switch (effect.kind) {
+            case 'chromaticAberration': {
+                const { program, uniforms } = this.chromaticProgram;
+                gl.useProgram(program);
+                this.bindTexture(0, source.texture, uniforms.u_source);
+                // The offset reaches the amount in simulation pixels at the middle of the longer edges
+                gl.uniform1f(uniforms.u_scale, Math.min(0.5, effect.amount / (Math.max(width, height) / 2)));
+                break;
+            }
+            case 'vignette': {
+                const { program, uniforms } = this.vignetteProgram;
+                gl.useProgram(program);
+                this.bindTexture(0, source.texture, uniforms.u_source);
+                gl.uniform1f(uniforms.u_amount, effect.amount);
+                break;
+            }
+            case 'grain':
+            default: {
+                const { program, uniforms } = this.grainProgram;
+                gl.useProgram(program);
+                this.bindTexture(0, source.texture, uniforms.u_source);
+                gl.uniform1f(uniforms.u_amount, effect.amount);
+                // Counted per render, so offline renders get the same grain every time
+                gl.uniform1f(uniforms.u_frame, this.frameCount % 1024);
+            }
+        }
+        gl.bindVertexArray(this.emptyVao);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+
+    private blur(
+        source: RenderTarget,
+        target: RenderTarget,
+        dx: number,
+        dy: number,
+        uniforms: Program<'u_source' | 'u_direction'>['uniforms']
+    ) {
+        const gl = this.gl;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+        this.bindTexture(0, source.texture, uniforms.u_source);
+        gl.uniform2f(uniforms.u_direction, dx, dy);
+        gl.drawArrays(gl.TRIANGLES, 0, 3);
+    }
+
+    private bindTexture(unit: number, texture: WebGLTexture, location: WebGLUniformLocation | null) {
+        const gl = this.gl;
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.uniform1i(location, unit);
+    }
+
+    /** (Re)create the offscreen targets when the canvas size changes. */
+    private ensureTargets(width: number, height: number) {
+        if (this.scene && this.scene.width === width && this.scene.height === height) return this.scene;
+
+        this.releaseTargets();
+        const bloomWidth = Math.max(1, Math.round(width * BLOOM_SCALE));
+        const bloomHeight = Math.max(1, Math.round(height * BLOOM_SCALE));
+        this.scene = this.createTarget(width, height);
+        this.bloom = [this.createTarget(bloomWidth, bloomHeight), this.createTarget(bloomWidth, bloomHeight)];
+        this.post = [this.createTarget(width, height), this.createTarget(width, height)];
+        this.feedback = [this.createTarget(width, height), this.createTarget(width, height)];
+        return this.scene;
+    }
+
+    private createTarget(width: number, height: number): RenderTarget {
+        const gl = this.gl;
+        const texture = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+        const framebuffer = gl.createFramebuffer();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+        return { texture, framebuffer, width, height };
+    }
+
+    private releaseTargets() {
+        const targets = [this.scene, ...(this.bloom ?? []), ...(this.post ?? []), ...(this.feedback ?? [])];
+        for (const target of targets) {
+            if (!target) continue;
+            this.gl.deleteFramebuffer(target.framebuffer);
+            this.gl.deleteTexture(target.texture);
+        }
+        this.scene = null;
+        this.bloom = null;
+        this.post = null;
+        this.feedback = null;
+    }
+}
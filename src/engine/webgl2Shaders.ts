@@ -0,0 +1,294 @@
+// GLSL ES 3.00 sources used by the WebGL2 renderer
+
+// Particle hue is in degrees, saturation and lightness in 0-1
+const HSL_TO_RGB = /* glsl */ `
+vec3 hslToRgb(vec3 hsl) {
+    vec3 rgb = clamp(abs(mod(hsl.x / 60.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+    return hsl.z + hsl.y * (rgb - 0.5) * (1.0 - abs(2.0 * hsl.z - 1.0));
+}
+`;
+
+// Maps canvas pixel coordinates (origin top left) to clip space
+const TO_CLIP = /* glsl */ `
+uniform vec2 u_resolution;
+
+vec4 toClip(vec2 position) {
+    vec2 clip = position / u_resolution * 2.0 - 1.0;
+    return vec4(clip.x, -clip.y, 0.0, 1.0);
+}
+`;
+
+export const PARTICLE_VERTEX = /* glsl */ `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_positions; // Previous xy, current xy
+layout(location = 2) in float a_size;
+layout(location = 3) in vec4 a_color; // Hue, saturation, lightness, alpha
+
+uniform float u_alpha;
+uniform float u_hueShift;
+${TO_CLIP}
+${HSL_TO_RGB}
+out vec2 v_local;
+out float v_size;
+out vec4 v_color;
+
+void main() {
+    // Pad the quad by a pixel so the shape edges can be antialiased
+    float extent = a_size + 1.0;
+    vec2 center = mix(a_positions.xy, a_positions.zw, u_alpha);
+    v_local = a_corner * extent;
+    v_size = a_size;
+    v_color = vec4(hslToRgb(vec3(a_color.x + u_hueShift, a_color.yz)), a_color.w);
+    gl_Position = toClip(center + v_local);
+}
+`;
+
+export const PARTICLE_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform int u_shape; // 0 circle, 1 square, 2 triangle
+
+in vec2 v_local;
+in float v_size;
+in vec4 v_color;
+out vec4 outColor;
+
+void main() {
+    // Signed distance in pixels to the shape outline, y grows downwards
+    float edge;
+    if (u_shape == 1) {
+        edge = max(abs(v_local.x), abs(v_local.y)) - v_size;
+    } else if (u_shape == 2) {
+        float side = (2.0 * abs(v_local.x) - v_local.y - v_size) / sqrt(5.0);
+        edge = max(v_local.y - v_size, side);
+    } else {
+        edge = length(v_local) - v_size;
+    }
+
+    float coverage = clamp(0.5 - edge, 0.0, 1.0);
+    if (coverage <= 0.0) discard;
+    // Premultiplied, so every blend mode can be expressed as blend factors
+    float alpha = v_color.a * coverage;
+    outColor = vec4(v_color.rgb * alpha, alpha);
+}
+`;
+
+export const LINE_VERTEX = /* glsl */ `#version 300 es
+layout(location = 0) in vec2 a_position;
+layout(location = 1) in vec4 a_color; // Hue, saturation, lightness, alpha
+layout(location = 2) in float a_along; // Pixels from the start of the line
+
+uniform float u_hueShift;
+${TO_CLIP}
+${HSL_TO_RGB}
+out vec4 v_color;
+out float v_along;
+
+void main() {
+    v_color = vec4(hslToRgb(vec3(a_color.x + u_hueShift, a_color.yz)), a_color.w);
+    v_along = a_along;
+    gl_Position = toClip(a_position);
+}
+`;
+
+export const LINE_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform bool u_dashed;
+
+in vec4 v_color;
+in float v_along;
+out vec4 outColor;
+
+void main() {
+    // Same 5px on, 5px off pattern as the Canvas2D renderer
+    if (u_dashed && mod(v_along, 10.0) >= 5.0) discard;
+    outColor = vec4(v_color.rgb * v_color.a, v_color.a);
+}
+`;
+
+// One oversized triangle covering the viewport, generated from gl_VertexID
+export const FULLSCREEN_VERTEX = /* glsl */ `#version 300 es
+out vec2 v_uv;
+
+void main() {
+    vec2 corner = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+    v_uv = corner;
+    gl_Position = vec4(corner * 2.0 - 1.0, 0.0, 1.0);
+}
+`;
+
+// Solid color, linear gradient or cover-fitted image, at the given opacity
+export const BACKGROUND_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform int u_kind; // 0 solid, 1 gradient, 2 image
+uniform vec2 u_size; // In simulation pixels
+uniform vec3 u_color;
+uniform vec3 u_gradientEnd;
+uniform vec4 u_gradientLine; // Start xy, end xy in simulation pixels
+uniform sampler2D u_image;
+uniform vec4 u_imageRect; // xy, width and height in simulation pixels
+uniform float u_opacity;
+
+in vec2 v_uv;
+out vec4 outColor;
+
+void main() {
+    // Simulation pixels with the origin top left
+    vec2 position = vec2(v_uv.x, 1.0 - v_uv.y) * u_size;
+    vec3 color = u_color;
+    if (u_kind == 1) {
+        vec2 direction = u_gradientLine.zw - u_gradientLine.xy;
+        float t = clamp(dot(position - u_gradientLine.xy, direction) / dot(direction, direction), 0.0, 1.0);
+        color = mix(u_color, u_gradientEnd, t);
+    } else if (u_kind == 2) {
+        vec4 image = texture(u_image, (position - u_imageRect.xy) / u_imageRect.zw);
+        // Transparent parts of the image show black
+        color = image.rgb * image.a;
+    }
+    outColor = vec4(color * u_opacity, u_opacity);
+}
+`;
+
+// Nine tap separable gaussian, run once horizontally and once vertically
+export const BLUR_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform sampler2D u_source;
+uniform vec2 u_direction; // Texel step scaled by the blur spread
+
+in vec2 v_uv;
+out vec4 outColor;
+
+const float WEIGHTS[5] = float[](0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
+
+void main() {
+    // Alpha is blurred too, so bloom shows over a transparent background
+    vec4 color = texture(u_source, v_uv) * WEIGHTS[0];
+    for (int i = 1; i < 5; i++) {
+        vec2 offset = u_direction * float(i);
+        color += texture(u_source, v_uv + offset) * WEIGHTS[i];
+        color += texture(u_source, v_uv - offset) * WEIGHTS[i];
+    }
+    outColor = color;
+}
+`;
+
+// The post-processing passes below read and write premultiplied colors
+
+export const BLOOM_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform sampler2D u_source;
+uniform sampler2D u_bloom;
+uniform float u_bloomStrength;
+
+in vec2 v_uv;
+out vec4 outColor;
+
+void main() {
+    outColor = min(texture(u_source, v_uv) + texture(u_bloom, v_uv) * u_bloomStrength, 1.0);
+}
+`;
+
+// Red is scaled up and blue down about the center, splitting edges towards the corners
+export const CHROMATIC_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform sampler2D u_source;
+uniform float u_scale; // Fraction the red and blue copies grow and shrink by
+
+in vec2 v_uv;
+out vec4 outColor;
+
+void main() {
+    vec2 fromCenter = v_uv - 0.5;
+    vec4 red = texture(u_source, 0.5 + fromCenter / (1.0 + u_scale));
+    vec4 green = texture(u_source, v_uv);
+    vec4 blue = texture(u_source, 0.5 + fromCenter / (1.0 - u_scale));
+    outColor = vec4(red.r, green.g, blue.b, max(max(red.a, green.a), blue.a));
+}
+`;
+
+export const VIGNETTE_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform sampler2D u_source;
+uniform float u_amount;
+
+in vec2 v_uv;
+out vec4 outColor;
+
+void main() {
+    // 0 at the center, 1 in the corners; darkening starts at the same radius as in Canvas2D
+    float distance = length(v_uv - 0.5) / 0.70710678;
+    float darken = u_amount * clamp((distance - 0.35) / 0.65, 0.0, 1.0);
+    vec4 color = texture(u_source, v_uv);
+    outColor = vec4(color.rgb * (1.0 - darken), color.a);
+}
+`;
+
+// Keeps the brighter of the current image and the zoomed, rotated previous output
+export const FEEDBACK_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform sampler2D u_source;
+uniform sampler2D u_history;
+uniform vec2 u_size; // Target pixels, so rotation keeps the aspect ratio
+uniform float u_zoom;
+uniform float u_rotation; // Radians, clockwise on screen
+uniform float u_amount;
+
+in vec2 v_uv;
+out vec4 outColor;
+
+void main() {
+    // Undo this frame's transform to find where each pixel came from; uv has y up
+    vec2 center = u_size * 0.5;
+    vec2 offset = (v_uv * u_size - center) / u_zoom;
+    float c = cos(u_rotation);
+    float s = sin(u_rotation);
+    vec2 previous = (center + vec2(c * offset.x - s * offset.y, s * offset.x + c * offset.y)) / u_size;
+    vec4 history = texture(u_history, previous);
+    if (any(lessThan(previous, vec2(0.0))) || any(greaterThan(previous, vec2(1.0)))) history = vec4(0.0);
+    outColor = max(texture(u_source, v_uv), history * u_amount);
+}
+`;
+
+export const GRAIN_FRAGMENT = /* glsl */ `#version 300 es
+precision highp float;
+
+uniform sampler2D u_source;
+uniform float u_amount;
+uniform float u_frame; // Changes the pattern every frame, deterministically for offline renders
+
+in vec2 v_uv;
+out vec4 outColor;
+
+float hash(vec2 p) {
+    vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+    p3 += dot(p3, p3.yzx + 33.33);
+    return fract((p3.x + p3.y) * p3.z);
+}
+
+void main() {
+    vec4 color = texture(u_source, v_uv);
+    float noise = hash(gl_FragCoord.xy + u_frame * 17.0) - 0.5;
+    // Scaled by alpha so transparent areas stay transparent
+    outColor = vec4(clamp(color.rgb + noise * u_amount * color.a, 0.0, color.a), color.a);
+}
+`;
+
+export const COPY_FRAGMENT = /* glsl */ `#version 300 es
+precision mediump float;
+
+uniform sampler2D u_source;
+
+in vec2 v_uv;
+out vec4 outColor;
+
+void main() {
+    outColor = texture(u_source, v_uv);
+}
+`;
@@ -0,0 +1,19 @@
+// Public entry of the library build, see vite.lib.config.ts
+export { default as ParticleVisualizer, type ParticleVisualizerHandle, type ParticleVisualizerProps } from '../components/Visualizer';
+export { mount, type MountedVisualizer, type MountOptions } from './mount';
+export {
+    COLOR_BANDS,
+    COLOR_MODES,
+    DEFAULT_CONFIG,
+    DEFAULT_EFFECTS,
+    LINE_STYLES,
+    PARTICLE_SHAPES,
+    type ColorBand,
+    type ColorMode,
+    type EffectsConfig,
+    type LineStyle,
+    type ParticleShape,
+    type VisualizerConfig,
+} from '../config/visualizerConfig';
+export { CONFIG_RANGES, EFFECT_RANGES, AUDIO_REACTIVITY_RANGE, type ParamRange } from '../config/ranges';
+export { BUILT_IN_PALETTES, type ColorStop, type Palette } from '../engine/palettes';
@@ -0,0 +1,54 @@
+import { createElement } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import ParticleVisualizer, { type ParticleVisualizerHandle, type ParticleVisualizerProps } from '../components/Visualizer';
+
+export type MountOptions = Omit<ParticleVisualizerProps, 'ref'>;
+
+export interface MountedVisualizer extends ParticleVisualizerHandle {
+    update(options: MountOptions): void; // Merged into the current options
+    unmount(): void;
+}
+
+/**
+ * Render a visualizer into an element on a page that does not use React.
+ * It fills the element, so give the element a size.
+ */
+export const mount = (element: HTMLElement, options: MountOptions = {}): MountedVisualizer => {
+    const root = createRoot(element);
+    let current = options;
+    let handle: ParticleVisualizerHandle | null = null;
+
+    // Render synchronously so the returned methods work straight away
+    const render = () => flushSync(() => {
+        root.render(createElement(ParticleVisualizer, {
+            ...current,
+            ref: (next: ParticleVisualizerHandle | null) => {
+                handle = next;
+            },
+        }));
+    });
+
+    const getHandle = () => {
+        if (!handle) throw new Error('The visualizer has been unmounted.');
+        return handle;
+    };
+
+    render();
+    return {
+        pause: () => getHandle().pause(),
+        resume: () => getHandle().resume(),
+        burst: (x, y) => getHandle().burst(x, y),
+        setConfig: (changes) => getHandle().setConfig(changes),
+        getConfig: () => getHandle().getConfig(),
+        snapshot: () => getHandle().snapshot(),
+        update: (next) => {
+            current = { ...current, ...next };
+            render();
+        },
+        unmount: () => {
+            root.unmount();
+            handle = null;
+        },
+    };
+};
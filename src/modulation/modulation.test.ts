@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { SILENT_BANDS } from '../audio/bands';
+import { applyCurve, applyModulation, createBinding, ModulationMatrix, type ModulationInputs } from './modulation';
+
+const makeInputs = ({ bass = 0, level = 0, rms = 0, beat = 0, time = 0 } = {}): ModulationInputs => ({
+    bands: { ...SILENT_BANDS, bass, level },
+    rms,
+    beat,
+    time,
+});
+
+// Particle size spans 1-10, so a full-depth binding moves it by 9
+const SIZE_SPAN = 9;
+
+describe('applyCurve', () => {
+    it('shapes a source value', () => {
+        expect(applyCurve(0.5, 'linear')).toBe(0.5);
+        expect(applyCurve(0.5, 'exponential')).toBe(0.25);
+        expect(applyCurve(0.25, 'logarithmic')).toBe(0.5);
+        expect(applyCurve(0.25, 'smoothstep')).toBeCloseTo(0.15625);
+        expect(applyCurve(0.25, 'inverse')).toBe(0.75);
+    });
+
+    it('clamps the source to 0-1 first', () => {
+        expect(applyCurve(2, 'exponential')).toBe(1);
+        expect(applyCurve(-1, 'inverse')).toBe(1);
+    });
+});
+
+describe('ModulationMatrix', () => {
+    it('scales depth and offset to the target range', () => {
+        const matrix = new ModulationMatrix();
+        const bindings = [createBinding({ source: 'bass', target: 'particleSize', depth: 0.5, offset: 0.1, attack: 0, release: 0 })];
+
+        expect(matrix.update(bindings, makeInputs({ bass: 0.8 }), 1 / 60).particleSize).toBeCloseTo((0.1 + 0.5 * 0.8) * SIZE_SPAN);
+    });
+
+    it('inverts with a negative depth', () => {
+        const matrix = new ModulationMatrix();
+        const bindings = [createBinding({ source: 'bass', target: 'particleSize', depth: -0.5, attack: 0, release: 0 })];
+
+        expect(matrix.update(bindings, makeInputs({ bass: 1 }), 1 / 60).particleSize).toBeCloseTo(-0.5 * SIZE_SPAN);
+    });
+
+    it('follows a rising source over the attack time and a falling one over the release time', () => {
+        const matrix = new ModulationMatrix();
+        const bindings = [createBinding({ source: 'bass', target: 'particleSize', depth: 1, attack: 0.1, release: 0.5 })];
+
+        // The first frame starts at the source value
+        expect(matrix.update(bindings, makeInputs(), 0.1).particleSize).toBe(0);
+
+        // One time constant covers about 63% of the way
+        const rising = matrix.update(bindings, makeInputs({ bass: 1 }), 0.1).particleSize!;
+        expect(rising / SIZE_SPAN).toBeCloseTo(1 - Math.exp(-1));
+
+        const falling = matrix.update(bindings, makeInputs(), 0.1).particleSize!;
+        expect(falling / SIZE_SPAN).toBeCloseTo((1 - Math.exp(-1)) * Math.exp(-0.2));
+    });
+
+    it('jumps straight to the source without attack or release', () => {
+        const matrix = new ModulationMatrix();
+        const bindings = [createBinding({ source: 'bass', target: 'particleSize', depth: 1, attack: 0, release: 0 })];
+        matrix.update(bindings, makeInputs(), 1 / 60);
+
+        expect(matrix.update(bindings, makeInputs({ bass: 1 }), 1 / 60).particleSize).toBe(SIZE_SPAN);
+        expect(matrix.update(bindings, makeInputs(), 1 / 60).particleSize).toBe(0);
+    });
+
+    it('shapes the source before smoothing it', () => {
+        const matrix = new ModulationMatrix();
+        const bindings = [createBinding({ source: 'bass', target: 'particleSize', depth: 1, curve: 'exponential' })];
+
+        expect(matrix.update(bindings, makeInputs({ bass: 0.5 }), 1 / 60).particleSize).toBeCloseTo(0.25 * SIZE_SPAN);
+    });
+
+    it('sums the bindings on one target', () => {
+        const matrix = new ModulationMatrix();
+        const bindings = [
+            createBinding({ source: 'bass', target: 'particleSize', depth: 0.25 }),
+            createBinding({ source: 'beat', target: 'particleSize', depth: 0.5 }),
+            createBinding({ source: 'bass', target: 'hueShift', depth: 1 }),
+        ];
+
+        const offsets = matrix.update(bindings, makeInputs({ bass: 1, beat: 1 }), 1 / 60);
+
+        expect(offsets.particleSize).toBeCloseTo(0.75 * SIZE_SPAN);
+        expect(offsets.hueShift).toBeCloseTo(360);
+    });
+
+    it('scales only the audio sources with the audio reactivity', () => {
+        const matrix = new ModulationMatrix();
+        const bindings = [
+            createBinding({ source: 'bass', target: 'particleSize', depth: 0.5 }),
+            createBinding({ source: 'time', target: 'hueShift', depth: 1, rate: 0.25 }),
+        ];
+
+        const offsets = matrix.update(bindings, makeInputs({ bass: 1, time: 1 }), 1 / 60, 2);
+
+        expect(offsets.particleSize).toBeCloseTo(SIZE_SPAN);
+        expect(offsets.hueShift).toBeCloseTo(90);
+    });
+
+    it('reads the waveform RMS for the level source', () => {
+        const matrix = new ModulationMatrix();
+        const bindings = [createBinding({ source: 'rms', target: 'particleSize', depth: 1 })];
+
+        expect(matrix.update(bindings, makeInputs({ level: 0.9, rms: 0.2 }), 1 / 60).particleSize).toBeCloseTo(0.2 * SIZE_SPAN);
+    });
+
+    it('forgets the smoothing of removed bindings', () => {
+        const matrix = new ModulationMatrix();
+        const binding = createBinding({ source: 'bass', target: 'particleSize', depth: 1, attack: 10 });
+        matrix.update([binding], makeInputs(), 1 / 60);
+        matrix.update([], makeInputs(), 1 / 60);
+
+        // Added back, it starts at the source value instead of rising from before
+        expect(matrix.update([binding], makeInputs({ bass: 1 }), 1 / 60).particleSize).toBe(SIZE_SPAN);
+    });
+});
+
+describe('applyModulation', () => {
+    it('adds offsets and clamps to the target range', () => {
+        const base = {
+            trailLength: 0.5,
+            particleSize: 8,
+            connectionDistance: 150,
+            glowIntensity: 2,
+            mouseRepulsion: 100,
+            mouseForce: 2,
+            particleSpeed: 1,
+            hueShift: 100,
+        };
+
+        const result = applyModulation(base, { particleSize: 4.5, hueShift: -200, glowIntensity: 0.5 });
+
+        expect(result.particleSize).toBe(10);
+        expect(result.hueShift).toBe(0);
+        expect(result.glowIntensity).toBe(2.5);
+        expect(result.trailLength).toBe(base.trailLength);
+        expect(base.particleSize).toBe(8);
+    });
+});
@@ -0,0 +1,156 @@
+import type { BandEnergies } from '../audio/bands';
+import { clampToRange, EFFECT_RANGES, type NumericEffect } from '../config/ranges';
+
+export type ModulationSource = 'bass' | 'mid' | 'treble' | 'rms' | 'beat' | 'lfo' | 'time';
+
+export type ModulationCurve = 'linear' | 'exponential' | 'logarithmic' | 'smoothstep' | 'inverse';
+
+export interface ModulationBinding {
+    id: string;
+    source: ModulationSource;
+    target: NumericEffect;
+    depth: number; // -1 to 1, fraction of the target's range
+    offset: number; // -1 to 1, fraction of the target's range
+    attack: number; // Seconds to follow a rising source
+    release: number; // Seconds to follow a falling source
+    curve: ModulationCurve;
+    rate: number; // Hz, used by the lfo and time sources
+}
+
+export interface ModulationInputs {
+    bands: BandEnergies;
+    rms: number; // Of the latest waveform, 1 at full scale
+    beat: number; // Beat envelope, 1 on a beat decaying towards 0
+    time: number; // Seconds
+}
+
+export const MODULATION_SOURCES: Record<ModulationSource, string> = {
+    bass: 'Bass',
+    mid: 'Mid',
+    treble: 'Treble',
+    rms: 'Level (RMS)',
+    beat: 'Beat Envelope',
+    lfo: 'LFO',
+    time: 'Time (Ramp)',
+};
+
+export const MODULATION_CURVES: Record<ModulationCurve, string> = {
+    linear: 'Linear',
+    exponential: 'Exponential',
+    logarithmic: 'Logarithmic',
+    smoothstep: 'S-Curve',
+    inverse: 'Inverse',
+};
+
+// Sources that follow the audio and scale with the audio reactivity setting
+export const AUDIO_SOURCES: ModulationSource[] = ['bass', 'mid', 'treble', 'rms', 'beat'];
+
+let nextBindingId = 0;
+
+export const createBinding = (changes: Partial<ModulationBinding> = {}): ModulationBinding => ({
+    id: `mod-${Date.now().toString(36)}-${nextBindingId++}`,
+    source: 'bass',
+    target: 'particleSize',
+    depth: 0.5,
+    offset: 0,
+    attack: 0.02,
+    release: 0.2,
+    curve: 'linear',
+    rate: 0.5,
+    ...changes,
+});
+
+// The mappings draw() used to hardcode, as editable bindings
+export const DEFAULT_BINDINGS: ModulationBinding[] = [
+    createBinding({ source: 'bass', target: 'particleSize', depth: 0.25, curve: 'exponential' }),
+    createBinding({ source: 'bass', target: 'particleSpeed', depth: 0.5, curve: 'exponential' }),
+    createBinding({ source: 'mid', target: 'connectionDistance', depth: 0.4, curve: 'exponential' }),
+    createBinding({ source: 'treble', target: 'hueShift', depth: 0.5, curve: 'exponential' }),
+];
+
+const readSource = (binding: ModulationBinding, inputs: ModulationInputs) => {
+    switch (binding.source) {
+        case 'bass':
+            return inputs.bands.bass;
+        case 'mid':
+            return inputs.bands.mid;
+        case 'treble':
+            return inputs.bands.treble;
+        case 'rms':
+            return inputs.rms;
+        case 'beat':
+            return inputs.beat;
+        case 'lfo':
+            return 0.5 + 0.5 * Math.sin(inputs.time * binding.rate * Math.PI * 2);
+        case 'time':
+            return (inputs.time * binding.rate) % 1;
+    }
+};
+
+export const applyCurve = (value: number, curve: ModulationCurve) => {
+    const x = Math.min(1, Math.max(0, value));
+    switch (curve) {
+        case 'exponential':
+            return x * x;
+        case 'logarithmic':
+            return Math.sqrt(x);
+        case 'smoothstep':
+            return x * x * (3 - 2 * x);
+        case 'inverse':
+            return 1 - x;
+        case 'linear':
+        default:
+            return x;
+    }
+};
+
+/**
+ * Evaluates a list of bindings every frame. Each binding reads its source
+ * (0-1), shapes it with a curve, smooths it with separate attack and release
+ * times and adds depth/offset, scaled to the target's slider range, on top
+ * of the base value. Smoothing state is kept per binding id.
+ */
+export class ModulationMatrix {
+    private smoothed = new Map<string, number>();
+
+    /** Returns the offsets, in target units, to add to each modulated target. */
+    update(bindings: ModulationBinding[], inputs: ModulationInputs, dt: number, audioScale = 1) {
+        const offsets: Partial<Record<NumericEffect, number>> = {};
+        const active = new Set<string>();
+
+        for (const binding of bindings) {
+            active.add(binding.id);
+            const value = applyCurve(readSource(binding, inputs), binding.curve);
+
+            const previous = this.smoothed.get(binding.id) ?? value;
+            const timeConstant = value > previous ? binding.attack : binding.release;
+            const amount = timeConstant > 0 ? 1 - Math.exp(-dt / timeConstant) : 1;
+            const current = previous + (value - previous) * amount;
+            this.smoothed.set(binding.id, current);
+
+            const range = EFFECT_RANGES[binding.target];
+            const depth = AUDIO_SOURCES.includes(binding.source) ? binding.depth * audioScale : binding.depth;
+            const offset = (binding.offset + depth * current) * (range.max - range.min);
+            offsets[binding.target] = (offsets[binding.target] ?? 0) + offset;
+        }
+
+        // Forget removed bindings
+        for (const id of this.smoothed.keys()) {
+            if (!active.has(id)) this.smoothed.delete(id);
+        }
+
+        return offsets;
+    }
+}
+
+/** Add modulation offsets to base values, clamped to each target's range. */
+export const applyModulation = <T extends Record<NumericEffect, number>>(
+    base: T,
+    offsets: Partial<Record<NumericEffect, number>>
+): T => {
+    const result = { ...base };
+    for (const [target, offset] of Object.entries(offsets) as [NumericEffect, number][]) {
+        result[target] = clampToRange(base[target] + offset, EFFECT_RANGES[target]) as T[NumericEffect];
+    }
+    return result;
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG, DEFAULT_EFFECTS } from '../config/visualizerConfig';
+import {
+    BUILT_IN_PRESETS,
+    createPreset,
+    loadUserPresets,
+    parsePreset,
+    parsePresetJson,
+    PRESET_VERSION,
+    PresetError,
+    renamePreset,
+    saveUserPresets,
+    serializePreset,
+    upsertPreset,
+} from './presets';
+
+const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+    };
+};
+
+const expectPresetError = (action: () => unknown, message: string | RegExp) => {
+    expect(action).toThrow(PresetError);
+    expect(action).toThrow(message);
+};
+
+describe('parsePreset', () => {
+    it('round-trips a serialized preset', () => {
+        const preset = createPreset('Mine', { ...DEFAULT_CONFIG, particleCount: 500 });
+        expect(parsePresetJson(serializePreset(preset))).toEqual(preset);
+    });
+
+    it('accepts every built-in preset', () => {
+        for (const preset of BUILT_IN_PRESETS) {
+            expect(parsePreset(JSON.parse(serializePreset(preset)))).toEqual(preset);
+        }
+    });
+
+    it('migrates version 2 presets', () => {
+        const effects: Record<string, unknown> = { ...DEFAULT_EFFECTS };
+        delete effects.colorBand;
+        const config: Record<string, unknown> = { ...DEFAULT_CONFIG, effects };
+        delete config.palette;
+        const preset = parsePreset({ version: 2, name: 'Before palettes', config });
+
+        expect(preset.version).toBe(PRESET_VERSION);
+        expect(preset.config).toEqual(DEFAULT_CONFIG);
+    });
+
+    it('rejects palettes with too few stops', () => {
+        const preset = createPreset('Flat', { ...DEFAULT_CONFIG, palette: [{ position: 0, color: '#ffffff' }] });
+        expectPresetError(() => parsePreset(preset), '"config.palette" must be a list of 2 to 8 color stops.');
+    });
+
+    it('clamps numbers to the slider ranges', () => {
+        const preset = createPreset('Wide', { ...DEFAULT_CONFIG, particleCount: 1e9 });
+        expect(parsePreset(preset).config.particleCount).toBe(20000);
+    });
+
+    it('names the offending field', () => {
+        const preset = createPreset('Broken', DEFAULT_CONFIG);
+        const broken = { ...preset, config: { ...preset.config, effects: { ...preset.config.effects, particleSize: 'big' } } };
+        expectPresetError(() => parsePreset(broken), '"config.effects.particleSize" must be a number between 1 and 10.');
+
+        const badShape = { ...preset, config: { ...preset.config, effects: { ...preset.config.effects, particleShape: 'star' } } };
+        expectPresetError(() => parsePreset(badShape), /"config\.effects\.particleShape" must be one of "circle"/);
+
+        const missingColor = { ...preset, config: { ...preset.config, particleColor: undefined } };
+        expectPresetError(() => parsePreset(missingColor), '"config.particleColor" must be a hex color');
+    });
+
+    it('rejects unknown versions and non-JSON input', () => {
+        expectPresetError(() => parsePreset({ ...createPreset('Future', DEFAULT_CONFIG), version: 99 }), 'version 99');
+        expectPresetError(() => parsePreset({ name: 'Unversioned' }), 'no valid "version"');
+        expectPresetError(() => parsePreset({ ...createPreset('Too old', DEFAULT_CONFIG), version: 1 }), 'no valid "version"');
+        expectPresetError(() => parsePreset([]), 'must be a JSON object');
+        expectPresetError(() => parsePresetJson('{ not json'), 'not valid JSON');
+    });
+});
+
+describe('user presets', () => {
+    it('persists presets to storage', () => {
+        const storage = memoryStorage();
+        const presets = [createPreset('One', DEFAULT_CONFIG), createPreset('Two', { ...DEFAULT_CONFIG, lineWidth: 4 })];
+        saveUserPresets(presets, storage);
+        expect(loadUserPresets(storage)).toEqual({ presets, error: null });
+    });
+
+    it('skips stored presets that no longer validate', () => {
+        const storage = memoryStorage();
+        storage.setItem('particle-visualizer.presets', JSON.stringify([{ version: 2, name: 'Bad' }, createPreset('Good', DEFAULT_CONFIG)]));
+        const { presets, error } = loadUserPresets(storage);
+
+        expect(presets.map(p => p.name)).toEqual(['Good']);
+        expect(error).toBe('Left out saved presets that could not be read: "Bad".');
+    });
+
+    it('reports storage the browser blocks or that is full instead of throwing', () => {
+        const blocked = {
+            getItem: () => {
+                throw new DOMException('The operation is insecure.', 'SecurityError');
+            },
+            setItem: () => {
+                throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+            },
+        };
+
+        expect(loadUserPresets(blocked)).toEqual({ presets: [], error: expect.stringContaining('blocks storage') });
+        expectPresetError(() => saveUserPresets([createPreset('One', DEFAULT_CONFIG)], blocked), 'storage is full');
+    });
+
+    it('reports saved presets that are not valid JSON', () => {
+        const storage = memoryStorage();
+        storage.setItem('particle-visualizer.presets', '{ not json');
+        expect(loadUserPresets(storage)).toEqual({ presets: [], error: 'The saved presets could not be read.' });
+    });
+
+    it('replaces presets with the same name on save', () => {
+        const first = createPreset('Same', DEFAULT_CONFIG);
+        const second = createPreset('Same', { ...DEFAULT_CONFIG, lineWidth: 5 });
+        expect(upsertPreset([first], second)).toEqual([second]);
+    });
+
+    it('refuses to rename onto an existing name', () => {
+        const presets = [createPreset('A', DEFAULT_CONFIG), createPreset('B', DEFAULT_CONFIG)];
+        expectPresetError(() => renamePreset(presets, 'A', 'B'), 'already exists');
+        expect(renamePreset(presets, 'A', ' C ').map(p => p.name)).toEqual(['C', 'B']);
+    });
+});
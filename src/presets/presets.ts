@@ -0,0 +1,301 @@
+import { AUDIO_REACTIVITY_RANGE, CONFIG_RANGES, EFFECT_RANGES, clampToRange, type ParamRange } from '../config/ranges';
+import {
+    COLOR_BANDS,
+    COLOR_MODES,
+    DEFAULT_CONFIG,
+    DEFAULT_EFFECTS,
+    LINE_STYLES,
+    PARTICLE_SHAPES,
+    type EffectsConfig,
+    type VisualizerConfig,
+} from '../config/visualizerConfig';
+import { isHexColor } from '../engine/color';
+import { BUILT_IN_PALETTES, MAX_PALETTE_STOPS, MIN_PALETTE_STOPS, type ColorStop } from '../engine/palettes';
+
+export const PRESET_VERSION = 3;
+
+// The format the first release with presets saved
+const FIRST_PRESET_VERSION = 2;
+
+export interface Preset {
+    version: typeof PRESET_VERSION;
+    name: string;
+    config: VisualizerConfig;
+}
+
+/** Thrown when a preset cannot be read. The message is meant to be shown to the user. */
+export class PresetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PresetError';
+    }
+}
+
+type Json = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each migration lifts a preset from its version to the next one
+const MIGRATIONS: Record<number, (preset: Json) => Json> = {
+    // Version 2 predates palettes
+    2: ({ name, config }) => ({
+        version: 3,
+        name,
+        config: isObject(config)
+            ? {
+                palette: DEFAULT_CONFIG.palette,
+                ...config,
+                effects: isObject(config.effects) ? { colorBand: DEFAULT_EFFECTS.colorBand, ...config.effects } : config.effects,
+            }
+            : config,
+    }),
+};
+
+const fail = (path: string, expected: string): never => {
+    throw new PresetError(`"${path}" must be ${expected}.`);
+};
+
+// Field readers, shared with the timeline format. Each throws a PresetError naming the field.
+
+export const readObject = (value: unknown, path: string) => (isObject(value) ? value : fail(path, 'an object'));
+
+// Numbers outside the slider range are clamped rather than rejected, ranges may change between versions
+export const readNumber = (value: unknown, path: string, range: ParamRange) =>
+    typeof value === 'number' && Number.isFinite(value)
+        ? clampToRange(value, range)
+        : fail(path, `a number between ${range.min} and ${range.max}`);
+
+export const readBoolean = (value: unknown, path: string) => (typeof value === 'boolean' ? value : fail(path, 'true or false'));
+
+export const readChoice = <T extends string>(value: unknown, path: string, choices: readonly T[]) =>
+    choices.includes(value as T) ? (value as T) : fail(path, `one of ${choices.map(choice => `"${choice}"`).join(', ')}`);
+
+export const readColor = (value: unknown, path: string) =>
+    typeof value === 'string' && isHexColor(value) ? value.toLowerCase() : fail(path, 'a hex color such as "#ffffff"');
+
+const POSITION_RANGE: ParamRange = { label: 'Position', min: 0, max: 1, step: 0.01 };
+
+const readPalette = (value: unknown): ColorStop[] => {
+    if (!Array.isArray(value) || value.length < MIN_PALETTE_STOPS || value.length > MAX_PALETTE_STOPS) {
+        return fail('config.palette', `a list of ${MIN_PALETTE_STOPS} to ${MAX_PALETTE_STOPS} color stops`);
+    }
+    return value.map((entry, index) => {
+        const stop = readObject(entry, `config.palette.${index}`);
+        return {
+            position: readNumber(stop.position, `config.palette.${index}.position`, POSITION_RANGE),
+            color: readColor(stop.color, `config.palette.${index}.color`),
+        };
+    });
+};
+
+const readName = (value: unknown) =>
+    typeof value === 'string' && value.trim() ? value.trim() : fail('name', 'a non-empty string');
+
+const readEffects = (value: unknown): EffectsConfig => {
+    const effects = readObject(value, 'config.effects');
+    const number = (key: keyof typeof EFFECT_RANGES) => readNumber(effects[key], `config.effects.${key}`, EFFECT_RANGES[key]);
+    return {
+        colorMode: readChoice(effects.colorMode, 'config.effects.colorMode', COLOR_MODES),
+        colorBand: readChoice(effects.colorBand, 'config.effects.colorBand', COLOR_BANDS),
+        particleShape: readChoice(effects.particleShape, 'config.effects.particleShape', PARTICLE_SHAPES),
+        lineStyle: readChoice(effects.lineStyle, 'config.effects.lineStyle', LINE_STYLES),
+        trailLength: number('trailLength'),
+        particleSize: number('particleSize'),
+        connectionDistance: number('connectionDistance'),
+        glowEffect: readBoolean(effects.glowEffect, 'config.effects.glowEffect'),
+        glowIntensity: number('glowIntensity'),
+        mouseRepulsion: number('mouseRepulsion'),
+        mouseForce: number('mouseForce'),
+        audioReactivity: readNumber(effects.audioReactivity, 'config.effects.audioReactivity', AUDIO_REACTIVITY_RANGE),
+        particleSpeed: number('particleSpeed'),
+        hueShift: number('hueShift'),
+    };
+};
+
+const readConfig = (value: unknown): VisualizerConfig => {
+    const config = readObject(value, 'config');
+    return {
+        particleCount: readNumber(config.particleCount, 'config.particleCount', CONFIG_RANGES.particleCount),
+        maxConnections: readNumber(config.maxConnections, 'config.maxConnections', CONFIG_RANGES.maxConnections),
+        lineWidth: readNumber(config.lineWidth, 'config.lineWidth', CONFIG_RANGES.lineWidth),
+        particleColor: readColor(config.particleColor, 'config.particleColor'),
+        palette: readPalette(config.palette),
+        effects: readEffects(config.effects),
+    };
+};
+
+/**
+ * Validate a parsed preset of any known version and migrate it to the current
+ * schema. Unknown fields are dropped; anything missing or of the wrong type
+ * throws a PresetError naming the field.
+ */
+export const parsePreset = (value: unknown): Preset => {
+    if (!isObject(value)) throw new PresetError('A preset must be a JSON object.');
+
+    let preset = value;
+    const version = preset.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < FIRST_PRESET_VERSION) {
+        throw new PresetError('The preset has no valid "version" number.');
+    }
+    if (version > PRESET_VERSION) {
+        throw new PresetError(`The preset uses format version ${version}, this visualizer only reads up to version ${PRESET_VERSION}.`);
+    }
+    for (let from = version; from < PRESET_VERSION; from++) {
+        preset = MIGRATIONS[from](preset);
+    }
+
+    return {
+        version: PRESET_VERSION,
+        name: readName(preset.name),
+        config: readConfig(preset.config),
+    };
+};
+
+/** Parse the text of an imported preset file. */
+export const parsePresetJson = (text: string) => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        throw new PresetError('The file is not valid JSON.');
+    }
+    return parsePreset(value);
+};
+
+export const serializePreset = (preset: Preset) => JSON.stringify(preset, null, 2);
+
+export const createPreset = (name: string, config: VisualizerConfig): Preset => ({
+    version: PRESET_VERSION,
+    name: name.trim(),
+    config,
+});
+
+const builtIn = (name: string, config: Omit<Partial<VisualizerConfig>, 'effects'>, effects: Partial<EffectsConfig>) =>
+    createPreset(name, { ...DEFAULT_CONFIG, ...config, effects: { ...DEFAULT_EFFECTS, ...effects } });
+
+export const BUILT_IN_PRESETS: readonly Preset[] = [
+    createPreset('Default', DEFAULT_CONFIG),
+    builtIn(
+        'Constellation',
+        { particleCount: 250, lineWidth: 1, particleColor: '#cfe3ff' },
+        { trailLength: 0, connectionDistance: 180, particleSpeed: 0.5 }
+    ),
+    builtIn(
+        'Nebula',
+        { particleCount: 1500, maxConnections: 3000, lineWidth: 1, particleColor: '#8a7dff' },
+        {
+            colorMode: 'rainbow',
+            lineStyle: 'gradient',
+            trailLength: 0.8,
+            connectionDistance: 90,
+            glowEffect: true,
+            glowIntensity: 1.5,
+            particleSpeed: 0.6,
+        }
+    ),
+    builtIn(
+        'Neon Web',
+        { particleCount: 400, lineWidth: 2 },
+        {
+            colorMode: 'rainbow',
+            particleShape: 'triangle',
+            lineStyle: 'gradient',
+            trailLength: 0.3,
+            particleSize: 3,
+            connectionDistance: 150,
+            glowEffect: true,
+            glowIntensity: 2.5,
+        }
+    ),
+    builtIn(
+        'Swarm',
+        { particleCount: 6000, maxConnections: 0, lineWidth: 1, particleColor: '#ffb347' },
+        {
+            particleShape: 'square',
+            trailLength: 0.5,
+            particleSize: 1,
+            particleSpeed: 2,
+            mouseRepulsion: 150,
+            mouseForce: 6,
+        }
+    ),
+    builtIn(
+        'Embers',
+        { particleCount: 800, maxConnections: 2000, lineWidth: 1, palette: BUILT_IN_PALETTES[2].stops },
+        {
+            colorMode: 'velocity',
+            trailLength: 0.6,
+            connectionDistance: 80,
+            glowEffect: true,
+            glowIntensity: 1.5,
+            particleSpeed: 1.5,
+        }
+    ),
+];
+
+const STORAGE_KEY = 'particle-visualizer.presets';
+
+export interface StoredPresets {
+    presets: Preset[];
+    error: string | null; // Why saved presets are missing, to show the user
+}
+
+// Storage is read inside try blocks, since even touching localStorage throws
+// where the browser blocks it, e.g. in a sandboxed frame
+
+/** Read the user's saved presets, skipping entries that no longer validate. */
+export const loadUserPresets = (storage?: Pick<Storage, 'getItem'>): StoredPresets => {
+    let text: string | null;
+    try {
+        text = (storage ?? localStorage).getItem(STORAGE_KEY);
+    } catch {
+        return { presets: [], error: 'Saved presets are not available, the browser blocks storage here.' };
+    }
+    let stored: unknown;
+    try {
+        stored = JSON.parse(text ?? '[]');
+    } catch {
+        stored = null;
+    }
+    if (!Array.isArray(stored)) return { presets: [], error: 'The saved presets could not be read.' };
+
+    const presets: Preset[] = [];
+    const skipped: string[] = [];
+    for (const entry of stored) {
+        try {
+            presets.push(parsePreset(entry));
+        } catch {
+            skipped.push(isObject(entry) && typeof entry.name === 'string' ? `"${entry.name}"` : 'an unnamed preset');
+        }
+    }
+    return { presets, error: skipped.length ? `Left out saved presets that could not be read: ${skipped.join(', ')}.` : null };
+};
+
+/** Store the user's presets. Throws a PresetError when the browser refuses. */
+export const saveUserPresets = (presets: readonly Preset[], storage?: Pick<Storage, 'setItem'>) => {
+    try {
+        (storage ?? localStorage).setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+        const reason = error instanceof DOMException && error.name === 'QuotaExceededError'
+            ? 'the browser storage is full'
+            : 'the browser blocks storage here';
+        throw new PresetError(`Could not store presets: ${reason}.`);
+    }
+};
+
+/** Add a preset, replacing any existing one with the same name. */
+export const upsertPreset = (presets: readonly Preset[], preset: Preset) => {
+    const index = presets.findIndex(p => p.name === preset.name);
+    return index === -1 ? [...presets, preset] : presets.map((p, i) => (i === index ? preset : p));
+};
+
+export const renamePreset = (presets: readonly Preset[], from: string, to: string) => {
+    const name = to.trim();
+    if (!name) throw new PresetError('A preset name cannot be empty.');
+    if (name !== from && presets.some(p => p.name === name)) {
+        throw new PresetError(`A preset named "${name}" already exists.`);
+    }
+    return presets.map(p => (p.name === from ? { ...p, name } : p));
+};
+
+export const removePreset = (presets: readonly Preset[], name: string) => presets.filter(p => p.name !== name);
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../config/visualizerConfig';
+import { createPreset, PresetError } from './presets';
+import {
+    applyEasing,
+    createKeyframe,
+    createScene,
+    createTrack,
+    EMPTY_TIMELINE,
+    evaluateTimeline,
+    evaluateTrack,
+    parseTimeline,
+    parseTimelineJson,
+    serializeTimeline,
+    type Timeline,
+} from './timeline';
+
+const withEffects = (name: string, effects: Partial<typeof DEFAULT_CONFIG.effects>, changes: Partial<typeof DEFAULT_CONFIG> = {}) =>
+    createPreset(name, { ...DEFAULT_CONFIG, ...changes, effects: { ...DEFAULT_CONFIG.effects, ...effects } });
+
+// Ids are assigned afresh when a timeline is read, so compare without them
+const withoutIds = (timeline: Timeline) => JSON.parse(serializeTimeline(timeline));
+
+describe('applyEasing', () => {
+    it('starts at 0 and ends at 1 for every curve', () => {
+        for (const easing of ['linear', 'easeIn', 'easeOut', 'easeInOut'] as const) {
+            expect(applyEasing(0, easing)).toBe(0);
+            expect(applyEasing(1, easing)).toBe(1);
+        }
+    });
+
+    it('holds until the end for step', () => {
+        expect(applyEasing(0.99, 'step')).toBe(0);
+        expect(applyEasing(1, 'step')).toBe(1);
+    });
+});
+
+describe('evaluateTrack', () => {
+    const track = createTrack('trailLength', [createKeyframe(2, 0.2), createKeyframe(4, 0.6), createKeyframe(6, 1, 'easeIn')]);
+
+    it('holds the first and last values beyond the ends', () => {
+        expect(evaluateTrack(track, 0)).toBe(0.2);
+        expect(evaluateTrack(track, 10)).toBe(1);
+    });
+
+    it('interpolates with the easing of the keyframe being approached', () => {
+        expect(evaluateTrack(track, 3)).toBeCloseTo(0.4);
+        // Ease in covers a quarter of the way at the halfway point
+        expect(evaluateTrack(track, 5)).toBeCloseTo(0.7);
+    });
+
+    it('rounds counts and blends colors', () => {
+        expect(evaluateTrack(createTrack('particleCount', [createKeyframe(0, 100), createKeyframe(1, 201)]), 0.5)).toBe(151);
+        expect(evaluateTrack(createTrack('particleColor', [createKeyframe(0, '#000000'), createKeyframe(1, '#ffffff')]), 0.5)).toBe('#808080');
+    });
+
+    it('switches choices exactly at their keyframe', () => {
+        const shapes = createTrack('particleShape', [createKeyframe(0, 'circle'), createKeyframe(4, 'square')]);
+        expect(evaluateTrack(shapes, 3.9)).toBe('circle');
+        expect(evaluateTrack(shapes, 4)).toBe('square');
+    });
+
+    it('has no value without keyframes', () => {
+        expect(evaluateTrack(createTrack('hueShift'), 1)).toBeNull();
+    });
+});
+
+describe('evaluateTimeline', () => {
+    const calm = withEffects('Calm', { trailLength: 0.2, particleShape: 'circle' }, { particleColor: '#000000' });
+    const busy = withEffects('Busy', { trailLength: 0.8, particleShape: 'square' }, { particleColor: '#ffffff' });
+
+    it('returns the base settings when nothing applies', () => {
+        expect(evaluateTimeline(EMPTY_TIMELINE, DEFAULT_CONFIG, 5)).toBe(DEFAULT_CONFIG);
+        const later = { scenes: [createScene(10, calm)], tracks: [] };
+        expect(evaluateTimeline(later, DEFAULT_CONFIG, 5)).toBe(DEFAULT_CONFIG);
+    });
+
+    it('crossfades from the previous scene', () => {
+        const timeline = { scenes: [createScene(0, calm, 0), createScene(10, busy, 2)], tracks: [] };
+        expect(evaluateTimeline(timeline, DEFAULT_CONFIG, 5)).toBe(calm.config);
+        const halfway = evaluateTimeline(timeline, DEFAULT_CONFIG, 11);
+        expect(halfway.effects.trailLength).toBeCloseTo(0.5);
+        expect(halfway.particleColor).toBe('#808080');
+        expect(evaluateTimeline(timeline, DEFAULT_CONFIG, 12)).toBe(busy.config);
+    });
+
+    it('starts a crossfade from wherever an overlapping one had got to', () => {
+        const timeline = { scenes: [createScene(0, calm, 0), createScene(10, busy, 4), createScene(12, calm, 100)], tracks: [] };
+        // The second crossfade was halfway, so the third starts from the midpoint
+        const start = evaluateTimeline(timeline, DEFAULT_CONFIG, 12);
+        expect(start.effects.trailLength).toBeCloseTo(0.5);
+    });
+
+    it('applies enabled tracks on top of the scene', () => {
+        const track = createTrack('trailLength', [createKeyframe(0, 0.9)]);
+        const timeline = { scenes: [createScene(0, calm, 0)], tracks: [track] };
+        expect(evaluateTimeline(timeline, DEFAULT_CONFIG, 1).effects.trailLength).toBe(0.9);
+        const disabled = { ...timeline, tracks: [{ ...track, enabled: false }] };
+        expect(evaluateTimeline(disabled, DEFAULT_CONFIG, 1).effects.trailLength).toBe(0.2);
+    });
+});
+
+describe('parseTimeline', () => {
+    const timeline: Timeline = {
+        scenes: [createScene(0, withEffects('Intro', { trailLength: 0.4 })), createScene(30, withEffects('Drop', { glowEffect: true }), 0.5)],
+        tracks: [
+            createTrack('hueShift', [createKeyframe(0, 0), createKeyframe(60, 360, 'easeInOut')]),
+            { ...createTrack('colorMode', [createKeyframe(15, 'rainbow', 'step')]), enabled: false },
+        ],
+    };
+
+    it('round-trips a serialized timeline', () => {
+        expect(withoutIds(parseTimelineJson(serializeTimeline(timeline)))).toEqual(withoutIds(timeline));
+    });
+
+    it('names the field that does not validate', () => {
+        const value = withoutIds(timeline);
+        value.tracks[0].keyframes[1].value = 'red';
+        expect(() => parseTimeline(value)).toThrow(PresetError);
+        expect(() => parseTimeline(value)).toThrow('"tracks.0.keyframes.1.value" must be a number');
+    });
+
+    it('points at the scene when its preset is invalid', () => {
+        const value = withoutIds(timeline);
+        delete value.scenes[1].preset.config.effects.glowEffect;
+        expect(() => parseTimeline(value)).toThrow('scenes.1.preset: "config.effects.glowEffect" must be true or false.');
+    });
+
+    it('rejects other format versions', () => {
+        expect(() => parseTimeline({ ...withoutIds(timeline), version: 2 })).toThrow('format version 2');
+    });
+});
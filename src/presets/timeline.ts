@@ -0,0 +1,337 @@
+import { AUDIO_REACTIVITY_RANGE, CONFIG_RANGES, EFFECT_RANGES, clampToRange, type ParamRange } from '../config/ranges';
+import {
+    COLOR_BANDS,
+    COLOR_MODES,
+    LINE_STYLES,
+    PARTICLE_SHAPES,
+    type EffectsConfig,
+    type VisualizerConfig,
+} from '../config/visualizerConfig';
+import { hexToRgb, mixRgb, rgbToHex } from '../engine/color';
+import { MAX_PALETTE_STOPS, samplePalette, type ColorStop } from '../engine/palettes';
+import {
+    isObject,
+    parsePreset,
+    PresetError,
+    readBoolean,
+    readChoice,
+    readColor,
+    readNumber,
+    readObject,
+    type Preset,
+} from './presets';
+
+export const TIMELINE_VERSION = 1;
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export const EASINGS: Record<Easing, string> = {
+    linear: 'Linear',
+    easeIn: 'Ease In',
+    easeOut: 'Ease Out',
+    easeInOut: 'Ease In-Out',
+    step: 'Hold',
+};
+
+type ConfigTarget = 'particleCount' | 'maxConnections' | 'lineWidth' | 'particleColor';
+
+// Top-level settings and every effects field can be keyframed
+export type TimelineTarget = ConfigTarget | keyof EffectsConfig;
+
+export type TimelineValue = number | string | boolean;
+
+export type TimelineTargetInfo =
+    | { type: 'number'; label: string; range: ParamRange; integer?: boolean }
+    | { type: 'color'; label: string }
+    | { type: 'choice'; label: string; choices: readonly string[] }
+    | { type: 'boolean'; label: string };
+
+export const TIMELINE_TARGETS: Record<TimelineTarget, TimelineTargetInfo> = {
+    particleCount: { type: 'number', label: CONFIG_RANGES.particleCount.label, range: CONFIG_RANGES.particleCount, integer: true },
+    maxConnections: { type: 'number', label: CONFIG_RANGES.maxConnections.label, range: CONFIG_RANGES.maxConnections, integer: true },
+    lineWidth: { type: 'number', label: CONFIG_RANGES.lineWidth.label, range: CONFIG_RANGES.lineWidth },
+    particleColor: { type: 'color', label: 'Particle Color' },
+    colorMode: { type: 'choice', label: 'Color Mode', choices: COLOR_MODES },
+    colorBand: { type: 'choice', label: 'Palette Band', choices: COLOR_BANDS },
+    particleShape: { type: 'choice', label: 'Particle Shape', choices: PARTICLE_SHAPES },
+    lineStyle: { type: 'choice', label: 'Line Style', choices: LINE_STYLES },
+    trailLength: { type: 'number', label: EFFECT_RANGES.trailLength.label, range: EFFECT_RANGES.trailLength },
+    particleSize: { type: 'number', label: EFFECT_RANGES.particleSize.label, range: EFFECT_RANGES.particleSize },
+    connectionDistance: { type: 'number', label: EFFECT_RANGES.connectionDistance.label, range: EFFECT_RANGES.connectionDistance },
+    glowEffect: { type: 'boolean', label: 'Glow Effect' },
+    glowIntensity: { type: 'number', label: EFFECT_RANGES.glowIntensity.label, range: EFFECT_RANGES.glowIntensity },
+    mouseRepulsion: { type: 'number', label: EFFECT_RANGES.mouseRepulsion.label, range: EFFECT_RANGES.mouseRepulsion },
+    mouseForce: { type: 'number', label: EFFECT_RANGES.mouseForce.label, range: EFFECT_RANGES.mouseForce },
+    audioReactivity: { type: 'number', label: AUDIO_REACTIVITY_RANGE.label, range: AUDIO_REACTIVITY_RANGE },
+    particleSpeed: { type: 'number', label: EFFECT_RANGES.particleSpeed.label, range: EFFECT_RANGES.particleSpeed },
+    hueShift: { type: 'number', label: EFFECT_RANGES.hueShift.label, range: EFFECT_RANGES.hueShift },
+};
+
+const CONFIG_TARGETS: readonly string[] = ['particleCount', 'maxConnections', 'lineWidth', 'particleColor'];
+
+export const TIME_RANGE: ParamRange = { label: 'Time (s)', min: 0, max: 3600, step: 0.1 };
+export const TRANSITION_RANGE: ParamRange = { label: 'Crossfade (s)', min: 0, max: 30, step: 0.1 };
+
+export interface Keyframe {
+    id: string;
+    time: number; // Seconds into the track
+    value: TimelineValue;
+    easing: Easing; // Curve from the previous keyframe to this one
+}
+
+export interface TimelineTrack {
+    id: string;
+    target: TimelineTarget;
+    enabled: boolean;
+    keyframes: Keyframe[]; // Kept in time order
+}
+
+/** A whole preset taking over at a point in the track. */
+export interface Scene {
+    id: string;
+    time: number;
+    transition: number; // Seconds to crossfade from the look before the scene
+    preset: Preset; // A copy, so the timeline still plays after the preset is deleted
+}
+
+export interface Timeline {
+    scenes: Scene[]; // Kept in time order
+    tracks: TimelineTrack[];
+}
+
+export const EMPTY_TIMELINE: Timeline = { scenes: [], tracks: [] };
+
+let nextTimelineId = 0;
+
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${nextTimelineId++}`;
+
+export const createKeyframe = (time: number, value: TimelineValue, easing: Easing = 'linear'): Keyframe => ({
+    id: createId('key'),
+    time,
+    value,
+    easing,
+});
+
+export const createTrack = (target: TimelineTarget, keyframes: Keyframe[] = []): TimelineTrack => ({
+    id: createId('track'),
+    target,
+    enabled: true,
+    keyframes: sortByTime(keyframes),
+});
+
+export const createScene = (time: number, preset: Preset, transition = 2): Scene => ({
+    id: createId('scene'),
+    time,
+    transition,
+    preset,
+});
+
+export const sortByTime = <T extends { time: number }>(items: readonly T[]) => [...items].sort((a, b) => a.time - b.time);
+
+export const getTargetValue = (config: VisualizerConfig, target: TimelineTarget): TimelineValue =>
+    CONFIG_TARGETS.includes(target) ? config[target as ConfigTarget] : config.effects[target as keyof EffectsConfig];
+
+export const setTargetValue = (config: VisualizerConfig, target: TimelineTarget, value: TimelineValue): VisualizerConfig =>
+    CONFIG_TARGETS.includes(target)
+        ? { ...config, [target]: value }
+        : { ...config, effects: { ...config.effects, [target]: value } };
+
+export const applyEasing = (progress: number, easing: Easing) => {
+    const x = Math.min(1, Math.max(0, progress));
+    switch (easing) {
+        case 'easeIn':
+            return x * x;
+        case 'easeOut':
+            return x * (2 - x);
+        case 'easeInOut':
+            return x * x * (3 - 2 * x);
+        case 'step':
+            return x < 1 ? 0 : 1;
+        case 'linear':
+        default:
+            return x;
+    }
+};
+
+/** Blend two values of a target. Choices and switches flip halfway. */
+const mixValue = (info: TimelineTargetInfo, a: TimelineValue, b: TimelineValue, amount: number): TimelineValue => {
+    if (amount <= 0) return a;
+    if (amount >= 1) return b;
+    switch (info.type) {
+        case 'number': {
+            const value = clampToRange((a as number) + ((b as number) - (a as number)) * amount, info.range);
+            return info.integer ? Math.round(value) : value;
+        }
+        case 'color':
+            return rgbToHex(mixRgb(hexToRgb(a as string), hexToRgb(b as string), amount));
+        default:
+            return amount < 0.5 ? a : b;
+    }
+};
+
+/** Evenly spaced stops sampled from both palettes and blended, so any two gradients can crossfade. */
+const mixPalettes = (a: ColorStop[], b: ColorStop[], amount: number): ColorStop[] => {
+    if (amount <= 0) return a;
+    if (amount >= 1) return b;
+    return Array.from({ length: MAX_PALETTE_STOPS }, (_, i) => {
+        const position = i / (MAX_PALETTE_STOPS - 1);
+        return { position, color: rgbToHex(mixRgb(samplePalette(a, position), samplePalette(b, position), amount)) };
+    });
+};
+
+export const mixConfigs = (a: VisualizerConfig, b: VisualizerConfig, amount: number): VisualizerConfig => {
+    if (amount <= 0) return a;
+    if (amount >= 1) return b;
+    let config: VisualizerConfig = { ...a, palette: mixPalettes(a.palette, b.palette, amount) };
+    for (const [target, info] of Object.entries(TIMELINE_TARGETS) as [TimelineTarget, TimelineTargetInfo][]) {
+        config = setTargetValue(config, target, mixValue(info, getTargetValue(a, target), getTargetValue(b, target), amount));
+    }
+    return config;
+};
+
+/** Value of a track at a time, holding the first and last keyframes beyond the ends. Null without keyframes. */
+export const evaluateTrack = (track: TimelineTrack, time: number): TimelineValue | null => {
+    const { keyframes } = track;
+    if (!keyframes.length) return null;
+    if (time <= keyframes[0].time) return keyframes[0].value;
+
+    for (let i = 1; i < keyframes.length; i++) {
+        const next = keyframes[i];
+        if (time < next.time) {
+            const previous = keyframes[i - 1];
+            const info = TIMELINE_TARGETS[track.target];
+            // Choices and switches change exactly at their keyframe
+            if (info.type === 'choice' || info.type === 'boolean') return previous.value;
+            const progress = (time - previous.time) / (next.time - previous.time);
+            return mixValue(info, previous.value, next.value, applyEasing(progress, next.easing));
+        }
+    }
+    return keyframes[keyframes.length - 1].value;
+};
+
+/** The look of the scene at the index, crossfading from whatever showed when it started. */
+const evaluateScene = (scenes: readonly Scene[], index: number, base: VisualizerConfig, time: number): VisualizerConfig => {
+    if (index < 0) return base;
+    const scene = scenes[index];
+    const progress = scene.transition > 0 ? (time - scene.time) / scene.transition : 1;
+    if (progress >= 1) return scene.preset.config;
+    const from = evaluateScene(scenes, index - 1, base, scene.time);
+    return mixConfigs(from, scene.preset.config, applyEasing(progress, 'easeInOut'));
+};
+
+/**
+ * The settings at a point in the track: the latest scene (or the base
+ * settings before the first one), with the keyframed tracks on top. Returns
+ * the base itself when nothing on the timeline applies, so its identity can
+ * be compared.
+ */
+export const evaluateTimeline = ({ scenes, tracks }: Timeline, base: VisualizerConfig, time: number): VisualizerConfig => {
+    let index = -1;
+    while (index + 1 < scenes.length && scenes[index + 1].time <= time) index++;
+    let config = evaluateScene(scenes, index, base, time);
+
+    for (const track of tracks) {
+        if (!track.enabled) continue;
+        const value = evaluateTrack(track, time);
+        if (value !== null) config = setTargetValue(config, track.target, value);
+    }
+    return config;
+};
+
+/** Seconds of the last scene crossfade or keyframe, to size the timeline view. */
+export const getTimelineEnd = ({ scenes, tracks }: Timeline) =>
+    Math.max(
+        0,
+        ...scenes.map(scene => scene.time + scene.transition),
+        ...tracks.flatMap(track => track.keyframes.map(keyframe => keyframe.time))
+    );
+
+const readValue = (value: unknown, path: string, info: TimelineTargetInfo): TimelineValue => {
+    switch (info.type) {
+        case 'number': {
+            const number = readNumber(value, path, info.range);
+            return info.integer ? Math.round(number) : number;
+        }
+        case 'color':
+            return readColor(value, path);
+        case 'choice':
+            return readChoice(value, path, info.choices);
+        case 'boolean':
+            return readBoolean(value, path);
+    }
+};
+
+const readList = (value: unknown, path: string): unknown[] => {
+    if (!Array.isArray(value)) throw new PresetError(`"${path}" must be a list.`);
+    return value;
+};
+
+const readScene = (value: unknown, index: number): Scene => {
+    const path = `scenes.${index}`;
+    const scene = readObject(value, path);
+    let preset: Preset;
+    try {
+        preset = parsePreset(scene.preset);
+    } catch (error) {
+        // Point at the scene, the preset's own message names the field
+        throw error instanceof PresetError ? new PresetError(`${path}.preset: ${error.message}`) : error;
+    }
+    return createScene(readNumber(scene.time, `${path}.time`, TIME_RANGE), preset, readNumber(scene.transition, `${path}.transition`, TRANSITION_RANGE));
+};
+
+const readTrack = (value: unknown, index: number): TimelineTrack => {
+    const path = `tracks.${index}`;
+    const track = readObject(value, path);
+    const target = readChoice(track.target, `${path}.target`, Object.keys(TIMELINE_TARGETS) as TimelineTarget[]);
+    const keyframes = readList(track.keyframes, `${path}.keyframes`).map((entry, i) => {
+        const keyframe = readObject(entry, `${path}.keyframes.${i}`);
+        return createKeyframe(
+            readNumber(keyframe.time, `${path}.keyframes.${i}.time`, TIME_RANGE),
+            readValue(keyframe.value, `${path}.keyframes.${i}.value`, TIMELINE_TARGETS[target]),
+            readChoice(keyframe.easing, `${path}.keyframes.${i}.easing`, Object.keys(EASINGS) as Easing[])
+        );
+    });
+    return { ...createTrack(target, keyframes), enabled: readBoolean(track.enabled, `${path}.enabled`) };
+};
+
+/**
+ * Validate a parsed timeline file. Scenes carry whole presets, which are
+ * migrated like imported presets; ids are assigned afresh.
+ */
+export const parseTimeline = (value: unknown): Timeline => {
+    if (!isObject(value)) throw new PresetError('A timeline must be a JSON object.');
+    if (value.version !== TIMELINE_VERSION) {
+        throw new PresetError(`The timeline uses format version ${String(value.version)}, this visualizer reads version ${TIMELINE_VERSION}.`);
+    }
+    return {
+        scenes: sortByTime(readList(value.scenes, 'scenes').map(readScene)),
+        tracks: readList(value.tracks, 'tracks').map(readTrack),
+    };
+};
+
+/** Parse the text of an imported timeline file. */
+export const parseTimelineJson = (text: string) => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        throw new PresetError('The file is not valid JSON.');
+    }
+    return parseTimeline(value);
+};
+
+// Ids only matter while editing, so they are left out of the file
+export const serializeTimeline = ({ scenes, tracks }: Timeline) =>
+    JSON.stringify(
+        {
+            version: TIMELINE_VERSION,
+            scenes: scenes.map(({ time, transition, preset }) => ({ time, transition, preset })),
+            tracks: tracks.map(({ target, enabled, keyframes }) => ({
+                target,
+                enabled,
+                keyframes: keyframes.map(({ time, value, easing }) => ({ time, value, easing })),
+            })),
+        },
+        null,
+        2
+    );
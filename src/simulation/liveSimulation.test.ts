@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SILENT_BANDS } from '../audio/bands';
+import { DEFAULT_CONFIG } from '../config/visualizerConfig';
+import { DEFAULT_BEAT_REACTIONS } from '../engine/beatReactions';
+import { TAP_BURST_SIZE } from '../engine/interaction';
+import { LiveSimulation } from './liveSimulation';
+import type { SimulationEvent } from './messages';
+
+const FRAME = 1000 / 60;
+
+// A canvas whose 2D context takes any call, recording the method names
+const createFakeCanvas = (calls: string[] = []) => {
+    const result = { addColorStop: () => {}, data: new Uint8ClampedArray(0) };
+    const canvas = {
+        width: 300,
+        height: 150,
+        getContext: (type: string) => (type === '2d' ? context : null),
+    };
+    const context: object = new Proxy<Record<PropertyKey, unknown>>({ canvas }, {
+        get: (target, name) => name in target ? target[name] : () => {
+            calls.push(String(name));
+            return result;
+        },
+    });
+    return canvas;
+};
+
+const createSimulation = () => {
+    const simulation = new LiveSimulation({ width: 640, height: 360, seed: 7, config: { ...DEFAULT_CONFIG, particleCount: 40 } });
+    const events: SimulationEvent[] = [];
+    simulation.onEvent = (event) => events.push(event);
+    return { simulation, events };
+};
+
+// Frames at a steady rate, frameTime milliseconds apart
+const runFrames = (simulation: LiveSimulation, count: number, frameTime = FRAME, start = 0) => {
+    for (let i = 0; i < count; i++) simulation.frame(start + i * frameTime);
+};
+
+describe('LiveSimulation', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('draws with Canvas2D on the main thread where there is no OffscreenCanvas', () => {
+        vi.stubGlobal('OffscreenCanvas', undefined);
+        vi.stubGlobal('document', { createElement: () => createFakeCanvas() });
+        const { simulation, events } = createSimulation();
+        const calls: string[] = [];
+
+        simulation.handle({ type: 'canvas', canvas: createFakeCanvas(calls) as unknown as HTMLCanvasElement, renderer: 'auto' });
+        simulation.handle({ type: 'resize', width: 640, height: 360, canvasWidth: 640, canvasHeight: 360, pixelRatio: 1 });
+        runFrames(simulation, 2);
+
+        expect(events).toContainEqual({ type: 'renderer', kind: 'canvas2d', error: null });
+        // The scene layer is presented on the output canvas every frame
+        expect(calls.filter(name => name === 'drawImage')).toHaveLength(2);
+    });
+
+    it('bursts from the centre on a beat from the audio frames', () => {
+        const { simulation } = createSimulation();
+        simulation.handle({ type: 'settings', settings: { beatSettings: { ...DEFAULT_BEAT_REACTIONS, burstSize: 10 } } });
+        runFrames(simulation, 2);
+        const before = simulation.system.particles.count;
+
+        simulation.handle({
+            type: 'audio',
+            bands: SILENT_BANDS,
+            rms: 0,
+            beat: { time: 0, strength: 1, index: 0, isDownbeat: true, bpm: null },
+            position: 0,
+        });
+        simulation.frame(2 * FRAME);
+        expect(simulation.system.particles.count).toBe(before + 10);
+
+        // The beat is used once
+        simulation.frame(3 * FRAME);
+        expect(simulation.system.particles.count).toBe(before + 10);
+    });
+
+    it('adds no particles while paused', () => {
+        const { simulation } = createSimulation();
+        simulation.handle({ type: 'settings', settings: { paused: true } });
+        runFrames(simulation, 2);
+        const before = simulation.system.particles.count;
+
+        simulation.handle({
+            type: 'audio',
+            bands: SILENT_BANDS,
+            rms: 0,
+            beat: { time: 0, strength: 1, index: 0, isDownbeat: true, bpm: null },
+            position: 0,
+        });
+        simulation.handle({ type: 'burst', x: 100, y: 50 });
+        runFrames(simulation, 2, FRAME, 2 * FRAME);
+
+        expect(simulation.system.particles.count).toBe(before);
+    });
+
+    it('bursts at a point on request', () => {
+        const { simulation } = createSimulation();
+        const before = simulation.system.particles.count;
+
+        simulation.handle({ type: 'burst', x: 100, y: 50 });
+
+        const { particles } = simulation.system;
+        expect(particles.count).toBe(before + TAP_BURST_SIZE);
+        expect(particles.x[before]).toBe(100);
+        expect(particles.y[before]).toBe(50);
+    });
+
+    it('only moves while paused when stepped', () => {
+        const { simulation } = createSimulation();
+        const { particles } = simulation.system;
+        const x = particles.x[0];
+        simulation.handle({ type: 'settings', settings: { paused: true } });
+        runFrames(simulation, 10);
+
+        expect(particles.x[0]).toBe(x);
+        simulation.handle({ type: 'step' });
+        expect(particles.x[0]).not.toBe(x);
+    });
+
+    it('lowers the quality when frames are slow and adaptive quality is on', () => {
+        const { simulation, events } = createSimulation();
+        runFrames(simulation, 120, 50);
+        expect(events.filter(event => event.type === 'quality')).toHaveLength(0);
+
+        simulation.handle({ type: 'settings', settings: { isAdaptiveQuality: true, targetFps: 60 } });
+        runFrames(simulation, 120, 50, 6000);
+        const levels = events.flatMap(event => (event.type === 'quality' ? [event.level] : []));
+        expect(levels.length).toBeGreaterThan(0);
+        expect(levels[0]).toBe(1);
+    });
+
+    it('turns down snapshots while it has nothing to draw into', () => {
+        const { simulation, events } = createSimulation();
+
+        simulation.handle({ type: 'snapshot', id: 3 });
+
+        expect(events).toContainEqual(expect.objectContaining({ type: 'snapshotError', id: 3 }));
+    });
+
+    it('reports stats a few times a second while asked to', () => {
+        const { simulation, events } = createSimulation();
+        runFrames(simulation, 60);
+        expect(events.some(event => event.type === 'stats')).toBe(false);
+
+        simulation.handle({ type: 'settings', settings: { reportStats: true } });
+        runFrames(simulation, 60, FRAME, 1000);
+        const stats = events.filter(event => event.type === 'stats');
+        expect(stats).toHaveLength(2);
+        expect(stats[0]).toMatchObject({ particles: simulation.system.particles.count });
+    });
+});
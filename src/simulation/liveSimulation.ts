@@ -0,0 +1,263 @@
+import { SILENT_BANDS, type BandEnergies } from '../audio/bands';
+import type { BeatEvent } from '../audio/beatDetector';
+import { canvasToBlob } from '../capture/files';
+import { BeatReactions } from '../engine/beatReactions';
+import { createRenderer, type RendererPreference } from '../engine/createRenderer';
+import { FixedTimestep } from '../engine/fixedTimestep';
+import { PointerTracker, TAP_BURST_SIZE, TAP_BURST_SPEED } from '../engine/interaction';
+import { ParticleSystem } from '../engine/particleSystem';
+import { PerformanceMonitor } from '../engine/performanceMonitor';
+import { applyQualityLevel, QUALITY_LEVELS, QualityGovernor } from '../engine/qualityGovernor';
+import { getRenderStyle, type Renderer } from '../engine/renderer';
+import { applyModulation, ModulationMatrix } from '../modulation/modulation';
+import { evaluateTimeline } from '../presets/timeline';
+import {
+    createSimulationSettings,
+    type SimulationEvent,
+    type SimulationInit,
+    type SimulationMessage,
+    type SimulationSettings,
+} from './messages';
+
+// How often stats are reported while asked for, milliseconds
+const STATS_INTERVAL = 500;
+
+const NO_RENDERER_MESSAGE = 'There is no canvas to take a snapshot of.';
+
+// Frame interval when the scope has no requestAnimationFrame
+const FALLBACK_FRAME_INTERVAL = 1000 / 60;
+
+/**
+ * The live simulation and its renderer, driven by messages. It runs inside
+ * the simulation worker, drawing into the transferred canvas, or on the main
+ * thread where workers cannot render. Either way it paces itself and reports
+ * back through onEvent.
+ */
+export class LiveSimulation {
+    readonly system: ParticleSystem;
+    onEvent: ((event: SimulationEvent) => void) | null = null;
+    private settings: SimulationSettings;
+    private readonly clock = new FixedTimestep();
+    private readonly reactions = new BeatReactions();
+    private readonly matrix = new ModulationMatrix();
+    private readonly pointers = new PointerTracker();
+    private readonly monitor = new PerformanceMonitor();
+    private readonly governor = new QualityGovernor();
+    private canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    private renderer: Renderer | null = null;
+    private canvasWidth = 0; // Backing store pixels, 0 until the first resize
+    private canvasHeight = 0;
+    private pixelRatio = 1; // Canvas pixels per simulation pixel
+    private bands: BandEnergies = SILENT_BANDS;
+    private rms = 0;
+    private beat: BeatEvent | null = null; // Waiting for the next frame
+    private position = 0;
+    private snapshotIds: number[] = [];
+    private lastFrameTime: number | null = null;
+    private lastStatsTime = -Infinity;
+    private frameHandle: number | null = null;
+
+    constructor({ width, height, seed, config }: SimulationInit) {
+        this.system = new ParticleSystem({ width, height, seed, config });
+        this.settings = createSimulationSettings(config);
+    }
+
+    handle(message: SimulationMessage) {
+        switch (message.type) {
+            case 'canvas':
+                this.attachCanvas(message.canvas, message.renderer);
+                break;
+            case 'resize':
+                this.canvasWidth = message.canvasWidth;
+                this.canvasHeight = message.canvasHeight;
+                this.pixelRatio = message.pixelRatio;
+                this.applyCanvasSize();
+                this.system.resize(message.width, message.height);
+                break;
+            case 'settings':
+                this.updateSettings(message.settings);
+                break;
+            case 'audio':
+                this.bands = message.bands;
+                this.rms = message.rms;
+                this.position = message.position;
+                // A beat between two frames still counts
+                if (message.beat) this.beat = message.beat;
+                break;
+            case 'pointerDown':
+                this.pointers.down(message.id, message.x, message.y, message.time - performance.timeOrigin);
+                break;
+            case 'pointerMove':
+                this.pointers.move(message.id, message.x, message.y, message.time - performance.timeOrigin);
+                break;
+            case 'pointerUp':
+                this.pointers.up(message.id, message.hovers);
+                break;
+            case 'pointerLeave':
+                this.pointers.leave(message.id);
+                break;
+            case 'burst':
+                // A paused frame stays as it is
+                if (!this.clock.paused) this.system.burst(message.x, message.y, TAP_BURST_SIZE, TAP_BURST_SPEED);
+                break;
+            case 'step':
+                this.clock.stepOnce((stepSize) => this.system.step(stepSize));
+                break;
+            case 'snapshot':
+                if (this.renderer) this.snapshotIds.push(message.id);
+                else this.emit({ type: 'snapshotError', id: message.id, message: NO_RENDERER_MESSAGE });
+                break;
+        }
+    }
+
+    /** Simulate and draw one frame. now is milliseconds on performance.now()'s clock. */
+    frame(now: number) {
+        const { system, settings } = this;
+        const workStart = performance.now();
+        const dt = this.lastFrameTime === null ? 0 : (now - this.lastFrameTime) / 1000;
+        this.lastFrameTime = now;
+
+        // Step the quality down or up to hold the target frame rate
+        if (settings.isAdaptiveQuality && this.governor.update(dt, settings.targetFps)) {
+            this.emit({ type: 'quality', level: this.governor.level });
+        }
+        const quality = QUALITY_LEVELS[settings.isAdaptiveQuality ? this.governor.level : 0];
+
+        // Beats while paused are let go, and the envelope holds with the frame
+        if (!this.clock.paused) this.reactions.update(system, this.beat, settings.beatSettings, dt);
+        this.beat = null;
+
+        // The timeline follows the track position
+        const timed = settings.timeline ? evaluateTimeline(settings.timeline, settings.config, this.position) : settings.config;
+
+        // Apply the modulation matrix on top of the slider values
+        const offsets = this.matrix.update(
+            settings.modulations,
+            { bands: this.bands, rms: this.rms, beat: this.reactions.envelope, time: now / 1000 },
+            dt,
+            timed.effects.audioReactivity
+        );
+        const governed = applyQualityLevel({ ...timed, effects: applyModulation(timed.effects, offsets) }, quality);
+
+        system.setConfig(governed);
+        system.setAudioBands(this.bands);
+        system.setPointers(this.pointers.getPointers(now), settings.interactionMode);
+        system.setForces(settings.forces);
+        system.setEmitters(settings.emitters, Math.round(settings.particleCap * quality.particleScale));
+        system.setBoundary(settings.boundary, settings.maskBitmap);
+        const alpha = this.clock.advance(dt, (stepSize) => system.step(stepSize));
+
+        if (this.renderer) {
+            this.renderer.render({
+                particles: system.particles,
+                connections: system.connections,
+                width: system.width,
+                height: system.height,
+                pixelRatio: this.pixelRatio,
+                alpha,
+                style: getRenderStyle(
+                    governed.effects,
+                    governed.lineWidth,
+                    this.reactions.getGlowBoost(settings.beatSettings),
+                    this.reactions.shapeOffset
+                ),
+                composition: settings.composition,
+                backgroundImage: settings.backgroundImage,
+            });
+            this.takeSnapshots();
+        }
+
+        this.monitor.record(dt, (performance.now() - workStart) / 1000);
+        if (settings.reportStats && now - this.lastStatsTime >= STATS_INTERVAL) {
+            this.lastStatsTime = now;
+            this.emit({
+                type: 'stats',
+                stats: this.monitor.getStats(),
+                particles: system.particles.count,
+                lines: system.connections.length,
+            });
+        }
+    }
+
+    /** Run frames on the display's refresh until stopped. */
+    start() {
+        if (this.frameHandle !== null) return;
+        const hasAnimationFrame = typeof requestAnimationFrame === 'function';
+        const loop = () => {
+            this.frame(performance.now());
+            this.frameHandle = hasAnimationFrame ? requestAnimationFrame(loop) : setTimeout(loop, FALLBACK_FRAME_INTERVAL);
+        };
+        this.frameHandle = hasAnimationFrame ? requestAnimationFrame(loop) : setTimeout(loop, FALLBACK_FRAME_INTERVAL);
+    }
+
+    stop() {
+        if (this.frameHandle === null) return;
+        if (typeof cancelAnimationFrame === 'function') cancelAnimationFrame(this.frameHandle);
+        else clearTimeout(this.frameHandle);
+        this.frameHandle = null;
+        this.lastFrameTime = null;
+    }
+
+    dispose() {
+        this.stop();
+        this.renderer?.dispose();
+        this.renderer = null;
+        this.canvas = null;
+    }
+
+    private attachCanvas(canvas: HTMLCanvasElement | OffscreenCanvas, preference: RendererPreference) {
+        this.renderer?.dispose();
+        this.renderer = null;
+        this.canvas = canvas;
+        this.applyCanvasSize();
+        const created = createRenderer(canvas, preference);
+        if (created.renderer) {
+            this.renderer = created.renderer;
+        } else {
+            // Nothing will be drawn to take them from
+            this.snapshotIds.forEach(id => this.emit({ type: 'snapshotError', id, message: NO_RENDERER_MESSAGE }));
+            this.snapshotIds = [];
+        }
+        this.emit({ type: 'renderer', kind: created.kind, error: created.error });
+    }
+
+    // Assigning the size clears the canvas, so only do it on a real change
+    private applyCanvasSize() {
+        const { canvas, canvasWidth, canvasHeight } = this;
+        if (!canvas || !canvasWidth || !canvasHeight) return;
+        if (canvas.width !== canvasWidth || canvas.height !== canvasHeight) {
+            canvas.width = canvasWidth;
+            canvas.height = canvasHeight;
+        }
+    }
+
+    private updateSettings(changes: Partial<SimulationSettings>) {
+        const previous = this.settings;
+        this.settings = { ...previous, ...changes };
+        const { settings, clock } = this;
+        // Judge afresh from full quality, also when it is switched back on later
+        if (settings.isAdaptiveQuality !== previous.isAdaptiveQuality) this.governor.reset();
+        // A bitmap posted to a worker is a copy that only the simulation holds
+        if (previous.backgroundImage && previous.backgroundImage !== settings.backgroundImage) previous.backgroundImage.close();
+        clock.paused = settings.paused;
+        clock.timeScale = settings.timeScale;
+    }
+
+    // WebGL may clear the canvas once the frame is presented, so read it back right after drawing
+    private takeSnapshots() {
+        const { canvas, snapshotIds } = this;
+        if (!canvas || !snapshotIds.length) return;
+        this.snapshotIds = [];
+        canvasToBlob(canvas).then(
+            blob => snapshotIds.forEach(id => this.emit({ type: 'snapshot', id, blob })),
+            (error: unknown) => {
+                const message = error instanceof Error ? error.message : 'The canvas could not be encoded.';
+                snapshotIds.forEach(id => this.emit({ type: 'snapshotError', id, message }));
+            }
+        );
+    }
+
+    private emit(event: SimulationEvent) {
+        this.onEvent?.(event);
+    }
+}
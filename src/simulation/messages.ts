@@ -0,0 +1,88 @@
+import type { BandEnergies } from '../audio/bands';
+import type { BeatEvent } from '../audio/beatDetector';
+import type { VisualizerConfig } from '../config/visualizerConfig';
+import { DEFAULT_BEAT_REACTIONS, type BeatReactionSettings } from '../engine/beatReactions';
+import { DEFAULT_BOUNDARY, type BoundaryConfig, type MaskBitmap } from '../engine/boundary';
+import { DEFAULT_COMPOSITION, type Composition } from '../engine/composition';
+import type { RendererKind, RendererPreference } from '../engine/createRenderer';
+import { DEFAULT_PARTICLE_CAP, type Emitter } from '../engine/emitters';
+import type { Force } from '../engine/forces';
+import type { InteractionMode } from '../engine/interaction';
+import type { FrameStats } from '../engine/performanceMonitor';
+import { DEFAULT_TARGET_FPS } from '../engine/qualityGovernor';
+import { DEFAULT_BINDINGS, type ModulationBinding } from '../modulation/modulation';
+import type { Timeline } from '../presets/timeline';
+
+/** Everything the panel sets that the simulation and renderer read every frame. */
+export interface SimulationSettings {
+    config: VisualizerConfig;
+    timeline: Timeline | null; // Drives the settings by the track position when given
+    modulations: ModulationBinding[];
+    beatSettings: BeatReactionSettings;
+    forces: Force[];
+    emitters: Emitter[];
+    particleCap: number;
+    interactionMode: InteractionMode;
+    boundary: BoundaryConfig;
+    maskBitmap: MaskBitmap | null;
+    composition: Composition;
+    backgroundImage: ImageBitmap | null;
+    isAdaptiveQuality: boolean;
+    targetFps: number;
+    paused: boolean;
+    timeScale: number;
+    reportStats: boolean; // Send stats events a few times a second
+}
+
+export const createSimulationSettings = (config: VisualizerConfig): SimulationSettings => ({
+    config,
+    timeline: null,
+    modulations: DEFAULT_BINDINGS,
+    beatSettings: DEFAULT_BEAT_REACTIONS,
+    forces: [],
+    emitters: [],
+    particleCap: DEFAULT_PARTICLE_CAP,
+    interactionMode: 'repel',
+    boundary: DEFAULT_BOUNDARY,
+    maskBitmap: null,
+    composition: DEFAULT_COMPOSITION,
+    backgroundImage: null,
+    isAdaptiveQuality: false,
+    targetFps: DEFAULT_TARGET_FPS,
+    paused: false,
+    timeScale: 1,
+    reportStats: false,
+});
+
+export interface SimulationInit {
+    seed: number;
+    width: number; // CSS pixels
+    height: number;
+    config: VisualizerConfig;
+}
+
+// Pointer times are epoch milliseconds (performance.timeOrigin plus the event
+// timestamp), as the page and a worker each count performance.now() from their own start
+export type SimulationMessage =
+    | { type: 'canvas'; canvas: HTMLCanvasElement | OffscreenCanvas; renderer: RendererPreference }
+    | { type: 'resize'; width: number; height: number; canvasWidth: number; canvasHeight: number; pixelRatio: number }
+    | { type: 'settings'; settings: Partial<SimulationSettings> }
+    | { type: 'audio'; bands: BandEnergies; rms: number; beat: BeatEvent | null; position: number } // Position in the track, seconds
+    | { type: 'pointerDown'; id: number; x: number; y: number; time: number }
+    | { type: 'pointerMove'; id: number; x: number; y: number; time: number }
+    | { type: 'pointerUp'; id: number; hovers: boolean }
+    | { type: 'pointerLeave'; id: number }
+    | { type: 'burst'; x: number; y: number } // CSS pixels
+    | { type: 'step' } // One simulation step, e.g. while paused
+    | { type: 'snapshot'; id: number }; // PNG of the next rendered frame
+
+/** What the page sends a simulation worker, starting with init. */
+export type WorkerMessage = ({ type: 'init' } & SimulationInit) | SimulationMessage;
+
+export type SimulationEvent =
+    | { type: 'renderer'; kind: RendererKind | null; error: string | null } // Kind is null when the canvas has no usable context
+    | { type: 'quality'; level: number } // The adaptive quality level changed
+    | { type: 'stats'; stats: FrameStats; particles: number; lines: number }
+    | { type: 'snapshot'; id: number; blob: Blob }
+    | { type: 'snapshotError'; id: number; message: string }
+    | { type: 'workerError'; message: string }; // The worker failed, the simulation carries on in this thread
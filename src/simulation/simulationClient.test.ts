@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG } from '../config/visualizerConfig';
+import type { SimulationEvent } from './messages';
+import { SimulationClient } from './simulationClient';
+
+// Stands in for the worker, keeping what was posted to it
+class FakeWorker {
+    static last: FakeWorker | null = null;
+    onmessage: ((e: MessageEvent) => void) | null = null;
+    onerror: ((e: ErrorEvent) => void) | null = null;
+    onmessageerror: (() => void) | null = null;
+    messages: unknown[] = [];
+    terminated = false;
+
+    constructor() {
+        FakeWorker.last = this;
+    }
+
+    postMessage(message: unknown) {
+        this.messages.push(message);
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+}
+
+describe('SimulationClient', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('carries on in this thread when the worker fails', () => {
+        vi.stubGlobal('Worker', FakeWorker);
+        vi.stubGlobal('OffscreenCanvas', class {});
+        vi.stubGlobal('HTMLCanvasElement', class {
+            transferControlToOffscreen() {}
+        });
+        const client = new SimulationClient({ width: 320, height: 240, seed: 1, config: DEFAULT_CONFIG });
+        const events: SimulationEvent[] = [];
+        client.onEvent = (event) => events.push(event);
+        const worker = FakeWorker.last!;
+        expect(client.isInWorker).toBe(true);
+        expect(worker.messages[0]).toMatchObject({ type: 'init', seed: 1 });
+
+        client.post({ type: 'snapshot', id: 1 });
+        worker.onerror?.({ message: 'Script error' } as ErrorEvent);
+
+        expect(worker.terminated).toBe(true);
+        expect(client.isInWorker).toBe(false);
+        expect(events).toEqual([
+            expect.objectContaining({ type: 'snapshotError', id: 1 }),
+            expect.objectContaining({ type: 'workerError' }),
+        ]);
+
+        // The main thread simulation has no canvas yet
+        client.post({ type: 'snapshot', id: 2 });
+        expect(events[2]).toMatchObject({ type: 'snapshotError', id: 2 });
+        client.dispose();
+    });
+});
@@ -0,0 +1,115 @@
+import type { RendererPreference } from '../engine/createRenderer';
+import { LiveSimulation } from './liveSimulation';
+import type { SimulationEvent, SimulationInit, SimulationMessage, SimulationSettings, WorkerMessage } from './messages';
+
+/** Workers can only draw where a canvas can hand its control over to an OffscreenCanvas. */
+export const isWorkerRenderingSupported = () =>
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function';
+
+// A canvas can be transferred once, after that only its worker can draw into it
+const transferredCanvases = new WeakSet<HTMLCanvasElement>();
+
+/**
+ * The page's end of the live simulation. Where supported the simulation and
+ * its renderer run in a worker that owns the canvas, so a busy page does not
+ * drop frames; otherwise they run on the main thread behind the same messages.
+ * A worker that fails is replaced by the main thread simulation, which picks
+ * up the settings and size sent so far but needs a fresh canvas.
+ */
+export class SimulationClient {
+    onEvent: ((event: SimulationEvent) => void) | null = null;
+    private readonly init: SimulationInit;
+    private worker: Worker | null = null;
+    private simulation: LiveSimulation | null = null;
+    private settings: Partial<SimulationSettings> = {}; // Everything sent so far, to restart from
+    private resize: (SimulationMessage & { type: 'resize' }) | null = null;
+    private readonly pendingSnapshots = new Set<number>(); // Sent to the worker and not answered yet
+
+    constructor(init: SimulationInit) {
+        this.init = init;
+        if (isWorkerRenderingSupported()) {
+            const worker = new Worker(new URL('./simulationWorker.ts', import.meta.url), { type: 'module' });
+            worker.onmessage = (e: MessageEvent<SimulationEvent>) => this.handleWorkerEvent(e.data);
+            worker.onerror = (e) => this.fallBack(e.message);
+            worker.onmessageerror = () => this.fallBack('a message could not be read');
+            this.worker = worker;
+            this.postToWorker({ type: 'init', ...init });
+        } else {
+            this.startSimulation();
+        }
+    }
+
+    get isInWorker() {
+        return this.worker !== null;
+    }
+
+    post(message: SimulationMessage) {
+        if (message.type === 'settings') this.settings = { ...this.settings, ...message.settings };
+        if (message.type === 'resize') this.resize = message;
+        if (this.worker) {
+            if (message.type === 'snapshot') this.pendingSnapshots.add(message.id);
+            this.postToWorker(message);
+        } else {
+            this.simulation?.handle(message);
+        }
+    }
+
+    /**
+     * Draw into a canvas from now on. Returns false when the canvas was
+     * already handed to a worker, in which case it needs a fresh element.
+     */
+    attachCanvas(canvas: HTMLCanvasElement, renderer: RendererPreference) {
+        if (transferredCanvases.has(canvas)) return false;
+        if (!this.worker) {
+            this.simulation?.handle({ type: 'canvas', canvas, renderer });
+            return true;
+        }
+        const offscreen = canvas.transferControlToOffscreen();
+        transferredCanvases.add(canvas);
+        this.worker.postMessage({ type: 'canvas', canvas: offscreen, renderer } satisfies WorkerMessage, [offscreen]);
+        return true;
+    }
+
+    dispose() {
+        this.worker?.terminate();
+        this.worker = null;
+        this.simulation?.dispose();
+        this.simulation = null;
+    }
+
+    private handleWorkerEvent(event: SimulationEvent) {
+        if (event.type === 'snapshot' || event.type === 'snapshotError') this.pendingSnapshots.delete(event.id);
+        this.onEvent?.(event);
+    }
+
+    private fallBack(reason: string) {
+        if (!this.worker) return;
+        this.worker.terminate();
+        this.worker = null;
+        // The worker took its canvas and any frames it was going to snapshot with it
+        for (const id of this.pendingSnapshots) {
+            this.onEvent?.({ type: 'snapshotError', id, message: 'The simulation worker stopped before the snapshot.' });
+        }
+        this.pendingSnapshots.clear();
+        this.startSimulation();
+        this.onEvent?.({
+            type: 'workerError',
+            message: `The simulation worker failed${reason ? ` (${reason})` : ''}, running on the main thread instead.`,
+        });
+    }
+
+    private startSimulation() {
+        const simulation = new LiveSimulation(this.init);
+        simulation.onEvent = (event) => this.onEvent?.(event);
+        simulation.handle({ type: 'settings', settings: this.settings });
+        if (this.resize) simulation.handle(this.resize);
+        simulation.start();
+        this.simulation = simulation;
+    }
+
+    private postToWorker(message: WorkerMessage) {
+        this.worker?.postMessage(message);
+    }
+}
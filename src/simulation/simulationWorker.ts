@@ -0,0 +1,22 @@
+import { LiveSimulation } from './liveSimulation';
+import type { SimulationEvent, WorkerMessage } from './messages';
+
+// The project is typed against the DOM, so describe the worker scope this uses
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<WorkerMessage>) => void) | null;
+    postMessage(event: SimulationEvent): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let simulation: LiveSimulation | null = null;
+
+scope.onmessage = ({ data }) => {
+    if (data.type === 'init') {
+        simulation = new LiveSimulation(data);
+        simulation.onEvent = (event) => scope.postMessage(event);
+        simulation.start();
+        return;
+    }
+    simulation?.handle(data);
+};
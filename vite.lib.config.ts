@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// Builds the embeddable component and mount() from src/lib into dist-lib.
+// React and the other dependencies are left for the host app to provide.
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    outDir: 'dist-lib',
+    copyPublicDir: false,
+    lib: {
+      entry: 'src/lib/index.ts',
+      formats: ['es'],
+      fileName: 'particle-visualizer',
+      cssFileName: 'particle-visualizer',
+    },
+    rollupOptions: {
+      external: /^(react|react-dom|tone|fflate|webm-muxer)(\/|$)/,
+    },
+  },
+})